@@ -0,0 +1,126 @@
+// api/og.ts
+// Link previews. vercel.json rewrites shareable links (posts, profiles, statuses, forum
+// posts, gazebo invites) here. The page served is index.html with its title, description,
+// Open Graph and Twitter tags swapped for the linked content, so crawlers get a real
+// preview and browsers boot the SPA exactly as before.
+import { createClient } from '@supabase/supabase-js';
+
+type PreviewKind = 'profile' | 'post' | 'status' | 'forum_post' | 'invite';
+
+type Preview = {
+  title: string;
+  description: string | null;
+  image: string | null;
+  published_at?: string;
+};
+
+const KINDS: PreviewKind[] = ['profile', 'post', 'status', 'forum_post', 'invite'];
+const DESCRIPTION_LENGTH = 200;
+
+// Where each kind lives in the app, for og:url. Forum post links also carry their forum.
+const CANONICAL_PATHS: Record<PreviewKind, (key: string, params: URLSearchParams) => string> = {
+  profile: key => `/${encodeURIComponent(key)}`,
+  post: key => `/post/${key}`,
+  status: key => `/status/${key}`,
+  forum_post: (key, params) => `/forums/${params.get('forum')}/posts/${key}`,
+  invite: key => `/invite/${encodeURIComponent(key)}`,
+};
+
+// Only a successful fetch is kept; a failed one is retried on the next request
+let template: string | null = null;
+
+const loadTemplate = async (origin: string) => {
+  if (!template) {
+    const response = await fetch(new URL('/index.html', origin));
+    if (!response.ok) throw new Error(`index.html: HTTP ${response.status}`);
+    template = await response.text();
+  }
+  return template;
+};
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+const truncate = (value: string, length: number) => {
+  const flat = value.replace(/\s+/g, ' ').trim();
+  return flat.length > length ? `${flat.slice(0, length - 1)}…` : flat;
+};
+
+// Replaces a <meta> tag's content, or adds the tag if index.html doesn't have it
+const setMeta = (html: string, attribute: 'name' | 'property', key: string, content: string) => {
+  const tag = `<meta ${attribute}="${key}" content="${escapeHtml(content)}"/>`;
+  const existing = new RegExp(`<meta ${attribute}="${key}" content="[^"]*"\\s*/?>`);
+  return existing.test(html) ? html.replace(existing, tag) : html.replace('</head>', `${tag}\n</head>`);
+};
+
+const removeMeta = (html: string, attribute: 'name' | 'property', key: string) =>
+  html.replace(new RegExp(`<meta ${attribute}="${key}" content="[^"]*"\\s*/?>\\n?`), '');
+
+const renderPreview = (html: string, kind: PreviewKind, preview: Preview, url: string) => {
+  const description = truncate(preview.description ?? '', DESCRIPTION_LENGTH);
+  const smallCard = kind === 'profile' || kind === 'invite';
+
+  let page = html.replace(/<title>[^<]*<\/title>/, `<title>${escapeHtml(preview.title)} · Liaoverse</title>`);
+  page = setMeta(page, 'property', 'og:title', preview.title);
+  page = setMeta(page, 'name', 'twitter:title', preview.title);
+  page = setMeta(page, 'property', 'og:url', url);
+  page = setMeta(page, 'property', 'og:type', kind === 'profile' ? 'profile' : 'article');
+  page = setMeta(page, 'name', 'twitter:card', smallCard || !preview.image ? 'summary' : 'summary_large_image');
+  if (description) {
+    page = setMeta(page, 'name', 'description', description);
+    page = setMeta(page, 'property', 'og:description', description);
+    page = setMeta(page, 'name', 'twitter:description', description);
+  }
+  if (preview.image) {
+    // The default banner's dimensions don't apply to the linked image
+    page = removeMeta(page, 'property', 'og:image:width');
+    page = removeMeta(page, 'property', 'og:image:height');
+    page = setMeta(page, 'property', 'og:image', preview.image);
+    page = setMeta(page, 'name', 'twitter:image', preview.image);
+  }
+  if (preview.published_at) page = setMeta(page, 'property', 'article:published_time', preview.published_at);
+  return page;
+};
+
+export async function GET(request: Request) {
+  const requestUrl = new URL(request.url);
+  const kind = requestUrl.searchParams.get('kind') as PreviewKind | null;
+  const key = requestUrl.searchParams.get('key');
+
+  let html: string;
+  try {
+    html = await loadTemplate(requestUrl.origin);
+  } catch (error) {
+    // Without index.html there's nothing to put a preview in, so send the browser back to
+    // the same page with ?spa, which vercel.json serves as plain index.html
+    console.error('Link preview template error:', (error as Error).message);
+    const path = kind && KINDS.includes(kind) && key ? CANONICAL_PATHS[kind](key, requestUrl.searchParams) : '/';
+    const fallback = new URL(path, requestUrl.origin);
+    fallback.searchParams.set('spa', '1');
+    return new Response(null, {
+      status: 302,
+      headers: { location: fallback.toString(), 'cache-control': 'no-store' },
+    });
+  }
+
+  const respond = (body: string) => new Response(body, {
+    headers: {
+      'content-type': 'text/html; charset=utf-8',
+      // Previews may lag an edit by a few minutes; deleted or hidden content drops out just as fast
+      'cache-control': 'public, max-age=0, s-maxage=300, stale-while-revalidate=600',
+    },
+  });
+
+  if (!kind || !KINDS.includes(kind) || !key) return respond(html);
+
+  // The anon key on purpose: link_preview() decides what's public, nothing here can see more
+  const supabase = createClient(process.env.VITE_SUPABASE_URL!, process.env.VITE_SUPABASE_ANON_KEY!, {
+    auth: { persistSession: false },
+  });
+  const { data, error } = await supabase.rpc('link_preview', { kind, key });
+  if (error) console.error('Link preview error:', error.message);
+  if (error || !data) return respond(html);
+
+  const url = new URL(CANONICAL_PATHS[kind](key, requestUrl.searchParams), requestUrl.origin).toString();
+  return respond(renderPreview(html, kind, data as Preview, url));
+}
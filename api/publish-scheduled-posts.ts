@@ -0,0 +1,23 @@
+// api/publish-scheduled-posts.ts
+// Publishes scheduled posts that are due; the inserts reach feeds through realtime like
+// any other new post. The scheduled posts migration already runs this every minute with
+// pg_cron. This endpoint is for triggering it from outside instead (a Vercel Pro cron or
+// any other scheduler), with the CRON_SECRET as a bearer token.
+import { createClient } from '@supabase/supabase-js';
+
+export async function GET(request: Request) {
+  // Callers send the CRON_SECRET as a bearer token; with none set, nothing is authorized
+  const secret = process.env.CRON_SECRET;
+  if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return new Response('Unauthorized', { status: 401 });
+  }
+
+  const supabase = createClient(process.env.VITE_SUPABASE_URL!, process.env.SUPABASE_SERVICE_ROLE_KEY!, {
+    auth: { persistSession: false },
+  });
+
+  const { data: published, error } = await supabase.rpc('publish_due_scheduled_posts');
+  if (error) return Response.json({ error: error.message }, { status: 500 });
+
+  return Response.json({ posts: (published ?? []).length });
+}
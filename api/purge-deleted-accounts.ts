@@ -0,0 +1,40 @@
+// api/purge-deleted-accounts.ts
+// Daily Vercel cron (see vercel.json). Deletes accounts whose grace period is over,
+// then removes their files, which only the Storage API can do.
+import { createClient } from '@supabase/supabase-js';
+
+const ORPHAN_BATCH_SIZE = 1000;
+
+export async function GET(request: Request) {
+  // Vercel sends the project's CRON_SECRET with scheduled invocations. Without one set,
+  // nothing is authorized (otherwise "Bearer undefined" would be).
+  const secret = process.env.CRON_SECRET;
+  if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return new Response('Unauthorized', { status: 401 });
+  }
+
+  const supabase = createClient(process.env.VITE_SUPABASE_URL!, process.env.SUPABASE_SERVICE_ROLE_KEY!, {
+    auth: { persistSession: false },
+  });
+
+  const { data: purged, error } = await supabase.rpc('purge_due_account_deletions');
+  if (error) return Response.json({ error: error.message }, { status: 500 });
+
+  // The purge queues every file of a deleted account in storage_orphans. Anything
+  // left there for a day is fair game too: its owner's client never drained it.
+  const { data: orphans, error: orphanError } = await supabase
+    .from('storage_orphans')
+    .select('name')
+    .lt('created_at', new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString())
+    .limit(ORPHAN_BATCH_SIZE);
+  if (orphanError) return Response.json({ error: orphanError.message }, { status: 500 });
+
+  const names = (orphans ?? []).map(orphan => orphan.name);
+  if (names.length) {
+    const { error: removeError } = await supabase.storage.from('media').remove(names);
+    if (removeError) return Response.json({ error: removeError.message }, { status: 500 });
+    await supabase.from('storage_orphans').delete().in('name', names);
+  }
+
+  return Response.json({ accounts: (purged ?? []).length, files: names.length });
+}
@@ -0,0 +1,200 @@
+// src/components/AccountData.tsx
+import { useRef, useState } from 'react';
+import { Download, Trash2 } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { ExportArchive, ExportProgress, exportAccountData, requestAccountDeletion } from '../lib/account';
+import { formatBytes } from '../lib/storage';
+import { MfaStepUp } from './MfaStepUp';
+
+const STAGE_LABELS: Record<ExportProgress['stage'], string> = {
+  data: 'Collecting posts, messages and activity',
+  media: 'Downloading your uploads',
+  archive: 'Packing the archive',
+};
+
+// Settings panel: download everything the account owns as a ZIP
+export const DataExport = () => {
+  const { user } = useAuth();
+  const [progress, setProgress] = useState<ExportProgress | null>(null);
+  const [result, setResult] = useState<string | null>(null);
+  const [error, setError] = useState('');
+  // A packed archive after the first, waiting for its download button
+  const [waitingPart, setWaitingPart] = useState<{ part: number; size: number } | null>(null);
+  const saveWaitingPartRef = useRef<(() => void) | null>(null);
+
+  const handleExport = async () => {
+    if (!user) return;
+    setError('');
+    setResult(null);
+    setProgress({ stage: 'data', done: 0, total: 1 });
+    const name = `liaoverse-export-${new Date().toISOString().slice(0, 10)}`;
+    let bytes = 0;
+    // Saved as soon as each is packed, so only one archive is in memory at a time
+    const save = ({ data, part, last }: ExportArchive) => {
+      const download = () => {
+        const url = URL.createObjectURL(data);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = part === 1 && last ? `${name}.zip` : `${name}-part${part}.zip`;
+        link.click();
+        // Revoking straight away can cancel a large download in Firefox and Safari
+        setTimeout(() => URL.revokeObjectURL(url), 60 * 1000);
+        bytes += data.size;
+      };
+      if (part === 1) {
+        download();
+        return;
+      }
+
+      // Later parts are ready long after the click that started the export, and browsers
+      // block downloads nobody asked for, so each waits for its own click
+      return new Promise<void>(resolve => {
+        saveWaitingPartRef.current = () => {
+          download();
+          saveWaitingPartRef.current = null;
+          setWaitingPart(null);
+          resolve();
+        };
+        setWaitingPart({ part, size: data.size });
+      });
+    };
+
+    const { data: archives, error } = await exportAccountData(user.id, save, setProgress);
+    setProgress(null);
+    if (error || !archives) {
+      setError(bytes ? 'Export failed partway. The archives already downloaded are incomplete; please try again.' : 'Export failed. Please try again.');
+      console.error('Account export error:', error);
+      return;
+    }
+    setResult(archives > 1 ? `Downloaded ${archives} archives, ${formatBytes(bytes)} in total.` : `Downloaded ${formatBytes(bytes)}.`);
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-[rgb(var(--color-text-secondary))]">
+        Get a copy of your profile, posts, comments, likes, messages, statuses (including archived ones), forum posts and
+        uploaded files. The archive includes a manifest.json describing its contents. Large accounts are split into
+        several archives; each one after the first gets its own download button when it's ready.
+      </p>
+      {waitingPart ? (
+        <div className="space-y-2">
+          <p className="text-sm text-[rgb(var(--color-text))]">
+            Part {waitingPart.part} of your export is ready ({formatBytes(waitingPart.size)}). The rest continues once it's saved.
+          </p>
+          <button
+            onClick={() => saveWaitingPartRef.current?.()}
+            className="px-4 py-2 bg-[rgb(var(--color-primary))] text-[rgb(var(--color-text-on-primary))] rounded-lg hover:bg-[rgb(var(--color-accent))] transition flex items-center gap-2"
+          >
+            <Download size={16} /> Download part {waitingPart.part}
+          </button>
+        </div>
+      ) : progress ? (
+        <div className="space-y-1">
+          <p className="text-sm text-[rgb(var(--color-text))]">
+            {STAGE_LABELS[progress.stage]}{progress.total > 1 && ` (${progress.done}/${progress.total})`}...
+          </p>
+          <div className="h-1.5 rounded-full bg-[rgb(var(--color-border))] overflow-hidden">
+            <div
+              className="h-full bg-[rgb(var(--color-primary))] transition-all"
+              style={{ width: `${Math.round((progress.done / Math.max(progress.total, 1)) * 100)}%` }}
+            />
+          </div>
+          <p className="text-xs text-[rgb(var(--color-text-secondary))]">Keep this tab open until the download starts.</p>
+        </div>
+      ) : (
+        <button
+          onClick={handleExport}
+          className="px-4 py-2 bg-[rgb(var(--color-primary))] text-[rgb(var(--color-text-on-primary))] rounded-lg hover:bg-[rgb(var(--color-accent))] transition flex items-center gap-2"
+        >
+          <Download size={16} /> Download my data
+        </button>
+      )}
+      {result && <p className="text-sm text-green-600">{result}</p>}
+      {error && <p className="text-sm text-red-500">{error}</p>}
+    </div>
+  );
+};
+
+// Settings panel: queue the account for deletion after a grace period
+export const DeleteAccount = () => {
+  const { profile, hasMfa, isMfaFresh, signOut } = useAuth();
+  const [confirmText, setConfirmText] = useState('');
+  const [showConfirm, setShowConfirm] = useState(false);
+  const [stepUp, setStepUp] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const deleteAccount = async () => {
+    setLoading(true);
+    setError('');
+    const { data, error } = await requestAccountDeletion();
+    if (error || !data) {
+      setError(error?.message || 'Could not schedule deletion.');
+      setLoading(false);
+      return;
+    }
+    alert(`Your account will be deleted on ${new Date(data).toLocaleDateString()}. Sign in before then to keep it.`);
+    // Signs out every device, not just this one
+    await signOut();
+  };
+
+  const handleDelete = () => {
+    if (hasMfa && !isMfaFresh()) setStepUp(true);
+    else deleteAccount();
+  };
+
+  if (!profile) return null;
+
+  return (
+    <div className="space-y-3">
+      <p className="text-[rgb(var(--color-text-secondary))]">
+        Your account is deleted 30 days after you ask, and you're signed out everywhere. Sign back in before then to cancel.
+        After that your profile, posts, comments, messages, statuses and files are removed for good; gazebos, groups and
+        forums you own pass to another member.
+      </p>
+      {showConfirm ? (
+        <div className="space-y-3">
+          <p className="text-sm text-[rgb(var(--color-text))]">
+            Type <span className="font-mono font-semibold">{profile.username}</span> to confirm.
+          </p>
+          <input
+            type="text"
+            value={confirmText}
+            onChange={(e) => setConfirmText(e.target.value)}
+            className="w-full px-3 py-2 border border-[rgb(var(--color-border))] rounded-lg focus:outline-none focus:border-red-500"
+          />
+          <div className="flex gap-2">
+            <button
+              onClick={handleDelete}
+              disabled={loading || confirmText !== profile.username}
+              className="flex-1 py-2 bg-red-500 text-white rounded-lg hover:bg-red-600 disabled:bg-[rgb(var(--color-border))] transition"
+            >
+              {loading ? '...' : 'Delete my account'}
+            </button>
+            <button
+              onClick={() => { setShowConfirm(false); setConfirmText(''); setError(''); }}
+              className="px-4 py-2 bg-[rgb(var(--color-border))] text-[rgb(var(--color-text))] rounded-lg hover:bg-[rgb(var(--color-surface-hover))] transition"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      ) : (
+        <button
+          onClick={() => setShowConfirm(true)}
+          className="px-4 py-2 border border-red-500 text-red-500 rounded-lg hover:bg-red-500/10 transition flex items-center gap-2"
+        >
+          <Trash2 size={16} /> Delete account
+        </button>
+      )}
+      {error && <p className="text-sm text-red-500">{error}</p>}
+
+      {stepUp && (
+        <MfaStepUp
+          onVerified={() => { setStepUp(false); deleteAccount(); }}
+          onCancel={() => setStepUp(false)}
+        />
+      )}
+    </div>
+  );
+};
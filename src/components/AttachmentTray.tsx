@@ -0,0 +1,76 @@
+// src/components/AttachmentTray.tsx
+import { useEffect, useState } from 'react';
+import { FileText, Music, X } from 'lucide-react';
+import type { PendingAttachment } from '../lib/attachments';
+
+interface AttachmentTrayProps {
+  items: PendingAttachment[];
+  onChange: (items: PendingAttachment[]) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+// Object URLs live as long as the thumbnail, not for the whole composer session
+const Thumbnail = ({ file, alt }: { file: File; alt: string }) => {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    const objectUrl = URL.createObjectURL(file);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [file]);
+
+  if (file.type.startsWith('image/')) return url ? <img src={url} className="w-full h-full object-cover" alt={alt || file.name} /> : null;
+  if (file.type.startsWith('video/')) return url ? <video src={url} className="w-full h-full object-cover" muted /> : null;
+  return (
+    <div className="flex flex-col items-center gap-1 p-2 text-[rgb(var(--color-text-secondary))]">
+      {file.type.startsWith('audio/') ? <Music size={20} /> : <FileText size={20} />}
+      <span className="text-[10px] text-center break-all line-clamp-2">{file.name}</span>
+    </div>
+  );
+};
+
+// Composer strip for picked files: previews, remove buttons and alt text for images
+export const AttachmentTray = ({ items, onChange, disabled, className = '' }: AttachmentTrayProps) => {
+  if (!items.length) return null;
+
+  const update = (id: string, patch: Partial<PendingAttachment>) =>
+    onChange(items.map(item => (item.id === id ? { ...item, ...patch } : item)));
+
+  return (
+    <div className={`flex gap-2 overflow-x-auto pb-1 ${className}`}>
+      {items.map(item => {
+        const isImage = item.file.type.startsWith('image/');
+        const isVideo = item.file.type.startsWith('video/');
+        return (
+          <div key={item.id} className="relative flex-shrink-0 w-28">
+            <div className="w-28 h-28 rounded-lg overflow-hidden bg-[rgb(var(--color-surface-hover))] border border-[rgb(var(--color-border))] flex items-center justify-center">
+              <Thumbnail file={item.file} alt={item.alt} />
+            </div>
+            {!disabled && (
+              <button
+                type="button"
+                onClick={() => onChange(items.filter(i => i.id !== item.id))}
+                className="absolute -top-1.5 -right-1.5 bg-red-500 text-white rounded-full p-0.5 shadow-md hover:bg-red-600"
+                title="Remove"
+              >
+                <X size={12} />
+              </button>
+            )}
+            {(isImage || isVideo) && (
+              <input
+                type="text"
+                value={item.alt}
+                onChange={(e) => update(item.id, { alt: e.target.value })}
+                disabled={disabled}
+                maxLength={1000}
+                placeholder="Alt text"
+                className="mt-1 w-full px-2 py-0.5 text-[11px] border border-[rgb(var(--color-border))] bg-[rgb(var(--color-surface))] rounded focus:outline-none focus:border-[rgb(var(--color-accent))] text-[rgb(var(--color-text))]"
+              />
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -1,6 +1,8 @@
 import { useState, useEffect } from 'react';
-import { useAuth } from '../contexts/AuthContext';
-import { LogIn, AlertCircle } from 'lucide-react';
+import { useAuth, OAuthProvider } from '../contexts/AuthContext';
+import { LogIn, AlertCircle, Github, Mail, KeyRound, ShieldCheck, Trash2 } from 'lucide-react';
+import { redeemRecoveryCode } from '../lib/mfa';
+import { UsernameStatus, checkUsername, describeUsernameStatus, normalizeUsername } from '../lib/usernames';
 
 const PolicyModal = ({ isOpen, title, slug, onClose }) => {
   if (!isOpen) return null;
@@ -40,6 +42,191 @@ const PolicyModal = ({ isOpen, title, slug, onClose }) => {
   );
 };
 
+// Animated wave backdrop shared by the sign-in and first-login screens
+const WaveBackground = () => (
+  <div className="absolute inset-0 -z-10">
+    <svg
+      className="w-full h-full"
+      viewBox="0 0 1440 1024"
+      preserveAspectRatio="none"
+      xmlns="http://www.w3.org/2000/svg"
+    >
+      <defs>
+        <linearGradient id="grad1" x1="0%" y1="0%" x2="100%" y2="0%">
+          <stop offset="0%" stopColor="#ff6b6b" />
+          <stop offset="50%" stopColor="#ffa726" />
+          <stop offset="100%" stopColor="#ff8a65" />
+        </linearGradient>
+        <linearGradient id="grad2" x1="0%" y1="0%" x2="100%" y2="0%">
+          <stop offset="0%" stopColor="#ff5252" />
+          <stop offset="50%" stopColor="#ff9800" />
+          <stop offset="100%" stopColor="#ff6b6b" />
+        </linearGradient>
+        <linearGradient id="grad3" x1="0%" y1="0%" x2="100%" y2="0%">
+          <stop offset="0%" stopColor="#ff3d00" />
+          <stop offset="50%" stopColor="#ff6d00" />
+          <stop offset="100%" stopColor="#ff9100" />
+        </linearGradient>
+      </defs>
+
+      {/* Wave 1 */}
+      <path
+        fill="url(#grad1)"
+        fillOpacity="0.6"
+        d="M0,160 C320,300 1120,50 1440,160 L1440,1024 L0,1024 Z"
+        className="animate-wave1"
+      >
+        <animate
+          attributeName="d"
+          values="
+            M0,160 C320,300 1120,50 1440,160 L1440,1024 L0,1024 Z;
+            M0,200 C380,50 1060,350 1440,180 L1440,1024 L0,1024 Z;
+            M0,160 C320,300 1120,50 1440,160 L1440,1024 L0,1024 Z
+          "
+          dur="20s"
+          repeatCount="indefinite"
+        />
+      </path>
+
+      {/* Wave 2 */}
+      <path
+        fill="url(#grad2)"
+        fillOpacity="0.5"
+        d="M0,300 C280,100 1160,400 1440,280 L1440,1024 L0,1024 Z"
+        className="animate-wave2"
+      >
+        <animate
+          attributeName="d"
+          values="
+            M0,300 C280,100 1160,400 1440,280 L1440,1024 L0,1024 Z;
+            M0,250 C350,450 1090,-50 1440,320 L1440,1024 L0,1024 Z;
+            M0,300 C280,100 1160,400 1440,280 L1440,1024 L0,1024 Z
+          "
+          dur="25s"
+          repeatCount="indefinite"
+        />
+      </path>
+
+      {/* Wave 3 */}
+      <path
+        fill="url(#grad3)"
+        fillOpacity="0.4"
+        d="M0,450 C300,600 1140,200 1440,400 L1440,1024 L0,1024 Z"
+        className="animate-wave3"
+      >
+        <animate
+          attributeName="d"
+          values="
+            M0,450 C300,600 1140,200 1440,400 L1440,1024 L0,1024 Z;
+            M0,500 C250,200 1190,700 1440,350 L1440,1024 L0,1024 Z;
+            M0,450 C300,600 1140,200 1440,400 L1440,1024 L0,1024 Z
+          "
+          dur="30s"
+          repeatCount="indefinite"
+        />
+      </path>
+    </svg>
+
+    <style jsx>{`
+      @keyframes wave1 {
+        0%, 100% { transform: translateY(0); }
+        50% { transform: translateY(-40px); }
+      }
+      @keyframes wave2 {
+        0%, 100% { transform: translateY(0); }
+        50% { transform: translateY(60px); }
+      }
+      @keyframes wave3 {
+        0%, 100% { transform: translateY(0); }
+        50% { transform: translateY(-80px); }
+      }
+      .animate-wave1 { animation: wave1 20s ease-in-out infinite; }
+      .animate-wave2 { animation: wave2 25s ease-in-out infinite; }
+      .animate-wave3 { animation: wave3 30s ease-in-out infinite; }
+    `}</style>
+  </div>
+);
+
+const OAUTH_PROVIDERS: { id: OAuthProvider; label: string }[] = [
+  { id: 'github', label: 'GitHub' },
+  { id: 'google', label: 'Google' },
+];
+
+const GoogleIcon = () => (
+  <svg className="w-6 h-6" viewBox="0 0 24 24" aria-hidden="true">
+    <path fill="#EA4335" d="M12 10.2v3.9h5.5c-.2 1.3-1.6 3.9-5.5 3.9-3.3 0-6-2.7-6-6.1s2.7-6.1 6-6.1c1.9 0 3.1.8 3.8 1.5l2.6-2.5C16.8 3.3 14.6 2.3 12 2.3 6.7 2.3 2.4 6.6 2.4 12s4.3 9.7 9.6 9.7c5.5 0 9.2-3.9 9.2-9.4 0-.6-.1-1.1-.2-1.6H12z" />
+  </svg>
+);
+
+// Turns Supabase auth errors into something a person can act on
+const describeAuthError = (err: { message?: string }) => {
+  const message = err.message?.toLowerCase() || '';
+  if (message.includes('invalid login credentials') || message.includes('invalid credentials')) {
+    return 'Wrong email or password. Please try again.';
+  } else if (message.includes('email not confirmed')) {
+    return 'Please check your email and click the confirmation link.';
+  } else if (message.includes('user already registered') || message.includes('already exists')) {
+    return 'An account with this email already exists. Try signing in.';
+  } else if (message.includes('password should be at least')) {
+    return 'Password must be at least 6 characters long.';
+  } else if (message.includes('unable to validate email address')) {
+    return 'Please enter a valid email address.';
+  } else if (message.includes('rate limit') || message.includes('too many requests')) {
+    return 'Too many attempts. Please wait a minute and try again.';
+  } else if (message.includes('provider is not enabled')) {
+    return 'That sign-in method is not available right now.';
+  } else if (message.includes('database error saving new user') || message.includes('username is')) {
+    // The profile trigger rejected the username (raced by someone else, or skipped the live check)
+    return "That username isn't available. Please pick another.";
+  } else if (message.includes('network') || message.includes('fetch')) {
+    return 'Network error. Please check your connection.';
+  }
+  return err.message || 'Something went wrong. Please try again.';
+};
+
+const inputClassName = "w-full px-6 py-4 bg-white/80 border-2 border-orange-200 rounded-2xl focus:outline-none focus:border-red-500 focus:ring-4 focus:ring-red-100 transition text-gray-800 placeholder-gray-500 font-medium";
+
+const Spinner = () => (
+  <svg className="animate-spin h-7 w-7" viewBox="0 0 24 24">
+    <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" fill="none" />
+    <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z" />
+  </svg>
+);
+
+// Live availability for a username field: null while empty, 'checking' while waiting on the server
+const useUsernameCheck = (username: string, enabled = true) => {
+  const [status, setStatus] = useState<UsernameStatus | 'checking' | null>(null);
+
+  useEffect(() => {
+    if (!enabled || !username) {
+      setStatus(null);
+      return;
+    }
+    setStatus('checking');
+    let cancelled = false;
+    const timer = window.setTimeout(async () => {
+      const { data } = await checkUsername(username);
+      // Don't block sign-up if the check itself fails; the server has the final say
+      if (!cancelled) setStatus(data);
+    }, 400);
+    return () => {
+      cancelled = true;
+      window.clearTimeout(timer);
+    };
+  }, [username, enabled]);
+
+  return status;
+};
+
+const UsernameHint = ({ status }: { status: UsernameStatus | 'checking' | null }) => {
+  if (!status) return null;
+  return (
+    <p className={`text-sm font-semibold -mt-4 px-2 ${status === 'available' ? 'text-green-600' : status === 'checking' ? 'text-gray-500' : 'text-red-600'}`}>
+      {status === 'checking' ? 'Checking...' : describeUsernameStatus(status)}
+    </p>
+  );
+};
+
 export const Auth = () => {
   const [isSignUp, setIsSignUp] = useState(false);
   const [email, setEmail] = useState('');
@@ -47,9 +234,12 @@ export const Auth = () => {
   const [username, setUsername] = useState('');
   const [displayName, setDisplayName] = useState('');
   const [error, setError] = useState('');
-  const [success, setSuccess] = useState(false);
+  const [success, setSuccess] = useState('');
   const [isLoading, setIsLoading] = useState(false);
-  const { signUp, signIn } = useAuth();
+  // Passwordless: email a one-time sign-in link instead
+  const [useMagicLink, setUseMagicLink] = useState(false);
+  const { signUp, signIn, signInWithProvider, signInWithMagicLink, sessionRevoked, accounts, switchAccount } = useAuth();
+  const usernameStatus = useUsernameCheck(username, isSignUp);
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [modalTitle, setModalTitle] = useState('');
   const [modalSlug, setModalSlug] = useState('');
@@ -74,156 +264,57 @@ export const Auth = () => {
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError('');
-    setSuccess(false);
+    setSuccess('');
     setIsLoading(true);
 
     try {
       if (isSignUp) {
         if (!username.trim()) { setError('Username is required'); setIsLoading(false); return; }
         if (!displayName.trim()) { setError('Display name is required'); setIsLoading(false); return; }
-        if (username.includes(' ')) { setError('Username cannot contain spaces'); setIsLoading(false); return; }
+        if (usernameStatus && usernameStatus !== 'available' && usernameStatus !== 'checking') {
+          setError(describeUsernameStatus(usernameStatus));
+          setIsLoading(false);
+          return;
+        }
 
         await signUp(email, password, username, displayName);
-        setSuccess(true);
+        setSuccess('Account created! Switching to Sign In...');
         setTimeout(() => {
           setIsSignUp(false);
           setEmail('');
           setPassword('');
           setUsername('');
           setDisplayName('');
-          setSuccess(false);
+          setSuccess('');
         }, 1800);
+      } else if (useMagicLink) {
+        await signInWithMagicLink(email);
+        setSuccess('Check your inbox for a sign-in link.');
       } else {
         await signIn(email, password);
       }
     } catch (err: any) {
-      const message = err.message?.toLowerCase() || '';
-      if (message.includes('invalid login credentials') || message.includes('invalid credentials')) {
-        setError('Wrong email or password. Please try again.');
-      } else if (message.includes('email not confirmed')) {
-        setError('Please check your email and click the confirmation link.');
-      } else if (message.includes('user already registered') || message.includes('already exists')) {
-        setError('An account with this email already exists. Try signing in.');
-      } else if (message.includes('password should be at least')) {
-        setError('Password must be at least 6 characters long.');
-      } else if (message.includes('unable to validate email address')) {
-        setError('Please enter a valid email address.');
-      } else if (message.includes('rate limit') || message.includes('too many requests')) {
-        setError('Too many attempts. Please wait a minute and try again.');
-      } else if (message.includes('network') || message.includes('fetch')) {
-        setError('Network error. Please check your connection.');
-      } else {
-        setError(err.message || 'Something went wrong. Please try again.');
-      }
+      setError(describeAuthError(err));
     } finally {
       setIsLoading(false);
     }
   };
 
+  const handleProvider = async (provider: OAuthProvider) => {
+    setError('');
+    setIsLoading(true);
+    try {
+      // Navigates away to the provider on success
+      await signInWithProvider(provider);
+    } catch (err) {
+      setError(describeAuthError(err as Error));
+      setIsLoading(false);
+    }
+  };
+
   return (
     <div className="min-h-screen flex items-center justify-center p-4 relative overflow-hidden">
-      {/* ANIMATED WAVE BACKGROUND */}
-      <div className="absolute inset-0 -z-10">
-        <svg
-          className="w-full h-full"
-          viewBox="0 0 1440 1024"
-          preserveAspectRatio="none"
-          xmlns="http://www.w3.org/2000/svg"
-        >
-          <defs>
-            <linearGradient id="grad1" x1="0%" y1="0%" x2="100%" y2="0%">
-              <stop offset="0%" stopColor="#ff6b6b" />
-              <stop offset="50%" stopColor="#ffa726" />
-              <stop offset="100%" stopColor="#ff8a65" />
-            </linearGradient>
-            <linearGradient id="grad2" x1="0%" y1="0%" x2="100%" y2="0%">
-              <stop offset="0%" stopColor="#ff5252" />
-              <stop offset="50%" stopColor="#ff9800" />
-              <stop offset="100%" stopColor="#ff6b6b" />
-            </linearGradient>
-            <linearGradient id="grad3" x1="0%" y1="0%" x2="100%" y2="0%">
-              <stop offset="0%" stopColor="#ff3d00" />
-              <stop offset="50%" stopColor="#ff6d00" />
-              <stop offset="100%" stopColor="#ff9100" />
-            </linearGradient>
-          </defs>
-
-          {/* Wave 1 */}
-          <path
-            fill="url(#grad1)"
-            fillOpacity="0.6"
-            d="M0,160 C320,300 1120,50 1440,160 L1440,1024 L0,1024 Z"
-            className="animate-wave1"
-          >
-            <animate
-              attributeName="d"
-              values="
-                M0,160 C320,300 1120,50 1440,160 L1440,1024 L0,1024 Z;
-                M0,200 C380,50 1060,350 1440,180 L1440,1024 L0,1024 Z;
-                M0,160 C320,300 1120,50 1440,160 L1440,1024 L0,1024 Z
-              "
-              dur="20s"
-              repeatCount="indefinite"
-            />
-          </path>
-
-          {/* Wave 2 */}
-          <path
-            fill="url(#grad2)"
-            fillOpacity="0.5"
-            d="M0,300 C280,100 1160,400 1440,280 L1440,1024 L0,1024 Z"
-            className="animate-wave2"
-          >
-            <animate
-              attributeName="d"
-              values="
-                M0,300 C280,100 1160,400 1440,280 L1440,1024 L0,1024 Z;
-                M0,250 C350,450 1090,-50 1440,320 L1440,1024 L0,1024 Z;
-                M0,300 C280,100 1160,400 1440,280 L1440,1024 L0,1024 Z
-              "
-              dur="25s"
-              repeatCount="indefinite"
-            />
-          </path>
-
-          {/* Wave 3 */}
-          <path
-            fill="url(#grad3)"
-            fillOpacity="0.4"
-            d="M0,450 C300,600 1140,200 1440,400 L1440,1024 L0,1024 Z"
-            className="animate-wave3"
-          >
-            <animate
-              attributeName="d"
-              values="
-                M0,450 C300,600 1140,200 1440,400 L1440,1024 L0,1024 Z;
-                M0,500 C250,200 1190,700 1440,350 L1440,1024 L0,1024 Z;
-                M0,450 C300,600 1140,200 1440,400 L1440,1024 L0,1024 Z
-              "
-              dur="30s"
-              repeatCount="indefinite"
-            />
-          </path>
-        </svg>
-
-        <style jsx>{`
-          @keyframes wave1 {
-            0%, 100% { transform: translateY(0); }
-            50% { transform: translateY(-40px); }
-          }
-          @keyframes wave2 {
-            0%, 100% { transform: translateY(0); }
-            50% { transform: translateY(60px); }
-          }
-          @keyframes wave3 {
-            0%, 100% { transform: translateY(0); }
-            50% { transform: translateY(-80px); }
-          }
-          .animate-wave1 { animation: wave1 20s ease-in-out infinite; }
-          .animate-wave2 { animation: wave2 25s ease-in-out infinite; }
-          .animate-wave3 { animation: wave3 30s ease-in-out infinite; }
-        `}</style>
-      </div>
+      <WaveBackground />
 
       {/* AUTH CARD */}
       <div className="w-full max-w-md z-10">
@@ -237,19 +328,53 @@ export const Auth = () => {
             <p className="text-gray-700 text-xl font-bold">Liaoverse</p>
           </div>
 
+          {sessionRevoked && (
+            <div className="flex items-center gap-3 text-orange-700 bg-orange-50/90 px-5 py-4 rounded-2xl border-2 border-orange-200 mb-6">
+              <AlertCircle size={22} />
+              <span className="font-semibold">You were signed out because this session was ended from another device.</span>
+            </div>
+          )}
+
+          {/* Adding an account: the ones already signed in on this device are a tap away */}
+          {accounts.length > 0 && !isSignUp && (
+            <div className="mb-6 space-y-2">
+              <p className="text-sm font-semibold text-gray-500 text-center">Continue as</p>
+              {accounts.map(account => (
+                <button
+                  key={account.id}
+                  type="button"
+                  onClick={() => switchAccount(account.id)}
+                  disabled={isLoading}
+                  className="w-full flex items-center gap-3 px-4 py-3 bg-white border-2 border-orange-200 rounded-2xl hover:border-red-400 hover:bg-orange-50 disabled:opacity-70 transition"
+                >
+                  <img
+                    src={account.avatar_url || `https://api.dicebear.com/7.x/avataaars/svg?seed=${account.username}`}
+                    className="w-9 h-9 rounded-full object-cover"
+                    alt={account.username}
+                  />
+                  <span className="font-bold text-gray-800 truncate">{account.display_name}</span>
+                  <span className="text-gray-500 text-sm truncate">@{account.username}</span>
+                </button>
+              ))}
+            </div>
+          )}
+
           <form onSubmit={handleSubmit} className="space-y-6">
             {isSignUp && (
               <>
                 <p class="text-xs text-gray-500 text-center -mt-3">By creating an account you agree to the <button type="button" class="text-red-600 hover:underline font-medium" onClick={() => openModal('Terms of Service', 'terms-of-service')}>Terms of Service</button> and <button type="button" class="text-red-600 hover:underline font-medium" onClick={() => openModal('Privacy Policy', 'privacy-policy')}>Privacy Policy</button></p>
                 <input
                   type="text"
-                  placeholder="Username (no spaces)"
+                  placeholder="Username"
                   value={username}
-                  onChange={(e) => setUsername(e.target.value)}
+                  onChange={(e) => setUsername(normalizeUsername(e.target.value))}
                   required
+                  maxLength={20}
+                  autoCapitalize="none"
                   disabled={isLoading}
-                  className="w-full px-6 py-4 bg-white/80 border-2 border-orange-200 rounded-2xl focus:outline-none focus:border-red-500 focus:ring-4 focus:ring-red-100 transition text-gray-800 placeholder-gray-500 font-medium"
+                  className={inputClassName}
                 />
+                <UsernameHint status={usernameStatus} />
                 <input
                   type="text"
                   placeholder="Display Name"
@@ -257,7 +382,7 @@ export const Auth = () => {
                   onChange={(e) => setDisplayName(e.target.value)}
                   required
                   disabled={isLoading}
-                  className="w-full px-6 py-4 bg-white/80 border-2 border-orange-200 rounded-2xl focus:outline-none focus:border-red-500 focus:ring-4 focus:ring-red-100 transition text-gray-800 placeholder-gray-500 font-medium"
+                  className={inputClassName}
                 />
               </>
             )}
@@ -269,18 +394,20 @@ export const Auth = () => {
               onChange={(e) => setEmail(e.target.value)}
               required
               disabled={isLoading}
-              className="w-full px-6 py-4 bg-white/80 border-2 border-orange-200 rounded-2xl focus:outline-none focus:border-red-500 focus:ring-4 focus:ring-red-100 transition text-gray-800 placeholder-gray-500 font-medium"
+              className={inputClassName}
             />
 
-            <input
-              type="password"
-              placeholder="Password"
-              value={password}
-              onChange={(e) => setPassword(e.target.value)}
-              required
-              disabled={isLoading}
-              className="w-full px-6 py-4 bg-white/80 border-2 border-orange-200 rounded-2xl focus:outline-none focus:border-red-500 focus:ring-4 focus:ring-red-100 transition text-gray-800 placeholder-gray-500 font-medium"
-            />
+            {(isSignUp || !useMagicLink) && (
+              <input
+                type="password"
+                placeholder="Password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                required
+                disabled={isLoading}
+                className={inputClassName}
+              />
+            )}
 
             <div className="min-h-8">
               {error && (
@@ -294,7 +421,7 @@ export const Auth = () => {
                   <svg className="w-6 h-6" fill="currentColor" viewBox="0 0 20 20">
                     <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zm3.707-9.293a1 1 0 00-1.414-1.414L9 10.586 7.707 9.293a1 1 0 00-1.414 1.414l2 2a1 1 0 001.414 0l4-4z" clipRule="evenodd" />
                   </svg>
-                  <span className="font-bold">Account created! Switching to Sign In...</span>
+                  <span className="font-bold">{success}</span>
                 </div>
               )}
             </div>
@@ -304,24 +431,47 @@ export const Auth = () => {
               disabled={isLoading}
               className="w-full bg-gradient-to-r from-red-600 to-orange-600 text-white py-5 rounded-2xl font-bold text-xl hover:from-red-700 hover:to-orange-700 focus:outline-none focus:ring-4 focus:ring-red-300 disabled:opacity-70 disabled:cursor-not-allowed transition transform hover:scale-[1.02] active:scale-100 shadow-2xl flex items-center justify-center gap-4"
             >
-              {isLoading ? (
-                <svg className="animate-spin h-7 w-7" viewBox="0 0 24 24">
-                  <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" fill="none" />
-                  <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z" />
-                </svg>
-              ) : (
-                <LogIn size={28} />
-              )}
-              {isLoading ? 'Loading...' : (isSignUp ? 'Join Liaoverse' : 'Enter Liaoverse')}
+              {isLoading ? <Spinner /> : useMagicLink && !isSignUp ? <Mail size={28} /> : <LogIn size={28} />}
+              {isLoading ? 'Loading...' : (isSignUp ? 'Join Liaoverse' : useMagicLink ? 'Email me a link' : 'Enter Liaoverse')}
             </button>
           </form>
 
+          {!isSignUp && (
+            <button
+              type="button"
+              onClick={() => { setUseMagicLink(!useMagicLink); setError(''); setSuccess(''); }}
+              disabled={isLoading}
+              className="mt-4 w-full flex items-center justify-center gap-2 text-gray-600 hover:text-red-600 font-semibold text-sm disabled:opacity-50"
+            >
+              {useMagicLink ? <><KeyRound size={16} /> Use a password instead</> : <><Mail size={16} /> Email me a sign-in link instead</>}
+            </button>
+          )}
+
+          <div className="flex items-center gap-3 my-6 text-gray-400 text-sm font-semibold">
+            <div className="flex-1 h-px bg-orange-200" /> or <div className="flex-1 h-px bg-orange-200" />
+          </div>
+
+          <div className="space-y-3">
+            {OAUTH_PROVIDERS.map(({ id, label }) => (
+              <button
+                key={id}
+                type="button"
+                onClick={() => handleProvider(id)}
+                disabled={isLoading}
+                className="w-full flex items-center justify-center gap-3 py-3 bg-white border-2 border-orange-200 rounded-2xl font-bold text-gray-800 hover:border-red-400 hover:bg-orange-50 disabled:opacity-70 disabled:cursor-not-allowed transition"
+              >
+                {id === 'github' ? <Github size={22} /> : <GoogleIcon />}
+                Continue with {label}
+              </button>
+            ))}
+          </div>
+
           <div className="mt-8 text-center">
             <button
               onClick={() => {
                 setIsSignUp(!isSignUp);
                 setError('');
-                setSuccess(false);
+                setSuccess('');
               }}
               disabled={isLoading}
               className="text-red-600 hover:text-red-700 font-bold text-lg hover:underline disabled:opacity-50"
@@ -339,3 +489,268 @@ export const Auth = () => {
     </div>
   );
 };
+
+// First login through OAuth or a magic link: the auth user exists but has no profile yet
+export const CompleteProfile = () => {
+  const { user, completeProfile, signOut } = useAuth();
+  const metadata = user?.user_metadata ?? {};
+  // GitHub sends user_name, Google sends name/full_name; our own sign-up stores username/display_name
+  const [username, setUsername] = useState<string>(
+    normalizeUsername(String(metadata.username ?? metadata.user_name ?? metadata.preferred_username ?? '')).replace(/[^a-z0-9_]/g, '_')
+  );
+  const [displayName, setDisplayName] = useState<string>(String(metadata.display_name ?? metadata.full_name ?? metadata.name ?? ''));
+  const [error, setError] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const usernameStatus = useUsernameCheck(username);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!username.trim()) { setError('Username is required'); return; }
+    if (!displayName.trim()) { setError('Display name is required'); return; }
+    if (usernameStatus && usernameStatus !== 'available' && usernameStatus !== 'checking') {
+      setError(describeUsernameStatus(usernameStatus));
+      return;
+    }
+
+    setError('');
+    setIsLoading(true);
+    try {
+      await completeProfile(username, displayName.trim());
+    } catch (err) {
+      const { code, message } = err as { code?: string; message?: string };
+      setError(code === '23505' ? 'Username already taken.' : describeAuthError({ message }));
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4 relative overflow-hidden">
+      <WaveBackground />
+
+      <div className="w-full max-w-md z-10">
+        <div className="bg-white/95 backdrop-blur-2xl rounded-3xl shadow-2xl p-10 border border-white/40">
+          <div className="text-center mb-8">
+            <p className="text-gray-800 text-2xl font-black">Welcome to Liaoverse</p>
+            <p className="text-gray-600 mt-2">Pick a username and the name people will see.</p>
+            {user?.email && <p className="text-gray-500 text-sm mt-1">Signed in as {user.email}</p>}
+          </div>
+
+          <form onSubmit={handleSubmit} className="space-y-6">
+            <input
+              type="text"
+              placeholder="Username"
+              value={username}
+              onChange={(e) => { setUsername(normalizeUsername(e.target.value)); setError(''); }}
+              required
+              maxLength={20}
+              autoCapitalize="none"
+              disabled={isLoading}
+              className={inputClassName}
+            />
+            <UsernameHint status={usernameStatus} />
+            <input
+              type="text"
+              placeholder="Display Name"
+              value={displayName}
+              onChange={(e) => { setDisplayName(e.target.value); setError(''); }}
+              required
+              disabled={isLoading}
+              className={inputClassName}
+            />
+
+            {error && (
+              <div className="flex items-center gap-3 text-red-600 bg-red-50/90 px-5 py-4 rounded-2xl border-2 border-red-300 backdrop-blur">
+                <AlertCircle size={22} />
+                <span className="font-semibold">{error}</span>
+              </div>
+            )}
+
+            <button
+              type="submit"
+              disabled={isLoading}
+              className="w-full bg-gradient-to-r from-red-600 to-orange-600 text-white py-5 rounded-2xl font-bold text-xl hover:from-red-700 hover:to-orange-700 focus:outline-none focus:ring-4 focus:ring-red-300 disabled:opacity-70 disabled:cursor-not-allowed transition shadow-2xl flex items-center justify-center gap-4"
+            >
+              {isLoading ? <Spinner /> : <LogIn size={28} />}
+              {isLoading ? 'Loading...' : 'Enter Liaoverse'}
+            </button>
+          </form>
+
+          <div className="mt-8 text-center">
+            <button
+              onClick={signOut}
+              disabled={isLoading}
+              className="text-red-600 hover:text-red-700 font-bold hover:underline disabled:opacity-50"
+            >
+              Not you? Sign out
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// Second step of sign-in for accounts with an authenticator app
+export const MfaChallenge = () => {
+  const { user, verifyMfa, signOut } = useAuth();
+  const [code, setCode] = useState('');
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [error, setError] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!code.trim()) return;
+    setError('');
+    setIsLoading(true);
+    try {
+      if (useRecoveryCode) {
+        const { data: redeemed, error: redeemError } = await redeemRecoveryCode(code);
+        if (redeemError) throw redeemError;
+        if (!redeemed) throw new Error("That recovery code isn't valid or was already used.");
+        // The refreshed session no longer needs a second factor; the app takes over from here
+      } else {
+        await verifyMfa(code);
+      }
+    } catch (err) {
+      const message = (err as Error).message?.toLowerCase() || '';
+      setError(message.includes('invalid') && !useRecoveryCode ? 'Wrong code. Check your authenticator app and try again.' : describeAuthError(err as Error));
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4 relative overflow-hidden">
+      <WaveBackground />
+
+      <div className="w-full max-w-md z-10">
+        <div className="bg-white/95 backdrop-blur-2xl rounded-3xl shadow-2xl p-10 border border-white/40">
+          <div className="text-center mb-8">
+            <ShieldCheck size={48} className="mx-auto text-red-600 mb-3" />
+            <p className="text-gray-800 text-2xl font-black">Two-factor authentication</p>
+            <p className="text-gray-600 mt-2">
+              {useRecoveryCode
+                ? 'Enter one of the recovery codes you saved. Using one turns off two-factor until you set it up again.'
+                : 'Enter the 6-digit code from your authenticator app.'}
+            </p>
+            {user?.email && <p className="text-gray-500 text-sm mt-1">Signed in as {user.email}</p>}
+          </div>
+
+          <form onSubmit={handleSubmit} className="space-y-6">
+            <input
+              type="text"
+              inputMode={useRecoveryCode ? 'text' : 'numeric'}
+              autoComplete="one-time-code"
+              autoFocus
+              placeholder={useRecoveryCode ? 'xxxxxx-xxxxxx' : '123456'}
+              maxLength={useRecoveryCode ? 13 : 6}
+              value={code}
+              onChange={(e) => { setCode(e.target.value); setError(''); }}
+              disabled={isLoading}
+              className={`${inputClassName} text-center tracking-widest text-2xl`}
+            />
+
+            {error && (
+              <div className="flex items-center gap-3 text-red-600 bg-red-50/90 px-5 py-4 rounded-2xl border-2 border-red-300 backdrop-blur">
+                <AlertCircle size={22} />
+                <span className="font-semibold">{error}</span>
+              </div>
+            )}
+
+            <button
+              type="submit"
+              disabled={isLoading || !code.trim()}
+              className="w-full bg-gradient-to-r from-red-600 to-orange-600 text-white py-5 rounded-2xl font-bold text-xl hover:from-red-700 hover:to-orange-700 focus:outline-none focus:ring-4 focus:ring-red-300 disabled:opacity-70 disabled:cursor-not-allowed transition shadow-2xl flex items-center justify-center gap-4"
+            >
+              {isLoading ? <Spinner /> : <LogIn size={28} />}
+              {isLoading ? 'Loading...' : 'Verify'}
+            </button>
+          </form>
+
+          <div className="mt-6 flex flex-col items-center gap-3">
+            <button
+              type="button"
+              onClick={() => { setUseRecoveryCode(!useRecoveryCode); setCode(''); setError(''); }}
+              disabled={isLoading}
+              className="text-gray-600 hover:text-red-600 font-semibold text-sm disabled:opacity-50"
+            >
+              {useRecoveryCode ? 'Use my authenticator app' : 'Lost your device? Use a recovery code'}
+            </button>
+            <button
+              onClick={signOut}
+              disabled={isLoading}
+              className="text-red-600 hover:text-red-700 font-bold hover:underline disabled:opacity-50"
+            >
+              Sign out
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// Signed back in during the deletion grace period: keep the account or leave it queued
+export const DeletionPending = () => {
+  const { user, deletionScheduledFor, cancelDeletion, signOut } = useAuth();
+  const [error, setError] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handleKeep = async () => {
+    setError('');
+    setIsLoading(true);
+    try {
+      await cancelDeletion();
+    } catch (err) {
+      setError(describeAuthError(err as Error));
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4 relative overflow-hidden">
+      <WaveBackground />
+
+      <div className="w-full max-w-md z-10">
+        <div className="bg-white/95 backdrop-blur-2xl rounded-3xl shadow-2xl p-10 border border-white/40">
+          <div className="text-center mb-8">
+            <Trash2 size={48} className="mx-auto text-red-600 mb-3" />
+            <p className="text-gray-800 text-2xl font-black">Account scheduled for deletion</p>
+            <p className="text-gray-600 mt-2">
+              This account and everything in it will be permanently deleted on{' '}
+              <span className="font-bold">{deletionScheduledFor && new Date(deletionScheduledFor).toLocaleDateString()}</span>.
+              Changed your mind? You can keep it until then.
+            </p>
+            {user?.email && <p className="text-gray-500 text-sm mt-1">Signed in as {user.email}</p>}
+          </div>
+
+          {error && (
+            <div className="flex items-center gap-3 text-red-600 bg-red-50/90 px-5 py-4 rounded-2xl border-2 border-red-300 backdrop-blur mb-6">
+              <AlertCircle size={22} />
+              <span className="font-semibold">{error}</span>
+            </div>
+          )}
+
+          <button
+            onClick={handleKeep}
+            disabled={isLoading}
+            className="w-full bg-gradient-to-r from-red-600 to-orange-600 text-white py-5 rounded-2xl font-bold text-xl hover:from-red-700 hover:to-orange-700 focus:outline-none focus:ring-4 focus:ring-red-300 disabled:opacity-70 disabled:cursor-not-allowed transition shadow-2xl flex items-center justify-center gap-4"
+          >
+            {isLoading ? <Spinner /> : <LogIn size={28} />}
+            {isLoading ? 'Loading...' : 'Keep my account'}
+          </button>
+
+          <div className="mt-6 text-center">
+            <button
+              onClick={signOut}
+              disabled={isLoading}
+              className="text-red-600 hover:text-red-700 font-bold hover:underline disabled:opacity-50"
+            >
+              Sign out
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,336 @@
+// src/components/CommandPalette.tsx
+import { ReactNode, useEffect, useMemo, useRef, useState } from 'react';
+import { useLocation, useMatch, useNavigate } from 'react-router-dom';
+import {
+  Search as SearchIcon, Home, MessageSquare, Server, Users, MessageCircle, Archive, Settings as SettingsIcon,
+  BarChart3, User, Edit3, Camera, Phone, Video, Palette, Bell, CheckCheck, Keyboard, LogOut, Hash, Volume2,
+} from 'lucide-react';
+import { supabase, Profile } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { fetchProfileByUsername } from '../lib/repository';
+import { loadCachedInbox, syncInbox } from '../lib/messageCache';
+import { MOD_KEY, SHORTCUTS, focusComposer, isTypingTarget } from '../lib/shortcuts';
+import { SETTINGS_SECTIONS } from '../lib/settings';
+import { THEME_PRESETS } from '../lib/themes';
+
+type Command = {
+  id: string;
+  group: string;
+  label: string;
+  hint?: string;
+  // Extra words to match on besides the label
+  keywords?: string;
+  icon: ReactNode;
+  run: () => void;
+};
+
+type PaletteChannel = { id: string; name: string; type: 'text' | 'voice' };
+type PaletteGazebo = { id: string; name: string; gazebo_channels: PaletteChannel[] };
+type PaletteData = {
+  conversations: Profile[];
+  gazebos: PaletteGazebo[];
+  groups: { id: string; name: string }[];
+  forums: { id: string; name: string }[];
+};
+
+const EMPTY_DATA: PaletteData = { conversations: [], gazebos: [], groups: [], forums: [] };
+const MAX_RESULTS = 50;
+// With nothing typed, only this many conversations are listed under the actions
+const RECENT_CONVERSATIONS = 5;
+
+const loadPaletteData = async (userId: string): Promise<PaletteData> => {
+  const cached = await loadCachedInbox(userId);
+  const [conversations, { data: gazebos }, { data: groups }, { data: forums }] = await Promise.all([
+    cached?.partners.length ? cached.partners : syncInbox(userId),
+    supabase.from('gazebo_members').select('gazebos(id, name, gazebo_channels(id, name, type))').eq('user_id', userId),
+    supabase.from('group_members').select('groups(id, name)').eq('user_id', userId),
+    supabase.from('forums').select('id, name').order('name'),
+  ]);
+  const joined = <T,>(rows: Record<string, unknown>[] | null, key: string) =>
+    (rows || []).map(r => r[key]).flat().filter(Boolean) as T[];
+  return {
+    conversations,
+    gazebos: joined<PaletteGazebo>(gazebos, 'gazebos'),
+    groups: joined<{ id: string; name: string }>(groups, 'groups'),
+    forums: forums || [],
+  };
+};
+
+// Every word typed has to appear somewhere in the label or keywords
+const matches = (command: Command, words: string[]) => {
+  const haystack = `${command.label} ${command.hint ?? ''} ${command.keywords ?? ''}`.toLowerCase();
+  return words.every(word => haystack.includes(word));
+};
+
+const Kbd = ({ children }: { children: ReactNode }) => (
+  <kbd className="px-1.5 py-0.5 text-xs font-mono rounded border border-[rgb(var(--color-border))] bg-[rgb(var(--color-surface-hover))] text-[rgb(var(--color-text-secondary))]">
+    {children}
+  </kbd>
+);
+
+/**
+ * Ctrl/Cmd+K palette for jumping anywhere and running common actions, and the
+ * app-wide shortcuts (see lib/shortcuts.ts). Mounted once for the signed-in app.
+ */
+export const CommandPalette = ({ onOpenSearch, onOpenNotifications, onMarkAllRead }: {
+  onOpenSearch: () => void;
+  onOpenNotifications: () => void;
+  onMarkAllRead: () => void;
+}) => {
+  const { user, profile, updateProfile, signOut } = useAuth();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const chatMatch = useMatch('/message/:username/*');
+  const [open, setOpen] = useState(false);
+  const [showHelp, setShowHelp] = useState(false);
+  const [query, setQuery] = useState('');
+  const [selected, setSelected] = useState(0);
+  const [data, setData] = useState<PaletteData>(EMPTY_DATA);
+  const [people, setPeople] = useState<Profile[]>([]);
+  const [chatPartner, setChatPartner] = useState<Profile | null>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  const openPalette = (help = false) => {
+    setQuery('');
+    setSelected(0);
+    setShowHelp(help);
+    setOpen(true);
+  };
+
+  const close = () => setOpen(false);
+
+  // Global shortcuts
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if ((e.metaKey || e.ctrlKey) && e.key.toLowerCase() === 'k') {
+        e.preventDefault();
+        if (open) setOpen(false);
+        else openPalette();
+        return;
+      }
+      if (open) return;
+      if (e.key === 'Escape' && e.shiftKey) {
+        e.preventDefault();
+        onMarkAllRead();
+        return;
+      }
+      if (isTypingTarget(e.target) || e.metaKey || e.ctrlKey || e.altKey) return;
+      if (e.key === '?') {
+        e.preventDefault();
+        openPalette(true);
+      } else if (e.key === '/') {
+        e.preventDefault();
+        if (!focusComposer() && location.pathname === '/') navigate('/', { state: { compose: true } });
+      }
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [open, location.pathname, navigate, onMarkAllRead]);
+
+  // Fresh lists every time it opens; conversations come from the on-device inbox when there is one
+  useEffect(() => {
+    if (!open || !user) return;
+    loadPaletteData(user.id).then(setData);
+  }, [open, user]);
+
+  // The open chat, for the call actions
+  const chatUsername = chatMatch?.params.username;
+  useEffect(() => {
+    if (!open || !chatUsername) { setChatPartner(null); return; }
+    fetchProfileByUsername(chatUsername).then(setChatPartner);
+  }, [open, chatUsername]);
+
+  // People beyond your conversations, searched as you type (as in Search)
+  useEffect(() => {
+    const term = query.trim().toLowerCase();
+    if (!open || term.length < 2) { setPeople([]); return; }
+    const debounce = setTimeout(async () => {
+      const { data } = await supabase
+        .from('profiles')
+        .select('*')
+        .or(`username.ilike.%${term}%,display_name.ilike.%${term}%`)
+        .limit(5);
+      setPeople(data || []);
+    }, 300);
+    return () => clearTimeout(debounce);
+  }, [open, query]);
+
+  const commands = useMemo((): Command[] => {
+    if (!user || !profile) return [];
+    const go = (path: string, state?: unknown) => () => navigate(path, { state });
+    const call = (type: 'audio' | 'video') => () => {
+      window.dispatchEvent(new CustomEvent('startCall', { detail: { targetUser: chatPartner, type } }));
+    };
+    // Same as picking it in Settings
+    const setTheme = async (theme: string) => {
+      const { error } = await supabase.from('profiles').update({ theme }).eq('id', user.id);
+      if (!error) updateProfile({ ...profile, theme });
+    };
+    const isDark = profile.theme === 'lt-dark';
+
+    const actions: Command[] = [
+      { id: 'new-post', group: 'Actions', label: 'New post', keywords: 'compose write', icon: <Edit3 size={18} />, run: go('/', { compose: true }) },
+      { id: 'new-status', group: 'Actions', label: 'New status', keywords: 'story', icon: <Camera size={18} />, run: () => window.dispatchEvent(new CustomEvent('openStatusCreator')) },
+      ...(chatPartner ? [
+        { id: 'call-audio', group: 'Actions', label: `Start voice call with ${chatPartner.display_name}`, keywords: 'call phone', icon: <Phone size={18} />, run: call('audio') },
+        { id: 'call-video', group: 'Actions', label: `Start video call with ${chatPartner.display_name}`, keywords: 'call camera', icon: <Video size={18} />, run: call('video') },
+      ] : []),
+      { id: 'toggle-theme', group: 'Actions', label: `Toggle theme (${isDark ? 'light' : 'dark'})`, keywords: 'dark light mode', icon: <Palette size={18} />, run: () => setTheme(isDark ? 'lt-classic' : 'lt-dark') },
+      { id: 'search', group: 'Actions', label: 'Search users and posts', icon: <SearchIcon size={18} />, run: onOpenSearch },
+      { id: 'notifications', group: 'Actions', label: 'Open notifications', icon: <Bell size={18} />, run: onOpenNotifications },
+      { id: 'mark-read', group: 'Actions', label: 'Mark all messages and notifications read', icon: <CheckCheck size={18} />, run: onMarkAllRead },
+      { id: 'shortcuts', group: 'Actions', label: 'Keyboard shortcuts', keywords: 'help keys', icon: <Keyboard size={18} />, run: () => { setShowHelp(true); setOpen(true); } },
+      { id: 'sign-out', group: 'Actions', label: 'Sign out', keywords: 'log out', icon: <LogOut size={18} />, run: signOut },
+    ];
+
+    const views: Command[] = [
+      { id: 'view-feed', group: 'Go to', label: 'Feed', keywords: 'home', icon: <Home size={18} />, run: go('/') },
+      { id: 'view-messages', group: 'Go to', label: 'Messages', keywords: 'chats dm', icon: <MessageSquare size={18} />, run: go('/message') },
+      { id: 'view-gazebos', group: 'Go to', label: 'Gazebos', keywords: 'servers', icon: <Server size={18} />, run: go('/gazebo') },
+      { id: 'view-groups', group: 'Go to', label: 'Groups', icon: <Users size={18} />, run: go('/groups') },
+      { id: 'view-forums', group: 'Go to', label: 'Forums', icon: <MessageCircle size={18} />, run: go('/forums') },
+      { id: 'view-archive', group: 'Go to', label: 'Status archive', icon: <Archive size={18} />, run: go('/archive') },
+      { id: 'view-profile', group: 'Go to', label: 'Your profile', hint: `@${profile.username}`, icon: <User size={18} />, run: go(`/${encodeURIComponent(profile.username)}`) },
+      { id: 'view-settings', group: 'Go to', label: 'Settings', icon: <SettingsIcon size={18} />, run: go('/settings') },
+      ...SETTINGS_SECTIONS.map(s => ({
+        id: `settings-${s.id}`, group: 'Go to', label: `Settings: ${s.label}`, icon: <SettingsIcon size={18} />, run: go(`/settings/${s.id}`),
+      })),
+      { id: 'view-stats', group: 'Go to', label: 'Stats', icon: <BarChart3 size={18} />, run: go('/stats') },
+    ];
+
+    const themes: Command[] = THEME_PRESETS.map(t => ({
+      id: `theme-${t.value}`, group: 'Themes', label: `Theme: ${t.name}`, hint: t.value === profile.theme ? 'current' : undefined,
+      icon: <Palette size={18} />, run: () => setTheme(t.value),
+    }));
+
+    const conversations: Command[] = data.conversations.map(p => ({
+      id: `chat-${p.id}`, group: 'Conversations', label: p.display_name, hint: `@${p.username}`, keywords: 'message chat dm',
+      icon: <MessageSquare size={18} />, run: go(`/message/${encodeURIComponent(p.username)}`),
+    }));
+
+    const channels: Command[] = data.gazebos.flatMap(g => g.gazebo_channels.map(c => ({
+      id: `channel-${c.id}`, group: 'Channels', label: `${c.type === 'voice' ? '' : '#'}${c.name}`, hint: g.name, keywords: 'gazebo channel',
+      icon: c.type === 'voice' ? <Volume2 size={18} /> : <Hash size={18} />, run: go(`/gazebo/${g.id}/${c.id}`),
+    })));
+
+    const groups: Command[] = data.groups.map(g => ({
+      id: `group-${g.id}`, group: 'Groups', label: g.name, keywords: 'group', icon: <Users size={18} />, run: go(`/groups/${g.id}`),
+    }));
+
+    const forums: Command[] = data.forums.map(f => ({
+      id: `forum-${f.id}`, group: 'Forums', label: `f/${f.name}`, keywords: 'forum', icon: <MessageCircle size={18} />, run: go(`/forums/${f.id}`),
+    }));
+
+    const known = new Set(data.conversations.map(p => p.id));
+    const profiles: Command[] = people.filter(p => !known.has(p.id)).map(p => ({
+      id: `profile-${p.id}`, group: 'People', label: p.display_name, hint: `@${p.username}`, keywords: 'profile user',
+      icon: <User size={18} />, run: go(`/${encodeURIComponent(p.username)}`),
+    }));
+
+    return [...actions, ...views, ...conversations, ...channels, ...groups, ...forums, ...profiles, ...themes];
+  }, [user, profile, updateProfile, chatPartner, data, people, navigate, onOpenSearch, onOpenNotifications, onMarkAllRead, signOut]);
+
+  const results = useMemo(() => {
+    const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+    if (!words.length) {
+      const recent = new Set(data.conversations.slice(0, RECENT_CONVERSATIONS).map(p => `chat-${p.id}`));
+      return commands.filter(c => c.group === 'Actions' || recent.has(c.id) || (c.group === 'Go to' && !c.id.startsWith('settings-')));
+    }
+    return commands.filter(c => matches(c, words)).slice(0, MAX_RESULTS);
+  }, [commands, query, data.conversations]);
+
+  useEffect(() => {
+    listRef.current?.querySelector(`[data-index="${selected}"]`)?.scrollIntoView({ block: 'nearest' });
+  }, [selected]);
+
+  if (!open) return null;
+
+  const run = (command: Command) => {
+    if (command.id !== 'shortcuts') close();
+    command.run();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setSelected(i => Math.min(i + 1, results.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setSelected(i => Math.max(i - 1, 0));
+    } else if (e.key === 'Enter' && results[selected]) {
+      e.preventDefault();
+      run(results[selected]);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      if (showHelp) setShowHelp(false);
+      else close();
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-[200] flex items-start justify-center p-4 pt-20" onClick={close}>
+      <div
+        className="bg-[rgb(var(--color-surface))] rounded-2xl w-full max-w-xl max-h-[70vh] flex flex-col shadow-2xl overflow-hidden border border-[rgb(var(--color-border))]"
+        onClick={(e) => e.stopPropagation()}
+        onKeyDown={handleKeyDown}
+      >
+        <div className="flex items-center gap-3 p-4 border-b border-[rgb(var(--color-border))]">
+          <SearchIcon size={20} className="text-[rgb(var(--color-text-secondary))]" />
+          <input
+            type="text"
+            value={query}
+            onChange={(e) => { setQuery(e.target.value); setSelected(0); setShowHelp(false); }}
+            placeholder="Jump to a view, chat, channel, group, forum or person..."
+            className="flex-1 bg-transparent focus:outline-none text-[rgb(var(--color-text))]"
+            autoFocus
+          />
+          <Kbd>Esc</Kbd>
+        </div>
+
+        {showHelp ? (
+          <div className="flex-1 overflow-y-auto p-4 space-y-2">
+            <h3 className="font-bold text-[rgb(var(--color-text))] mb-2">Keyboard shortcuts</h3>
+            {SHORTCUTS.map(s => (
+              <div key={s.label} className="flex items-center justify-between gap-4 text-sm">
+                <div>
+                  <div className="text-[rgb(var(--color-text))]">{s.label}</div>
+                  <div className="text-xs text-[rgb(var(--color-text-secondary))]">{s.where}</div>
+                </div>
+                <div className="flex gap-1 flex-shrink-0">{s.keys.map(k => <Kbd key={k}>{k}</Kbd>)}</div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div ref={listRef} className="flex-1 overflow-y-auto p-2">
+            {results.length === 0 && (
+              <div className="p-6 text-center text-sm text-[rgb(var(--color-text-secondary))]">No matches for "{query}"</div>
+            )}
+            {results.map((command, i) => (
+              <div key={command.id}>
+                {(i === 0 || results[i - 1].group !== command.group) && (
+                  <div className="px-3 pt-3 pb-1 text-xs font-bold uppercase text-[rgb(var(--color-text-secondary))]">{command.group}</div>
+                )}
+                <button
+                  data-index={i}
+                  onClick={() => run(command)}
+                  onMouseMove={() => setSelected(i)}
+                  className={`w-full flex items-center gap-3 px-3 py-2 rounded-lg text-left transition ${i === selected ? 'bg-[rgba(var(--color-primary),0.1)] text-[rgb(var(--color-primary))]' : 'text-[rgb(var(--color-text))]'}`}
+                >
+                  {command.icon}
+                  <span className="flex-1 truncate">{command.label}</span>
+                  {command.hint && <span className="text-xs text-[rgb(var(--color-text-secondary))] truncate">{command.hint}</span>}
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="flex items-center gap-3 px-4 py-2 border-t border-[rgb(var(--color-border))] text-xs text-[rgb(var(--color-text-secondary))]">
+          <span><Kbd>↑</Kbd> <Kbd>↓</Kbd> to move</span>
+          <span><Kbd>Enter</Kbd> to run</span>
+          <span className="ml-auto"><Kbd>{MOD_KEY}</Kbd> <Kbd>K</Kbd> to toggle · <Kbd>?</Kbd> for shortcuts</span>
+        </div>
+      </div>
+    </div>
+  );
+};
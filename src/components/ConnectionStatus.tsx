@@ -0,0 +1,31 @@
+// src/components/ConnectionStatus.tsx
+import { Loader2, WifiOff } from 'lucide-react';
+import { useRealtimeStatus } from '../lib/realtime';
+
+// Thin bar under the nav while live updates are interrupted; hidden when connected
+export const ConnectionStatus = () => {
+  const status = useRealtimeStatus();
+
+  if (status !== 'offline' && status !== 'reconnecting') return null;
+
+  return (
+    <div
+      role="status"
+      className={`sticky top-14 z-40 flex items-center justify-center gap-2 py-1 text-xs font-semibold ${
+        status === 'offline'
+          ? 'bg-[rgb(var(--color-surface-hover))] text-[rgb(var(--color-text-secondary))]'
+          : 'bg-[rgba(var(--color-primary),0.1)] text-[rgb(var(--color-primary))]'
+      }`}
+    >
+      {status === 'offline' ? (
+        <>
+          <WifiOff size={14} /> You're offline. Live updates will resume when you reconnect.
+        </>
+      ) : (
+        <>
+          <Loader2 size={14} className="animate-spin" /> Reconnecting...
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,103 @@
+// src/components/DraftsPanel.tsx
+import { useEffect, useState } from 'react';
+import { CalendarClock, FileText, Paperclip, Trash2, X } from 'lucide-react';
+import { ScheduledPost, supabase } from '../lib/supabase';
+import { fetchScheduledPosts } from '../lib/repository';
+import { deleteDraft, listDrafts, PostDraft } from '../lib/drafts';
+import { purgeOrphanedMedia } from '../lib/storage';
+
+interface DraftsPanelProps {
+  userId: string;
+  // The draft open in the composer, which isn't offered again
+  currentDraftId: string | null;
+  onResume: (draft: PostDraft) => void;
+  onClose: () => void;
+}
+
+const formatWhen = (iso: string) =>
+  new Date(iso).toLocaleString([], { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+
+const preview = (content: string) => content.trim() || 'No text';
+
+// Drafts saved on this device and posts scheduled from any device, under the composer
+export const DraftsPanel = ({ userId, currentDraftId, onResume, onClose }: DraftsPanelProps) => {
+  const [drafts, setDrafts] = useState<PostDraft[]>([]);
+  const [scheduled, setScheduled] = useState<ScheduledPost[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all([listDrafts(userId), fetchScheduledPosts(userId)]).then(([savedDrafts, upcoming]) => {
+      if (cancelled) return;
+      setDrafts(savedDrafts);
+      setScheduled(upcoming);
+      setLoading(false);
+    });
+    return () => { cancelled = true; };
+  }, [userId]);
+
+  const removeDraft = async (id: string) => {
+    await deleteDraft(id);
+    setDrafts(current => current.filter(d => d.id !== id));
+  };
+
+  const cancelScheduled = async (post: ScheduledPost) => {
+    if (!confirm('Cancel this scheduled post? It will not be published.')) return;
+    const { error } = await supabase.from('scheduled_posts').delete().eq('id', post.id);
+    if (error) { alert(error.message); return; }
+    setScheduled(current => current.filter(p => p.id !== post.id));
+    // Its uploads were queued for removal by the delete
+    purgeOrphanedMedia(userId);
+  };
+
+  const otherDrafts = drafts.filter(d => d.id !== currentDraftId);
+
+  return (
+    <div className="border border-[rgb(var(--color-border))] rounded-xl bg-[rgb(var(--color-background))] max-h-72 overflow-y-auto">
+      <div className="flex items-center justify-between px-3 py-2 border-b border-[rgb(var(--color-border))]">
+        <span className="text-sm font-semibold text-[rgb(var(--color-text))]">Drafts & scheduled</span>
+        <button type="button" onClick={onClose} className="p-1 rounded-full hover:bg-[rgb(var(--color-surface-hover))]" title="Close">
+          <X size={16} className="text-[rgb(var(--color-text-secondary))]" />
+        </button>
+      </div>
+
+      {!loading && otherDrafts.length === 0 && scheduled.length === 0 && (
+        <div className="px-3 py-6 text-center text-sm text-[rgb(var(--color-text-secondary))]">No other drafts or scheduled posts.</div>
+      )}
+
+      {scheduled.map(post => (
+        <div key={post.id} className="flex items-center gap-3 px-3 py-2 border-b border-[rgb(var(--color-border))] last:border-b-0">
+          <CalendarClock size={18} className="flex-shrink-0 text-[rgb(var(--color-accent))]" />
+          <div className="flex-1 min-w-0">
+            <div className="text-sm truncate text-[rgb(var(--color-text))]">{preview(post.content)}</div>
+            <div className="text-xs text-[rgb(var(--color-text-secondary))]">
+              Posts {formatWhen(post.publish_at)}
+              {post.attachments.length > 0 && ` · ${post.attachments.length} attachment${post.attachments.length === 1 ? '' : 's'}`}
+            </div>
+          </div>
+          <button type="button" onClick={() => cancelScheduled(post)} className="p-1.5 rounded-full hover:bg-[rgb(var(--color-surface-hover))]" title="Cancel scheduled post">
+            <Trash2 size={16} className="text-red-500" />
+          </button>
+        </div>
+      ))}
+
+      {otherDrafts.map(draft => (
+        <div key={draft.id} className="flex items-center gap-3 px-3 py-2 border-b border-[rgb(var(--color-border))] last:border-b-0">
+          <FileText size={18} className="flex-shrink-0 text-[rgb(var(--color-text-secondary))]" />
+          <button type="button" onClick={() => onResume(draft)} className="flex-1 min-w-0 text-left" title="Continue this draft">
+            <div className="text-sm truncate text-[rgb(var(--color-text))]">{preview(draft.content)}</div>
+            <div className="flex items-center gap-1 text-xs text-[rgb(var(--color-text-secondary))]">
+              Edited {formatWhen(draft.updated_at)}
+              {(draft.attachments.length > 0 || draft.remote_url) && (
+                <><span>·</span><Paperclip size={11} />{draft.attachments.length || 1}</>
+              )}
+            </div>
+          </button>
+          <button type="button" onClick={() => removeDraft(draft.id)} className="p-1.5 rounded-full hover:bg-[rgb(var(--color-surface-hover))]" title="Delete draft">
+            <Trash2 size={16} className="text-[rgb(var(--color-text-secondary))]" />
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+};
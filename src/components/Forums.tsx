@@ -1,6 +1,12 @@
 import React, { useState, useEffect, useCallback } from 'react';
-import { supabase, uploadMedia } from '../lib/supabase';
+import { useNavigate, useParams } from 'react-router-dom';
+import { supabase, uploadMedia, ForumPost } from '../lib/supabase';
+import { fetchForumPost, fetchForumPosts, fetchLikedEntityIds } from '../lib/repository';
 import { useAuth } from '../contexts/AuthContext';
+import { RichText } from './RichText';
+import { PollView } from './PollView';
+import { PollComposer } from './PollComposer';
+import { createPoll, emptyPollDraft, type PollDraft } from '../lib/polls';
 import { 
   MessageSquare, 
   Plus, 
@@ -14,7 +20,8 @@ import {
   MessageCircle,
   Share2,
   Menu,
-  X
+  X,
+  BarChart3
 } from 'lucide-react';
 
 // --- Types ---
@@ -26,24 +33,6 @@ interface Forum {
   icon_url?: string;
 }
 
-interface ForumPost {
-  id: string;
-  forum_id: string;
-  title: string;
-  content: string;
-  media_url: string;
-  created_at: string;
-  user_id: string;
-  comment_count: number;
-  like_count: number;
-  profiles: { 
-    username: string; 
-    display_name: string; 
-    avatar_url: string; 
-    verified: boolean; 
-  };
-}
-
 interface ForumComment {
   id: string;
   content: string;
@@ -63,8 +52,6 @@ export const Forums: React.FC = () => {
   
   // State
   const [forums, setForums] = useState<Forum[]>([]);
-  const [activeForum, setActiveForum] = useState<Forum | null>(null); // Null = "All" or "Home"
-  const [viewState, setViewState] = useState<'feed' | 'detail'>('feed');
   const [selectedPost, setSelectedPost] = useState<ForumPost | null>(null);
   
   // Mobile Sidebar Toggle
@@ -74,6 +61,12 @@ export const Forums: React.FC = () => {
   const [showCreateForum, setShowCreateForum] = useState(false);
   const [showCreatePost, setShowCreatePost] = useState(false);
 
+  // Route: /forums, /forums/:forumId, /forums/:forumId/posts/:postId
+  const { forumId, postId } = useParams<{ forumId: string; postId: string }>();
+  const navigate = useNavigate();
+  const activeForum = forums.find(f => f.id === forumId) ?? null; // Null = "All" or "Home"
+  const viewState: 'feed' | 'detail' = postId ? 'detail' : 'feed';
+
   // Initial Fetch
   const fetchForums = async () => {
     const { data } = await supabase.from('forums').select('*').order('name');
@@ -82,24 +75,26 @@ export const Forums: React.FC = () => {
 
   useEffect(() => { fetchForums(); }, []);
 
+  // Opened from a link (or history) rather than by clicking the post in the feed
+  useEffect(() => {
+    if (!postId) { setSelectedPost(null); return; }
+    if (selectedPost?.id === postId) return;
+    fetchForumPost(postId).then(setSelectedPost);
+  }, [postId, selectedPost?.id]);
+
   // Navigation Handlers
   const handleForumSelect = (forum: Forum | null) => {
-    setActiveForum(forum);
-    setViewState('feed');
-    setSelectedPost(null);
+    navigate(forum ? `/forums/${forum.id}` : '/forums');
     setShowMobileSidebar(false);
   };
 
   const handlePostClick = (post: ForumPost) => {
     setSelectedPost(post);
-    setViewState('detail');
+    navigate(`/forums/${post.forum_id}/posts/${post.id}`);
   };
 
   const handleBack = () => {
-    if (viewState === 'detail') {
-      setViewState('feed');
-      setSelectedPost(null);
-    }
+    if (viewState === 'detail') navigate(forumId ? `/forums/${forumId}` : '/forums');
   };
 
   return (
@@ -154,12 +149,13 @@ export const Forums: React.FC = () => {
         {/* Content Switcher */}
         <div className="flex-1 overflow-y-auto pb-20 md:pb-0">
           {viewState === 'feed' ? (
-             <ForumFeed 
+             // Wait for the forum list before loading a single forum's posts
+             (!forumId || activeForum) && <ForumFeed 
                 activeForum={activeForum} 
                 onPostClick={handlePostClick} 
                 onCreatePost={() => setShowCreatePost(true)}
              />
-          ) : selectedPost ? (
+          ) : selectedPost && selectedPost.id === postId ? (
              <PostDetail post={selectedPost} onBack={handleBack} />
           ) : null}
         </div>
@@ -215,7 +211,7 @@ export const Forums: React.FC = () => {
 
       {/* Modals */}
       {showCreateForum && <CreateForumModal onClose={() => setShowCreateForum(false)} onSuccess={fetchForums} />}
-      {showCreatePost && <CreatePostModal activeForum={activeForum} forums={forums} onClose={() => setShowCreatePost(false)} onSuccess={() => { setViewState('feed'); /* trigger refresh logic if needed */ }} />}
+      {showCreatePost && <CreatePostModal activeForum={activeForum} forums={forums} onClose={() => setShowCreatePost(false)} onSuccess={handleBack} />}
 
     </div>
   );
@@ -272,30 +268,13 @@ const ForumFeed: React.FC<{
     const [likedPostIds, setLikedPostIds] = useState<Set<string>>(new Set());
 
     const fetchPosts = useCallback(async () => {
-        let query = supabase
-            .from('forum_posts')
-            .select('*, profiles(*)')
-            .order('created_at', { ascending: false });
-        
-        if (activeForum) {
-            query = query.eq('forum_id', activeForum.id);
-        }
-
-        const { data } = await query;
-        setPosts(data as ForumPost[] || []);
+        const data = await fetchForumPosts(activeForum?.id);
+        setPosts(data);
         
         // Fetch likes for these posts
-        if (data && user) {
-             const ids = data.map((p: any) => p.id);
-             const { data: likes } = await supabase
-                .from('likes')
-                .select('entity_id')
-                .eq('user_id', user.id)
-                .eq('entity_type', 'forum_post')
-                .in('entity_id', ids);
-             if (likes) {
-                 setLikedPostIds(new Set(likes.map((l: any) => l.entity_id)));
-             }
+        if (user) {
+             const likedIds = await fetchLikedEntityIds(user.id, 'forum_post', data.map(p => p.id));
+             setLikedPostIds(new Set(likedIds));
         }
     }, [activeForum, user]);
 
@@ -386,7 +365,7 @@ const ForumFeed: React.FC<{
                             )}
 
                             {!post.media_url && (
-                                <p className="text-sm text-[rgb(var(--color-text))] line-clamp-3 mb-3">{post.content}</p>
+                                <p className="text-sm text-[rgb(var(--color-text))] line-clamp-3 mb-3"><RichText text={post.content} /></p>
                             )}
 
                             {/* Action Footer */}
@@ -474,9 +453,11 @@ const PostDetail: React.FC<{ post: ForumPost, onBack: () => void }> = ({ post, o
                         <h1 className="text-xl md:text-2xl font-bold text-[rgb(var(--color-text))] mb-4">{post.title}</h1>
                         
                         <div className="text-[rgb(var(--color-text))] whitespace-pre-wrap mb-4 text-sm md:text-base leading-relaxed">
-                            {post.content}
+                            <RichText text={post.content} />
                         </div>
 
+                        {post.poll_id && <div className="mb-4"><PollView pollId={post.poll_id} /></div>}
+
                         {post.media_url && (
                              <img src={post.media_url} className="w-full rounded-lg mb-4" />
                         )}
@@ -612,6 +593,7 @@ const CreatePostModal: React.FC<{ activeForum: Forum | null, forums: Forum[], on
     const [selectedForumId, setSelectedForumId] = useState(activeForum?.id || (forums[0]?.id || ''));
     const [title, setTitle] = useState('');
     const [content, setContent] = useState('');
+    const [poll, setPoll] = useState<PollDraft | null>(null);
     const [isSubmitting, setIsSubmitting] = useState(false);
 
     const handleSubmit = async (e: React.FormEvent) => {
@@ -619,11 +601,23 @@ const CreatePostModal: React.FC<{ activeForum: Forum | null, forums: Forum[], on
         if (!user || !selectedForumId) return;
         setIsSubmitting(true);
 
+        let pollId: string | null = null;
+        if (poll) {
+            const { data, error } = await createPoll(poll);
+            if (error || !data) {
+                alert(error?.message ?? 'Could not create the poll.');
+                setIsSubmitting(false);
+                return;
+            }
+            pollId = data;
+        }
+
         await supabase.from('forum_posts').insert({
             forum_id: selectedForumId,
             user_id: user.id,
             title,
-            content
+            content,
+            poll_id: pollId
         });
 
         onSuccess();
@@ -667,10 +661,16 @@ const CreatePostModal: React.FC<{ activeForum: Forum | null, forums: Forum[], on
                             value={content}
                             onChange={e => setContent(e.target.value)}
                         />
+                        {poll && <PollComposer value={poll} onChange={setPoll} onRemove={() => setPoll(null)} disabled={isSubmitting} />}
                     </div>
                 </div>
 
                 <div className="flex justify-end gap-2 pt-4 border-t border-[rgb(var(--color-border))]">
+                     {!poll && (
+                         <button type="button" onClick={() => setPoll(emptyPollDraft())} className="mr-auto flex items-center gap-2 px-4 py-2 rounded-full border border-[rgb(var(--color-border))] text-[rgb(var(--color-text))] hover:bg-[rgb(var(--color-surface-hover))]">
+                             <BarChart3 size={16} /> Add poll
+                         </button>
+                     )}
                      <button type="submit" disabled={isSubmitting} className="px-6 py-2 rounded-full bg-[rgb(var(--color-primary))] text-white font-bold disabled:opacity-50">Post</button>
                 </div>
             </form>
@@ -6,6 +6,8 @@ import {
   Maximize2, Minimize2, Users, Volume2, X, Expand, Shrink, AlertCircle
 } from 'lucide-react';
 import { supabase } from '../lib/supabase';
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import { joinChannel, type ChannelHandle } from '../lib/realtime';
 
 // --- Types ---
 
@@ -139,7 +141,7 @@ export const GazeboVC: React.FC<GazeboVCProps> = ({
   const peerRef = useRef<Peer | null>(null);
   const peersRef = useRef<Record<string, VoicePeer>>({}); // Mutable ref for instant access in callbacks
   const localStreamRef = useRef<MediaStream | null>(null);
-  const channelRef = useRef<any>(null); // Supabase Realtime Channel
+  const channelRef = useRef<ChannelHandle | null>(null); // Supabase Realtime Channel
   const audioContextRef = useRef<AudioContext | null>(null);
   const containerRef = useRef<HTMLDivElement>(null);
 
@@ -232,7 +234,8 @@ export const GazeboVC: React.FC<GazeboVCProps> = ({
           });
       }
 
-      channelRef.current?.unsubscribe();
+      channelRef.current?.leave();
+      channelRef.current = null;
       peerRef.current?.destroy();
       localStreamRef.current?.getTracks().forEach(t => t.stop());
       if (audioContextRef.current) audioContextRef.current.close();
@@ -240,12 +243,7 @@ export const GazeboVC: React.FC<GazeboVCProps> = ({
 
   // --- 3. Signaling (Supabase Presence) ---
   const joinPresenceChannel = (myPeerId: string, stream: MediaStream) => {
-      const channel = supabase.channel(`vc:${channelId}`, {
-          config: { presence: { key: myPeerId } }
-      });
-      channelRef.current = channel;
-
-      channel
+      const setup = (channel: RealtimeChannel) => channel
         .on('presence', { event: 'sync' }, () => {
             const state = channel.presenceState();
             const activeUsers = Object.values(state).flat() as any[];
@@ -283,22 +281,26 @@ export const GazeboVC: React.FC<GazeboVCProps> = ({
                     isScreenSharing: payload.isScreenSharing
                 }
             }));
-        })
-        .subscribe(async (status) => {
-            if (status === 'SUBSCRIBED') {
-                await channel.track({
-                    peerId: myPeerId,
-                    userId: user.id,
-                    profile: user.user_metadata,
-                    mediaState // Initial state
-                });
-            }
         });
+
+      // Tracking again after a rejoin puts us back in the room for everyone else
+      channelRef.current = joinChannel(`vc:${channelId}`, {
+          setup,
+          onJoined: (channel) => {
+              channel.track({
+                  peerId: myPeerId,
+                  userId: user.id,
+                  profile: user.user_metadata,
+                  mediaState // Initial state
+              });
+          },
+      }, { config: { presence: { key: myPeerId } } });
   };
 
   const broadcastMediaState = async (newState: typeof mediaState) => {
-      if (!channelRef.current || !localPeerId) return;
-      await channelRef.current.send({
+      const channel = channelRef.current?.channel;
+      if (!channel || !localPeerId) return;
+      await channel.send({
           type: 'broadcast',
           event: 'media_state',
           payload: {
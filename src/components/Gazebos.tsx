@@ -1,15 +1,30 @@
 // src/components/Gazebos.tsx
 import { useState, useEffect, useRef, useCallback } from 'react';
-import { supabase, Profile, Gazebo, GazeboChannel, GazeboMessage, uploadMedia } from '../lib/supabase';
+import { supabase, Profile, Gazebo, GazeboChannel, GazeboMessage, uploadMedia, Attachment } from '../lib/supabase';
+import { fetchGazeboMessage, fetchGazeboMessages, fetchGazeboMessagesAround } from '../lib/repository';
 import { useAuth } from '../contexts/AuthContext';
-import { useNavigate } from 'react-router-dom';
+import { useNavigate, useParams } from 'react-router-dom';
 import { GazeboVC } from './GazeboVC';
 import { MessageEmbed } from './MessageEmbed';
+import { RichText } from './RichText';
+import { PollView } from './PollView';
+import { PollComposer } from './PollComposer';
+import { UploadProgress } from './UploadProgress';
+import { OriginalQualityToggle } from './OriginalQualityToggle';
+import { AttachmentTray } from './AttachmentTray';
+import { MediaGallery } from './MediaGallery';
+import { OutboxStatus } from './OutboxStatus';
+import { enqueueOutbox, useOutboxItems, type OutboxSentDetail } from '../lib/outbox';
+import type { UploadControls } from '../lib/uploads';
+import { subscribeToChanges } from '../lib/realtime';
+import { purgeOrphanedMedia } from '../lib/storage';
+import { createPoll, emptyPollDraft, pollDraftError, type PollDraft } from '../lib/polls';
+import { MAX_ATTACHMENTS, PendingAttachment, attachmentColumns, getAttachments, isVisualAttachment, remoteAttachment, toPendingAttachments, uploadAttachments } from '../lib/attachments';
 import {
   Hash, Volume2, Plus, Settings, Users, X, Send, Paperclip, Mic, Link as LinkIcon,
   Trash2, Edit3, Copy, Crown, Shield, ChevronDown, Menu,
   FileText, LogOut, Image as ImageIcon, Play, Pause,
-  PhoneOff, UserMinus, ShieldAlert, CornerUpLeft, Video, Smile, BadgeCheck, Folder, Film, Music, FileIcon
+  PhoneOff, UserMinus, ShieldAlert, CornerUpLeft, Video, Smile, BadgeCheck, Folder, Film, Music, FileIcon, BarChart3
 } from 'lucide-react';
 
 const QUICK_EMOJIS = ['👍', '❤️', '😂', '😮', '😢', '💀'];
@@ -74,12 +89,6 @@ const groupReactions = (reactions: GazeboReaction[] | undefined, currentUserId:
 };
 
 
-type GazebosProps = {
-  initialInviteCode?: string | null;
-  onInviteHandled?: () => void;
-  initialGazeboId?: string | null;
-};
-
 type MemberWithProfile = {
   user_id: string;
   role: 'owner' | 'admin' | 'member';
@@ -182,26 +191,33 @@ const formatDateHeader = (dateString: string) => {
 };
 
 // --- Main Component ---
-export const Gazebos = ({ initialInviteCode, onInviteHandled, initialGazeboId }: GazebosProps) => {
+// Routes: /gazebo, /gazebo/:gazeboId, /gazebo/:gazeboId/:channelId[/:messageId] and /invite/:code
+export const Gazebos = ({ scrollToMessage }: { scrollToMessage: (messageId: string) => void }) => {
   const { user, profile } = useAuth();
   const navigate = useNavigate();
+  const { gazeboId, channelId, messageId, code } = useParams<{ gazeboId: string; channelId: string; messageId: string; code: string }>();
   
   // Data State
   const [gazebos, setGazebos] = useState<Gazebo[]>([]);
-  const [activeGazebo, setActiveGazebo] = useState<Gazebo | null>(null);
   const [channels, setChannels] = useState<GazeboChannel[]>([]);
-  const [activeChannel, setActiveChannel] = useState<GazeboChannel | null>(null);
+  // The URL says which gazebo and channel are open
+  const activeGazebo = gazebos.find(g => g.id === gazeboId) ?? null;
+  const activeChannel = channels.find(c => c.id === channelId && c.gazebo_id === gazeboId) ?? null;
   const [messages, setMessages] = useState<AppGazeboMessage[]>([]);
   const [members, setMembers] = useState<MemberWithProfile[]>([]);
   const [inviteLinks, setInviteLinks] = useState<InviteLink[]>([]);
 
   // Pagination State
   const [hasMore, setHasMore] = useState(true);
+  // Set while a message link has opened the channel mid-history; realtime arrivals wait until we page back down
+  const [hasNewer, setHasNewer] = useState(false);
+  const hasNewerRef = useRef(false);
   const [isLoadingMore, setIsLoadingMore] = useState(false);
   const messagesContainerRef = useRef<HTMLDivElement>(null);
 
   // UI State
-  const [mobileView, setMobileView] = useState<'servers' | 'channels' | 'chat'>('servers');
+  // Opening a gazebo from a link shows its channels on mobile (or the chat, if the link names one)
+  const [mobileView, setMobileView] = useState<'servers' | 'channels' | 'chat'>(() => gazeboId ? (channelId ? 'chat' : 'channels') : 'servers');
   const [showMembersPanel, setShowMembersPanel] = useState(true);
   
   // Modal/Overlay States
@@ -223,12 +239,15 @@ export const Gazebos = ({ initialInviteCode, onInviteHandled, initialGazeboId }:
 
   // Message Input State
   const [content, setContent] = useState('');
-  const [file, setFile] = useState<File | null>(null);
+  const [attachments, setAttachments] = useState<PendingAttachment[]>([]);
   const [remoteUrl, setRemoteUrl] = useState('');
   const [isUploading, setIsUploading] = useState(false);
   const [uploadProgress, setUploadProgress] = useState(0);
+  const [uploadControls, setUploadControls] = useState<UploadControls | null>(null);
+  const [keepOriginal, setKeepOriginal] = useState(false);
   const [showMediaMenu, setShowMediaMenu] = useState(false);
   const [mediaInputMode, setMediaInputMode] = useState<'file' | 'url' | null>(null);
+  const [poll, setPoll] = useState<PollDraft | null>(null);
   const [isRecording, setIsRecording] = useState(false);
 
   // Creation & Icon State
@@ -238,6 +257,12 @@ export const Gazebos = ({ initialInviteCode, onInviteHandled, initialGazeboId }:
   const [voiceConnected, setVoiceConnected] = useState<{channelId: string, name: string} | null>(null);
   const [vcMinimized, setVcMinimized] = useState(false);
 
+  // Offline outbox: our queued messages for this channel that haven't landed yet
+  const outboxMessages = useOutboxItems('gazebo_message');
+  const pendingMessages = outboxMessages.filter(item =>
+    item.payload.channel_id === activeChannel?.id && !messages.some(m => m.client_id === item.client_id)
+  );
+
   // Reaction UI State
   const [reactionMenu, setReactionMenu] = useState<{ messageId: string, x: number, y: number } | null>(null);
   const [viewingReactionsFor, setViewingReactionsFor] = useState<AppGazeboMessage | null>(null);
@@ -337,44 +362,26 @@ export const Gazebos = ({ initialInviteCode, onInviteHandled, initialGazeboId }:
         const list = data.map(d => d.gazebos).filter(Boolean) as Gazebo[];
         setGazebos(list);
         
-        // Handle Initial Routing
-        if (initialInviteCode) {
-           handleInviteJoin(initialInviteCode).then(g => {
-               if (onInviteHandled) onInviteHandled();
+        // /invite/:code joins, then lands on the gazebo; desktop opens the first gazebo by default
+        if (code) {
+           handleInviteJoin(code).then(g => {
+               if (!g) navigate('/gazebo', { replace: true });
            });
-        } else if (initialGazeboId) {
-            const target = list.find(g => g.id === initialGazeboId);
-            if (target) { 
-                // If joining via direct ID, check if we need to show welcome (optional, but for now just standard entry)
-                setActiveGazebo(target); 
-                setMobileView('channels'); 
-            }
-            else if (list.length > 0 && window.innerWidth > 768) setActiveGazebo(list[0]);
-        } else if (list.length > 0 && !activeGazebo) {
-            if (window.innerWidth > 768) setActiveGazebo(list[0]);
+        } else if (!list.some(g => g.id === gazeboId) && list.length > 0 && window.innerWidth > 768) {
+            navigate(`/gazebo/${list[0].id}`, { replace: true });
         }
       }
     };
     fetchGazebos();
-  }, [user, initialInviteCode, initialGazeboId]);
+  }, [user, code]);
 
   // --- Active Gazebo Data & Realtime Subs ---
   useEffect(() => {
-    if (!activeGazebo) { setChannels([]); setMembers([]); setActiveChannel(null); return; }
+    if (!activeGazebo) { setChannels([]); setMembers([]); return; }
     
     const loadData = async () => {
         const { data: cData } = await supabase.from('gazebo_channels').select('*').eq('gazebo_id', activeGazebo.id).order('created_at');
         setChannels(cData || []);
-        
-        // Auto-pick default channel
-        if (cData && cData.length > 0) {
-            // Prefer text channel, else first available
-            const defaultCh = cData.find(c => c.type === 'text') || cData[0];
-            // Only switch if we aren't already on a valid channel for this server
-            if (!activeChannel || activeChannel.gazebo_id !== activeGazebo.id) {
-               setActiveChannel(defaultCh);
-            }
-        }
 
         const { data: mData } = await supabase.from('gazebo_members').select('user_id, role, profiles(*)').eq('gazebo_id', activeGazebo.id);
         const mList: MemberWithProfile[] = (mData || []).map(m => ({
@@ -386,49 +393,71 @@ export const Gazebos = ({ initialInviteCode, onInviteHandled, initialGazeboId }:
     };
     loadData();
 
-    const channelSub = supabase.channel(`gazebo_updates:${activeGazebo.id}`)
-        .on('postgres_changes', { event: '*', schema: 'public', table: 'gazebo_channels', filter: `gazebo_id=eq.${activeGazebo.id}` }, () => loadData())
-        .on('postgres_changes', { event: '*', schema: 'public', table: 'gazebo_members', filter: `gazebo_id=eq.${activeGazebo.id}` }, () => loadData())
-        .subscribe();
+    const unsubscribers = [
+        subscribeToChanges({ table: 'gazebo_channels', filter: `gazebo_id=eq.${activeGazebo.id}` }, () => loadData(), { onResync: loadData }),
+        subscribeToChanges({ table: 'gazebo_members', filter: `gazebo_id=eq.${activeGazebo.id}` }, () => loadData(), { onResync: loadData }),
+    ];
 
-    return () => { supabase.removeChannel(channelSub); };
+    return () => { unsubscribers.forEach(unsubscribe => unsubscribe()); };
   }, [activeGazebo?.id]);
 
+  // Auto-pick default channel when the URL doesn't name one (or names one that's gone)
+  useEffect(() => {
+    if (!channels.length || channels[0].gazebo_id !== gazeboId || channels.some(c => c.id === channelId)) return;
+    // Prefer text channel, else first available
+    const defaultCh = channels.find(c => c.type === 'text') || channels[0];
+    navigate(`/gazebo/${gazeboId}/${defaultCh.id}`, { replace: true });
+  }, [channels, gazeboId, channelId, navigate]);
+
+  // Alt+↑/↓: previous/next text channel in this gazebo
+  useEffect(() => {
+    const textChannels = channels.filter(c => c.type === 'text' && c.gazebo_id === gazeboId);
+    const handleKey = (e: KeyboardEvent) => {
+      if (!e.altKey || (e.key !== 'ArrowUp' && e.key !== 'ArrowDown') || !textChannels.length) return;
+      e.preventDefault();
+      const current = textChannels.findIndex(c => c.id === channelId);
+      const index = Math.min(Math.max(current + (e.key === 'ArrowDown' ? 1 : -1), 0), textChannels.length - 1);
+      if (textChannels[index].id !== channelId) navigate(`/gazebo/${gazeboId}/${textChannels[index].id}`);
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [channels, gazeboId, channelId, navigate]);
+
   // --- Chat Messages & Subs ---
   useEffect(() => {
       if (!activeChannel || activeChannel.type !== 'text') { setMessages([]); return; }
       
       loadMessages(true);
 
-      const sub = supabase.channel(`ch:${activeChannel.id}`)
-        .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'gazebo_messages', filter: `channel_id=eq.${activeChannel.id}` }, async (payload) => {
-            const newMsg = payload.new as AppGazeboMessage;
-            const { data: sender } = await supabase.from('profiles').select('*').eq('id', newMsg.user_id).single();
-            
-            let replyData = null;
-            if (newMsg.reply_to_id) {
-                const { data: rData } = await supabase
-                    .from('gazebo_messages')
-                    .select('id, content, user_id, media_type')
-                    .eq('id', newMsg.reply_to_id)
-                    .single();
-                if(rData) {
-                   const { data: rSender } = await supabase.from('profiles').select('display_name').eq('id', rData.user_id).single();
-                   replyData = { ...rData, sender: rSender };
-                }
-            }
+      const receiveMessage = async (id: string) => {
+          const newMsg = await fetchGazeboMessage(id);
+          if (!newMsg) return;
 
-            setMessages(prev => [...prev, { ...newMsg, sender: sender as Profile, reply_to: replyData }]);
-            setTimeout(scrollToBottom, 100);
-        })
-        .on('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'gazebo_messages', filter: `channel_id=eq.${activeChannel.id}` }, payload => {
-            setMessages(prev => prev.map(m => m.id === payload.new.id ? { ...m, content: payload.new.content } : m));
-        })
-        .on('postgres_changes', { event: 'DELETE', schema: 'public', table: 'gazebo_messages', filter: `channel_id=eq.${activeChannel.id}` }, payload => {
+          if (hasNewerRef.current) return;
+          // The outbox and the realtime echo both deliver our own messages
+          setMessages(prev => prev.some(m => m.id === newMsg.id) ? prev : [...prev, newMsg as AppGazeboMessage]);
+          setTimeout(scrollToBottom, 100);
+      };
+
+      const handleOutboxSent = (e: Event) => {
+          const { kind, row } = (e as CustomEvent<OutboxSentDetail>).detail;
+          if (kind === 'gazebo_message' && row.channel_id === activeChannel.id) receiveMessage(row.id);
+      };
+      window.addEventListener('outboxSent', handleOutboxSent);
+
+      const filter = `channel_id=eq.${activeChannel.id}`;
+      const unsubscribers = [
+        subscribeToChanges({ table: 'gazebo_messages', event: 'INSERT', filter, backfill: 'created_at' }, (payload) => {
+            receiveMessage(payload.new.id as string);
+        }),
+        subscribeToChanges({ table: 'gazebo_messages', event: 'UPDATE', filter }, payload => {
+            setMessages(prev => prev.map(m => m.id === payload.new.id ? { ...m, content: payload.new.content as string } : m));
+        }),
+        subscribeToChanges({ table: 'gazebo_messages', event: 'DELETE', filter }, payload => {
             setMessages(prev => prev.filter(m => m.id !== payload.old.id));
-        })
+        }),
         // NEW: Listen for reactions
-        .on('postgres_changes', { event: '*', schema: 'public', table: 'gazebo_message_reactions' }, async (payload) => {
+        subscribeToChanges({ table: 'gazebo_message_reactions' }, async (payload) => {
             if (payload.eventType === 'INSERT') {
                 const newRx = payload.new as any;
                 const { data: fullRx } = await supabase.from('gazebo_message_reactions').select('*, profiles(*)').eq('id', newRx.id).single();
@@ -454,59 +483,47 @@ export const Gazebos = ({ initialInviteCode, onInviteHandled, initialGazeboId }:
                     return prev;
                 });
             }
-        })
-        .subscribe();
+        }),
+      ];
+
+      return () => {
+          unsubscribers.forEach(unsubscribe => unsubscribe());
+          window.removeEventListener('outboxSent', handleOutboxSent);
+      };
+  }, [activeChannel?.id, messageId]);
 
-      return () => { supabase.removeChannel(sub); };
-  }, [activeChannel?.id]);
+  const showNewer = (value: boolean) => {
+      hasNewerRef.current = value;
+      setHasNewer(value);
+  };
 
   const loadMessages = async (isInitial = false) => {
       if (!activeChannel) return;
-      if (isInitial) { setMessages([]); setHasMore(true); }
+      if (isInitial) { setMessages([]); setHasMore(true); showNewer(false); }
       if (!hasMore && !isInitial) return;
 
       setIsLoadingMore(true);
-      
-      const from = isInitial ? 0 : messages.length;
-      const to = from + PAGE_SIZE - 1;
-    
-      // FIX: Select reactions and the profile of the reactor
-      const { data, count } = await supabase
-          .from('gazebo_messages')
-          .select(`
-            *, 
-            sender:profiles(*),
-            reactions:gazebo_message_reactions(
-                id, emoji, user_id, 
-                profiles(id, display_name, username, avatar_url)
-            )
-          `, { count: 'exact' })
-          .eq('channel_id', activeChannel.id)
-          .order('created_at', { ascending: false })
-          .range(from, to);
-
-      if (!data) { setIsLoadingMore(false); return; }
-
-      const replyIds = data.map(m => m.reply_to_id).filter(Boolean);
-      let repliesMap: any = {};
-      if (replyIds.length > 0) {
-          const { data: replies } = await supabase
-            .from('gazebo_messages')
-            .select('id, content, user_id, media_type')
-            .in('id', replyIds);
-          
-          if (replies) {
-             for (let r of replies) {
-                 const { data: rs } = await supabase.from('profiles').select('display_name').eq('id', r.user_id).single();
-                 repliesMap[r.id] = { ...r, sender: rs };
-             }
-          }
+
+      // A message link opens the page around that message; a deleted one falls back to the latest
+      const around = isInitial && messageId
+          ? await fetchGazeboMessagesAround({ channelId: activeChannel.id, messageId, pageSize: PAGE_SIZE })
+          : null;
+      if (around) {
+          setMessages(around.messages as AppGazeboMessage[]);
+          setHasMore(around.hasOlder);
+          showNewer(around.hasNewer);
+          setTimeout(() => scrollToMessage(messageId!), 100);
+          setIsLoadingMore(false);
+          return;
       }
 
-      const formatted = data.map(m => ({
-          ...m,
-          reply_to: m.reply_to_id ? repliesMap[m.reply_to_id] : null
-      })).reverse();
+      // Page back from the oldest message we hold so realtime arrivals don't skew pages
+      const { messages: page, hasMore: hasOlder } = await fetchGazeboMessages({
+          channelId: activeChannel.id,
+          before: isInitial ? undefined : messages[0],
+          pageSize: PAGE_SIZE,
+      });
+      const formatted = page as AppGazeboMessage[];
 
       if (isInitial) {
           setMessages(formatted);
@@ -515,16 +532,35 @@ export const Gazebos = ({ initialInviteCode, onInviteHandled, initialGazeboId }:
           setMessages(prev => [...formatted, ...prev]);
       }
 
-      if (data.length < PAGE_SIZE) setHasMore(false);
+      if (!hasOlder) setHasMore(false);
+      setIsLoadingMore(false);
+  };
+
+  // After a message link: page forward until we're back at the latest message
+  const loadNewerMessages = async () => {
+      if (!activeChannel || !messages.length) return;
+      setIsLoadingMore(true);
+      const { messages: page, hasMore: hasNewerPage } = await fetchGazeboMessages({
+          channelId: activeChannel.id,
+          after: messages[messages.length - 1],
+          pageSize: PAGE_SIZE,
+      });
+      const newer = page as AppGazeboMessage[];
+      setMessages(prev => [...prev, ...newer.filter(m => !prev.some(p => p.id === m.id))]);
+      if (!hasNewerPage) showNewer(false);
       setIsLoadingMore(false);
   };
 
   const handleScroll = () => {
-      if (messagesContainerRef.current?.scrollTop === 0 && !isLoadingMore && hasMore) {
-          const oldHeight = messagesContainerRef.current.scrollHeight;
+      const container = messagesContainerRef.current;
+      if (!container || isLoadingMore) return;
+      if (container.scrollTop === 0 && hasMore) {
+          const oldHeight = container.scrollHeight;
           loadMessages().then(() => {
              if(messagesContainerRef.current) messagesContainerRef.current.scrollTop = messagesContainerRef.current.scrollHeight - oldHeight;
           });
+      } else if (container.scrollHeight - container.scrollTop - container.clientHeight < 50 && hasNewer) {
+          loadNewerMessages();
       }
   };
 
@@ -538,7 +574,8 @@ export const Gazebos = ({ initialInviteCode, onInviteHandled, initialGazeboId }:
      const file = e.target.files?.[0];
      if (!file) return;
      
-     const result = await uploadMedia(file, 'profiles');
+     const { data: result, error } = await uploadMedia(file, 'profiles');
+     if (error) { alert(error.message); return; }
      if (result && result.url) {
          if (target === 'create') {
              setNewGazeboIcon(result.url);
@@ -565,7 +602,7 @@ export const Gazebos = ({ initialInviteCode, onInviteHandled, initialGazeboId }:
           if (!error) {
               await supabase.from('gazebo_invites').update({ uses_count: inv.uses_count + 1 }).eq('id', inv.id);
               setGazebos(prev => [...prev, g]);
-              setActiveGazebo(g);
+              navigate(`/gazebo/${g.id}`, { replace: !!code });
               
               // Trigger Welcome Screen
               if (owner) setWelcomeData({ gazebo: g, owner });
@@ -577,7 +614,7 @@ export const Gazebos = ({ initialInviteCode, onInviteHandled, initialGazeboId }:
           }
       } else {
           if(!gazebos.find(gz => gz.id === g.id)) setGazebos(prev => [...prev, g]);
-          setActiveGazebo(g);
+          navigate(`/gazebo/${g.id}`, { replace: !!code });
           setMobileView('channels');
           setShowJoinGazeboModal(false);
           setShowJoinCreateModal(false);
@@ -596,8 +633,7 @@ export const Gazebos = ({ initialInviteCode, onInviteHandled, initialGazeboId }:
           await supabase.from('gazebo_members').insert({ gazebo_id: g.id, user_id: user.id, role: 'owner' });
           const { data: c } = await supabase.from('gazebo_channels').insert({ gazebo_id: g.id, name: 'general', type: 'text' }).select().single();
           setGazebos(prev => [...prev, g]);
-          setActiveGazebo(g);
-          if (c) setActiveChannel(c);
+          navigate(c ? `/gazebo/${g.id}/${c.id}` : `/gazebo/${g.id}`);
           setShowCreateGazeboModal(false);
           setShowJoinCreateModal(false);
           setNewGazeboIcon(null);
@@ -608,7 +644,6 @@ export const Gazebos = ({ initialInviteCode, onInviteHandled, initialGazeboId }:
       if (!activeGazebo || !isAdmin) return;
       const { data } = await supabase.from('gazebos').update(updates).eq('id', activeGazebo.id).select().single();
       if (data) {
-          setActiveGazebo(data);
           setGazebos(prev => prev.map(g => g.id === data.id ? data : g));
       }
   };
@@ -617,7 +652,7 @@ export const Gazebos = ({ initialInviteCode, onInviteHandled, initialGazeboId }:
       if (!activeGazebo || !isOwner || !confirm('Delete this Gazebo? This cannot be undone.')) return;
       await supabase.from('gazebos').delete().eq('id', activeGazebo.id);
       setGazebos(prev => prev.filter(g => g.id !== activeGazebo.id));
-      setActiveGazebo(null);
+      navigate('/gazebo');
       setMobileView('servers');
   };
 
@@ -635,58 +670,61 @@ export const Gazebos = ({ initialInviteCode, onInviteHandled, initialGazeboId }:
 
   const handleSend = async (e: React.FormEvent) => {
       e.preventDefault();
-      if (!activeChannel || !user || isUploading || (!content.trim() && !file && !remoteUrl)) return;
+      if (!activeChannel || !user || isUploading || (!content.trim() && !attachments.length && !remoteUrl && !poll)) return;
+      const pollProblem = poll && pollDraftError(poll);
+      if (pollProblem) { alert(pollProblem); return; }
       
       setIsUploading(true);
       setUploadProgress(0);
       
-      let finalContent = content.trim();
-      let media_url = remoteUrl;
-      let media_type = null;
+      const finalContent = content.trim();
+      let items: Attachment[] = [];
 
-      // Auto-detect URL if no explicit media attached
-      if (!file && !media_url && finalContent) {
+      if (attachments.length) {
+          const { data: res, error } = await uploadAttachments(attachments, 'gazebo-messages', setUploadProgress, setUploadControls, { keepOriginal });
+          if (error) alert(error.message);
+          if (!res) { setIsUploading(false); return; }
+          items = res;
+      } else if (remoteUrl) {
+          items = [remoteAttachment(remoteUrl)];
+      } else if (finalContent) {
+          // Auto-detect URL if no explicit media attached
           const urlRegex = /(https?:\/\/[^\s]+)/g;
           const match = finalContent.match(urlRegex);
-          if (match) {
-              const detectedUrl = match[0];
-              // Check if it looks like media
-              if (detectedUrl.match(/\.(jpeg|jpg|gif|png|webp|mp4|webm|mp3|wav)$/i)) {
-                  media_url = detectedUrl;
-                  // Remove URL from text content if it's the *only* thing
-                  if (finalContent === detectedUrl) finalContent = '';
-              }
+          // Check if it looks like media
+          if (match && match[0].match(/\.(jpeg|jpg|gif|png|webp|mp4|webm|mp3|wav)$/i)) {
+              items = [remoteAttachment(match[0])];
           }
       }
 
-      if (file) {
-          if (file.type.startsWith('audio/')) media_type = 'audio';
-          const res = await uploadMedia(file, 'gazebo-messages', setUploadProgress);
-          if (!res) { setIsUploading(false); return; }
-          media_url = res.url;
-          media_type = media_type || res.type;
-      } else if (remoteUrl) {
-           if (remoteUrl.match(/\.(jpeg|jpg|gif|png|webp)$/i)) media_type = 'image';
-           else if (remoteUrl.match(/\.(mp4|webm|mov|avi)$/i)) media_type = 'video';
-           else if (remoteUrl.match(/\.(mp3|wav|ogg|m4a)$/i)) media_type = 'audio';
-           else media_type = 'document'; // Default fallback for remote URLs handled by renderer
+      let pollId: string | null = null;
+      if (poll) {
+          const { data: created, error } = await createPoll(poll);
+          if (error || !created) { alert(error?.message ?? 'Could not create the poll.'); setIsUploading(false); return; }
+          pollId = created;
       }
 
-      await supabase.from('gazebo_messages').insert({
+      const columns = attachmentColumns(items);
+      // Queued so the message survives a dropped connection; the outbox inserts it and retries
+      await enqueueOutbox('gazebo_message', user.id, {
           channel_id: activeChannel.id, 
           user_id: user.id, 
-          content: content.trim(),
-          media_url: media_url, 
-          media_type: media_type || 'text',
-          reply_to_id: replyingTo?.id
+          content: finalContent,
+          ...columns,
+          media_type: columns.media_type || 'text',
+          reply_to_id: replyingTo?.id ?? null,
+          poll_id: pollId
       });
+      // Sending from mid-history (a message link) brings the channel back to the present
+      if (hasNewerRef.current) navigate(`/gazebo/${activeChannel.gazebo_id}/${activeChannel.id}`);
 
-      setContent(''); setFile(null); setRemoteUrl(''); setIsUploading(false); setUploadProgress(0); setMediaInputMode(null); setReplyingTo(null);
+      setContent(''); setAttachments([]); setRemoteUrl(''); setIsUploading(false); setUploadProgress(0); setKeepOriginal(false); setMediaInputMode(null); setReplyingTo(null); setPoll(null);
   };
 
   const deleteMessage = async (id: string) => {
       if(!confirm("Delete message?")) return;
-      await supabase.from('gazebo_messages').delete().eq('id', id);
+      const { error } = await supabase.from('gazebo_messages').delete().eq('id', id);
+      if (!error && user) purgeOrphanedMedia(user.id);
   };
 
   const updateMessage = async () => {
@@ -732,7 +770,7 @@ export const Gazebos = ({ initialInviteCode, onInviteHandled, initialGazeboId }:
           recorder.onstop = () => {
               const blob = new Blob(audioChunksRef.current, { type: 'audio/webm' });
               const audioFile = new File([blob], 'voice.webm', { type: 'audio/webm' });
-              setFile(audioFile);
+              setAttachments(toPendingAttachments([audioFile]));
               setIsRecording(false);
               stream.getTracks().forEach(t => t.stop());
           };
@@ -761,7 +799,6 @@ export const Gazebos = ({ initialInviteCode, onInviteHandled, initialGazeboId }:
       if (action === 'delete' && payload) {
           if (!confirm('Delete channel?')) return;
           await supabase.from('gazebo_channels').delete().eq('id', payload);
-          if (activeChannel?.id === payload) setActiveChannel(null);
       }
   };
 
@@ -780,12 +817,19 @@ export const Gazebos = ({ initialInviteCode, onInviteHandled, initialGazeboId }:
       }
   };
 
+  const addFiles = (picked: FileList | File[] | null) => {
+      if (!picked?.length) return;
+      const next = [...attachments, ...toPendingAttachments(picked)];
+      if (next.length > MAX_ATTACHMENTS) alert(`You can attach up to ${MAX_ATTACHMENTS} files.`);
+      setAttachments(next.slice(0, MAX_ATTACHMENTS));
+  };
+
+  // A lone voice note previews as a player; everything else goes in the tray
+  const voiceNote = attachments.length === 1 && attachments[0].file.type.startsWith('audio/') ? attachments[0].file : null;
+
   const getPreview = () => {
-      if (file) {
-        const url = URL.createObjectURL(file);
-        if (file.type.startsWith('image/')) return <img src={url} className="max-h-20 rounded" />;
-        if (file.type.startsWith('audio/')) return <div className="w-64"><AudioPlayer src={url} isOutgoing={true}/></div>;
-        return <div className="flex items-center gap-2 text-sm"><FileText size={16} /> {file.name}</div>;
+      if (voiceNote) {
+        return <div className="w-64"><AudioPlayer src={URL.createObjectURL(voiceNote)} isOutgoing={true}/></div>;
       }
       if (remoteUrl) {
           if (remoteUrl.match(/\.(jpeg|jpg|gif|png|webp)$/i)) {
@@ -799,13 +843,11 @@ export const Gazebos = ({ initialInviteCode, onInviteHandled, initialGazeboId }:
   const isMobile = window.innerWidth <= 768;
 
   const handlePaste = (e: React.ClipboardEvent) => {
-      if (e.clipboardData.files.length > 0) {
-          const pastedFile = e.clipboardData.files[0];
-          if (pastedFile.type.startsWith('image/')) {
-              setFile(pastedFile);
-              setRemoteUrl('');
-              e.preventDefault();
-          }
+      const images = Array.from(e.clipboardData.files).filter(f => f.type.startsWith('image/'));
+      if (images.length > 0) {
+          addFiles(images);
+          setRemoteUrl('');
+          e.preventDefault();
       }
   };
 
@@ -816,7 +858,7 @@ export const Gazebos = ({ initialInviteCode, onInviteHandled, initialGazeboId }:
       {/* === 1. SERVER LIST === */}
       <div className={`flex-shrink-0 bg-[rgb(var(--color-surface))] border-r border-[rgb(var(--color-border))] flex flex-col items-center py-3 space-y-2 z-30 ${isMobile && mobileView !== 'servers' ? 'hidden' : 'flex'} w-18 md:w-20`}>
          {gazebos.map(g => (
-             <button key={g.id} onClick={() => { setActiveGazebo(g); setMobileView('channels'); }} className={`group relative w-12 h-12 flex items-center justify-center rounded-3xl hover:rounded-xl transition-all duration-300 overflow-hidden ${activeGazebo?.id === g.id ? 'rounded-xl bg-[rgb(var(--color-primary))]' : 'bg-[rgb(var(--color-surface-hover))]'}`}>
+             <button key={g.id} onClick={() => { navigate(`/gazebo/${g.id}`); setMobileView('channels'); }} className={`group relative w-12 h-12 flex items-center justify-center rounded-3xl hover:rounded-xl transition-all duration-300 overflow-hidden ${activeGazebo?.id === g.id ? 'rounded-xl bg-[rgb(var(--color-primary))]' : 'bg-[rgb(var(--color-surface-hover))]'}`}>
                  {g.icon_url ? <img src={g.icon_url} className="w-full h-full object-cover" /> : <span className="font-bold text-lg">{g.name.substring(0,2).toUpperCase()}</span>}
                  {activeGazebo?.id === g.id && <div className="absolute left-0 top-1/2 -translate-y-1/2 w-1 h-8 bg-white rounded-r-full" />}
              </button>
@@ -842,7 +884,7 @@ export const Gazebos = ({ initialInviteCode, onInviteHandled, initialGazeboId }:
               </div>
               {channels.filter(c => c.type === 'text').map(c => (
                   <div key={c.id} className={`group flex items-center justify-between px-2 py-1 rounded cursor-pointer ${activeChannel?.id === c.id ? 'bg-[rgb(var(--color-surface-hover))] text-[rgb(var(--color-text))]' : 'text-[rgb(var(--color-text-secondary))] hover:bg-[rgb(var(--color-surface-hover))] hover:text-[rgb(var(--color-text))]'}`}>
-                      <div className="flex items-center gap-2 truncate flex-1" onClick={() => { setActiveChannel(c); setMobileView('chat'); }}>
+                      <div className="flex items-center gap-2 truncate flex-1" onClick={() => { navigate(`/gazebo/${c.gazebo_id}/${c.id}`); setMobileView('chat'); }}>
                           <Hash size={18} className="text-[rgb(var(--color-text-secondary))]" />
                           {editingChannelId === c.id ? 
                               <input autoFocus defaultValue={c.name} onKeyDown={e => { if(e.key === 'Enter') manageChannel('update', e.currentTarget.value); }} onBlur={() => setEditingChannelId(null)} className="bg-transparent outline-none w-full" /> 
@@ -889,7 +931,7 @@ export const Gazebos = ({ initialInviteCode, onInviteHandled, initialGazeboId }:
                    <div className="text-sm font-bold truncate">{profile?.display_name || 'Loading...'}</div>
                    <div className="text-xs text-[rgb(var(--color-text-secondary))] truncate">@{profile?.username || '...'}</div>
                </div>
-               <button className="p-1 hover:bg-[rgb(var(--color-surface))]" onClick={() => setActiveGazebo(null)}><LogOut size={16}/></button>
+               <button className="p-1 hover:bg-[rgb(var(--color-surface))]" onClick={() => navigate('/gazebo')}><LogOut size={16}/></button>
           </div>
       </div>
 
@@ -944,7 +986,7 @@ export const Gazebos = ({ initialInviteCode, onInviteHandled, initialGazeboId }:
                                       </div>
                                   )}
                                   
-                                  <div className={`group flex gap-4 px-2 py-1 rounded hover:bg-[rgb(var(--color-surface-hover))] ${isNewGroup ? 'mt-3' : ''}`}>
+                                  <div id={`msg-${msg.id}`} className={`group flex gap-4 px-2 py-1 rounded hover:bg-[rgb(var(--color-surface-hover))] ${isNewGroup ? 'mt-3' : ''}`}>
                                       {isNewGroup ? (
                                           <div className="relative mt-0.5 w-10 h-10 flex-shrink-0">
                                               <img 
@@ -987,13 +1029,7 @@ export const Gazebos = ({ initialInviteCode, onInviteHandled, initialGazeboId }:
                                               </div>
                                           ) : (
                                               <div className="text-[rgb(var(--color-text))] whitespace-pre-wrap break-words opacity-90">
-                                                  {/* Simple URL detection fallback if not media_type */}
-                                                  {msg.content.split(' ').map((part, idx) => {
-                                                    if (part.match(/^https?:\/\//)) {
-                                                      return <a key={idx} href={part} target="_blank" rel="noopener noreferrer" className="text-[rgb(var(--color-primary))] hover:underline break-all">{part} </a>
-                                                    }
-                                                    return part + ' ';
-                                                  })}
+                                                  <RichText text={msg.content} />
                                               </div>
                                           )}
 
@@ -1001,6 +1037,7 @@ export const Gazebos = ({ initialInviteCode, onInviteHandled, initialGazeboId }:
                                           {msg.content && extractFirstUrl(msg.content) && !msg.media_url && (
                                               <MessageEmbed url={extractFirstUrl(msg.content)!} />
                                           )}
+                                          {msg.poll_id && <PollView pollId={msg.poll_id} />}
                                           
                                           <div className="absolute -top-4 right-0 bg-[rgb(var(--color-surface))] border border-[rgb(var(--color-border))] rounded shadow-sm hidden group-hover:flex z-10 items-center">
                                                {/* NEW: Reaction Trigger Button */}
@@ -1016,6 +1053,7 @@ export const Gazebos = ({ initialInviteCode, onInviteHandled, initialGazeboId }:
                                                </button>
                                                
                                                <button onClick={() => setReplyingTo(msg)} className="p-1.5 hover:bg-[rgb(var(--color-surface-hover))] text-[rgb(var(--color-text-secondary))]" title="Reply"><CornerUpLeft size={14} /></button>
+                                               <button onClick={() => navigator.clipboard.writeText(`${window.location.origin}/gazebo/${gazeboId}/${msg.channel_id}/${msg.id}`)} className="p-1.5 hover:bg-[rgb(var(--color-surface-hover))] text-[rgb(var(--color-text-secondary))]" title="Copy Message Link"><LinkIcon size={14} /></button>
                                                {isSelf && (
                                                  <>
                                                    <button onClick={() => { setEditingMessageId(msg.id); setEditMessageContent(msg.content); }} className="p-1.5 hover:bg-[rgb(var(--color-surface-hover))] text-[rgb(var(--color-text-secondary))]" title="Edit"><Edit3 size={14} /></button>
@@ -1025,16 +1063,18 @@ export const Gazebos = ({ initialInviteCode, onInviteHandled, initialGazeboId }:
                                           </div>
 
                                           {msg.media_url && (
-                                              <div className="mt-2">
-                                                  {msg.media_type === 'image' && <img src={msg.media_url} className="max-h-80 rounded-lg border border-[rgb(var(--color-border))]" />}
-                                                  {msg.media_type === 'video' && <video src={msg.media_url} controls className="max-h-80 rounded-lg border border-[rgb(var(--color-border))]" />}
-                                                  {msg.media_type === 'audio' && <div className="bg-[rgb(var(--color-surface))] p-2 rounded w-64 border border-[rgb(var(--color-border))]"><AudioPlayer src={msg.media_url} isOutgoing={false} /></div>}
-                                                  {(msg.media_type === 'document' || (!['image','video','audio'].includes(msg.media_type || ''))) && (
-                                                    <a href={msg.media_url} target="_blank" rel="noopener noreferrer" className="flex items-center gap-2 p-2 bg-[rgb(var(--color-surface-hover))] rounded w-fit border border-[rgb(var(--color-border))] hover:bg-[rgb(var(--color-border))] transition">
-                                                        <LinkIcon size={16} />
-                                                        <span className="truncate max-w-xs">{msg.media_url}</span>
-                                                    </a>
-                                                  )}
+                                              <div className="mt-2 space-y-2">
+                                                  <MediaGallery items={getAttachments(msg).filter(isVisualAttachment)} maxHeight="max-h-80" className="max-w-md" />
+                                                  {getAttachments(msg).filter(item => !isVisualAttachment(item)).map((item, i) => (
+                                                    item.type === 'audio' ? (
+                                                      <div key={i} className="bg-[rgb(var(--color-surface))] p-2 rounded w-64 border border-[rgb(var(--color-border))]"><AudioPlayer src={item.url} isOutgoing={false} /></div>
+                                                    ) : (
+                                                      <a key={i} href={item.url} target="_blank" rel="noopener noreferrer" className="flex items-center gap-2 p-2 bg-[rgb(var(--color-surface-hover))] rounded w-fit border border-[rgb(var(--color-border))] hover:bg-[rgb(var(--color-border))] transition">
+                                                          <LinkIcon size={16} />
+                                                          <span className="truncate max-w-xs">{item.url}</span>
+                                                      </a>
+                                                    )
+                                                  ))}
                                               </div>
                                           )}
 
@@ -1068,6 +1108,14 @@ export const Gazebos = ({ initialInviteCode, onInviteHandled, initialGazeboId }:
                               </div>
                           )
                       })}
+                      {/* Queued outgoing messages (offline outbox) */}
+                      {pendingMessages.map(item => (
+                          <div key={item.client_id} className="px-4 py-1 opacity-60">
+                              {item.payload.content ? <p className="text-sm text-[rgb(var(--color-text))] whitespace-pre-wrap break-words">{String(item.payload.content)}</p> : null}
+                              {item.payload.media_url ? <p className="text-xs italic text-[rgb(var(--color-text-secondary))]">{String(item.payload.media_type || 'media')} attachment</p> : null}
+                              <OutboxStatus item={item} className="mt-0.5" />
+                          </div>
+                      ))}
                       <div ref={messagesEndRef} />
                   </div>
 
@@ -1077,8 +1125,8 @@ export const Gazebos = ({ initialInviteCode, onInviteHandled, initialGazeboId }:
                           
                           {/* Progress Bar */}
                           {isUploading && (
-                             <div className="absolute top-0 left-0 right-0 h-1 bg-[rgb(var(--color-border))]">
-                                <div className="h-full bg-[rgb(var(--color-primary))] transition-all duration-300" style={{ width: `${uploadProgress}%` }} />
+                             <div className="px-1 pb-2">
+                                <UploadProgress progress={uploadProgress} controls={uploadControls} />
                              </div>
                           )}
 
@@ -1096,7 +1144,7 @@ export const Gazebos = ({ initialInviteCode, onInviteHandled, initialGazeboId }:
                             )}
 
                             {/* URL Input Panel */}
-                            {mediaInputMode === 'url' && !file && !remoteUrl && (
+                            {mediaInputMode === 'url' && !attachments.length && !remoteUrl && (
                                 <div className="flex items-center gap-2 bg-[rgb(var(--color-surface))] p-2 rounded border border-[rgb(var(--color-border))]">
                                     <LinkIcon size={16} className="text-[rgb(var(--color-text-secondary))]" />
                                     <input 
@@ -1114,9 +1162,12 @@ export const Gazebos = ({ initialInviteCode, onInviteHandled, initialGazeboId }:
                             {getPreview() && (
                                 <div className="flex items-center justify-between bg-[rgb(var(--color-surface))] p-2 rounded border border-[rgb(var(--color-border))]">
                                     {getPreview()} 
-                                    <button onClick={() => {setFile(null); setRemoteUrl('');}} className="p-1 hover:bg-[rgb(var(--color-surface-hover))] rounded"><X size={14}/></button>
+                                    <button onClick={() => {setAttachments([]); setRemoteUrl('');}} className="p-1 hover:bg-[rgb(var(--color-surface-hover))] rounded"><X size={14}/></button>
                                 </div>
                             )}
+                            {!voiceNote && <AttachmentTray items={attachments} onChange={setAttachments} disabled={isUploading} />}
+                            <OriginalQualityToggle files={attachments.map(a => a.file)} checked={keepOriginal} onChange={setKeepOriginal} className="mt-1" />
+                            {poll && <PollComposer value={poll} onChange={setPoll} onRemove={() => setPoll(null)} disabled={isUploading} />}
                           </div>
 
                           {/* --- MAIN INPUT ROW --- */}
@@ -1127,6 +1178,7 @@ export const Gazebos = ({ initialInviteCode, onInviteHandled, initialGazeboId }:
                                      <div className="absolute bottom-10 left-0 bg-[rgb(var(--color-surface))] border border-[rgb(var(--color-border))] rounded shadow-lg flex flex-col p-2 w-40 z-20">
                                          <button onClick={() => fileInputRef.current?.click()} className="flex items-center gap-2 p-2 hover:bg-[rgb(var(--color-surface-hover))] rounded text-sm"><ImageIcon size={16}/> Upload File</button>
                                          <button onClick={() => { setMediaInputMode('url'); setShowMediaMenu(false); }} className="flex items-center gap-2 p-2 hover:bg-[rgb(var(--color-surface-hover))] rounded text-sm"><LinkIcon size={16}/> Paste URL</button>
+                                         <button onClick={() => { setPoll(poll ?? emptyPollDraft()); setShowMediaMenu(false); }} className="flex items-center gap-2 p-2 hover:bg-[rgb(var(--color-surface-hover))] rounded text-sm"><BarChart3 size={16}/> Poll</button>
                                      </div>
                                  )}
                              </button>
@@ -1135,15 +1187,16 @@ export const Gazebos = ({ initialInviteCode, onInviteHandled, initialGazeboId }:
                              <input 
                                 className="flex-1 bg-transparent outline-none py-2 max-h-32 overflow-y-auto text-[rgb(var(--color-text))]" 
                                 placeholder={`Message #${activeChannel.name}`}
+                                data-composer
                                 value={content}
                                 onChange={e => setContent(e.target.value)}
                                 onPaste={handlePaste} // Added Paste Handler
                                 onKeyDown={e => { if(e.key === 'Enter' && !e.shiftKey) handleSend(e); }}
                              />
                              
-                             <input type="file" ref={fileInputRef} className="hidden" onChange={e => {if(e.target.files?.[0]) setFile(e.target.files[0])}} />
+                             <input type="file" multiple ref={fileInputRef} className="hidden" onChange={e => { addFiles(e.target.files); e.target.value = ''; }} />
 
-                             {content || file || remoteUrl ? (
+                             {content || attachments.length || remoteUrl || poll ? (
                                  <button onClick={handleSend} disabled={isUploading} className="p-2 text-[rgb(var(--color-primary))]"><Send size={20}/></button>
                              ) : (
                                  <button onClick={isRecording ? stopRecording : startRecording} className={`p-2 ${isRecording ? 'text-red-500 animate-pulse' : 'text-[rgb(var(--color-text-secondary))]'}`}><Mic size={20}/></button>
@@ -1439,14 +1492,14 @@ export const Gazebos = ({ initialInviteCode, onInviteHandled, initialGazeboId }:
                       </div>
 
                       <div className="flex gap-2 mt-4">
-                          <button onClick={() => {window.location.href = `/message?user=${viewingProfile.username}`;}} 
+                          <button onClick={() => { setViewingProfile(null); navigate(`/message/${encodeURIComponent(viewingProfile.username)}`); }} 
                             className="flex-1 bg-[rgb(var(--color-primary))] text-white py-2 rounded font-medium text-sm">
                             Message
                           </button>
                           <button 
                              onClick={() => {
                                  setViewingProfile(null);
-                                 navigate(`/?user=${viewingProfile.username}`);
+                                 navigate(`/${encodeURIComponent(viewingProfile.username)}`);
                              }}
                              className="flex-1 bg-[rgb(var(--color-surface-hover))] border border-[rgb(var(--color-border))] text-[rgb(var(--color-text))] py-2 rounded font-medium text-sm"
                           >
@@ -1600,10 +1653,10 @@ export const Gazebos = ({ initialInviteCode, onInviteHandled, initialGazeboId }:
                                                 <div key={msg.id} className="aspect-square relative group bg-[rgb(var(--color-surface))] rounded overflow-hidden">
                                                     {galleryTab === 'image' ? (
                                                         <a href={msg.media_url!} target="_blank" rel="noopener noreferrer" className="block w-full h-full">
-                                                            <img src={msg.media_url!} className="w-full h-full object-cover hover:opacity-90 transition" alt="Shared" />
+                                                            <img src={msg.thumbnail_url || msg.media_url!} loading="lazy" className="w-full h-full object-cover hover:opacity-90 transition" alt="Shared" />
                                                         </a>
                                                     ) : (
-                                                        <video src={msg.media_url!} className="w-full h-full object-cover" controls />
+                                                        <video src={msg.media_url!} poster={msg.poster_url || msg.thumbnail_url || undefined} preload={msg.poster_url ? 'none' : 'metadata'} className="w-full h-full object-cover" controls />
                                                     )}
                                                     <div className="absolute inset-x-0 bottom-0 bg-gradient-to-t from-black/80 to-transparent opacity-0 group-hover:opacity-100 transition p-2 pointer-events-none">
                                                         <div className="text-[10px] text-white truncate">
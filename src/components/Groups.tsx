@@ -1,5 +1,7 @@
 import React, { useState, useEffect, useRef } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
 import { supabase, uploadMedia, Profile, Post } from '../lib/supabase';
+import { fetchGroupPosts } from '../lib/repository';
 import { useAuth } from '../contexts/AuthContext';
 import { PostItem } from './Post';
 import { 
@@ -27,46 +29,14 @@ const TAGS = ['Gaming', 'Hobbies', 'Study', 'Trade', 'Reviews', 'Other'];
 
 // === MAIN COMPONENT ===
 export const Groups: React.FC = () => {
-  const { user } = useAuth();
-  const [viewState, setViewState] = useState<'list' | 'detail'>('list');
-  const [selectedGroupId, setSelectedGroupId] = useState<string | null>(null);
-
-  // Handle browser history navigation
-  useEffect(() => {
-    const handlePopState = () => {
-      const params = new URLSearchParams(window.location.search);
-      const groupId = params.get('group');
-      if (groupId) {
-        setSelectedGroupId(groupId);
-        setViewState('detail');
-      } else {
-        setViewState('list');
-        setSelectedGroupId(null);
-      }
-    };
-    window.addEventListener('popstate', handlePopState);
-    // Initial check
-    handlePopState(); 
-    return () => window.removeEventListener('popstate', handlePopState);
-  }, []);
-
-  const navigateToGroup = (id: string) => {
-    window.history.pushState({}, '', `/?group=${id}`);
-    setSelectedGroupId(id);
-    setViewState('detail');
-  };
+  const { groupId } = useParams<{ groupId: string }>();
+  const navigate = useNavigate();
 
-  const navigateToList = () => {
-    window.history.pushState({}, '', '/');
-    setViewState('list');
-    setSelectedGroupId(null);
-  };
-
-  if (viewState === 'detail' && selectedGroupId) {
-    return <GroupDetail groupId={selectedGroupId} onBack={navigateToList} />;
+  if (groupId) {
+    return <GroupDetail key={groupId} groupId={groupId} onBack={() => navigate('/groups')} />;
   }
 
-  return <GroupsList onOpenGroup={navigateToGroup} />;
+  return <GroupsList onOpenGroup={(id) => navigate(`/groups/${id}`)} />;
 };
 
 // === SUB-COMPONENT: GROUPS DISCOVERY LIST ===
@@ -250,16 +220,7 @@ const GroupDetail: React.FC<{ groupId: string; onBack: () => void }> = ({ groupI
   };
 
   const loadPosts = async () => {
-      const { data } = await supabase
-        .from('posts')
-        .select('*, profiles(*)')
-        .eq('group_id', groupId)
-        .order('created_at', { ascending: false });
-      
-      const loadedPosts = data || [];
-      // Quick fetch of counts (simplified for brevity, ideally reuse the helper from Feed)
-      // We'll skip complex count fetching for this snippet to fit, but it follows Feed.tsx pattern
-      setPosts(loadedPosts as Post[]);
+      setPosts(await fetchGroupPosts(groupId));
   };
 
   useEffect(() => { loadGroupData(); }, [groupId, user]);
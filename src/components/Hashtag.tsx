@@ -0,0 +1,113 @@
+// src/components/Hashtag.tsx
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { ArrowLeft, Hash, Loader2 } from 'lucide-react';
+import { Post } from '../lib/supabase';
+import { fetchHashtagPosts, fetchLikedEntityIds, type FeedCursor } from '../lib/repository';
+import { normalizeHashtag } from '../lib/richText';
+import { useAuth } from '../contexts/AuthContext';
+import { PostItem } from './Post';
+
+const PAGE_SIZE = 10;
+
+// /hashtag/:tag — every post using the tag, newest first
+export const Hashtag = () => {
+  const { tag: tagParam = '' } = useParams();
+  const tag = normalizeHashtag(tagParam);
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const [posts, setPosts] = useState<Post[]>([]);
+  const [cursor, setCursor] = useState<FeedCursor | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [likedPostIds, setLikedPostIds] = useState<Set<string>>(new Set());
+  // Dropped when the tag changes before a page arrives
+  const loadIdRef = useRef(0);
+
+  const fetchUserLikes = useCallback(async (page: Post[]) => {
+    if (!user || page.length === 0) return;
+    const likedIds = await fetchLikedEntityIds(user.id, 'post', page.map(p => p.id));
+    setLikedPostIds(prev => new Set([...prev, ...likedIds]));
+  }, [user]);
+
+  useEffect(() => {
+    const loadId = ++loadIdRef.current;
+    setPosts([]);
+    setCursor(null);
+    setLoading(true);
+    fetchHashtagPosts({ tag, pageSize: PAGE_SIZE }).then(page => {
+      if (loadId !== loadIdRef.current) return;
+      setPosts(page.posts);
+      setCursor(page.cursor);
+      setLoading(false);
+      fetchUserLikes(page.posts);
+    });
+  }, [tag, fetchUserLikes]);
+
+  const loadMore = async () => {
+    if (!cursor || loading) return;
+    const loadId = loadIdRef.current;
+    setLoading(true);
+    const page = await fetchHashtagPosts({ tag, pageSize: PAGE_SIZE, cursor });
+    if (loadId !== loadIdRef.current) return;
+    setPosts(current => [...current, ...page.posts.filter(p => !current.some(c => c.id === p.id))]);
+    setCursor(page.cursor);
+    setLoading(false);
+    fetchUserLikes(page.posts);
+  };
+
+  const goToProfile = (profileId: string) => {
+    window.dispatchEvent(new CustomEvent('navigateToProfile', { detail: profileId }));
+  };
+
+  const handleLikeToggle = (post: Post) => {
+    const wasLiked = likedPostIds.has(post.id);
+    const newSet = new Set(likedPostIds);
+    if (wasLiked) newSet.delete(post.id); else newSet.add(post.id);
+    setLikedPostIds(newSet);
+    setPosts(current => current.map(p => p.id === post.id ? { ...p, like_count: Math.max(0, p.like_count + (wasLiked ? -1 : 1)) } : p));
+  };
+
+  const handleCommentUpdate = (post: Post) => {
+    setPosts(current => current.map(p => p.id === post.id ? post : p));
+  };
+
+  return (
+    <div className="max-w-2xl mx-auto">
+      <div className="flex items-center gap-3 p-4 border-b border-[rgb(var(--color-border))] bg-[rgb(var(--color-surface))] sticky top-0 z-30">
+        <button onClick={() => navigate(-1)} className="p-2 -ml-2 rounded-full hover:bg-[rgb(var(--color-surface-hover))] text-[rgb(var(--color-text))]" title="Back">
+          <ArrowLeft size={20} />
+        </button>
+        <div className="w-10 h-10 rounded-full bg-[rgba(var(--color-primary),0.1)] flex items-center justify-center text-[rgb(var(--color-primary))]">
+          <Hash size={20} />
+        </div>
+        <h1 className="text-xl font-bold text-[rgb(var(--color-text))] break-all">#{tag}</h1>
+      </div>
+
+      {posts.map(post => (
+        <PostItem
+          key={post.id}
+          post={post}
+          currentUserId={user?.id}
+          isLiked={likedPostIds.has(post.id)}
+          onLikeToggle={handleLikeToggle}
+          onCommentUpdate={handleCommentUpdate}
+          onNavigateToProfile={goToProfile}
+        />
+      ))}
+
+      {loading && (
+        <div className="flex justify-center p-6 text-[rgb(var(--color-text-secondary))]">
+          <Loader2 size={24} className="animate-spin" />
+        </div>
+      )}
+      {!loading && posts.length === 0 && (
+        <div className="text-center py-12 text-[rgb(var(--color-text-secondary))]">No posts with #{tag} yet.</div>
+      )}
+      {!loading && cursor && (
+        <button onClick={loadMore} className="w-full py-4 text-sm font-semibold text-[rgb(var(--color-primary))] hover:bg-[rgb(var(--color-surface-hover))] transition">
+          Show more
+        </button>
+      )}
+    </div>
+  );
+};
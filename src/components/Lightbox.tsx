@@ -0,0 +1,97 @@
+// src/components/Lightbox.tsx
+import { useEffect, useRef, useState } from 'react';
+import { ChevronLeft, ChevronRight, X } from 'lucide-react';
+import type { Attachment } from '../lib/supabase';
+
+interface LightboxProps {
+  items: Attachment[];
+  startIndex?: number;
+  onClose: () => void;
+}
+
+// Horizontal travel (px) before a touch counts as a swipe
+const SWIPE_THRESHOLD = 50;
+
+export const Lightbox = ({ items, startIndex = 0, onClose }: LightboxProps) => {
+  const [index, setIndex] = useState(startIndex);
+  const touchStartRef = useRef<{ x: number; y: number } | null>(null);
+  const item = items[index];
+  const hasMany = items.length > 1;
+
+  const go = (step: number) => setIndex(current => (current + step + items.length) % items.length);
+
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+      else if (e.key === 'ArrowRight') setIndex(current => (current + 1) % items.length);
+      else if (e.key === 'ArrowLeft') setIndex(current => (current - 1 + items.length) % items.length);
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [items.length, onClose]);
+
+  const handleTouchStart = (e: React.TouchEvent) => {
+    touchStartRef.current = { x: e.touches[0].clientX, y: e.touches[0].clientY };
+  };
+
+  const handleTouchEnd = (e: React.TouchEvent) => {
+    const start = touchStartRef.current;
+    touchStartRef.current = null;
+    if (!start || !hasMany) return;
+    const dx = e.changedTouches[0].clientX - start.x;
+    const dy = e.changedTouches[0].clientY - start.y;
+    // Mostly-vertical drags are scrolls, not swipes
+    if (Math.abs(dx) < SWIPE_THRESHOLD || Math.abs(dx) < Math.abs(dy)) return;
+    go(dx < 0 ? 1 : -1);
+  };
+
+  if (!item) return null;
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/90 z-[100] flex items-center justify-center p-4 cursor-pointer"
+      // Galleries sit inside clickable posts and bubbles; keep clicks from reaching them
+      onClick={(e) => { e.stopPropagation(); onClose(); }}
+      onTouchStart={handleTouchStart}
+      onTouchEnd={handleTouchEnd}
+    >
+      <div className="max-w-full max-h-full flex flex-col items-center gap-3" onClick={(e) => e.stopPropagation()}>
+        {item.type === 'image' && (
+          <img src={item.url} className="max-w-full max-h-[85vh] object-contain rounded-lg shadow-2xl" alt={item.alt || 'Full size'} />
+        )}
+        {item.type === 'video' && (
+          <video key={item.url} controls autoPlay poster={item.poster_url || undefined} className="max-w-full max-h-[85vh] rounded-2xl">
+            <source src={item.url} /> Your browser does not support the video tag.
+          </video>
+        )}
+        {item.alt && <p className="text-sm text-white/80 max-w-xl text-center">{item.alt}</p>}
+      </div>
+
+      {hasMany && (
+        <>
+          <button
+            onClick={(e) => { e.stopPropagation(); go(-1); }}
+            className="absolute left-4 top-1/2 -translate-y-1/2 p-2 bg-white/10 text-white rounded-full hover:bg-white/20 transition hidden sm:block"
+            title="Previous"
+          >
+            <ChevronLeft size={28} />
+          </button>
+          <button
+            onClick={(e) => { e.stopPropagation(); go(1); }}
+            className="absolute right-4 top-1/2 -translate-y-1/2 p-2 bg-white/10 text-white rounded-full hover:bg-white/20 transition hidden sm:block"
+            title="Next"
+          >
+            <ChevronRight size={28} />
+          </button>
+          <div className="absolute bottom-6 left-1/2 -translate-x-1/2 flex gap-1.5">
+            {items.map((_, i) => (
+              <span key={i} className={`w-2 h-2 rounded-full ${i === index ? 'bg-white' : 'bg-white/30'}`} />
+            ))}
+          </div>
+        </>
+      )}
+
+      <button onClick={(e) => { e.stopPropagation(); onClose(); }} className="absolute top-4 right-4 p-2 bg-white/10 text-white rounded-full hover:bg-white/20 transition"><X size={24} /></button>
+    </div>
+  );
+};
@@ -0,0 +1,98 @@
+// src/components/MediaGallery.tsx
+import { useState } from 'react';
+import { Play } from 'lucide-react';
+import type { Attachment } from '../lib/supabase';
+import { Lightbox } from './Lightbox';
+
+interface MediaGalleryProps {
+  // Images and videos only; audio and documents keep their own renderers
+  items: Attachment[];
+  // Height cap for a single item, e.g. 'max-h-96'
+  maxHeight?: string;
+  className?: string;
+}
+
+// Albums show at most four tiles; the last one carries a "+N" for the rest
+const MAX_TILES = 4;
+
+const GRID_LAYOUTS: Record<number, string[]> = {
+  2: ['', ''],
+  3: ['row-span-2', '', ''],
+  4: ['', '', '', ''],
+};
+
+const Tile = ({ item, className, onOpen, overflow }: { item: Attachment; className: string; onOpen: () => void; overflow?: number }) => (
+  <button type="button" onClick={(e) => { e.stopPropagation(); onOpen(); }} className={`relative overflow-hidden bg-black/5 ${className}`}>
+    {item.type === 'image' ? (
+      <img src={item.thumbnail_url || item.url} alt={item.alt || 'Attachment'} loading="lazy" className="w-full h-full object-cover transition hover:opacity-90" />
+    ) : item.poster_url || item.thumbnail_url ? (
+      <img src={(item.thumbnail_url || item.poster_url)!} alt={item.alt || 'Video'} loading="lazy" className="w-full h-full object-cover" />
+    ) : (
+      <video src={item.url} preload="metadata" className="w-full h-full object-cover" />
+    )}
+    {item.type === 'video' && (
+      <span className="absolute inset-0 flex items-center justify-center bg-black/20">
+        <Play size={32} className="text-white opacity-80" />
+      </span>
+    )}
+    {!!overflow && (
+      <span className="absolute inset-0 flex items-center justify-center bg-black/50 text-white text-2xl font-bold">+{overflow}</span>
+    )}
+  </button>
+);
+
+export const MediaGallery = ({ items, maxHeight = 'max-h-96', className = '' }: MediaGalleryProps) => {
+  const [openIndex, setOpenIndex] = useState<number | null>(null);
+  if (!items.length) return null;
+
+  const lightbox = openIndex !== null && (
+    <Lightbox items={items} startIndex={openIndex} onClose={() => setOpenIndex(null)} />
+  );
+
+  if (items.length === 1) {
+    const [item] = items;
+    // Reserve the box up front when we know the size, so the feed doesn't jump as media loads
+    const aspectRatio = item.width && item.height ? `${item.width} / ${item.height}` : undefined;
+    return (
+      <div className={className}>
+        {item.type === 'image' ? (
+          <img
+            src={item.url}
+            alt={item.alt || 'Attachment'}
+            style={{ aspectRatio }}
+            className={`rounded-2xl ${maxHeight} object-cover w-full cursor-pointer transition hover:opacity-90`}
+            onClick={(e) => { e.stopPropagation(); setOpenIndex(0); }}
+          />
+        ) : (
+          <div className="relative cursor-pointer" onClick={(e) => { e.stopPropagation(); setOpenIndex(0); }}>
+            <video src={item.url} poster={item.poster_url || undefined} preload={item.poster_url ? 'none' : 'metadata'} style={{ aspectRatio }} className={`rounded-2xl ${maxHeight} w-full object-cover`} />
+            <div className="absolute inset-0 flex items-center justify-center bg-black/20 hover:bg-black/10 transition rounded-2xl">
+              <Play size={48} className="text-white opacity-80" />
+            </div>
+          </div>
+        )}
+        {lightbox}
+      </div>
+    );
+  }
+
+  const tiles = items.slice(0, MAX_TILES);
+  const layout = GRID_LAYOUTS[tiles.length];
+
+  return (
+    <div className={className}>
+      <div className={`grid grid-cols-2 ${tiles.length > 2 ? 'grid-rows-2' : ''} gap-0.5 rounded-2xl overflow-hidden aspect-[16/10] w-full`}>
+        {tiles.map((item, i) => (
+          <Tile
+            key={`${item.url}-${i}`}
+            item={item}
+            className={layout[i]}
+            onOpen={() => setOpenIndex(i)}
+            overflow={i === MAX_TILES - 1 ? items.length - MAX_TILES : 0}
+          />
+        ))}
+      </div>
+      {lightbox}
+    </div>
+  );
+};
@@ -1,10 +1,23 @@
 // src/components/Messages.tsx
 import { useEffect, useState, useRef, useCallback, lazy, Suspense } from 'react';
-import { supabase, Message, Profile, uploadMedia, MessageReaction } from '../lib/supabase';
+import { useNavigate, useParams } from 'react-router-dom';
+import { supabase, Profile, MessageReaction, Attachment } from '../lib/supabase';
+import { ConversationMessage, fetchConversation, fetchConversationAround, fetchConversationMedia, fetchMessageReplies, fetchProfile, fetchProfileByUsername } from '../lib/repository';
+import { loadCachedInbox, loadCachedThread, saveCachedThread, saveLastOpenConversation, syncInbox } from '../lib/messageCache';
 import { useAuth } from '../contexts/AuthContext';
-import { Send, BadgeCheck, Search, ArrowLeft, X, Paperclip, FileText, Link, CornerUpLeft, Phone, Video, Mic, Play, Pause, Plus, Check, CheckCheck, MessageSquare, Users, Smile, Image as ImageIcon, Film, Music, Folder, FileIcon, MoreVertical, ChevronDown, Edit2, Trash2, Copy, Gift } from 'lucide-react';
+import { Send, BadgeCheck, Search, ArrowLeft, X, Paperclip, FileText, Link, CornerUpLeft, Phone, Video, Mic, Play, Pause, Plus, Check, CheckCheck, MessageSquare, Users, Smile, Image as ImageIcon, Film, Music, Folder, FileIcon, MoreVertical, ChevronDown, Edit2, Trash2, Copy, Gift, Link2 } from 'lucide-react';
 import { MessageEmbed } from './MessageEmbed';
 import { EmojiPicker } from './EmojiPicker';
+import { UploadProgress } from './UploadProgress';
+import { OriginalQualityToggle } from './OriginalQualityToggle';
+import { AttachmentTray } from './AttachmentTray';
+import { MediaGallery } from './MediaGallery';
+import { OutboxStatus } from './OutboxStatus';
+import { enqueueOutbox, useOutboxItems, type OutboxSentDetail } from '../lib/outbox';
+import type { UploadControls } from '../lib/uploads';
+import { joinChannel, subscribeToChanges, type ChannelHandle } from '../lib/realtime';
+import { purgeOrphanedMedia } from '../lib/storage';
+import { MAX_ATTACHMENTS, PendingAttachment, attachmentColumns, getAttachments, isVisualAttachment, remoteAttachment, toPendingAttachments, uploadAttachments } from '../lib/attachments';
 
 // Lazy load components to prevent Circular Dependency ReferenceErrors
 const Calls = lazy(() => import('./Calls').then(module => ({ default: module.Calls })));
@@ -60,14 +73,7 @@ const groupReactions = (reactions: MessageReaction[] | undefined, currentUserId:
 };
 
 // Define a type that includes the possible joined reply data
-type AppMessage = Message & {
-  reply_to?: {
-    id: string;
-    content: string;
-    sender_id: string;
-    media_type?: string | null;
-  } | null;
-};
+type AppMessage = ConversationMessage;
 
 // --- NEW AudioPlayer COMPONENT ---
 interface AudioPlayerProps {
@@ -184,27 +190,22 @@ const AudioPlayer: React.FC<AudioPlayerProps> = ({ src, isOutgoing }) => {
   );
 };
 
-export const Messages = ({ 
-  initialInviteCode, 
-  onInviteHandled, 
-  initialTab = 'chats',
-  initialGazeboId 
-}: { 
-  initialInviteCode?: string | null, 
-  onInviteHandled?: () => void,
-  initialTab?: 'chats' | 'gazebos',
-  initialGazeboId?: string | null
-}) => {
-  const [activeTab, setActiveTab] = useState<'chats' | 'gazebos'>(initialTab);
+// Routes: /message, /message/:username and /message/:username/:messageId for chats, /gazebo/... and /invite/:code for gazebos
+export const Messages = ({ tab = 'chats' }: { tab?: 'chats' | 'gazebos' }) => {
+  const activeTab = tab;
+  const { username, messageId } = useParams<{ username: string; messageId: string }>();
+  const navigate = useNavigate();
   const [conversations, setConversations] = useState<Profile[]>([]);
   const [selectedUser, setSelectedUser] = useState<Profile | null>(null);
   const [messages, setMessages] = useState<AppMessage[]>([]);
   const [content, setContent] = useState('');
   const [replyingTo, setReplyingTo] = useState<AppMessage | null>(null);
-  const [file, setFile] = useState<File | null>(null);
+  const [attachments, setAttachments] = useState<PendingAttachment[]>([]);
   const [remoteUrl, setRemoteUrl] = useState('');
   const [uploadProgress, setUploadProgress] = useState(0);
   const [isUploading, setIsUploading] = useState(false);
+  const [uploadControls, setUploadControls] = useState<UploadControls | null>(null);
+  const [keepOriginal, setKeepOriginal] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
   const [showSidebar, setShowSidebar] = useState(true);
   const [isOtherTyping, setIsOtherTyping] = useState(false);
@@ -232,6 +233,11 @@ export const Messages = ({
     setReactionMenu(null);
   };
 
+  const handleCopyMessageLink = (messageId: string) => {
+    navigator.clipboard.writeText(`${window.location.origin}/message/${encodeURIComponent(selectedUser!.username)}/${messageId}`);
+    setReactionMenu(null);
+  };
+
   const handleDeleteMessage = async (messageId: string) => {
     setReactionMenu(null);
     
@@ -255,6 +261,8 @@ export const Messages = ({
         console.error("Error deleting message:", error);
         // Optional: Revert UI if failed
         loadMessages(selectedUser!.id);
+    } else {
+        purgeOrphanedMedia(user!.id);
     }
   };
 
@@ -366,17 +374,7 @@ export const Messages = ({
     if (!user || !selectedUser) return;
     setIsGalleryLoading(true);
 
-    const { data } = await supabase
-      .from('messages')
-      .select('*')
-      .or(`and(sender_id.eq.${user.id},recipient_id.eq.${selectedUser.id}),and(sender_id.eq.${selectedUser.id},recipient_id.eq.${user.id})`)
-      .not('media_url', 'is', null)
-      .neq('media_url', '')
-      .order('created_at', { ascending: false });
-
-    if (data) {
-        setGalleryMedia(data as AppMessage[]);
-    }
+    setGalleryMedia(await fetchConversationMedia(user.id, selectedUser.id));
     setIsGalleryLoading(false);
   };
 
@@ -432,17 +430,25 @@ export const Messages = ({
   // --- PAGINATION STATE ---
   const [messagePage, setMessagePage] = useState(0);
   const [hasMoreMessages, setHasMoreMessages] = useState(true);
+  // Set while a message link has opened the thread mid-history; realtime arrivals wait until we page back down
+  const [hasNewerMessages, setHasNewerMessages] = useState(false);
+  const hasNewerRef = useRef(false);
   const [isLoadingMore, setIsLoadingMore] = useState(false);
   const messagesContainerRef = useRef<HTMLDivElement>(null);
   const MESSAGE_PAGE_SIZE = 10;
 
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const openThreadRef = useRef<string | null>(null);
+  const outboxMessages = useOutboxItems('message');
+  const pendingMessages = outboxMessages.filter(item =>
+    item.payload.recipient_id === selectedUser?.id && !messages.some(m => m.client_id === item.client_id)
+  );
   const typingTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const gifPickerRef = useRef<HTMLDivElement>(null);
 
-  const typingChannelRef = useRef<any>(null);
-  const outgoingTypingChannelRef = useRef<any>(null);
+  const typingChannelRef = useRef<ChannelHandle | null>(null);
+  const outgoingTypingChannelRef = useRef<ChannelHandle | null>(null);
 
   const markMessagesAsRead = async (senderId: string) => {
     if (!user) return;
@@ -517,87 +523,77 @@ export const Messages = ({
     }
   };
 
-  const goToProfile = async (profileId: string) => {
-    const { data } = await supabase
-      .from('profiles')
-      .select('username')
-      .eq('id', profileId)
-      .single();
-    if (data) {
-      window.history.replaceState({}, '', `/?${data.username}`);
-    }
+  const goToProfile = (profileId: string) => {
     window.dispatchEvent(new CustomEvent('navigateToProfile', { detail: profileId }));
   };
 
   const loadConversations = async () => {
-    const { data } = await supabase
-      .from('messages')
-      .select(`
-        id,
-        sender_id,
-        recipient_id,
-        created_at,
-        sender:profiles!sender_id(id, username, display_name, avatar_url, verified, last_seen),
-        recipient:profiles!recipient_id(id, username, display_name, avatar_url, verified, last_seen)
-      `)
-      .or(`sender_id.eq.${user!.id},recipient_id.eq.${user!.id}`)
-      .order('created_at', { ascending: false });
-
-    const convMap = new Map<string, { profile: Profile; latest: string }>();
-    data?.forEach((msg: any) => {
-      const other = msg.sender_id === user!.id ? msg.recipient : msg.sender;
-      if (other) {
-        const existing = convMap.get(other.id);
-        if (!existing || msg.created_at > existing.latest) {
-          convMap.set(other.id, { profile: other, latest: msg.created_at });
-        }
+    setConversations(await syncInbox(user!.id));
+  };
+
+  useEffect(() => {
+    if (!user) return;
+    // Paint the cached inbox (and on desktop, the last chat) right away, then sync the delta
+    loadCachedInbox(user.id).then(cached => {
+      if (!cached) return;
+      setConversations(prev => prev.length ? prev : cached.partners);
+      if (cached.lastOpen && window.innerWidth > 768) {
+        setSelectedUser(prev => prev ?? cached.lastOpen);
       }
     });
+    loadConversations();
+  }, [user]);
 
-    const sorted = Array.from(convMap.values())
-      .sort((a, b) => b.latest.localeCompare(a.latest))
-      .map(c => c.profile);
-
-    setConversations(sorted);
-  };
+  // Keep the on-device copy of the open thread current (realtime inserts, edits, reactions)
+  useEffect(() => {
+    if (!user || !selectedUser || !messages.length || hasNewerMessages) return;
+    // State can briefly hold the previous chat while switching; never file it under the new one
+    const belongs = messages.every(m => m.sender_id === selectedUser.id || m.recipient_id === selectedUser.id);
+    if (belongs) saveCachedThread(user.id, selectedUser.id, messages);
+  }, [messages, selectedUser, user, hasNewerMessages]);
 
   useEffect(() => {
-    if (initialTab) setActiveTab(initialTab);
-  }, [initialTab]);
+    if (user) saveLastOpenConversation(user.id, selectedUser?.id ?? null);
+  }, [selectedUser?.id, user]);
 
+  // /message/:username opens that chat; plain /message shows the list (on mobile)
   useEffect(() => {
-    const handleOpenDM = (e: any) => {
-      const profile = e.detail;
-      if (profile && profile.id !== user?.id) {
-        setSelectedUser(profile);
-        setShowSidebar(false);
+    if (!user) return;
+    if (!username) { setShowSidebar(true); return; }
+    if (selectedUser?.username === username) return;
+    fetchProfileByUsername(username).then(async data => {
+      // Links name the chat as seen by whoever copied them; the other side gets their own name
+      if (data?.id === user.id && messageId) {
+        const { data: message } = await supabase.from('messages').select('sender_id, recipient_id').eq('id', messageId).maybeSingle();
+        const otherId = message && (message.sender_id === user.id ? message.recipient_id : message.sender_id);
+        data = otherId ? await fetchProfile(otherId) : null;
+        if (data) navigate(`/message/${encodeURIComponent(data.username)}/${messageId}`, { replace: true });
+        return;
+      }
+      if (data && data.id !== user.id) {
+        setSelectedUser(data);
         setSearchQuery('');
       }
-    };
-
-    window.addEventListener('openDirectMessage', handleOpenDM);
-    return () => window.removeEventListener('openDirectMessage', handleOpenDM);
-  }, [user]);
-
-  useEffect(() => {
-    if (user) loadConversations();
-  }, [user]);
+    });
+  }, [username, messageId, user, selectedUser?.username, navigate]);
 
-  // NEW: Listen for URL query params to open chat directly
+  // Alt+↑/↓: previous/next conversation in the list
   useEffect(() => {
-      const params = new URLSearchParams(window.location.search);
-      const username = params.get('user');
-      if (username && user) {
-          const fetchUser = async () => {
-              const { data } = await supabase.from('profiles').select('*').eq('username', username).single();
-              if (data && data.id !== user.id) {
-                  setSelectedUser(data);
-                  setShowSidebar(false);
-              }
-          };
-          fetchUser();
-      }
-  }, [user]); // Runs on mount or when user loads
+    if (activeTab !== 'chats') return;
+    const handleKey = (e: KeyboardEvent) => {
+      if (!e.altKey || (e.key !== 'ArrowUp' && e.key !== 'ArrowDown') || !conversations.length) return;
+      e.preventDefault();
+      const current = conversations.findIndex(c => c.id === selectedUser?.id);
+      const index = Math.min(Math.max(current + (e.key === 'ArrowDown' ? 1 : -1), 0), conversations.length - 1);
+      const next = conversations[index];
+      if (next.id === selectedUser?.id) return;
+      setSelectedUser(next);
+      setSearchQuery('');
+      navigate(`/message/${encodeURIComponent(next.username)}`);
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [activeTab, conversations, selectedUser?.id, navigate]);
 
   const [searchResults, setSearchResults] = useState<Profile[]>([]);
   useEffect(() => {
@@ -622,57 +618,65 @@ export const Messages = ({
   useEffect(() => {
     if (!selectedUser) {
       if (typingChannelRef.current) {
-        typingChannelRef.current.unsubscribe();
+        typingChannelRef.current.leave();
         typingChannelRef.current = null;
       }
       if (outgoingTypingChannelRef.current) {
-        outgoingTypingChannelRef.current.unsubscribe();
+        outgoingTypingChannelRef.current.leave();
         outgoingTypingChannelRef.current = null;
       }
       return;
     }
 
-    loadMessages(selectedUser.id);
+    loadMessages(selectedUser.id, selectedUser.username === username ? messageId : undefined);
     markMessagesAsRead(selectedUser.id);
     setShowSidebar(false);
 
-    const messageChannel = supabase
-      .channel(`messages:${selectedUser.id}`)
-      .on(
-        'postgres_changes',
-        { event: '*', schema: 'public', table: 'messages' }, // Change event to '*' to catch UPDATES
+    const receiveMessage = async (newRecord: AppMessage) => {
+      if (
+        (newRecord.sender_id === user!.id && newRecord.recipient_id === selectedUser.id) ||
+        (newRecord.sender_id === selectedUser.id && newRecord.recipient_id === user!.id)
+      ) {
+        let finalMsg = newRecord;
+        if (finalMsg.reply_to_id) {
+          const replies = await fetchMessageReplies([finalMsg.reply_to_id]);
+          const repliedToMsgData = replies.get(finalMsg.reply_to_id);
+          
+          if (repliedToMsgData) {
+            finalMsg = { ...finalMsg, reply_to: repliedToMsgData }; 
+          }
+        }
+
+        if (newRecord.sender_id === selectedUser.id && newRecord.recipient_id === user!.id) {
+          markMessagesAsRead(selectedUser.id);
+          finalMsg.read = true;
+        }
+
+        // The outbox and the realtime echo both deliver our own messages
+        if (!hasNewerRef.current) {
+          setMessages((prev) => prev.some(m => m.id === finalMsg.id) ? prev : [...prev, finalMsg]);
+          scrollToBottom();
+        }
+        loadConversations();
+      }
+    };
+
+    const handleOutboxSent = (e: Event) => {
+      const { kind, row } = (e as CustomEvent<OutboxSentDetail>).detail;
+      if (kind === 'message') receiveMessage(row as unknown as AppMessage);
+    };
+    window.addEventListener('outboxSent', handleOutboxSent);
+
+    // All events, to catch UPDATES; updated_at also moves on edits, so a reconnect replays those too
+    const unsubscribeMessages = subscribeToChanges(
+        { table: 'messages', backfill: 'updated_at' },
         async (payload) => {
           const eventType = payload.eventType;
           const newRecord = payload.new as AppMessage;
 
           // 1. Handle New Messages (INSERT)
           if (eventType === 'INSERT') {
-            if (
-              (newRecord.sender_id === user!.id && newRecord.recipient_id === selectedUser.id) ||
-              (newRecord.sender_id === selectedUser.id && newRecord.recipient_id === user!.id)
-            ) {
-              let finalMsg = newRecord;
-              if (finalMsg.reply_to_id) {
-                const { data: repliedToMsgData } = await supabase
-                  .from('messages')
-                  .select('id, content, sender_id, media_type')
-                  .eq('id', finalMsg.reply_to_id)
-                  .single();
-                
-                if (repliedToMsgData) {
-                  finalMsg = { ...finalMsg, reply_to: repliedToMsgData } as AppMessage; 
-                }
-              }
-
-              if (newRecord.sender_id === selectedUser.id && newRecord.recipient_id === user!.id) {
-                markMessagesAsRead(selectedUser.id);
-                finalMsg.read = true;
-              }
-
-              setMessages((prev) => [...prev, finalMsg]);
-              scrollToBottom();
-              loadConversations();
-            }
+            await receiveMessage(newRecord);
           }
 
           // 2. Handle Edits and Deletes (UPDATE)
@@ -695,11 +699,11 @@ export const Messages = ({
              }));
           }
         }
-      )
-      // ADDED: Listen for changes to message reactions
-      .on(
-        'postgres_changes',
-        { event: '*', schema: 'public', table: 'message_reactions' },
+      );
+
+    // ADDED: Listen for changes to message reactions
+    const unsubscribeReactions = subscribeToChanges(
+        { table: 'message_reactions' },
         async (payload) => {
            // Handle DELETE
            if (payload.eventType === 'DELETE') {
@@ -796,48 +800,47 @@ export const Messages = ({
                });
            }
         }
-      )
-      .subscribe();
+      );
 
     const incomingChannelName = `typing:${selectedUser.id}:${user!.id}`;
-    typingChannelRef.current = supabase.channel(incomingChannelName);
-
-    typingChannelRef.current
-      .on('presence', { event: 'sync' }, () => {
-        const state = typingChannelRef.current.presenceState();
-        const typing = Object.values(state).flat().some((p: any) => p.typing === true);
-        setIsOtherTyping(typing);
-      })
-      .subscribe();
+    typingChannelRef.current = joinChannel(incomingChannelName, {
+      setup: (channel) => {
+        channel.on('presence', { event: 'sync' }, () => {
+          const state = channel.presenceState();
+          const typing = Object.values(state).flat().some((p: any) => p.typing === true);
+          setIsOtherTyping(typing);
+        });
+      },
+    });
 
     const outgoingChannelName = `typing:${user!.id}:${selectedUser.id}`;
-    outgoingTypingChannelRef.current = supabase.channel(outgoingChannelName);
-
-    outgoingTypingChannelRef.current
-      .subscribe(async (status) => {
-        if (status === 'SUBSCRIBED') {
-          await outgoingTypingChannelRef.current.track({ typing: false });
-        }
-      });
+    outgoingTypingChannelRef.current = joinChannel(outgoingChannelName, {
+      onJoined: (channel) => {
+        channel.track({ typing: false });
+      },
+    });
 
     return () => {
-      supabase.removeChannel(messageChannel);
+      unsubscribeMessages();
+      unsubscribeReactions();
+      window.removeEventListener('outboxSent', handleOutboxSent);
       if (typingChannelRef.current) {
-        typingChannelRef.current.unsubscribe();
+        typingChannelRef.current.leave();
         typingChannelRef.current = null;
       }
       if (outgoingTypingChannelRef.current) {
-        outgoingTypingChannelRef.current.untrack();
-        outgoingTypingChannelRef.current.unsubscribe();
+        outgoingTypingChannelRef.current.channel?.untrack();
+        outgoingTypingChannelRef.current.leave();
         outgoingTypingChannelRef.current = null;
       }
     };
-  }, [selectedUser, user]);
+  }, [selectedUser, user, messageId]);
 
   const sendTypingStatus = async (typing: boolean) => {
-    if (!outgoingTypingChannelRef.current) return;
+    const channel = outgoingTypingChannelRef.current?.channel;
+    if (!channel) return;
     try {
-      await outgoingTypingChannelRef.current.track({ typing });
+      await channel.track({ typing });
     } catch (err) {}
   };
 
@@ -860,8 +863,7 @@ export const Messages = ({
   const handlePaste = (e: React.ClipboardEvent) => {
     // 1. Handle Files (Images, etc)
     if (e.clipboardData.files.length > 0) {
-      const pastedFile = e.clipboardData.files[0];
-      setFile(pastedFile);
+      addFiles(e.clipboardData.files);
       setRemoteUrl(''); // Clear URL if file is prioritized
       setMediaInputMode(null); // Reset input mode to default
       e.preventDefault(); // Prevent default paste behavior (optional, depending on preference)
@@ -871,118 +873,116 @@ export const Messages = ({
 
   const sendMessage = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!content.trim() && !file && !remoteUrl.trim() || !selectedUser) return;
+    if (!content.trim() && !attachments.length && !remoteUrl.trim() || !selectedUser) return;
 
     setIsUploading(true);
     setUploadProgress(0);
 
-    let media_url = null;
-    let media_type = null;
+    let items: Attachment[] = [];
 
-    if (file) {
-      if (file.type.startsWith('audio/')) {
-        media_type = 'audio';
-      }
-      
-      const result = await uploadMedia(file, 'messages', (percent) => {
+    if (attachments.length) {
+      const { data: result, error } = await uploadAttachments(attachments, 'messages', (percent) => {
         setUploadProgress(percent);
-      });
+      }, setUploadControls, { keepOriginal });
+      if (error) alert(error.message);
       if (!result) {
         setIsUploading(false);
         return;
       }
-      media_url = result.url;
-      media_type = media_type || result.type;
+      items = result;
     } else if (remoteUrl.trim()) {
-      media_url = remoteUrl.trim();
-      if (remoteUrl.match(/\.(jpeg|jpg|gif|png|webp)$/i)) {
-        media_type = 'image';
-      } else if (remoteUrl.match(/\.(mp4|webm|mov|avi)$/i)) {
-        media_type = 'video';
-      } else if (remoteUrl.match(/\.(mp3|wav|ogg|m4a|weba)$/i)) {
-        media_type = 'audio';
-      } else {
-        media_type = 'document';
-      }
+      items = [remoteAttachment(remoteUrl.trim())];
     }
 
     sendTypingStatus(false);
-    const { data } = await supabase
-      .from('messages')
-      .insert({
-        sender_id: user!.id,
-        recipient_id: selectedUser.id,
-        content,
-        media_url,
-        media_type,
-        reply_to_id: replyingTo ? replyingTo.id : null,
-      })
-      .select()
-      .single();
-
-    if (data) {
-      setContent('');
-      setFile(null);
-      setRemoteUrl('');
-      setReplyingTo(null);
-      setIsUploading(false);
-      setUploadProgress(0);
-      setMediaInputMode(null);
-    }
+    // Queued so the message survives a dropped connection; the outbox inserts it and retries
+    await enqueueOutbox('message', user!.id, {
+      sender_id: user!.id,
+      recipient_id: selectedUser.id,
+      content,
+      ...attachmentColumns(items),
+      reply_to_id: replyingTo ? replyingTo.id : null,
+    });
+    // Sending from mid-history (a message link) brings the thread back to the present
+    if (hasNewerRef.current) navigate(`/message/${encodeURIComponent(selectedUser.username)}`);
+
+    setContent('');
+    setAttachments([]);
+    setRemoteUrl('');
+    setReplyingTo(null);
+    setIsUploading(false);
+    setUploadProgress(0);
+    setKeepOriginal(false);
+    setMediaInputMode(null);
+  };
+
+  const showNewerMessages = (value: boolean) => {
+    hasNewerRef.current = value;
+    setHasNewerMessages(value);
+  };
+
+  // Replaces the thread with the page of history around a linked message and highlights it
+  const openAtMessage = async (recipientId: string, messageId: string) => {
+    const around = await fetchConversationAround({
+      userId: user!.id,
+      otherId: recipientId,
+      messageId,
+      pageSize: MESSAGE_PAGE_SIZE,
+    });
+    if (!around || openThreadRef.current !== recipientId) return false;
+
+    setMessages(around.messages);
+    setHasMoreMessages(around.hasOlder);
+    showNewerMessages(around.hasNewer);
+    setTimeout(() => scrollToMessage(messageId), 100);
+    return true;
   };
 
-  const loadMessages = async (recipientId: string) => {
+  const loadMessages = async (recipientId: string, linkedMessageId?: string) => {
     setMessages([]);
     setMessagePage(0);
     setHasMoreMessages(true);
+    showNewerMessages(false);
     setIsLoadingMore(false);
-
-    // FIX: Explicitly select reactions and the profile of the reactor
-    const { data: messagesData, count } = await supabase
-      .from('messages')
-      .select(`
-        id, sender_id, recipient_id, content, created_at, media_url, media_type, read, reply_to_id,
-        reactions:message_reactions(
-          id, emoji, user_id,
-          profiles(id, username, display_name, avatar_url)
-        )
-      `, { count: 'exact' })
-      .or(
-        `and(sender_id.eq.${user!.id},recipient_id.eq.${recipientId}),and(sender_id.eq.${recipientId},recipient_id.eq.${user!.id})`
-      )
-      .order('created_at', { ascending: false })
-      .range(0, MESSAGE_PAGE_SIZE - 1);
-
-    if (!messagesData || messagesData.length === 0) {
-      setHasMoreMessages(false);
+    openThreadRef.current = recipientId;
+
+    // A deleted or foreign message falls back to the latest page
+    if (linkedMessageId && await openAtMessage(recipientId, linkedMessageId)) return;
+
+    const cached = await loadCachedThread(user!.id, recipientId);
+    if (cached?.length && openThreadRef.current === recipientId) {
+      setMessages(cached);
+      setTimeout(scrollToBottom, 0);
+
+      // The inbox sync folds new/edited messages into the cached thread
+      setConversations(await syncInbox(user!.id));
+      const fresh = await loadCachedThread(user!.id, recipientId);
+      if (fresh && openThreadRef.current === recipientId) {
+        setMessages(prev => {
+          const merged = new Map(prev.map(m => [m.id, m]));
+          fresh.forEach(m => merged.set(m.id, { ...merged.get(m.id), ...m }));
+          return Array.from(merged.values()).sort((a, b) => a.created_at.localeCompare(b.created_at));
+        });
+        setTimeout(scrollToBottom, 100);
+      }
       return;
     }
-    
-    const replyIds = messagesData
-      .map(m => m.reply_to_id)
-      .filter((id): id is string => id !== null && id !== undefined);
-
-    let repliesMap = new Map<string, AppMessage['reply_to']>();
 
-    if (replyIds.length > 0) {
-      const { data: repliesData } = await supabase
-        .from('messages')
-        .select('id, content, sender_id, media_type')
-        .in('id', replyIds);
+    const { messages: firstPage, count } = await fetchConversation({
+      userId: user!.id,
+      otherId: recipientId,
+      pageSize: MESSAGE_PAGE_SIZE,
+    });
 
-      if (repliesData) {
-        repliesData.forEach(r => repliesMap.set(r.id, r));
-      }
+    if (openThreadRef.current !== recipientId) return;
+    if (firstPage.length === 0) {
+      setHasMoreMessages(false);
+      return;
     }
-
-    const finalMessages = messagesData.map(msg => ({
-      ...msg,
-      reply_to: msg.reply_to_id ? repliesMap.get(msg.reply_to_id) || null : null,
-    }));
     
-    setMessages(finalMessages.reverse() as AppMessage[]);
+    setMessages(firstPage);
 
-    if (messagesData.length < MESSAGE_PAGE_SIZE || (count !== null && count <= MESSAGE_PAGE_SIZE)) {
+    if (firstPage.length < MESSAGE_PAGE_SIZE || (count !== null && count <= MESSAGE_PAGE_SIZE)) {
       setHasMoreMessages(false);
     }
 
@@ -994,52 +994,20 @@ export const Messages = ({
 
     setIsLoadingMore(true);
     const nextPage = messagePage + 1;
-    const from = nextPage * MESSAGE_PAGE_SIZE;
-    const to = from + MESSAGE_PAGE_SIZE - 1;
 
     const container = messagesContainerRef.current;
     const oldScrollHeight = container?.scrollHeight;
 
-    // FIX: Explicitly select reactions and the profile of the reactor for pagination too
-    const { data: messagesData, count } = await supabase
-      .from('messages')
-      .select(`
-        id, sender_id, recipient_id, content, created_at, media_url, media_type, read, reply_to_id,
-        reactions:message_reactions(
-          id, emoji, user_id,
-          profiles(id, username, display_name, avatar_url)
-        )
-      `, { count: 'exact' })
-      .or(
-        `and(sender_id.eq.${user!.id},recipient_id.eq.${selectedUser.id}),and(sender_id.eq.${selectedUser.id},recipient_id.eq.${user!.id})`
-      )
-      .order('created_at', { ascending: false })
-      .range(from, to);
+    const { messages: olderPage, count } = await fetchConversation({
+      userId: user!.id,
+      otherId: selectedUser.id,
+      // Page back from the oldest message we hold so realtime arrivals and the cached thread don't skew pages
+      before: messages[0],
+      pageSize: MESSAGE_PAGE_SIZE,
+    });
       
-    if (messagesData && messagesData.length > 0) {
-      const replyIds = messagesData
-        .map(m => m.reply_to_id)
-        .filter((id): id is string => id !== null && id !== undefined);
-
-      let repliesMap = new Map<string, AppMessage['reply_to']>();
-
-      if (replyIds.length > 0) {
-        const { data: repliesData } = await supabase
-          .from('messages')
-          .select('id, content, sender_id, media_type')
-          .in('id', replyIds);
-
-        if (repliesData) {
-          repliesData.forEach(r => repliesMap.set(r.id, r));
-        }
-      }
-
-      const finalMessages = messagesData.map(msg => ({
-        ...msg,
-        reply_to: msg.reply_to_id ? repliesMap.get(msg.reply_to_id) || null : null,
-      }));
-
-      setMessages(prev => [...(finalMessages as AppMessage[]).reverse(), ...prev]);
+    if (olderPage.length > 0) {
+      setMessages(prev => [...olderPage, ...prev]);
       setMessagePage(nextPage);
 
       if (container && oldScrollHeight) {
@@ -1050,18 +1018,42 @@ export const Messages = ({
       }
     }
 
-    if (!messagesData || messagesData.length < MESSAGE_PAGE_SIZE || (count !== null && messages.length + (messagesData?.length || 0) >= count)) {
+    if (olderPage.length < MESSAGE_PAGE_SIZE || (count !== null && olderPage.length >= count)) {
       setHasMoreMessages(false);
     }
 
     setIsLoadingMore(false);
   };
+
+  // After a message link: page forward until we're back at the latest message
+  const loadNewerMessages = async () => {
+    if (isLoadingMore || !hasNewerMessages || !selectedUser || !messages.length) return;
+
+    setIsLoadingMore(true);
+    const recipientId = selectedUser.id;
+    const { messages: newerPage, count } = await fetchConversation({
+      userId: user!.id,
+      otherId: recipientId,
+      after: messages[messages.length - 1],
+      pageSize: MESSAGE_PAGE_SIZE,
+    });
+
+    if (openThreadRef.current === recipientId) {
+      setMessages(prev => [...prev, ...newerPage.filter(m => !prev.some(p => p.id === m.id))]);
+      if (newerPage.length < MESSAGE_PAGE_SIZE || (count !== null && newerPage.length >= count)) {
+        showNewerMessages(false);
+      }
+    }
+    setIsLoadingMore(false);
+  };
   
   const handleScroll = () => {
     if (messagesContainerRef.current) {
-      const { scrollTop } = messagesContainerRef.current;
+      const { scrollTop, scrollHeight, clientHeight } = messagesContainerRef.current;
       if (scrollTop === 0 && hasMoreMessages && !isLoadingMore) {
         loadMoreMessages();
+      } else if (scrollHeight - scrollTop - clientHeight < 50 && hasNewerMessages && !isLoadingMore) {
+        loadNewerMessages();
       }
     }
   };
@@ -1103,7 +1095,7 @@ export const Messages = ({
           const audioBlob = new Blob(audioChunksRef.current, { type: mimeType });
           const audioFile = new File([audioBlob], `voice-message.${cleanExt}`, { type: mimeType });
           
-          setFile(audioFile);
+          setAttachments(toPendingAttachments([audioFile]));
           setIsRecording(false);
           
           stream.getTracks().forEach(track => track.stop());
@@ -1111,7 +1103,7 @@ export const Messages = ({
 
         recorder.start();
         setIsRecording(true);
-        setFile(null);
+        setAttachments([]);
         setRemoteUrl('');
         setMediaInputMode(null);
       })
@@ -1137,24 +1129,19 @@ export const Messages = ({
 
   const displayList = searchQuery ? searchResults : conversations;
 
+  const addFiles = (picked: FileList | null) => {
+    if (!picked?.length) return;
+    const next = [...attachments, ...toPendingAttachments(picked)];
+    if (next.length > MAX_ATTACHMENTS) alert(`You can attach up to ${MAX_ATTACHMENTS} files.`);
+    setAttachments(next.slice(0, MAX_ATTACHMENTS));
+  };
+
+  // Voice notes get a player instead of a tile so they can be checked before sending
+  const voiceNote = attachments.length === 1 && attachments[0].file.type.startsWith('audio/') ? attachments[0].file : null;
+
   const getPreview = () => {
-    if (file) {
-      const url = URL.createObjectURL(file);
-      if (file.type.startsWith('image/')) {
-        return <img src={url} className="max-h-24 rounded-lg shadow-sm" alt="Preview" />;
-      }
-      if (file.type.startsWith('video/')) {
-        return <video src={url} className="max-h-24 rounded-lg shadow-sm" controls />;
-      }
-      if (file.type.startsWith('audio/')) {
-        return <AudioPlayer src={url} isOutgoing={true} />; 
-      }
-      return (
-        <div className="flex items-center gap-2 text-xs text-[rgb(var(--color-text))] p-2 bg-[rgb(var(--color-background))] rounded-lg border border-[rgb(var(--color-border))]">
-          <FileText size={16} className="text-[rgb(var(--color-accent))]" />
-          <span>{file.name}</span>
-        </div>
-      );
+    if (voiceNote) {
+      return <AudioPlayer src={URL.createObjectURL(voiceNote)} isOutgoing={true} />;
     }
     if (remoteUrl) {
       if (remoteUrl.match(/\.(jpeg|jpg|gif|png|webp)$/i)) {
@@ -1187,7 +1174,7 @@ export const Messages = ({
         {/* Mobile Tab Switcher */}
         <div className="md:hidden flex-shrink-0 p-2 bg-[rgb(var(--color-surface))] border-b border-[rgb(var(--color-border))] flex gap-2 z-50">
           <button 
-            onClick={() => setActiveTab('chats')} 
+            onClick={() => navigate('/message')} 
             className="flex-1 p-2 rounded font-bold text-sm bg-[rgb(var(--color-surface-hover))] text-[rgb(var(--color-text-secondary))]"
           >
             Chats
@@ -1202,7 +1189,7 @@ export const Messages = ({
         {/* Desktop Sidebar Stub */}
         <div className="hidden md:flex flex-col w-16 bg-[rgb(var(--color-surface))] border-r border-[rgb(var(--color-border))] items-center py-4 gap-4 z-50 flex-shrink-0">
           <button 
-            onClick={() => setActiveTab('chats')} 
+            onClick={() => navigate('/message')} 
             title="Direct Messages" 
             className="p-3 rounded-full text-[rgb(var(--color-text-secondary))] hover:bg-[rgb(var(--color-surface-hover))] transition"
           >
@@ -1219,11 +1206,7 @@ export const Messages = ({
         {/* Main Gazebo Content */}
         <div className="flex-1 min-w-0 h-full relative overflow-hidden">
              <Suspense fallback={<div className="flex items-center justify-center h-full">Loading Gazebos...</div>}>
-                 <Gazebos 
-                    initialInviteCode={initialInviteCode} 
-                    onInviteHandled={onInviteHandled}
-                    initialGazeboId={initialGazeboId}
-                 />
+                 <Gazebos scrollToMessage={scrollToMessage} />
              </Suspense>
         </div>
       </div>
@@ -1269,6 +1252,9 @@ export const Messages = ({
                     <button onClick={() => handleCopyMessage(messages.find(m => m.id === reactionMenu.messageId)?.content || "")} className="flex items-center gap-3 px-3 py-2 text-sm text-[rgb(var(--color-text))] hover:bg-[rgb(var(--color-surface-hover))] rounded-lg text-left">
                         <Copy size={16} /> Copy Text
                     </button>
+                    <button onClick={() => handleCopyMessageLink(reactionMenu.messageId)} className="flex items-center gap-3 px-3 py-2 text-sm text-[rgb(var(--color-text))] hover:bg-[rgb(var(--color-surface-hover))] rounded-lg text-left">
+                        <Link2 size={16} /> Copy Link
+                    </button>
                     
                     {reactionMenu.isOutgoing && (
                         <>
@@ -1417,10 +1403,10 @@ export const Messages = ({
                                                 <div key={msg.id} className="aspect-square relative group bg-[rgb(var(--color-surface))] overflow-hidden rounded-md border border-[rgb(var(--color-border))]">
                                                     {galleryTab === 'image' ? (
                                                         <a href={msg.media_url!} target="_blank" rel="noopener noreferrer" className="block w-full h-full">
-                                                            <img src={msg.media_url!} className="w-full h-full object-cover hover:scale-105 transition duration-300" alt="Shared" />
+                                                            <img src={msg.thumbnail_url || msg.media_url!} loading="lazy" className="w-full h-full object-cover hover:scale-105 transition duration-300" alt="Shared" />
                                                         </a>
                                                     ) : (
-                                                        <video src={msg.media_url!} className="w-full h-full object-cover" controls />
+                                                        <video src={msg.media_url!} poster={msg.poster_url || msg.thumbnail_url || undefined} preload={msg.poster_url ? 'none' : 'metadata'} className="w-full h-full object-cover" controls />
                                                     )}
                                                 </div>
                                             ))}
@@ -1472,13 +1458,13 @@ export const Messages = ({
         <div className="px-4 pt-16 md:pt-4 border-b border-[rgb(var(--color-border))] sticky top-0 bg-[rgb(var(--color-surface))] z-10">
           <div className="flex gap-2 mb-4 bg-[rgb(var(--color-surface-hover))] p-1 rounded-xl">
              <button 
-                onClick={() => setActiveTab('chats')}
+                onClick={() => navigate('/message')}
                 className={`flex-1 py-1.5 text-xs font-bold rounded-lg transition ${activeTab === 'chats' ? 'bg-[rgb(var(--color-background))] shadow-sm text-[rgb(var(--color-text))]' : 'text-[rgb(var(--color-text-secondary))] hover:text-[rgb(var(--color-text))]'}`}
              >
                 Chats
              </button>
              <button 
-                onClick={() => setActiveTab('gazebos')}
+                onClick={() => navigate('/gazebo')}
                 className={`flex-1 py-1.5 text-xs font-bold rounded-lg transition ${activeTab === 'gazebos' ? 'bg-[rgb(var(--color-background))] shadow-sm text-[rgb(var(--color-text))]' : 'text-[rgb(var(--color-text-secondary))] hover:text-[rgb(var(--color-text))]'}`}
              >
                 Gazebos
@@ -1512,8 +1498,8 @@ export const Messages = ({
               key={u.id}
               onClick={() => {
                 setSelectedUser(u);
-                setShowSidebar(false);
                 setSearchQuery('');
+                navigate(`/message/${encodeURIComponent(u.username)}`);
               }}
               className={`w-full flex items-center gap-3 p-3 transition border-b border-[rgb(var(--color-border))] border-opacity-40 hover:bg-[rgb(var(--color-surface-hover))] ${selectedUser?.id === u.id ? 'bg-[rgba(var(--color-accent),0.05)] border-l-4 border-l-[rgb(var(--color-accent))] pl-2' : ''}`}
             >
@@ -1552,7 +1538,7 @@ export const Messages = ({
           <>
             {/* Chat Header */}
             <div className="bg-[rgb(var(--color-surface))] border-b border-[rgb(var(--color-border))] p-3 flex items-center gap-3 sticky top-0 z-20 shadow-sm">
-              <button onClick={() => setShowSidebar(true)} className="md:hidden p-2 rounded-full hover:bg-[rgb(var(--color-surface-hover))] transition active:scale-95">
+              <button onClick={() => navigate('/message')} className="md:hidden p-2 rounded-full hover:bg-[rgb(var(--color-surface-hover))] transition active:scale-95">
                 <ArrowLeft size={20} className="text-[rgb(var(--color-text))]" />
               </button>
               
@@ -1724,31 +1710,26 @@ export const Messages = ({
 
                     {/* Media Content */}
                     {msg.media_url && !msg.is_deleted && (
-                      <div className={`mb-1 ${msg.content ? "pb-1" : ""}`}>
-                        {msg.media_type === 'image' && (
-                          <img src={msg.media_url} className="rounded-lg w-full h-auto max-h-80 object-cover" alt="Image" loading="lazy" />
-                        )}
-                        {msg.media_type === 'video' && (
-                          <video controls className="rounded-lg w-full max-h-80 bg-black">
-                            <source src={msg.media_url} />
-                          </video>
-                        )}
-                        {msg.media_type === 'audio' && (
-                            <div className="pt-1">
-                                <AudioPlayer src={msg.media_url} isOutgoing={isMe} />
+                      <div className={`mb-1 space-y-1 ${msg.content ? "pb-1" : ""}`}>
+                        <MediaGallery items={getAttachments(msg).filter(isVisualAttachment)} maxHeight="max-h-80" />
+                        {getAttachments(msg).filter(item => !isVisualAttachment(item)).map((item, i) => (
+                          item.type === 'audio' ? (
+                            <div key={i} className="pt-1">
+                                <AudioPlayer src={item.url} isOutgoing={isMe} />
                             </div>
-                        )}
-                        {msg.media_type === 'document' && (
-                          <a
-                            href={msg.media_url}
-                            target="_blank"
-                            rel="noopener noreferrer"
-                            className={`flex items-center gap-2 p-2 rounded-lg transition ${isMe ? 'bg-white/10 hover:bg-white/20' : 'bg-[rgb(var(--color-surface-hover))] hover:bg-[rgb(var(--color-border))]'}`}
-                          >
-                            <FileText size={16} /> 
-                            <span className="underline decoration-dotted text-xs truncate">Open File</span>
-                          </a>
-                        )}
+                          ) : (
+                            <a
+                              key={i}
+                              href={item.url}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className={`flex items-center gap-2 p-2 rounded-lg transition ${isMe ? 'bg-white/10 hover:bg-white/20' : 'bg-[rgb(var(--color-surface-hover))] hover:bg-[rgb(var(--color-border))]'}`}
+                            >
+                              <FileText size={16} /> 
+                              <span className="underline decoration-dotted text-xs truncate">Open File</span>
+                            </a>
+                          )
+                        ))}
                       </div>
                     )}
                     
@@ -1825,6 +1806,17 @@ export const Messages = ({
                 </div>
               )})}
 
+              {/* Queued outgoing messages (offline outbox) */}
+              {pendingMessages.map(item => (
+                <div key={item.client_id} className="flex w-full mb-1 flex-col items-end">
+                  <div className="max-w-[85%] md:max-w-[70%] lg:max-w-[60%] min-w-0 px-3 py-1.5 shadow-sm break-words rounded-2xl rounded-tr-sm bg-gradient-to-br from-[rgb(var(--color-primary))] to-[rgb(var(--color-accent))] text-[rgb(var(--color-text-on-primary))] opacity-60">
+                    {item.payload.content ? <p className="text-sm whitespace-pre-wrap">{String(item.payload.content)}</p> : null}
+                    {item.payload.media_url ? <p className="text-xs italic">{String(item.payload.media_type || 'media')} attachment</p> : null}
+                  </div>
+                  <OutboxStatus item={item} className="mt-0.5 mr-1" />
+                </div>
+              ))}
+
               {/* Typing Indicator */}
               {isOtherTyping && (
                 <div className="flex justify-start w-full mb-2">
@@ -1868,19 +1860,25 @@ export const Messages = ({
                     )}
                     
                     {/* File Preview */}
-                    {(file || remoteUrl) && (
+                    {(voiceNote || remoteUrl) && (
                         <div className="px-4 pt-3">
                             <div className="relative inline-block">
                                 {getPreview()}
-                                <button onClick={() => { setFile(null); setRemoteUrl(''); setMediaInputMode(null); }} className="absolute -top-2 -right-2 bg-red-500 text-white rounded-full p-0.5 shadow-md hover:bg-red-600">
+                                <button onClick={() => { setAttachments([]); setRemoteUrl(''); setMediaInputMode(null); }} className="absolute -top-2 -right-2 bg-red-500 text-white rounded-full p-0.5 shadow-md hover:bg-red-600">
                                     <X size={12} />
                                 </button>
                             </div>
                         </div>
                     )}
+                    {attachments.length > 0 && !voiceNote && (
+                        <div className="px-4 pt-3">
+                            <AttachmentTray items={attachments} onChange={setAttachments} disabled={isUploading} />
+                            <OriginalQualityToggle files={attachments.map(a => a.file)} checked={keepOriginal} onChange={setKeepOriginal} className="mt-2" />
+                        </div>
+                    )}
 
                     {/* URL Input */}
-                    {mediaInputMode === 'url' && !file && !remoteUrl && (
+                    {mediaInputMode === 'url' && !attachments.length && !remoteUrl && (
                         <div className="px-4 pt-3 pb-1 flex items-center gap-2">
                              <input type="url" autoFocus value={remoteUrl} onChange={(e) => setRemoteUrl(e.target.value)} placeholder="https://..." className="flex-1 text-sm bg-transparent border-none focus:ring-0 text-[rgb(var(--color-text))]" />
                              <button onClick={() => setMediaInputMode(null)} className="text-[rgb(var(--color-text-secondary))]"><X size={16} /></button>
@@ -1950,12 +1948,13 @@ export const Messages = ({
                         </div>
                     )}
 
+                    {isUploading && (
+                        <div className="px-3 pt-2">
+                            <UploadProgress progress={uploadProgress} controls={uploadControls} />
+                        </div>
+                    )}
+
                     <form onSubmit={editingMessage ? handleUpdateMessage : sendMessage} className="flex items-end gap-2 p-2 relative">
-                         {isUploading && (
-                            <div className="absolute top-0 left-0 right-0 h-0.5 bg-[rgb(var(--color-surface-hover))]">
-                                <div className="h-full bg-[rgb(var(--color-accent))] transition-all duration-300" style={{ width: `${uploadProgress}%` }} />
-                            </div>
-                        )}
 
                         {/* Attach Button (Disabled during edit) */}
                         {!editingMessage && (
@@ -1974,7 +1973,7 @@ export const Messages = ({
                                         <button type="button" className="w-full text-left p-3 text-sm text-[rgb(var(--color-text))] hover:bg-[rgb(var(--color-surface-hover))] flex items-center gap-3" onClick={() => { setShowMediaMenu(false); fileInputRef.current?.click(); setRemoteUrl(''); setMediaInputMode('file'); }}>
                                             <Folder size={18} className="text-[rgb(var(--color-accent))]" /> Upload File
                                         </button>
-                                        <button type="button" className="w-full text-left p-3 text-sm text-[rgb(var(--color-text))] hover:bg-[rgb(var(--color-surface-hover))] flex items-center gap-3" onClick={() => { setShowMediaMenu(false); setFile(null); setRemoteUrl(''); setMediaInputMode('url'); }}>
+                                        <button type="button" className="w-full text-left p-3 text-sm text-[rgb(var(--color-text))] hover:bg-[rgb(var(--color-surface-hover))] flex items-center gap-3" onClick={() => { setShowMediaMenu(false); setAttachments([]); setRemoteUrl(''); setMediaInputMode('url'); }}>
                                             <Link size={18} className="text-[rgb(var(--color-accent))]" /> Paste Link
                                         </button>
                                         <div className="h-px bg-[rgb(var(--color-border))]" />
@@ -1986,7 +1985,7 @@ export const Messages = ({
                             </div>
                         )}
 
-                        <input ref={fileInputRef} type="file" accept="image/*,video/*,.pdf,.doc,.docx,.txt" onChange={(e) => { setFile(e.target.files?.[0] || null); setRemoteUrl(''); }} className="hidden" />
+                        <input ref={fileInputRef} type="file" multiple accept="image/*,video/*,.pdf,.doc,.docx,.txt" onChange={(e) => { addFiles(e.target.files); e.target.value = ''; setRemoteUrl(''); }} className="hidden" />
 
                         {/* Text Input */}
                         <textarea
@@ -1995,6 +1994,7 @@ export const Messages = ({
                             onPaste={handlePaste}
                             placeholder={editingMessage ? "Edit your message..." : (isRecording ? "Recording..." : "Message...")}
                             disabled={isRecording}
+                            data-composer
                             className="flex-1 py-2.5 px-2 bg-transparent border-none focus:ring-0 resize-none text-sm text-[rgb(var(--color-text))] placeholder-[rgb(var(--color-text-secondary))] max-h-32 custom-scrollbar"
                             rows={1}
                             style={{ minHeight: '44px' }}
@@ -2008,7 +2008,7 @@ export const Messages = ({
 
                         {/* Right Actions */}
                         <div className="flex items-center gap-1 pb-1">
-                            {content.trim() || file || remoteUrl ? (
+                            {content.trim() || attachments.length || remoteUrl ? (
                                 <button
                                     type="submit"
                                     disabled={isUploading}
@@ -0,0 +1,69 @@
+// src/components/MfaStepUp.tsx
+import { useState } from 'react';
+import { ShieldCheck, X } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+
+interface MfaStepUpProps {
+  onVerified: () => void;
+  onCancel: () => void;
+}
+
+// Asks for a fresh authenticator code before a sensitive change goes through
+export const MfaStepUp = ({ onVerified, onCancel }: MfaStepUpProps) => {
+  const { verifyMfa } = useAuth();
+  const [code, setCode] = useState('');
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setError('');
+    try {
+      await verifyMfa(code);
+      onVerified();
+    } catch {
+      setError('Wrong code. Try again.');
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-[100] flex items-center justify-center p-4" onClick={onCancel}>
+      <form
+        onSubmit={handleSubmit}
+        onClick={(e) => e.stopPropagation()}
+        className="bg-[rgb(var(--color-surface))] rounded-xl border border-[rgb(var(--color-border))] p-6 w-full max-w-sm space-y-4"
+      >
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-semibold text-[rgb(var(--color-text))] flex items-center gap-2">
+            <ShieldCheck size={20} className="text-[rgb(var(--color-primary))]" /> Confirm it's you
+          </h2>
+          <button type="button" onClick={onCancel} className="p-1 rounded-full hover:bg-[rgb(var(--color-surface-hover))] text-[rgb(var(--color-text-secondary))]">
+            <X size={18} />
+          </button>
+        </div>
+        <p className="text-sm text-[rgb(var(--color-text-secondary))]">Enter the 6-digit code from your authenticator app to continue.</p>
+        <input
+          type="text"
+          inputMode="numeric"
+          autoComplete="one-time-code"
+          autoFocus
+          maxLength={6}
+          value={code}
+          onChange={(e) => { setCode(e.target.value); setError(''); }}
+          placeholder="123456"
+          className="w-full px-3 py-2 border border-[rgb(var(--color-border))] rounded-lg text-center tracking-widest text-xl focus:outline-none focus:border-[rgb(var(--color-accent))]"
+        />
+        {error && <p className="text-sm text-red-500">{error}</p>}
+        <button
+          type="submit"
+          disabled={loading || code.trim().length < 6}
+          className="w-full py-2 bg-[rgb(var(--color-primary))] text-[rgb(var(--color-text-on-primary))] rounded-lg hover:bg-[rgb(var(--color-accent))] disabled:bg-[rgb(var(--color-border))] transition"
+        >
+          {loading ? '...' : 'Verify'}
+        </button>
+      </form>
+    </div>
+  );
+};
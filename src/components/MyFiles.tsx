@@ -0,0 +1,173 @@
+// src/components/MyFiles.tsx
+import { useCallback, useEffect, useState } from 'react';
+import { FileText, Film, Loader2, Music, Trash2 } from 'lucide-react';
+import type { MediaFolder, StorageUsage } from '../lib/supabase';
+import { deleteMyFiles, fetchStorageUsage, formatBytes, listMyFiles, purgeOrphanedMedia, StoredFile } from '../lib/storage';
+
+const FOLDERS: { value: MediaFolder; label: string }[] = [
+  { value: 'posts', label: 'Posts' },
+  { value: 'messages', label: 'Messages' },
+  { value: 'gazebo-messages', label: 'Gazebos' },
+  { value: 'statuses', label: 'Statuses' },
+  { value: 'profiles', label: 'Profile images' },
+];
+
+const FileIcon = ({ file }: { file: StoredFile }) => {
+  if (file.mimetype?.startsWith('image/')) {
+    return <img src={file.thumbnailUrl || file.url} loading="lazy" className="w-full h-full object-cover" alt={file.name} />;
+  }
+  if (file.thumbnailUrl) return <img src={file.thumbnailUrl} loading="lazy" className="w-full h-full object-cover" alt={file.name} />;
+  if (file.mimetype?.startsWith('video/')) return <Film size={18} />;
+  if (file.mimetype?.startsWith('audio/')) return <Music size={18} />;
+  return <FileText size={18} />;
+};
+
+// Settings panel: storage usage plus a per-folder list of uploads with bulk delete
+export const MyFiles = ({ userId }: { userId: string }) => {
+  const [usage, setUsage] = useState<StorageUsage | null>(null);
+  const [folder, setFolder] = useState<MediaFolder>('posts');
+  const [files, setFiles] = useState<StoredFile[]>([]);
+  const [nextOffset, setNextOffset] = useState<number | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [loading, setLoading] = useState(false);
+  const [deleting, setDeleting] = useState(false);
+
+  const loadFiles = useCallback(async (offset = 0) => {
+    setLoading(true);
+    const { data, nextOffset: next, error } = await listMyFiles(userId, folder, offset);
+    if (error) console.error('Error listing files:', error);
+    setFiles(prev => (offset ? [...prev, ...data] : data));
+    setNextOffset(next);
+    setLoading(false);
+  }, [userId, folder]);
+
+  useEffect(() => {
+    setSelected(new Set());
+    loadFiles();
+  }, [loadFiles]);
+
+  useEffect(() => {
+    // Clear anything left behind by deleted posts first so the totals are honest
+    purgeOrphanedMedia(userId).then(() => fetchStorageUsage(userId)).then(setUsage);
+  }, [userId]);
+
+  const toggle = (path: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(path)) next.delete(path);
+      else next.add(path);
+      return next;
+    });
+  };
+
+  const allSelected = files.length > 0 && files.every(f => selected.has(f.path));
+
+  const handleDelete = async () => {
+    if (!selected.size) return;
+    if (!confirm(`Delete ${selected.size} file${selected.size === 1 ? '' : 's'}? Posts and messages using them will show broken media.`)) return;
+    setDeleting(true);
+    const { error } = await deleteMyFiles([...selected]);
+    setDeleting(false);
+    if (error) {
+      alert('Failed to delete files.');
+      return;
+    }
+    setFiles(prev => prev.filter(f => !selected.has(f.path)));
+    setSelected(new Set());
+    setUsage(await fetchStorageUsage(userId));
+  };
+
+  const usedPercent = usage?.quota_bytes ? Math.min(100, (usage.bytes / usage.quota_bytes) * 100) : 0;
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <div className="flex justify-between text-sm text-[rgb(var(--color-text-secondary))] mb-1">
+          <span>
+            {formatBytes(usage?.bytes ?? 0)} used · {usage?.object_count ?? 0} files
+          </span>
+          <span>{usage?.quota_bytes != null ? `${formatBytes(usage.quota_bytes)} limit` : 'No limit'}</span>
+        </div>
+        {usage?.quota_bytes != null && (
+          <div className="h-2 bg-[rgb(var(--color-surface-hover))] rounded-full overflow-hidden">
+            <div
+              className={`h-full ${usedPercent >= 90 ? 'bg-red-500' : 'bg-[rgb(var(--color-primary))]'}`}
+              style={{ width: `${usedPercent}%` }}
+            />
+          </div>
+        )}
+      </div>
+
+      <div className="flex gap-1 overflow-x-auto">
+        {FOLDERS.map(f => (
+          <button
+            key={f.value}
+            onClick={() => setFolder(f.value)}
+            className={`px-3 py-1.5 rounded-full text-sm whitespace-nowrap transition ${
+              folder === f.value
+                ? 'bg-[rgb(var(--color-primary))] text-[rgb(var(--color-text-on-primary))]'
+                : 'bg-[rgb(var(--color-surface-hover))] text-[rgb(var(--color-text))] hover:bg-[rgb(var(--color-border))]'
+            }`}
+          >
+            {f.label}
+          </button>
+        ))}
+      </div>
+
+      {files.length > 0 && (
+        <div className="flex items-center justify-between">
+          <label className="flex items-center gap-2 text-sm text-[rgb(var(--color-text-secondary))] cursor-pointer">
+            <input
+              type="checkbox"
+              checked={allSelected}
+              onChange={() => setSelected(allSelected ? new Set() : new Set(files.map(f => f.path)))}
+            />
+            Select all
+          </label>
+          <button
+            onClick={handleDelete}
+            disabled={!selected.size || deleting}
+            className="px-3 py-1.5 text-sm bg-red-500 text-white rounded-lg hover:bg-red-600 disabled:bg-[rgb(var(--color-border))] transition flex items-center gap-2"
+          >
+            <Trash2 size={14} />
+            {deleting ? '...' : `Delete${selected.size ? ` (${selected.size})` : ''}`}
+          </button>
+        </div>
+      )}
+
+      <div className="divide-y divide-[rgb(var(--color-border))] max-h-96 overflow-y-auto">
+        {files.map(file => (
+          <label key={file.path} className="flex items-center gap-3 py-2 cursor-pointer hover:bg-[rgb(var(--color-surface-hover))] px-1 rounded">
+            <input type="checkbox" checked={selected.has(file.path)} onChange={() => toggle(file.path)} />
+            <div className="w-10 h-10 rounded bg-[rgb(var(--color-surface-hover))] overflow-hidden flex items-center justify-center flex-shrink-0 text-[rgb(var(--color-text-secondary))]">
+              <FileIcon file={file} />
+            </div>
+            <div className="flex-1 min-w-0">
+              <a href={file.url} target="_blank" rel="noopener noreferrer" className="block text-sm text-[rgb(var(--color-text))] truncate hover:underline">
+                {file.name}
+              </a>
+              <p className="text-xs text-[rgb(var(--color-text-secondary))]">
+                {new Date(file.created_at).toLocaleDateString()}
+              </p>
+            </div>
+            <span className="text-xs text-[rgb(var(--color-text-secondary))] whitespace-nowrap">{formatBytes(file.size)}</span>
+          </label>
+        ))}
+        {!loading && files.length === 0 && (
+          <p className="py-6 text-center text-sm text-[rgb(var(--color-text-secondary))]">No files here.</p>
+        )}
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center"><Loader2 size={18} className="animate-spin text-[rgb(var(--color-text-secondary))]" /></div>
+      ) : nextOffset !== null && (
+        <button
+          onClick={() => loadFiles(nextOffset)}
+          className="w-full py-2 text-sm text-[rgb(var(--color-primary))] hover:underline"
+        >
+          Load more
+        </button>
+      )}
+    </div>
+  );
+};
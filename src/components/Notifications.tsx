@@ -2,8 +2,10 @@
 
 import { useEffect, useState } from 'react';
 import { supabase, Profile } from '../lib/supabase';
+import { subscribeToChanges } from '../lib/realtime';
+import { fetchMentionPath } from '../lib/repository';
 import { useAuth } from '../contexts/AuthContext';
-import { X, Heart, MessageCircle, UserPlus, Zap, Trash2 } from 'lucide-react'; 
+import { X, Heart, MessageCircle, UserPlus, Zap, Trash2, AtSign, Repeat, Quote } from 'lucide-react'; 
 import { useNavigate } from 'react-router-dom';
 
 // 1. Define the TypeScript type for a Notification, based on the proposed schema
@@ -11,8 +13,8 @@ interface Notification {
   id: string;
   recipient_id: string;
   actor_id: string;
-  type: 'like' | 'comment' | 'follow';
-  entity_id: string; // The ID of the post, comment, etc.
+  type: 'like' | 'comment' | 'follow' | 'mention' | 'repost' | 'quote';
+  entity_id: string; // The ID of the post, comment, etc. (for mentions: wherever the mention is)
   is_read: boolean;
   created_at: string;
   // Join data from actor's profile - RENAMED from 'profiles' to 'actor'
@@ -31,6 +33,12 @@ const getNotificationIcon = (type: Notification['type']) => {
       return <MessageCircle size={16} className="text-blue-500 fill-blue-500" />;
     case 'follow':
       return <UserPlus size={16} className="text-green-500" />;
+    case 'mention':
+      return <AtSign size={16} className="text-[rgb(var(--color-primary))]" />;
+    case 'repost':
+      return <Repeat size={16} className="text-green-500" />;
+    case 'quote':
+      return <Quote size={16} className="text-green-500" />;
     default:
       return <Zap size={16} className="text-[rgb(var(--color-text-secondary))]" />;
   }
@@ -44,6 +52,12 @@ const getNotificationText = (notif: Notification) => {
       return 'commented on your post.';
     case 'follow':
       return 'started following you.';
+    case 'mention':
+      return 'mentioned you.';
+    case 'repost':
+      return 'reposted your post.';
+    case 'quote':
+      return 'quoted your post.';
     default:
       return 'sent you a notification.';
   }
@@ -84,46 +98,21 @@ export const Notifications = ({ onClose }: { onClose: () => void }) => {
 
     fetchNotifications();
     
-    // Real-time listeners remain the same...
-    const channel = supabase.channel(`notifications-${user.id}`)
-    
-    channel.on('postgres_changes', { 
-        event: 'INSERT', 
-        schema: 'public', 
-        table: 'notifications', 
-        filter: `recipient_id=eq.${user.id}`
-      }, () => {
+    // Shared with the unread badge in App; a full re-fetch also covers anything missed while offline
+    return subscribeToChanges({ table: 'notifications', filter: `recipient_id=eq.${user.id}` }, (payload) => {
+      if (payload.eventType === 'INSERT') {
         // Re-fetch on insert to get the full notification object including actor profile
-        fetchNotifications(); 
-    })
-    
-    channel.on('postgres_changes', {
-      event: 'UPDATE',
-      schema: 'public',
-      table: 'notifications',
-      filter: `recipient_id=eq.${user.id}`
-    }, (payload) => {
-      // Update the notification in the list if its read status changes
-      setNotifications(prev => prev.map(n => 
-        n.id === payload.new.id ? { ...n, is_read: payload.new.is_read as boolean } : n
-      ));
-    });
-    
-    channel.on('postgres_changes', {
-      event: 'DELETE',
-      schema: 'public',
-      table: 'notifications',
-      filter: `recipient_id=eq.${user.id}`
-    }, (payload) => {
-      // Remove deleted notification from the list
-      setNotifications(prev => prev.filter(n => n.id !== payload.old.id));
-    });
-    
-    channel.subscribe();
-    
-    return () => {
-      supabase.removeChannel(channel);
-    };
+        fetchNotifications();
+      } else if (payload.eventType === 'UPDATE') {
+        // Update the notification in the list if its read status changes
+        setNotifications(prev => prev.map(n => 
+          n.id === payload.new.id ? { ...n, is_read: payload.new.is_read as boolean } : n
+        ));
+      } else {
+        // Remove deleted notification from the list
+        setNotifications(prev => prev.filter(n => n.id !== payload.old.id));
+      }
+    }, { onResync: fetchNotifications });
 
   }, [user]);
 
@@ -149,7 +138,7 @@ export const Notifications = ({ onClose }: { onClose: () => void }) => {
     setIsClearing(false);
   };
   
-  const handleNotificationClick = (notif: Notification) => {
+  const handleNotificationClick = async (notif: Notification) => {
     // 1. Mark notification as read in the UI
     if (!notif.is_read) {
         setNotifications(prev => prev.map(n => n.id === notif.id ? { ...n, is_read: true } : n));
@@ -158,13 +147,17 @@ export const Notifications = ({ onClose }: { onClose: () => void }) => {
     }
     
     onClose();
-    if (notif.type === 'follow') {
+    if (notif.type === 'mention') {
+      // A post, a comment, a forum post or a gazebo message: the mentions index knows which
+      const path = user ? await fetchMentionPath(notif.entity_id, user.id) : null;
+      if (path) navigate(path);
+    } else if (notif.type === 'follow') {
       if (notif.actor?.username) {
-        navigate(`/?${notif.actor.username}`);
+        navigate(`/${encodeURIComponent(notif.actor.username)}`);
       }
     } else {
-      // Placeholder for post navigation logic
-      // e.g. navigate(`/post/${notif.entity_id}`);
+      // Likes and comments point at the post
+      navigate(`/post/${notif.entity_id}`);
     }
   };
 
@@ -234,7 +227,7 @@ export const Notifications = ({ onClose }: { onClose: () => void }) => {
                           e.stopPropagation();
                           if (notif.actor?.username) {
                               onClose();
-                              navigate(`/?${notif.actor.username}`);
+                              navigate(`/${encodeURIComponent(notif.actor.username)}`);
                           }
                       }}
                     />
@@ -245,7 +238,7 @@ export const Notifications = ({ onClose }: { onClose: () => void }) => {
                                 e.stopPropagation();
                                 if (notif.actor?.username) {
                                     onClose();
-                                    navigate(`/?${notif.actor.username}`);
+                                    navigate(`/${encodeURIComponent(notif.actor.username)}`);
                                 }
                             }}
                         >
@@ -0,0 +1,25 @@
+// src/components/OriginalQualityToggle.tsx
+
+interface OriginalQualityToggleProps {
+  files: File[];
+  checked: boolean;
+  onChange: (checked: boolean) => void;
+  className?: string;
+}
+
+// Images are downsized and stripped of metadata on upload unless this is ticked
+export const OriginalQualityToggle = ({ files, checked, onChange, className = '' }: OriginalQualityToggleProps) => {
+  if (!files.some(file => file.type.startsWith('image/'))) return null;
+
+  return (
+    <label className={`flex items-center gap-1.5 text-xs text-[rgb(var(--color-text-secondary))] cursor-pointer select-none ${className}`}>
+      <input
+        type="checkbox"
+        checked={checked}
+        onChange={(e) => onChange(e.target.checked)}
+        className="accent-[rgb(var(--color-accent))]"
+      />
+      Upload original (keeps full size and photo metadata)
+    </label>
+  );
+};
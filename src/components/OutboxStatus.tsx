@@ -0,0 +1,32 @@
+// src/components/OutboxStatus.tsx
+import { Clock, AlertCircle, RotateCcw, Trash2 } from 'lucide-react';
+import { OutboxItem, retryOutboxItem, discardOutboxItem } from '../lib/outbox';
+
+interface OutboxStatusProps {
+  item: OutboxItem;
+  className?: string;
+}
+
+export const OutboxStatus = ({ item, className = '' }: OutboxStatusProps) => {
+  if (item.status !== 'failed') {
+    return (
+      <span className={`flex items-center gap-1 text-[10px] text-[rgb(var(--color-text-secondary))] ${className}`}>
+        <Clock size={11} className={item.status === 'sending' ? 'animate-pulse' : ''} />
+        {item.status === 'sending' ? 'Sending...' : navigator.onLine ? 'Pending' : 'Waiting for connection'}
+      </span>
+    );
+  }
+
+  return (
+    <span className={`flex items-center gap-2 text-[10px] text-red-500 ${className}`}>
+      <AlertCircle size={11} />
+      <span className="truncate max-w-[12rem]" title={item.error || undefined}>Not sent</span>
+      <button type="button" onClick={() => retryOutboxItem(item.client_id)} className="flex items-center gap-0.5 font-semibold hover:underline">
+        <RotateCcw size={11} /> Retry
+      </button>
+      <button type="button" onClick={() => discardOutboxItem(item.client_id)} className="flex items-center gap-0.5 font-semibold hover:underline">
+        <Trash2 size={11} /> Discard
+      </button>
+    </span>
+  );
+};
@@ -0,0 +1,77 @@
+// src/components/PollComposer.tsx
+import { BarChart3, Plus, X } from 'lucide-react';
+import { MAX_POLL_OPTIONS, MAX_POLL_OPTION_LENGTH, MIN_POLL_OPTIONS, PollDraft } from '../lib/polls';
+import { toLocalInputValue } from '../lib/drafts';
+
+interface PollComposerProps {
+  value: PollDraft;
+  onChange: (value: PollDraft) => void;
+  onRemove: () => void;
+  disabled?: boolean;
+}
+
+// Options and settings for a poll; the text it's posted with is the question
+export const PollComposer = ({ value, onChange, onRemove, disabled = false }: PollComposerProps) => {
+  const setOption = (index: number, label: string) =>
+    onChange({ ...value, options: value.options.map((o, i) => (i === index ? label : o)) });
+
+  const removeOption = (index: number) =>
+    onChange({ ...value, options: value.options.filter((_, i) => i !== index) });
+
+  return (
+    <div className="border border-[rgb(var(--color-border))] rounded-xl p-3 space-y-2 bg-[rgb(var(--color-background))]">
+      <div className="flex items-center justify-between">
+        <span className="flex items-center gap-2 text-sm font-semibold text-[rgb(var(--color-text))]"><BarChart3 size={16} /> Poll</span>
+        <button type="button" onClick={onRemove} disabled={disabled} className="p-1 rounded-full hover:bg-[rgb(var(--color-surface-hover))]" title="Remove poll">
+          <X size={16} className="text-[rgb(var(--color-text-secondary))]" />
+        </button>
+      </div>
+
+      {value.options.map((option, index) => (
+        <div key={index} className="flex items-center gap-2">
+          <input
+            type="text"
+            value={option}
+            onChange={e => setOption(index, e.target.value)}
+            placeholder={`Option ${index + 1}`}
+            maxLength={MAX_POLL_OPTION_LENGTH}
+            disabled={disabled}
+            className="flex-1 min-w-0 px-3 py-1.5 text-sm border border-[rgb(var(--color-border))] bg-[rgb(var(--color-surface))] rounded-full focus:outline-none focus:border-[rgb(var(--color-accent))] text-[rgb(var(--color-text))]"
+          />
+          {value.options.length > MIN_POLL_OPTIONS && (
+            <button type="button" onClick={() => removeOption(index)} disabled={disabled} className="p-1 rounded-full hover:bg-[rgb(var(--color-surface-hover))]" title="Remove option">
+              <X size={14} className="text-[rgb(var(--color-text-secondary))]" />
+            </button>
+          )}
+        </div>
+      ))}
+      {value.options.length < MAX_POLL_OPTIONS && (
+        <button type="button" onClick={() => onChange({ ...value, options: [...value.options, ''] })} disabled={disabled} className="flex items-center gap-1 text-sm font-semibold text-[rgb(var(--color-accent))] hover:underline">
+          <Plus size={14} /> Add option
+        </button>
+      )}
+
+      <div className="flex items-center gap-x-4 gap-y-2 flex-wrap text-sm text-[rgb(var(--color-text))]">
+        <label className="flex items-center gap-1.5 cursor-pointer">
+          <input type="checkbox" checked={value.multiple} onChange={e => onChange({ ...value, multiple: e.target.checked })} disabled={disabled} />
+          Multiple choice
+        </label>
+        <label className="flex items-center gap-1.5 cursor-pointer">
+          <input type="checkbox" checked={value.anonymous} onChange={e => onChange({ ...value, anonymous: e.target.checked })} disabled={disabled} />
+          Anonymous votes
+        </label>
+        <label className="flex items-center gap-1.5">
+          Closes
+          <input
+            type="datetime-local"
+            value={value.closes_at}
+            min={toLocalInputValue(new Date())}
+            onChange={e => onChange({ ...value, closes_at: e.target.value })}
+            disabled={disabled}
+            className="px-2 py-1 text-sm border border-[rgb(var(--color-border))] bg-[rgb(var(--color-surface))] rounded-full focus:outline-none focus:border-[rgb(var(--color-accent))] text-[rgb(var(--color-text))]"
+          />
+        </label>
+      </div>
+    </div>
+  );
+};
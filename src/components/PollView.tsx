@@ -0,0 +1,131 @@
+// src/components/PollView.tsx
+import { useState } from 'react';
+import { BarChart3, Check, Loader2 } from 'lucide-react';
+import { Profile } from '../lib/supabase';
+import { fetchPollVoters } from '../lib/repository';
+import { isPollClosed, usePoll, voteInPoll } from '../lib/polls';
+import { useAuth } from '../contexts/AuthContext';
+
+const formatWhen = (iso: string) =>
+  new Date(iso).toLocaleString([], { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+
+// A poll under a post, forum post or gazebo message, with live results
+export const PollView = ({ pollId }: { pollId: string }) => {
+  const { user } = useAuth();
+  const { poll, myVote, setMyVote, loading, reload } = usePoll(pollId, user?.id);
+  // Picks for a multiple-choice vote that hasn't been sent yet; null when not choosing
+  const [picking, setPicking] = useState<string[] | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [voters, setVoters] = useState<Map<string, Profile[]> | null>(null);
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-3 text-[rgb(var(--color-text-secondary))]">
+        <Loader2 size={18} className="animate-spin" />
+      </div>
+    );
+  }
+  if (!poll) return null;
+
+  const closed = isPollClosed(poll);
+  const hasVoted = myVote.length > 0;
+  const choosing = !closed && !!user && (picking !== null || !hasVoted);
+  const selection = picking ?? myVote;
+
+  const submit = async (choices: string[]) => {
+    setSubmitting(true);
+    const { error } = await voteInPoll(poll.id, choices);
+    setSubmitting(false);
+    if (error) { alert(error.message); return; }
+    setMyVote(choices);
+    setPicking(null);
+    reload();
+    if (voters) fetchPollVoters(poll.id).then(setVoters);
+  };
+
+  const pick = (optionId: string) => {
+    if (!poll.multiple) { submit([optionId]); return; }
+    setPicking(selection.includes(optionId) ? selection.filter(id => id !== optionId) : [...selection, optionId]);
+  };
+
+  const toggleVoters = async () => {
+    if (voters) { setVoters(null); return; }
+    setVoters(await fetchPollVoters(poll.id));
+  };
+
+  return (
+    <div onClick={e => e.stopPropagation()} className="my-2 space-y-2">
+      {poll.options.map(option => {
+        const share = poll.voter_count ? Math.round((option.vote_count / poll.voter_count) * 100) : 0;
+        const mine = myVote.includes(option.id);
+
+        if (choosing) {
+          const selected = selection.includes(option.id);
+          return (
+            <button
+              key={option.id}
+              type="button"
+              disabled={submitting}
+              onClick={() => pick(option.id)}
+              className={`w-full flex items-center gap-2 px-4 py-2 rounded-full border text-sm font-semibold text-left transition disabled:opacity-60 ${selected ? 'border-[rgb(var(--color-accent))] text-[rgb(var(--color-accent))] bg-[rgba(var(--color-accent),0.08)]' : 'border-[rgb(var(--color-border))] text-[rgb(var(--color-text))] hover:bg-[rgb(var(--color-surface-hover))]'}`}
+            >
+              {poll.multiple && (
+                <span className={`w-4 h-4 flex-shrink-0 rounded border flex items-center justify-center ${selected ? 'bg-[rgb(var(--color-accent))] border-[rgb(var(--color-accent))]' : 'border-[rgb(var(--color-border))]'}`}>
+                  {selected && <Check size={12} className="text-[rgb(var(--color-text-on-primary))]" />}
+                </span>
+              )}
+              <span className="break-words">{option.label}</span>
+            </button>
+          );
+        }
+
+        return (
+          <div key={option.id}>
+            <div className="relative overflow-hidden rounded-lg border border-[rgb(var(--color-border))]">
+              <div className={`absolute inset-y-0 left-0 transition-all ${mine ? 'bg-[rgba(var(--color-accent),0.25)]' : 'bg-[rgb(var(--color-surface-hover))]'}`} style={{ width: `${share}%` }} />
+              <div className="relative flex items-center justify-between gap-2 px-3 py-2 text-sm text-[rgb(var(--color-text))]">
+                <span className={`flex items-center gap-1 break-words ${mine ? 'font-bold' : ''}`}>
+                  {option.label}
+                  {mine && <Check size={14} className="text-[rgb(var(--color-accent))]" />}
+                </span>
+                <span className="font-semibold">{share}%</span>
+              </div>
+            </div>
+            {voters && (voters.get(option.id)?.length ?? 0) > 0 && (
+              <div className="px-3 pt-1 text-xs text-[rgb(var(--color-text-secondary))]">
+                {voters.get(option.id)!.map(v => v.display_name).join(', ')}
+              </div>
+            )}
+          </div>
+        );
+      })}
+
+      <div className="flex items-center gap-2 flex-wrap text-xs text-[rgb(var(--color-text-secondary))]">
+        <BarChart3 size={14} />
+        <span>{poll.voter_count} {poll.voter_count === 1 ? 'vote' : 'votes'}</span>
+        {poll.multiple && <span>· Multiple choice</span>}
+        {poll.anonymous && <span>· Anonymous</span>}
+        {poll.closes_at && <span>· {closed ? 'Closed' : 'Closes'} {formatWhen(poll.closes_at)}</span>}
+        {choosing && poll.multiple && (
+          <button type="button" disabled={submitting || !selection.length} onClick={() => submit(selection)} className="ml-auto px-3 py-1 rounded-full bg-[rgb(var(--color-accent))] text-[rgb(var(--color-text-on-primary))] font-semibold disabled:opacity-50">
+            Vote
+          </button>
+        )}
+        {choosing && hasVoted && (
+          <button type="button" onClick={() => setPicking(null)} className={`${poll.multiple ? '' : 'ml-auto '}hover:underline`}>Cancel</button>
+        )}
+        {!choosing && !closed && hasVoted && (
+          <>
+            <button type="button" onClick={() => setPicking(myVote)} className="ml-auto hover:underline">Change vote</button>
+            <button type="button" disabled={submitting} onClick={() => submit([])} className="hover:underline">Remove vote</button>
+          </>
+        )}
+        {!choosing && !poll.anonymous && poll.voter_count > 0 && (
+          <button type="button" onClick={toggleVoters} className={`${!closed && hasVoted ? '' : 'ml-auto '}hover:underline`}>
+            {voters ? 'Hide voters' : 'Show voters'}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
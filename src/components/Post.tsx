@@ -1,7 +1,15 @@
 // src/components/Post.tsx
 import React, { useState, useEffect, useRef } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { supabase, Post as PostType } from '../lib/supabase';
+import { fetchQuotes, isQuotePost } from '../lib/repository';
 import { MessageEmbed } from './MessageEmbed';
+import { RichText } from './RichText';
+import { PollView } from './PollView';
+import { MediaGallery } from './MediaGallery';
+import { MAX_ATTACHMENTS, PendingAttachment, attachmentColumns, getAttachments, isVisualAttachment, toPendingAttachments, uploadAttachments } from '../lib/attachments';
+import { enqueueOutbox } from '../lib/outbox';
+import { AttachmentTray } from './AttachmentTray';
 import { SPECIAL_EVENT_MODE } from '../App';
 import { 
   Heart, 
@@ -19,7 +27,9 @@ import {
   Share2,
   Edit3,
   Check,
-  Repeat
+  Repeat,
+  Quote,
+  Paperclip
 } from 'lucide-react';
 
 // --- TYPES ---
@@ -141,6 +151,7 @@ const getYoutubeEmbed = (url: string) => {
 // --- SUB COMPONENTS ---
 
 const EmbeddedPost: React.FC<{ post: PostType; isDeleted?: boolean }> = ({ post, isDeleted }) => {
+  const navigate = useNavigate();
   const [embedComponent, setEmbedComponent] = useState<React.ReactNode>(null);
   const [textToDisplay, setTextToDisplay] = useState('');
 
@@ -171,7 +182,7 @@ const EmbeddedPost: React.FC<{ post: PostType; isDeleted?: boolean }> = ({ post,
   }
 
   return (
-    <div className="mt-3 border border-[rgb(var(--color-border))] rounded-xl overflow-hidden hover:bg-[rgb(var(--color-surface-hover))] transition cursor-pointer">
+    <div onClick={(e) => { e.stopPropagation(); navigate(`/post/${post.id}`); }} className="mt-3 border border-[rgb(var(--color-border))] rounded-xl overflow-hidden hover:bg-[rgb(var(--color-surface-hover))] transition cursor-pointer">
        {/* Simple Header */}
        <div className="p-3 pb-1 flex items-center gap-2">
           <img src={post.profiles?.avatar_url} className="w-6 h-6 rounded-full" alt="" />
@@ -181,13 +192,15 @@ const EmbeddedPost: React.FC<{ post: PostType; isDeleted?: boolean }> = ({ post,
        
        {/* Content */}
        <div className="p-3 pt-1">
-          {textToDisplay && <p className="text-sm text-[rgb(var(--color-text))] line-clamp-3 mb-2">{textToDisplay}</p>}
+          {textToDisplay && <p className="text-sm text-[rgb(var(--color-text))] line-clamp-3 mb-2"><RichText text={textToDisplay} /></p>}
           {embedComponent}
           
           {post.media_url && (
              <div className="mt-2 rounded-lg overflow-hidden h-40 bg-black/5 relative">
-                {post.media_type === 'image' && <img src={post.media_url} className="w-full h-full object-cover" alt="Media" />}
-                {post.media_type === 'video' && <video src={post.media_url} className="w-full h-full object-cover" />}
+                {post.media_type === 'image' && <img src={post.thumbnail_url || post.media_url} className="w-full h-full object-cover" alt="Media" />}
+                {post.media_type === 'video' && (post.thumbnail_url
+                  ? <img src={post.thumbnail_url} className="w-full h-full object-cover" alt="Video" />
+                  : <video src={post.media_url} preload="metadata" className="w-full h-full object-cover" />)}
                 {post.media_type === 'audio' && <div className="p-4 flex items-center justify-center h-full"><span className="text-xs font-bold uppercase tracking-widest opacity-50">Audio Attachment</span></div>}
              </div>
           )}
@@ -196,20 +209,6 @@ const EmbeddedPost: React.FC<{ post: PostType; isDeleted?: boolean }> = ({ post,
   );
 };
 
-const Lightbox: React.FC<{ url: string; type: 'image' | 'video'; onClose: () => void }> = ({ url, type, onClose }) => (
-  <div className="fixed inset-0 bg-black/90 z-[100] flex items-center justify-center p-4 cursor-pointer" onClick={onClose}>
-    <div className="max-w-full max-h-full" onClick={(e) => e.stopPropagation()}>
-      {type === 'image' && <img src={url} className="max-w-full max-h-[90vh] object-contain rounded-lg shadow-2xl" alt="Full size" />}
-      {type === 'video' && (
-        <video controls autoPlay className="max-w-full max-h-[90vh] rounded-2xl">
-          <source src={url} /> Your browser does not support the video tag.
-        </video>
-      )}
-    </div>
-    <button onClick={onClose} className="absolute top-4 right-4 p-2 bg-white/10 text-white rounded-full hover:bg-white/20 transition"><X size={24} /></button>
-  </div>
-);
-
 // --- MAIN POST COMPONENT ---
 
 interface PostItemProps {
@@ -220,6 +219,7 @@ interface PostItemProps {
   onCommentUpdate: (post: PostType) => void; // Parent updates count
   onDelete?: (post: PostType) => void; // Optional, mostly for Profile
   onNavigateToProfile: (userId: string) => void;
+  initialCommentId?: string; // Opens the comments at this one (links from mention notifications)
 }
 
 export const PostItem: React.FC<PostItemProps> = ({
@@ -229,15 +229,16 @@ export const PostItem: React.FC<PostItemProps> = ({
   onLikeToggle,
   onCommentUpdate,
   onDelete,
-  onNavigateToProfile
+  onNavigateToProfile,
+  initialCommentId
 }) => {
+  const navigate = useNavigate();
   // Modal States
   const [showLikesModal, setShowLikesModal] = useState(false);
-  const [showCommentsModal, setShowCommentsModal] = useState(false);
+  const [showCommentsModal, setShowCommentsModal] = useState(!!initialCommentId);
+  const scrolledToCommentRef = useRef(false);
   const [showDeleteModal, setShowDeleteModal] = useState(false);
   const [showRepostModal, setShowRepostModal] = useState(false);
-  const [showLightbox, setShowLightbox] = useState(false);
-  const [lightboxType, setLightboxType] = useState<'image' | 'video' | null>(null);
   
   // Logic States
   const [likersList, setLikersList] = useState<Liker[]>([]);
@@ -247,34 +248,54 @@ export const PostItem: React.FC<PostItemProps> = ({
   const [openMenu, setOpenMenu] = useState(false);
   const [shareCopied, setShareCopied] = useState(false);
 
-  // Repost Logic
+  // Repost Logic. With text or attachments of its own a repost is a quote post.
   const [repostCaption, setRepostCaption] = useState('');
+  const [repostAttachments, setRepostAttachments] = useState<PendingAttachment[]>([]);
   const [isReposting, setIsReposting] = useState(false);
+  const repostFileInputRef = useRef<HTMLInputElement>(null);
+  // Reposting a bare repost reposts its original; null once that's been deleted
+  const repostTarget = post.is_repost && !isQuotePost(post) ? post.original_post ?? null : post;
+  const isQuoting = !!repostCaption.trim() || repostAttachments.length > 0;
+
+  // Quotes of this post
+  const [showQuotesModal, setShowQuotesModal] = useState(false);
+  const [quotesList, setQuotesList] = useState<PostType[]>([]);
 
   const handleRepost = async () => {
-      if (!currentUserId) return;
+      if (!currentUserId || !repostTarget) return;
       setIsReposting(true);
-      
-      const targetPostId = post.id; // We repost THIS post
 
-      const { error } = await supabase.from('posts').insert({
+      const { data: items, error } = await uploadAttachments(repostAttachments, 'posts');
+      if (error) alert(error.message);
+      if (!items) { setIsReposting(false); return; }
+
+      // Queued like any new post, so it survives a dropped connection
+      await enqueueOutbox('post', currentUserId, {
           user_id: currentUserId,
-          content: repostCaption, 
-          repost_of: targetPostId, 
+          content: repostCaption.trim(),
+          repost_of: repostTarget.id,
           is_repost: true,
-          media_type: 'image' 
+          ...attachmentColumns(items),
+          media_type: items[0]?.type ?? 'image'
       });
 
-      if (!error) {
-          setShowRepostModal(false);
-          setRepostCaption('');
-          alert("Reposted!"); 
-      } else {
-          alert("Failed to repost.");
-      }
+      setShowRepostModal(false);
+      setRepostCaption('');
+      setRepostAttachments([]);
       setIsReposting(false);
   };
 
+  const addRepostFiles = (picked: FileList | null) => {
+      if (!picked?.length) return;
+      const next = [...repostAttachments, ...toPendingAttachments(picked)];
+      if (next.length > MAX_ATTACHMENTS) alert(`You can attach up to ${MAX_ATTACHMENTS} files.`);
+      setRepostAttachments(next.slice(0, MAX_ATTACHMENTS));
+  };
+
+  useEffect(() => {
+    if (showQuotesModal) fetchQuotes(post.id).then(setQuotesList);
+  }, [showQuotesModal, post.id]);
+
   // Edit Logic
   const [isEditing, setIsEditing] = useState(false);
   const [editContent, setEditContent] = useState(post.content);
@@ -298,7 +319,7 @@ export const PostItem: React.FC<PostItemProps> = ({
 
   // --- SHARE LOGIC ---
   const handleShare = () => {
-    const url = `${window.location.origin}/?post=${post.id}`;
+    const url = `${window.location.origin}/post/${post.id}`;
     navigator.clipboard.writeText(url).then(() => {
       setShareCopied(true);
       setOpenMenu(false);
@@ -384,6 +405,13 @@ export const PostItem: React.FC<PostItemProps> = ({
     if (showCommentsModal) fetchComments();
   }, [showCommentsModal]);
 
+  // Bring the linked comment into view once, when it first shows up in the list
+  useEffect(() => {
+    if (!initialCommentId || scrolledToCommentRef.current || !commentsList.some(c => c.id === initialCommentId)) return;
+    scrolledToCommentRef.current = true;
+    document.getElementById(`comment-${initialCommentId}`)?.scrollIntoView({ block: 'center' });
+  }, [commentsList, initialCommentId]);
+
   // --- DELETE LOGIC ---
   const startDeleteHold = () => {
     setDeleteProgress(0);
@@ -405,6 +433,7 @@ export const PostItem: React.FC<PostItemProps> = ({
   };
 
   const isAuthor = currentUserId === post.user_id;
+  const attachments = getAttachments(post);
 
   // Type helper to access groups safely without changing global types immediately
   const groupData = (post as any).groups;
@@ -486,42 +515,40 @@ export const PostItem: React.FC<PostItemProps> = ({
                           {/* Only render text paragraph if there is text remaining after stripping URL */}
                           {textToDisplay && (
                              <p className="mt-1 whitespace-pre-wrap break-words text-[rgb(var(--color-text))]">
-                                {textToDisplay}
+                                <RichText text={textToDisplay} />
                              </p>
                           )}
                           {embedComponent}
-                          {post.is_repost && (
-                              <EmbeddedPost 
-                                  post={post.original_post as PostType} 
-                                  isDeleted={!post.original_post} 
-                              />
-                          )}
+                          {post.poll_id && <PollView pollId={post.poll_id} />}
                        </>
                     );
                  })()}
               </>
             )}
 
-            {post.media_url && (
-              <div className="mt-3">
-                {post.media_type === 'image' && <img src={post.media_url} className="rounded-2xl max-h-96 object-cover w-full cursor-pointer transition hover:opacity-90" alt="Post" onClick={() => { setLightboxType('image'); setShowLightbox(true); }} />}
-                {post.media_type === 'video' && (
-                    <div className="relative cursor-pointer" onClick={() => { setLightboxType('video'); setShowLightbox(true); }}>
-                         <video src={post.media_url} className="rounded-2xl max-h-96 w-full object-cover" />
-                         <div className="absolute inset-0 flex items-center justify-center bg-black/20 hover:bg-black/10 transition rounded-2xl">
-                            <Play size={48} className="text-white opacity-80" />
-                         </div>
-                    </div>
-                )}
-                {post.media_type === 'audio' && <div className="rounded-2xl w-full"><AudioPlayer src={post.media_url} /></div>}
-                {post.media_type === 'document' && (
-                  <a href={post.media_url} target="_blank" rel="noopener noreferrer" className="flex items-center gap-2 p-3 bg-[rgb(var(--color-surface-hover))] rounded-lg hover:bg-[rgb(var(--color-border))] transition inline-block text-[rgb(var(--color-text))]">
-                    <FileText size={20} className="text-[rgb(var(--color-text-secondary))]" /> Download File
-                  </a>
-                )}
+            {attachments.length > 0 && (
+              <div className="mt-3 space-y-2">
+                <MediaGallery items={attachments.filter(isVisualAttachment)} />
+                {attachments.filter(item => !isVisualAttachment(item)).map((item, i) => (
+                  item.type === 'audio'
+                    ? <div key={i} className="rounded-2xl w-full"><AudioPlayer src={item.url} /></div>
+                    : (
+                      <a key={i} href={item.url} target="_blank" rel="noopener noreferrer" className="flex items-center gap-2 p-3 bg-[rgb(var(--color-surface-hover))] rounded-lg hover:bg-[rgb(var(--color-border))] transition inline-block text-[rgb(var(--color-text))]">
+                        <FileText size={20} className="text-[rgb(var(--color-text-secondary))]" /> Download File
+                      </a>
+                    )
+                ))}
               </div>
             )}
 
+            {/* The original goes under the quote's own text and media */}
+            {post.is_repost && (
+                <EmbeddedPost 
+                    post={post.original_post as PostType} 
+                    isDeleted={!post.original_post} 
+                />
+            )}
+
             <div className="flex items-center gap-6 mt-3">
               <div className="flex items-center gap-1 group">
                 <button onClick={(e) => { e.stopPropagation(); handleLikeClick(); }} className={`p-2 rounded-full transition ${isLiked ? 'text-pink-500 bg-pink-500/10' : 'text-[rgb(var(--color-text-secondary))] hover:bg-pink-500/10 hover:text-pink-500'}`}>
@@ -538,12 +565,19 @@ export const PostItem: React.FC<PostItemProps> = ({
               <div className="flex items-center gap-1 group">
                 <button 
                     onClick={(e) => { e.stopPropagation(); setShowRepostModal(true); }} 
-                    className="p-2 rounded-full transition text-[rgb(var(--color-text-secondary))] hover:bg-green-500/10 hover:text-green-500"
+                    disabled={!repostTarget}
+                    title={repostTarget ? 'Repost or quote' : 'The original post was deleted'}
+                    className="p-2 rounded-full transition disabled:opacity-40 disabled:pointer-events-none text-[rgb(var(--color-text-secondary))] hover:bg-green-500/10 hover:text-green-500"
                 >
                   <Repeat size={18} />
                 </button>
                 {(post.repost_count || 0) > 0 && <span className="text-sm text-[rgb(var(--color-text-secondary))]">{post.repost_count}</span>}
               </div>
+              {(post.quote_count || 0) > 0 && (
+                <button onClick={(e) => { e.stopPropagation(); setShowQuotesModal(true); }} className="flex items-center gap-1 text-sm text-[rgb(var(--color-text-secondary))] hover:underline">
+                  <Quote size={14} /> {post.quote_count} {post.quote_count === 1 ? 'quote' : 'quotes'}
+                </button>
+              )}
             </div>
           </div>
 
@@ -579,8 +613,6 @@ export const PostItem: React.FC<PostItemProps> = ({
       </div>
 
       {/* MODALS */}
-      {showLightbox && post.media_url && <Lightbox url={post.media_url} type={lightboxType || 'image'} onClose={() => setShowLightbox(false)} />}
-
       {showLikesModal && (
         <div className="fixed inset-0 bg-black/60 z-[90] flex items-center justify-center p-4" onClick={() => setShowLikesModal(false)}>
           <div className="bg-[rgb(var(--color-surface))] w-full max-w-md rounded-2xl max-h-[70vh] flex flex-col shadow-2xl border border-[rgb(var(--color-border))]" onClick={e => e.stopPropagation()}>
@@ -619,14 +651,14 @@ export const PostItem: React.FC<PostItemProps> = ({
             </div>
             <div className="flex-1 overflow-y-auto p-4 space-y-6">
                {commentsList.length === 0 ? <div className="h-full flex items-center justify-center text-[rgb(var(--color-text-secondary))]">No comments yet.</div> : commentsList.map((comment) => (
-                 <div key={comment.id} className="flex gap-3">
+                 <div key={comment.id} id={`comment-${comment.id}`} className={`flex gap-3 rounded-xl transition-colors ${comment.id === initialCommentId ? 'bg-[rgba(var(--color-primary),0.08)] -m-2 p-2' : ''}`}>
                    <img src={comment.profiles?.avatar_url || `https://api.dicebear.com/7.x/avataaars/svg?seed=${comment.profiles?.username}`} className="w-9 h-9 rounded-full cursor-pointer flex-shrink-0" alt="Avatar" onClick={() => onNavigateToProfile(comment.user_id)} />
                    <div className="flex-1">
                      <div className="flex items-baseline gap-2">
                        <button onClick={() => onNavigateToProfile(comment.user_id)} className="font-bold hover:underline text-[rgb(var(--color-text))] text-sm">{comment.profiles?.display_name}</button>
                        <span className="text-xs text-[rgb(var(--color-text-secondary))]">{formatTime(comment.created_at)}</span>
                      </div>
-                     <p className="text-[rgb(var(--color-text))] text-sm mt-0.5 whitespace-pre-wrap break-words bg-[rgb(var(--color-surface-hover))] p-2 rounded-r-xl rounded-bl-xl inline-block">{comment.content}</p>
+                     <p className="text-[rgb(var(--color-text))] text-sm mt-0.5 whitespace-pre-wrap break-words bg-[rgb(var(--color-surface-hover))] p-2 rounded-r-xl rounded-bl-xl inline-block"><RichText text={comment.content} /></p>
                    </div>
                  </div>
                ))}
@@ -672,31 +704,73 @@ export const PostItem: React.FC<PostItemProps> = ({
                           <textarea 
                               value={repostCaption}
                               onChange={e => setRepostCaption(e.target.value)}
-                              placeholder="Say something about this... (optional)"
+                              placeholder="Add a comment to quote it, or leave empty to repost"
                               className="w-full bg-transparent outline-none text-[rgb(var(--color-text))] resize-none h-24 p-2 border border-[rgb(var(--color-border))] rounded-lg"
                               autoFocus
                           />
                       </div>
 
-                      {/* Preview of the post being reposted */}
-                      <div className="pointer-events-none opacity-80">
-                         <EmbeddedPost post={post} />
-                      </div>
+                      <AttachmentTray items={repostAttachments} onChange={setRepostAttachments} disabled={isReposting} className="mb-4" />
 
-                      <div className="flex justify-end mt-4">
+                      {/* Preview of the post being reposted */}
+                      {repostTarget && (
+                        <div className="pointer-events-none opacity-80">
+                           <EmbeddedPost post={repostTarget} />
+                        </div>
+                      )}
+
+                      <div className="flex items-center justify-between mt-4">
+                          <input type="file" ref={repostFileInputRef} onChange={e => { addRepostFiles(e.target.files); e.target.value = ''; }} className="hidden" accept="image/*,video/*,audio/*" multiple />
+                          <button
+                              type="button"
+                              onClick={() => repostFileInputRef.current?.click()}
+                              disabled={isReposting || repostAttachments.length >= MAX_ATTACHMENTS}
+                              className="p-2 rounded-full text-[rgb(var(--color-accent))] hover:bg-[rgb(var(--color-surface-hover))] transition disabled:opacity-50"
+                              title="Attach media"
+                          >
+                              <Paperclip size={20} />
+                          </button>
                           <button 
                               onClick={handleRepost}
-                              disabled={isReposting}
+                              disabled={isReposting || !repostTarget}
                               className="bg-[rgb(var(--color-accent))] text-white font-bold py-2 px-6 rounded-full hover:opacity-90 transition flex items-center gap-2 disabled:opacity-50"
                           >
-                              <Repeat size={18} />
-                              {isReposting ? 'Reposting...' : 'Repost'}
+                              {isQuoting ? <Quote size={18} /> : <Repeat size={18} />}
+                              {isReposting ? 'Posting...' : isQuoting ? 'Quote' : 'Repost'}
                           </button>
                       </div>
                   </div>
               </div>
           </div>
       )}
+
+      {showQuotesModal && (
+          <div className="fixed inset-0 bg-black/60 z-[90] flex items-center justify-center p-4" onClick={() => setShowQuotesModal(false)}>
+              <div className="bg-[rgb(var(--color-surface))] w-full max-w-lg max-h-[80vh] rounded-2xl flex flex-col shadow-2xl border border-[rgb(var(--color-border))]" onClick={e => e.stopPropagation()}>
+                  <div className="p-4 border-b border-[rgb(var(--color-border))] flex items-center justify-between">
+                      <h3 className="font-bold text-lg text-[rgb(var(--color-text))]">Quotes</h3>
+                      <button onClick={() => setShowQuotesModal(false)} className="p-1 hover:bg-[rgb(var(--color-surface-hover))] rounded-full"><X size={20} className="text-[rgb(var(--color-text))]" /></button>
+                  </div>
+                  <div className="overflow-y-auto">
+                      {quotesList.map(quote => (
+                          <div key={quote.id} onClick={() => navigate(`/post/${quote.id}`)} className="flex gap-3 p-4 border-b border-[rgb(var(--color-border))] hover:bg-[rgb(var(--color-surface-hover))] cursor-pointer transition">
+                              <img src={quote.profiles?.avatar_url || `https://api.dicebear.com/7.x/avataaars/svg?seed=${quote.profiles?.username}`} className="w-10 h-10 rounded-full flex-shrink-0" alt="Avatar" />
+                              <div className="min-w-0">
+                                  <div className="flex items-center gap-1 text-sm">
+                                      <span className="font-bold text-[rgb(var(--color-text))] truncate">{quote.profiles?.display_name}</span>
+                                      <span className="text-[rgb(var(--color-text-secondary))] truncate">@{quote.profiles?.username}</span>
+                                  </div>
+                                  {quote.content
+                                    ? <p className="text-[rgb(var(--color-text))] whitespace-pre-wrap break-words"><RichText text={quote.content} /></p>
+                                    : <p className="text-sm text-[rgb(var(--color-text-secondary))]">Quoted with media</p>}
+                              </div>
+                          </div>
+                      ))}
+                      {quotesList.length === 0 && <p className="p-4 text-center text-[rgb(var(--color-text-secondary))]">No quotes yet.</p>}
+                  </div>
+              </div>
+          </div>
+      )}
     </>
   );
 };
@@ -1,7 +1,11 @@
 // src/components/Profile.tsx
 import { useEffect, useState, useRef, useCallback } from 'react';
 import { supabase, Profile as ProfileType, Post, uploadMedia } from '../lib/supabase';
+import { fetchLikedEntityIds, fetchPost, fetchPostsLikedBy, fetchProfile, fetchUserPosts } from '../lib/repository';
+import { subscribeToChanges } from '../lib/realtime';
+import { purgeOrphanedMedia } from '../lib/storage';
 import { useAuth } from '../contexts/AuthContext';
+import { useNavigate } from 'react-router-dom';
 import { BadgeCheck, Edit2, Check, MessageCircle, X, UserMinus, Paperclip, Settings as SettingsIcon, Camera, Crop, Link, LayoutGrid, Grid, ThumbsUp } from 'lucide-react';
 import { PostItem, AudioPlayer } from './Post';
 
@@ -109,7 +113,7 @@ const getCroppedImageBlob = (imageFile: File, type: 'avatar' | 'banner', scale:
 };
 // --- END: CROP UTILITY FUNCTIONS ---
 
-export const Profile = ({ userId, initialPostId, onMessage, onSettings }: { userId?: string; initialPostId?: string; onMessage?: (profile: ProfileType) => void; onSettings?: () => void }) => {
+export const Profile = ({ userId, initialPostId, initialCommentId, onMessage, onSettings }: { userId?: string; initialPostId?: string; initialCommentId?: string; onMessage?: (profile: ProfileType) => void; onSettings?: () => void }) => {
   const [profile, setProfile] = useState<ProfileType | null>(null);
   const [posts, setPosts] = useState<Post[]>([]);
   const [isEditing, setIsEditing] = useState(false);
@@ -182,13 +186,8 @@ export const Profile = ({ userId, initialPostId, onMessage, onSettings }: { user
       return url;
   };
 
-  // Helper to fix Supabase returning arrays for single relations
-  const formatPostData = (p: any) => ({
-    ...p,
-    original_post: Array.isArray(p.original_post) ? p.original_post[0] : p.original_post
-  });
-
   const { user } = useAuth();
+  const navigate = useNavigate();
   const targetUserId = userId || user?.id;
   const isOwnProfile = targetUserId === user?.id;
 
@@ -203,38 +202,14 @@ export const Profile = ({ userId, initialPostId, onMessage, onSettings }: { user
     return diff < 300000; // 5 minutes
   };
 
-  const getPostCounts = useCallback(async (postIds: string[]) => {
-    if (!postIds.length) return { likeCounts: {}, commentCounts: {} };
-
-    const likeCounts: Record<string, number> = {};
-    const commentCounts: Record<string, number> = {};
-
-    for (const postId of postIds) {
-      const [{ count: likeCount }, { count: commentCount }] = await Promise.all([
-        supabase
-          .from('likes')
-          .select('*', { count: 'exact', head: true })
-          .eq('entity_type', 'post')
-          .eq('entity_id', postId),
-        supabase
-          .from('comments')
-          .select('*', { count: 'exact', head: true })
-          .eq('post_id', postId)
-      ]);
-      likeCounts[postId] = likeCount || 0;
-      commentCounts[postId] = commentCount || 0;
-    }
-
-    return { likeCounts, commentCounts };
-  }, []);
-
   /**
    * Helper function to handle direct upload of files (like GIFs) that don't need cropping.
    */
   const handleDirectUpload = async (file: File, type: 'avatar' | 'banner') => {
     setIsCropping(true); 
     try {
-        const result = await uploadMedia(file, 'profiles');
+        const { data: result, error } = await uploadMedia(file, 'profiles');
+        if (error) alert(error.message);
         if (result) {
             if (type === 'avatar') {
                 setAvatarUrl(result.url);
@@ -304,7 +279,8 @@ export const Profile = ({ userId, initialPostId, onMessage, onSettings }: { user
         const croppedFile = new File([croppedBlob], `cropped-${file.name}`, { type: croppedBlob.type });
 
         // 3. Upload the cropped file
-        const result = await uploadMedia(croppedFile, 'profiles');
+        const { data: result, error } = await uploadMedia(croppedFile, 'profiles');
+        if (error) alert(error.message);
 
         if (result) {
           if (type === 'avatar') {
@@ -337,21 +313,12 @@ export const Profile = ({ userId, initialPostId, onMessage, onSettings }: { user
    */
   const fetchUserLikes = useCallback(async (currentPosts: Post[]) => {
     if (!user || currentPosts.length === 0) return;
-    const postIds = currentPosts.map(p => p.id);
-    const { data } = await supabase
-      .from('likes')
-      .select('entity_id')
-      .eq('user_id', user.id)
-      .eq('entity_type', 'post')
-      .in('entity_id', postIds);
-    
-    if (data) {
-      setLikedPostIds(prev => {
-        const newSet = new Set(prev);
-        data.forEach(d => newSet.add(d.entity_id));
-        return newSet;
-      });
-    }
+    const likedIds = await fetchLikedEntityIds(user.id, 'post', currentPosts.map(p => p.id));
+    setLikedPostIds(prev => {
+      const newSet = new Set(prev);
+      likedIds.forEach(id => newSet.add(id));
+      return newSet;
+    });
   }, [user]);
 
   // Handler passed to PostItem to update state when a post is liked/unliked
@@ -423,16 +390,14 @@ export const Profile = ({ userId, initialPostId, onMessage, onSettings }: { user
       if (error) {
           console.error("Failed to delete post", error);
           loadPosts(); // Revert/Reload
+      } else if (user) {
+          purgeOrphanedMedia(user.id);
       }
   };
 
   const loadProfile = useCallback(async () => {
     if (!targetUserId) return;
-    const { data } = await supabase
-      .from('profiles')
-      .select('*')
-      .eq('id', targetUserId)
-      .single();
+    const data = await fetchProfile(targetUserId);
     setProfile(data);
     if (data) {
       setDisplayName(data.display_name);
@@ -445,22 +410,10 @@ export const Profile = ({ userId, initialPostId, onMessage, onSettings }: { user
 
   const loadPosts = useCallback(async () => {
     if (!targetUserId) return;
-    const { data } = await supabase
-      .from('posts')
-      .select('*, profiles(*), original_post:posts!repost_of(*, profiles(*))')
-      .eq('user_id', targetUserId)
-      .order('created_at', { ascending: false });
-    const loadedPosts = (data || []).map(formatPostData)
-    const postIds = loadedPosts.map(p => p.id);
-    const { likeCounts, commentCounts } = await getPostCounts(postIds);
-    const postsWithCounts = loadedPosts.map(post => ({
-      ...post,
-      like_count: likeCounts[post.id] || 0,
-      comment_count: commentCounts[post.id] || 0,
-    }));
+    const postsWithCounts = await fetchUserPosts(targetUserId);
     setPosts(postsWithCounts);
     fetchUserLikes(postsWithCounts); // NEW: Fetch likes for loaded posts
-  }, [targetUserId, fetchUserLikes, getPostCounts]);
+  }, [targetUserId, fetchUserLikes]);
   
   // --- NEW: Load Liked Posts ---
   const loadLikedPosts = useCallback(async () => {
@@ -468,45 +421,16 @@ export const Profile = ({ userId, initialPostId, onMessage, onSettings }: { user
     
     setIsLoadingLikes(true);
     
-    // 1. Find all post IDs this user has liked
-    const { data: likeData } = await supabase
-      .from('likes')
-      .select('entity_id')
-      .eq('user_id', targetUserId)
-      .eq('entity_type', 'post');
-      
-    if (!likeData || likeData.length === 0) {
-      setLikedPosts([]);
-      setIsLikesLoaded(true);
-      setIsLoadingLikes(false);
-      return;
-    }
-    
-    // 2. Fetch all posts matching those IDs
-    const postIds = likeData.map(l => l.entity_id);
-    const { data: postData } = await supabase
-      .from('posts')
-      // Added: original_post:posts!repost_of(*, profiles(*))
-      .select('*, profiles(*), original_post:posts!repost_of(*, profiles(*))')
-      .in('id', postIds)
-      .order('created_at', { ascending: false });
-      
-    const loadedLikedPosts = (postData || []).map(formatPostData);
-    const newPostIds = loadedLikedPosts.map(p => p.id);
-    const { likeCounts, commentCounts } = await getPostCounts(newPostIds);
-    const likedPostsWithCounts = loadedLikedPosts.map(post => ({
-      ...post,
-      like_count: likeCounts[post.id] || 0,
-      comment_count: commentCounts[post.id] || 0,
-    }));
+    // 1. Fetch every post this user has liked, with counts
+    const likedPostsWithCounts = await fetchPostsLikedBy(targetUserId);
     setLikedPosts(likedPostsWithCounts);
     
-    // 3. Fetch *our* (the viewing user's) likes for *these* posts
+    // 2. Fetch *our* (the viewing user's) likes for *these* posts
     fetchUserLikes(likedPostsWithCounts);
     
     setIsLikesLoaded(true);
     setIsLoadingLikes(false);
-  }, [targetUserId, fetchUserLikes, getPostCounts]);
+  }, [targetUserId, fetchUserLikes]);
 
   const loadFollowStats = useCallback(async () => {
     if (!targetUserId) return;
@@ -547,102 +471,79 @@ export const Profile = ({ userId, initialPostId, onMessage, onSettings }: { user
       loadFollowStats();
       if (!isOwnProfile) checkFollowing();
 
-      const channel = supabase.channel(`profile-${targetUserId}`).on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'posts' }, async (payload) => {
-        if (payload.new.user_id !== targetUserId) return;
-        const { data } = await supabase.from('posts').select('*, profiles(*), original_post:posts!repost_of(*, profiles(*))').eq('id', payload.new.id).single();
-        if (data) {
-          const formattedData = formatPostData(data);
-          const postIds = [formattedData.id];
-          const { likeCounts, commentCounts } = await getPostCounts(postIds);
-          const newPost = {
-            ...data,
-            like_count: likeCounts[data.id] || 0,
-            comment_count: commentCounts[data.id] || 0,
-          };
-          setPosts(current => [newPost, ...current]);
-        }
-      }).on('postgres_changes', { event: 'DELETE', schema: 'public', table: 'posts' }, (payload) => {
-        const postId = payload.old.id;
-        setPosts(current => current.filter(p => p.id !== postId));
-        setLikedPosts(current => current.filter(p => p.id !== postId));
-      }).on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'likes', filter: 'entity_type=eq.post' }, async (payload) => {
-        if (payload.new.user_id === targetUserId) {
-          // Add to likedPosts
-          const { data: postData } = await supabase.from('posts').select('*, profiles(*), original_post:posts!repost_of(*, profiles(*))').eq('id', payload.new.entity_id).single();
-          if (postData) {
-            const formattedData = formatPostData(postData);
-            const postIds = [formattedData.id];
-            const { likeCounts, commentCounts } = await getPostCounts(postIds);
-            const newPost = {
-              ...postData,
-              like_count: likeCounts[postData.id] || 0,
-              comment_count: commentCounts[postData.id] || 0,
-            };
-            setLikedPosts(current => {
-              if (current.some(p => p.id === newPost.id)) return current; // already there
-              return [newPost, ...current];
-            });
+      const unsubscribers = [
+        subscribeToChanges({ table: 'posts', event: 'INSERT', backfill: 'created_at' }, async (payload) => {
+          if (payload.new.user_id !== targetUserId) return;
+          const newPost = await fetchPost(payload.new.id as string);
+          if (newPost) {
+            // Backfilled rows may already be on screen
+            setPosts(current => current.some(p => p.id === newPost.id) ? current : [newPost, ...current]);
           }
-        }
-        // Always update count
-        const postId = payload.new.entity_id;
-        setPosts(current => current.map(p => p.id === postId ? { ...p, like_count: (p.like_count || 0) + 1 } : p));
-        setLikedPosts(current => current.map(p => p.id === postId ? { ...p, like_count: (p.like_count || 0) + 1 } : p));
-      }).on('postgres_changes', { event: 'DELETE', schema: 'public', table: 'likes', filter: 'entity_type=eq.post' }, (payload) => {
-        if (payload.old.user_id === targetUserId) {
-          setLikedPosts(current => current.filter(p => p.id !== payload.old.entity_id));
-        }
-        // Update count
-        const postId = payload.old.entity_id;
-        setPosts(current => current.map(p => p.id === postId ? { ...p, like_count: Math.max(0, (p.like_count || 0) - 1) } : p));
-        setLikedPosts(current => current.map(p => p.id === postId ? { ...p, like_count: Math.max(0, (p.like_count || 0) - 1) } : p));
-      }).on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'comments' }, (payload) => {
-        const postId = payload.new.post_id;
-        setPosts(current => current.map(p => p.id === postId ? { ...p, comment_count: (p.comment_count || 0) + 1 } : p));
-        setLikedPosts(current => current.map(p => p.id === postId ? { ...p, comment_count: (p.comment_count || 0) + 1 } : p));
-      }).subscribe();
+        }),
+        subscribeToChanges({ table: 'posts', event: 'DELETE' }, (payload) => {
+          const postId = payload.old.id;
+          setPosts(current => current.filter(p => p.id !== postId));
+          setLikedPosts(current => current.filter(p => p.id !== postId));
+        }),
+        subscribeToChanges({ table: 'likes', event: 'INSERT', filter: 'entity_type=eq.post' }, async (payload) => {
+          if (payload.new.user_id === targetUserId) {
+            // Add to likedPosts
+            const newPost = await fetchPost(payload.new.entity_id as string);
+            if (newPost) {
+              setLikedPosts(current => {
+                if (current.some(p => p.id === newPost.id)) return current; // already there
+                return [newPost, ...current];
+              });
+            }
+          }
+          // Always update count
+          const postId = payload.new.entity_id;
+          setPosts(current => current.map(p => p.id === postId ? { ...p, like_count: (p.like_count || 0) + 1 } : p));
+          setLikedPosts(current => current.map(p => p.id === postId ? { ...p, like_count: (p.like_count || 0) + 1 } : p));
+        }),
+        subscribeToChanges({ table: 'likes', event: 'DELETE', filter: 'entity_type=eq.post' }, (payload) => {
+          if (payload.old.user_id === targetUserId) {
+            setLikedPosts(current => current.filter(p => p.id !== payload.old.entity_id));
+          }
+          // Update count
+          const postId = payload.old.entity_id;
+          setPosts(current => current.map(p => p.id === postId ? { ...p, like_count: Math.max(0, (p.like_count || 0) - 1) } : p));
+          setLikedPosts(current => current.map(p => p.id === postId ? { ...p, like_count: Math.max(0, (p.like_count || 0) - 1) } : p));
+        }),
+        subscribeToChanges({ table: 'comments', event: 'INSERT' }, (payload) => {
+          const postId = payload.new.post_id;
+          setPosts(current => current.map(p => p.id === postId ? { ...p, comment_count: (p.comment_count || 0) + 1 } : p));
+          setLikedPosts(current => current.map(p => p.id === postId ? { ...p, comment_count: (p.comment_count || 0) + 1 } : p));
+        }),
+      ];
 
       return () => {
-        supabase.removeChannel(channel);
+        unsubscribers.forEach(unsubscribe => unsubscribe());
       };
     }
-  }, [targetUserId, isOwnProfile, loadProfile, loadPosts, loadFollowStats, checkFollowing, getPostCounts]);
+  }, [targetUserId, isOwnProfile, loadProfile, loadPosts, loadFollowStats, checkFollowing]);
   
   // --- HANDLE INITIAL POST LOAD ---
   useEffect(() => {
       if (initialPostId) {
-          const fetchPost = async () => {
-              const { data } = await supabase
-                  .from('posts')
-                  .select('*, profiles(*), original_post:posts!repost_of(*, profiles(*))')
-                  .eq('id', initialPostId)
-                  .maybeSingle(); // Use maybeSingle for safety
-              
-              if (data) {
-                const formattedData = formatPostData(data);
-                  // Default to 0 if counts fail to load for any reason
-                  let lCount = 0;
-                  let cCount = 0;
-                  try {
-                    const { likeCounts, commentCounts } = await getPostCounts([data.id]);
-                    lCount = likeCounts[data.id] || 0;
-                    cCount = commentCounts[data.id] || 0;
-                  } catch (e) { console.error("Error loading counts", e); }
-
-                  const postWithCounts = {
-                      ...data,
-                      like_count: lCount,
-                      comment_count: cCount
-                  };
+          const loadInitialPost = async () => {
+              const postWithCounts = await fetchPost(initialPostId);
+              if (postWithCounts) {
                   setViewingPost(postWithCounts);
                   // Only fetch likes if we have a user (prevents errors in public view)
                   if (user) fetchUserLikes([postWithCounts]);
               }
           };
-          fetchPost();
+          loadInitialPost();
       }
   }, [initialPostId]); // Reduced dependencies to avoid loops
 
+  // Opened from /post/:postId: closing it leaves the profile's own URL behind
+  const closePostModal = () => {
+    setViewingPost(null);
+    if (initialPostId && profile) navigate(`/${encodeURIComponent(profile.username)}`, { replace: true });
+  };
+
 
   const loadFollowers = async () => {
     const { data } = await supabase
@@ -734,14 +635,10 @@ export const Profile = ({ userId, initialPostId, onMessage, onSettings }: { user
     loadProfile();
   };
 
-  const goToProfile = async (profileId: string) => {
+  const goToProfile = (profileId: string) => {
     closeModal();
     setViewingPost(null); // Close modal if navigating
-    const { data } = await supabase.from('profiles').select('username').eq('id', profileId).single();
-    if (data) {
-      window.history.replaceState({}, '', `/?user=${data.username}`);
-      window.dispatchEvent(new CustomEvent('navigateToProfile', { detail: profileId }));
-    }
+    window.dispatchEvent(new CustomEvent('navigateToProfile', { detail: profileId }));
   };
   
   // --- NEW: Handle Tab Click ---
@@ -849,11 +746,7 @@ export const Profile = ({ userId, initialPostId, onMessage, onSettings }: { user
                  <button
   onClick={() => {
     if (!profile?.username) return;
-
-    // 1. Set URL
-    window.history.replaceState({}, '', `/message?${profile.username}`);
-
-    // 2. Trigger App.tsx handler (which will set view and dispatch event)
+    // App.tsx opens /message/:username
     onMessage?.(profile);
   }}
   className="flex items-center gap-2 px-5 py-2.5 bg-[rgb(var(--color-accent))] text-[rgb(var(--color-text-on-primary))] rounded-full hover:bg-[rgb(var(--color-primary))] transition font-medium"
@@ -1038,11 +931,13 @@ export const Profile = ({ userId, initialPostId, onMessage, onSettings }: { user
                     onClick={() => openLightbox(post.media_url, post.media_type === 'video' ? 'video' : 'image')}
                   >
                     {post.media_type === 'image' && (
-                      <img src={post.media_url} alt="Media" className="w-full h-full object-cover" />
+                      <img src={post.thumbnail_url || post.media_url} alt="Media" loading="lazy" className="w-full h-full object-cover" />
                     )}
                     {post.media_type === 'video' && (
                       <>
-                        <video src={post.media_url} className="w-full h-full object-cover" />
+                        {post.thumbnail_url
+                          ? <img src={post.thumbnail_url} alt="Video" loading="lazy" className="w-full h-full object-cover" />
+                          : <video src={post.media_url} preload="metadata" className="w-full h-full object-cover" />}
                         <div className="absolute top-2 right-2 p-1.5 bg-black/50 rounded-full">
                           <Camera size={16} className="text-white" />
                         </div>
@@ -1117,11 +1012,11 @@ export const Profile = ({ userId, initialPostId, onMessage, onSettings }: { user
       
       {/* --- POST LIGHTBOX MODAL --- */}
       {viewingPost && (
-          <div className="fixed inset-0 bg-black/60 z-[100] flex items-center justify-center p-4" onClick={() => { setViewingPost(null); window.history.replaceState({}, '', '/'); }}>
+          <div className="fixed inset-0 bg-black/60 z-[100] flex items-center justify-center p-4" onClick={closePostModal}>
               <div className="bg-[rgb(var(--color-surface))] w-full max-w-2xl max-h-[90vh] rounded-2xl shadow-2xl overflow-y-auto border border-[rgb(var(--color-border))]" onClick={e => e.stopPropagation()}>
                   <div className="sticky top-0 z-10 bg-[rgb(var(--color-surface))] border-b border-[rgb(var(--color-border))] p-4 flex justify-between items-center">
                       <h3 className="font-bold text-lg">Post</h3>
-                      <button onClick={() => { setViewingPost(null); window.history.replaceState({}, '', '/'); }} className="p-1 rounded-full hover:bg-[rgb(var(--color-surface-hover))]">
+                      <button onClick={closePostModal} className="p-1 rounded-full hover:bg-[rgb(var(--color-surface-hover))]">
                           <X size={24} />
                       </button>
                   </div>
@@ -1133,6 +1028,7 @@ export const Profile = ({ userId, initialPostId, onMessage, onSettings }: { user
                      onCommentUpdate={handleCommentUpdate}
                      onNavigateToProfile={goToProfile}
                      onDelete={handleDeletePost}
+                     initialCommentId={viewingPost.id === initialPostId ? initialCommentId : undefined}
                   />
               </div>
           </div>
@@ -0,0 +1,40 @@
+// src/components/RichText.tsx
+import { Fragment } from 'react';
+import { Link } from 'react-router-dom';
+import { tokenizeRichText } from '../lib/richText';
+
+const LINK_CLASS = 'text-[rgb(var(--color-primary))] hover:underline';
+
+/**
+ * User-written text with #hashtags, @mentions and URLs as links. Renders inline, so the
+ * surrounding element keeps its own whitespace and wrapping rules. Clicks don't reach
+ * the parent, which is often clickable itself (a post, a message bubble).
+ */
+export const RichText = ({ text }: { text: string }) => (
+  <>
+    {tokenizeRichText(text).map((token, idx) => {
+      switch (token.type) {
+        case 'hashtag':
+          return (
+            <Link key={idx} to={`/hashtag/${encodeURIComponent(token.tag)}`} onClick={e => e.stopPropagation()} className={LINK_CLASS}>
+              {token.text}
+            </Link>
+          );
+        case 'mention':
+          return (
+            <Link key={idx} to={`/${encodeURIComponent(token.username)}`} onClick={e => e.stopPropagation()} className={LINK_CLASS}>
+              {token.text}
+            </Link>
+          );
+        case 'url':
+          return (
+            <a key={idx} href={token.text} target="_blank" rel="noopener noreferrer" onClick={e => e.stopPropagation()} className={`${LINK_CLASS} break-all`}>
+              {token.text}
+            </a>
+          );
+        default:
+          return <Fragment key={idx}>{token.text}</Fragment>;
+      }
+    })}
+  </>
+);
@@ -3,16 +3,8 @@ import { useEffect, useState } from 'react';
 import { supabase, Profile, Post } from '../lib/supabase';
 import { Search as SearchIcon, X, User, MessageCircle } from 'lucide-react';
 
-const goToProfile = async (profileId: string) => {
-  const { data } = await supabase
-    .from('profiles')
-    .select('username')
-    .eq('id', profileId)
-    .single();
-  if (data) {
-    window.history.replaceState({}, '', `/?${data.username}`);
-    window.dispatchEvent(new CustomEvent('navigateToProfile', { detail: profileId }));
-  }
+const goToProfile = (profileId: string) => {
+  window.dispatchEvent(new CustomEvent('navigateToProfile', { detail: profileId }));
 };
 
 export const Search = ({ onClose }: { onClose: () => void }) => {
@@ -0,0 +1,122 @@
+// src/components/SessionsSettings.tsx
+import { useCallback, useEffect, useState } from 'react';
+import { LogOut, MapPin, Monitor, Smartphone } from 'lucide-react';
+import { UserSession, describeUserAgent, listSessions, lookupLocation, revokeSession, signOutOtherSessions } from '../lib/sessions';
+
+const formatTimeAgo = (isoString: string): string => {
+  const seconds = Math.floor((Date.now() - new Date(isoString).getTime()) / 1000);
+  if (seconds < 60) return 'Just now';
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ago`;
+  const days = Math.floor(hours / 24);
+  if (days < 30) return `${days}d ago`;
+  return new Date(isoString).toLocaleDateString();
+};
+
+const SessionRow = ({ session, onRevoke, busy }: { session: UserSession; onRevoke: () => void; busy: boolean }) => {
+  const [location, setLocation] = useState<string | null>(null);
+  const { device, browser } = describeUserAgent(session.user_agent);
+  const isMobile = /iPhone|iPad|Android/.test(device);
+
+  useEffect(() => {
+    lookupLocation(session.ip).then(setLocation);
+  }, [session.ip]);
+
+  return (
+    <div className="flex items-center gap-3 py-3">
+      <div className="w-10 h-10 rounded-full bg-[rgb(var(--color-surface-hover))] flex items-center justify-center text-[rgb(var(--color-text-secondary))] flex-shrink-0">
+        {isMobile ? <Smartphone size={18} /> : <Monitor size={18} />}
+      </div>
+      <div className="flex-1 min-w-0">
+        <p className="text-sm font-semibold text-[rgb(var(--color-text))] truncate">
+          {browser} on {device}
+          {session.is_current && <span className="ml-2 text-xs font-bold text-green-600">This device</span>}
+        </p>
+        <p className="text-xs text-[rgb(var(--color-text-secondary))] flex items-center gap-1 truncate">
+          {(location || session.ip) && <><MapPin size={12} /> {location || session.ip} · </>}
+          {session.is_current ? 'Active now' : `Last active ${formatTimeAgo(session.last_active_at)}`}
+        </p>
+      </div>
+      {!session.is_current && (
+        <button
+          onClick={onRevoke}
+          disabled={busy}
+          className="px-3 py-1.5 text-sm text-red-500 rounded-lg hover:bg-red-500/10 disabled:opacity-50 transition"
+        >
+          Sign out
+        </button>
+      )}
+    </div>
+  );
+};
+
+// Settings panel: where this account is signed in, with remote sign-out
+export const SessionsSettings = () => {
+  const [sessions, setSessions] = useState<UserSession[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+
+  const load = useCallback(async () => {
+    const { data, error } = await listSessions();
+    if (error) setError('Could not load sessions.');
+    setSessions(data);
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const handleRevoke = async (sessionId: string) => {
+    setBusy(true);
+    const { error } = await revokeSession(sessionId);
+    setBusy(false);
+    if (error) {
+      setError('Failed to sign out that session.');
+      return;
+    }
+    setSessions(prev => prev.filter(s => s.id !== sessionId));
+  };
+
+  const handleRevokeOthers = async () => {
+    if (!confirm('Sign out of every other device?')) return;
+    setBusy(true);
+    const { error } = await signOutOtherSessions();
+    setBusy(false);
+    if (error) {
+      setError('Failed to sign out other sessions.');
+      return;
+    }
+    load();
+  };
+
+  const others = sessions.filter(s => !s.is_current);
+
+  return (
+    <div className="space-y-2">
+      {error && <p className="text-sm text-red-500">{error}</p>}
+      {loading ? (
+        <p className="text-sm text-[rgb(var(--color-text-secondary))]">Loading...</p>
+      ) : (
+        <div className="divide-y divide-[rgb(var(--color-border))]">
+          {sessions.map(session => (
+            <SessionRow key={session.id} session={session} busy={busy} onRevoke={() => handleRevoke(session.id)} />
+          ))}
+        </div>
+      )}
+      {others.length > 0 && (
+        <button
+          onClick={handleRevokeOthers}
+          disabled={busy}
+          className="w-full py-2 mt-2 border border-red-500 text-red-500 rounded-lg hover:bg-red-500/10 disabled:opacity-50 transition flex items-center justify-center gap-2"
+        >
+          <LogOut size={16} />
+          {busy ? '...' : 'Sign out everywhere else'}
+        </button>
+      )}
+    </div>
+  );
+};
@@ -1,13 +1,23 @@
 // src/components/Settings.tsx
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
+import { Link, useLocation, useParams } from 'react-router-dom';
 import { supabase, Profile as ProfileType } from '../lib/supabase';
 import { useAuth } from '../contexts/AuthContext';
 import { BadgeCheck, Mail, Lock, User, AlertCircle, CheckCircle, Settings as SettingsLucideIcon, Check } from 'lucide-react';
 import { Themes } from './Themes';
+import { MyFiles } from './MyFiles';
+import { TwoFactorSettings } from './TwoFactorSettings';
+import { SessionsSettings } from './SessionsSettings';
+import { MfaStepUp } from './MfaStepUp';
+import { DataExport, DeleteAccount } from './AccountData';
+import { checkUsername, describeUsernameStatus, normalizeUsername } from '../lib/usernames';
+import { SETTINGS_SECTIONS } from '../lib/settings';
 
 export const Settings = () => {
   // Use global state and new update function from context
-  const { user, profile, updateProfile } = useAuth();
+  const { user, profile, updateProfile, hasMfa, isMfaFresh } = useAuth();
+  const { section } = useParams<{ section: string }>();
+  const location = useLocation();
   
   const [newUsername, setNewUsername] = useState('');
   const [newEmail, setNewEmail] = useState('');
@@ -17,6 +27,19 @@ export const Settings = () => {
   const [showApply, setShowApply] = useState(false);
   const [loading, setLoading] = useState(false);
   const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  // A change waiting on a fresh two-factor code
+  const [stepUpAction, setStepUpAction] = useState<(() => void) | null>(null);
+
+  const withFreshMfa = (action: () => void) => {
+    if (!hasMfa || isMfaFresh()) action();
+    else setStepUpAction(() => action);
+  };
+
+  // /settings/:section opens the page at that section
+  const loaded = !!profile;
+  useEffect(() => {
+    if (section && loaded) document.getElementById(section)?.scrollIntoView({ behavior: 'smooth' });
+  }, [section, location.key, loaded]);
 
   // Removed: local profile state and loadProfile function/useEffect.
 
@@ -39,24 +62,26 @@ export const Settings = () => {
   };
 
   const handleUsernameChange = async () => {
-    if (!user?.id || !profile || newUsername === profile.username || !newUsername.trim()) return;
+    const username = normalizeUsername(newUsername);
+    if (!user?.id || !profile || username === profile.username || !username) return;
     setLoading(true);
     
-    // Check if username is taken
-    const { data: existing } = await supabase.from('profiles').select('id').eq('username', newUsername.toLowerCase()).maybeSingle();
-    if (existing) {
-      setMessage({ type: 'error', text: 'Username already taken.' });
+    // Check format, reserved names and whether it's taken (case-insensitive)
+    const { data: status } = await checkUsername(username);
+    if (status && status !== 'available') {
+      setMessage({ type: 'error', text: `${describeUsernameStatus(status)}.` });
       setLoading(false);
+      setTimeout(() => setMessage(null), 3000);
       return;
     }
     
     // 1. Update database
-    const { error } = await supabase.from('profiles').update({ username: newUsername.toLowerCase() }).eq('id', user.id);
+    const { error } = await supabase.from('profiles').update({ username }).eq('id', user.id);
     setLoading(false);
     
     if (!error) {
       // 2. SUCCESS: Update global state immediately
-      updateProfile({ ...profile, username: newUsername.toLowerCase() });
+      updateProfile({ ...profile, username });
       setMessage({ type: 'success', text: 'Username updated!' });
       setNewUsername('');
     } else {
@@ -70,6 +95,11 @@ export const Settings = () => {
     setLoading(true);
     const { error } = await supabase.auth.updateUser({ email: newEmail });
     setLoading(false);
+    // Supabase Auth refuses email and password changes until the second factor is passed
+    if (error?.code === 'insufficient_aal') {
+      setStepUpAction(() => handleEmailChange);
+      return;
+    }
     if (!error) {
       setMessage({ type: 'success', text: 'Email updated! Check your inbox for confirmation.' });
       setNewEmail('');
@@ -84,6 +114,10 @@ export const Settings = () => {
     setLoading(true);
     const { error } = await supabase.auth.updateUser({ password: newPassword });
     setLoading(false);
+    if (error?.code === 'insufficient_aal') {
+      setStepUpAction(() => handlePasswordChange);
+      return;
+    }
     if (!error) {
       setMessage({ type: 'success', text: 'Password updated!' });
       setNewPassword('');
@@ -123,6 +157,19 @@ export const Settings = () => {
         <h1 className="text-2xl font-bold">Settings</h1>
       </div>
 
+      <nav className="flex flex-wrap gap-2">
+        {SETTINGS_SECTIONS.map(s => (
+          <Link
+            key={s.id}
+            to={`/settings/${s.id}`}
+            replace
+            className={`px-3 py-1 rounded-full text-sm transition ${section === s.id ? 'bg-[rgba(var(--color-primary),0.1)] text-[rgb(var(--color-primary))] font-semibold' : 'text-[rgb(var(--color-text-secondary))] hover:bg-[rgb(var(--color-surface-hover))]'}`}
+          >
+            {s.label}
+          </Link>
+        ))}
+      </nav>
+
       {message && (
         <div className={`p-3 rounded-lg flex items-center gap-2 ${message.type === 'success' ? 'bg-green-50 text-green-700 border border-green-200' : 'bg-red-50 text-red-700 border border-red-200'}`}>
           {message.type === 'success' ? <CheckCircle size={20} /> : <AlertCircle size={20} />}
@@ -131,13 +178,13 @@ export const Settings = () => {
       )}
 
       {/* Theme Section */}
-      <section className="bg-[rgb(var(--color-surface))] p-6 rounded-xl border border-[rgb(var(--color-border))]">
+      <section id="theme" className="bg-[rgb(var(--color-surface))] p-6 rounded-xl border border-[rgb(var(--color-border))]">
         <h2 className="text-lg text-[rgb(var(--color-text))] font-semibold mb-4">Theme</h2>
         <Themes currentTheme={profile.theme} onChange={handleThemeChange} loading={loading} />
       </section>
 
       {/* Username Section */}
-      <section className="bg-[rgb(var(--color-surface))] p-6 rounded-xl border border-[rgb(var(--color-border))]">
+      <section id="username" className="bg-[rgb(var(--color-surface))] p-6 rounded-xl border border-[rgb(var(--color-border))]">
         <h2 className="text-lg text-[rgb(var(--color-text))] font-semibold mb-4">Username</h2>
         <p className="text-[rgb(var(--color-text-secondary))] mb-2">Current: @{profile.username}</p>
         <div className="flex gap-2">
@@ -159,7 +206,7 @@ export const Settings = () => {
       </section>
 
       {/* Email Section */}
-      <section className="bg-[rgb(var(--color-surface))] p-6 rounded-xl border border-[rgb(var(--color-border))]">
+      <section id="email" className="bg-[rgb(var(--color-surface))] p-6 rounded-xl border border-[rgb(var(--color-border))]">
         <h2 className="text-lg text-[rgb(var(--color-text))] font-semibold mb-4">Email</h2>
         <p className="text-[rgb(var(--color-text-secondary))] mb-2">Current: {user.email}</p>
         <div className="flex gap-2">
@@ -171,7 +218,7 @@ export const Settings = () => {
             className="flex-1 px-3 py-2 border border-[rgb(var(--color-border))] rounded-lg focus:outline-none focus:border-[rgb(var(--color-accent))]"
           />
           <button
-            onClick={handleEmailChange}
+            onClick={() => withFreshMfa(handleEmailChange)}
             disabled={loading || !newEmail.trim()}
             className="px-4 py-2 bg-[rgb(var(--color-primary))] text-[rgb(var(--color-text-on-primary))] rounded-lg hover:bg-[rgb(var(--color-accent))] disabled:bg-[rgb(var(--color-border))] transition flex items-center gap-2"
           >
@@ -182,7 +229,7 @@ export const Settings = () => {
       </section>
 
       {/* Password Section */}
-      <section className="bg-[rgb(var(--color-surface))] p-6 rounded-xl border border-[rgb(var(--color-border))]">
+      <section id="password" className="bg-[rgb(var(--color-surface))] p-6 rounded-xl border border-[rgb(var(--color-border))]">
         <h2 className="text-lg text-[rgb(var(--color-text))] font-semibold mb-4">Password</h2>
         <div className="space-y-3">
           <input
@@ -200,7 +247,7 @@ export const Settings = () => {
             className="w-full px-3 py-2 border border-[rgb(var(--color-border))] rounded-lg focus:outline-none focus:border-[rgb(var(--color-accent))]"
           />
           <button
-            onClick={handlePasswordChange}
+            onClick={() => withFreshMfa(handlePasswordChange)}
             disabled={loading || newPassword !== confirmPassword || newPassword.length < 6}
             className="w-full py-2 bg-[rgb(var(--color-primary))] text-[rgb(var(--color-text-on-primary))] rounded-lg hover:bg-[rgb(var(--color-accent))] disabled:bg-[rgb(var(--color-border))] transition flex items-center justify-center gap-2"
           >
@@ -210,8 +257,26 @@ export const Settings = () => {
         </div>
       </section>
 
+      {/* Two-Factor Section */}
+      <section id="two-factor" className="bg-[rgb(var(--color-surface))] p-6 rounded-xl border border-[rgb(var(--color-border))]">
+        <h2 className="text-lg text-[rgb(var(--color-text))] font-semibold mb-4">Two-factor authentication</h2>
+        <TwoFactorSettings />
+      </section>
+
+      {/* Sessions Section */}
+      <section id="sessions" className="bg-[rgb(var(--color-surface))] p-6 rounded-xl border border-[rgb(var(--color-border))]">
+        <h2 className="text-lg text-[rgb(var(--color-text))] font-semibold mb-4">Where you're signed in</h2>
+        <SessionsSettings />
+      </section>
+
+      {/* My Files Section */}
+      <section id="files" className="bg-[rgb(var(--color-surface))] p-6 rounded-xl border border-[rgb(var(--color-border))]">
+        <h2 className="text-lg text-[rgb(var(--color-text))] font-semibold mb-4">My files</h2>
+        <MyFiles userId={user.id} />
+      </section>
+
       {/* Verification Section */}
-      <section className="bg-[rgb(var(--color-surface))] p-6 rounded-xl border border-[rgb(var(--color-border))]">
+      <section id="verification" className="bg-[rgb(var(--color-surface))] p-6 rounded-xl border border-[rgb(var(--color-border))]">
         <h2 className="text-lg text-[rgb(var(--color-text))] font-semibold mb-4">Verification</h2>
         {profile.verified ? (
           <div className="flex items-center gap-2 text-green-600">
@@ -259,6 +324,25 @@ export const Settings = () => {
           </>
         )}
       </section>
+
+      {/* Data Export Section */}
+      <section id="data" className="bg-[rgb(var(--color-surface))] p-6 rounded-xl border border-[rgb(var(--color-border))]">
+        <h2 className="text-lg text-[rgb(var(--color-text))] font-semibold mb-4">Your data</h2>
+        <DataExport />
+      </section>
+
+      {/* Delete Account Section */}
+      <section id="delete-account" className="bg-[rgb(var(--color-surface))] p-6 rounded-xl border border-red-500/40">
+        <h2 className="text-lg text-red-500 font-semibold mb-4">Delete account</h2>
+        <DeleteAccount />
+      </section>
+
+      {stepUpAction && (
+        <MfaStepUp
+          onVerified={() => { const action = stepUpAction; setStepUpAction(null); action(); }}
+          onCancel={() => setStepUpAction(null)}
+        />
+      )}
     </div>
   );
 };
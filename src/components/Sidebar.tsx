@@ -1,13 +1,14 @@
 // src/components/Sidebar.tsx
-import React from 'react';
-import { useNavigate } from 'react-router-dom';
-import { Home, Archive, Users, MessagesSquare, LogOut, Github, FileText, Shield, Download, Activity, ChevronRight } from 'lucide-react';
+import React, { useEffect, useState } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
+import { Home, Archive, Users, MessagesSquare, LogOut, Github, FileText, Shield, Download, Activity, ChevronRight, UserPlus, X, TrendingUp } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { AccountUnread, StoredAccount, watchAccountUnread } from '../lib/accounts';
+import { fetchTrendingHashtags, TrendingHashtag } from '../lib/repository';
 
 interface SidebarProps {
   show: boolean;
   onClose: () => void;
-  setView?: (view: any) => void;
-  view?: string;
   onSignOut?: () => void;
 }
 
@@ -105,13 +106,116 @@ export const LeftSidebar: React.FC<SidebarProps> = ({ show, onClose }) => {
   );
 };
 
-export const RightSidebar: React.FC<SidebarProps> = ({ show, onClose, setView, view, onSignOut }) => {
+const AccountAvatar = ({ account }: { account: Pick<StoredAccount, 'avatar_url' | 'username'> }) => (
+  <img
+    src={account.avatar_url || `https://api.dicebear.com/7.x/avataaars/svg?seed=${account.username}`}
+    className="w-9 h-9 rounded-full object-cover flex-shrink-0"
+    alt={account.username}
+  />
+);
+
+// A parked account: its own unread count, switch on click
+const OtherAccount = ({ account }: { account: StoredAccount }) => {
+  const { switchAccount, removeAccount } = useAuth();
+  const [unread, setUnread] = useState<AccountUnread>({ messages: 0, notifications: 0 });
+  const total = unread.messages + unread.notifications;
+
+  useEffect(() => watchAccountUnread(account.id, setUnread), [account.id]);
+
+  return (
+    <div className="flex items-center gap-1 group">
+      <button
+        onClick={() => switchAccount(account.id)}
+        className="flex-1 min-w-0 flex items-center gap-3 p-2 rounded-lg text-[rgb(var(--color-text-secondary))] hover:bg-[rgb(var(--color-surface-hover))] transition"
+      >
+        <div className="relative">
+          <AccountAvatar account={account} />
+          {total > 0 && (
+            <span className="absolute -top-1 -right-1 min-w-[18px] h-[18px] px-1 rounded-full bg-red-500 text-white text-[10px] font-bold flex items-center justify-center">
+              {total > 99 ? '99+' : total}
+            </span>
+          )}
+        </div>
+        <div className="min-w-0 text-left">
+          <p className="text-sm font-semibold text-[rgb(var(--color-text))] truncate">{account.display_name}</p>
+          <p className="text-xs truncate">@{account.username}</p>
+        </div>
+      </button>
+      <button
+        onClick={() => { if (confirm(`Sign out of @${account.username} on this device?`)) removeAccount(account.id); }}
+        className="p-1.5 rounded-full text-[rgb(var(--color-text-secondary))] hover:bg-[rgb(var(--color-surface-hover))] opacity-0 group-hover:opacity-100 transition"
+        title="Sign out of this account"
+      >
+        <X size={14} />
+      </button>
+    </div>
+  );
+};
+
+const AccountSwitcher = () => {
+  const { profile, accounts, addAccount } = useAuth();
+  if (!profile) return null;
+
+  return (
+    <div className="pb-4 mb-2 border-b border-[rgb(var(--color-border))] space-y-1">
+      <div className="flex items-center gap-3 p-2">
+        <AccountAvatar account={profile} />
+        <div className="min-w-0">
+          <p className="text-sm font-bold text-[rgb(var(--color-text))] truncate">{profile.display_name}</p>
+          <p className="text-xs text-[rgb(var(--color-text-secondary))] truncate">@{profile.username}</p>
+        </div>
+      </div>
+      {accounts.map(account => <OtherAccount key={account.id} account={account} />)}
+      <button
+        onClick={addAccount}
+        className="w-full flex items-center gap-3 p-2 rounded-lg text-sm text-[rgb(var(--color-text-secondary))] hover:bg-[rgb(var(--color-surface-hover))] transition"
+      >
+        <UserPlus size={18} className="mx-2" />
+        <span>Add account</span>
+      </button>
+    </div>
+  );
+};
+
+// Refreshed each time the sidebar opens
+const TrendingTags = ({ show, onNavigate }: { show: boolean; onNavigate: (path: string) => void }) => {
+  const [tags, setTags] = useState<TrendingHashtag[]>([]);
+
+  useEffect(() => {
+    if (show) fetchTrendingHashtags().then(setTags);
+  }, [show]);
+
+  if (!tags.length) return null;
+
+  return (
+    <div className="pt-4">
+      <div className="flex items-center gap-2 px-3 pb-2 text-xs font-bold uppercase tracking-wide text-[rgb(var(--color-text-secondary))]">
+        <TrendingUp size={14} /> Trending
+      </div>
+      {tags.map(t => (
+        <button
+          key={t.tag}
+          onClick={() => onNavigate(`/hashtag/${encodeURIComponent(t.tag)}`)}
+          className="w-full flex items-center justify-between px-3 py-2 rounded-lg text-left hover:bg-[rgb(var(--color-surface-hover))] transition"
+        >
+          <span className="font-semibold text-[rgb(var(--color-text))] truncate">#{t.tag}</span>
+          <span className="text-xs text-[rgb(var(--color-text-secondary))] flex-shrink-0 ml-2">{t.authors} {t.authors === 1 ? 'person' : 'people'}</span>
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export const RightSidebar: React.FC<SidebarProps> = ({ show, onClose, onSignOut }) => {
+  const navigate = useNavigate();
+  const { pathname } = useLocation();
   const menuItems = [
-    { icon: <Home size={20} />, label: 'Home', view: 'feed', onClick: () => { setView('feed'); onClose(); } },
-    { icon: <Users size={20} />, label: 'Groups', view: 'groups', onClick: () => { setView('groups'); onClose(); } },
-    { icon: <MessagesSquare size={20} />, label: 'Forums', view: 'forums', onClick: () => { setView('forums'); onClose(); } },
-    { icon: <Archive size={20} />, label: 'Status Archive', view: 'archive', onClick: () => { setView('archive'); onClose(); } },
+    { icon: <Home size={20} />, label: 'Home', path: '/' },
+    { icon: <Users size={20} />, label: 'Groups', path: '/groups' },
+    { icon: <MessagesSquare size={20} />, label: 'Forums', path: '/forums' },
+    { icon: <Archive size={20} />, label: 'Status Archive', path: '/archive' },
   ];
+  const isActive = (path: string) => path === '/' ? pathname === '/' : pathname === path || pathname.startsWith(`${path}/`);
 
   return (
     <>
@@ -121,13 +225,14 @@ export const RightSidebar: React.FC<SidebarProps> = ({ show, onClose, setView, v
       />
       <div className={`fixed right-0 top-0 h-full w-64 bg-[rgb(var(--color-surface))] border-l border-[rgb(var(--color-border))] z-[99] ${show ? 'translate-x-0' : 'translate-x-full'} transition-transform duration-300 shadow-lg flex-shrink-0`}>
         <nav className="p-4 space-y-2 h-full flex flex-col">
-          <div className="flex-1 space-y-2">
+          <AccountSwitcher />
+          <div className="flex-1 space-y-2 overflow-y-auto">
             {menuItems.map((item, idx) => (
               <button
                 key={idx}
-                onClick={item.onClick}
+                onClick={() => { navigate(item.path); onClose(); }}
                 className={`w-full flex items-center space-x-3 p-3 rounded-lg transition ${
-                  view === item.view
+                  isActive(item.path)
                     ? 'bg-[rgba(var(--color-primary),0.1)] text-[rgb(var(--color-primary))] font-bold'
                     : 'text-[rgb(var(--color-text-secondary))] hover:bg-[rgb(var(--color-surface-hover))]'
                 }`}
@@ -136,6 +241,7 @@ export const RightSidebar: React.FC<SidebarProps> = ({ show, onClose, setView, v
                 <span>{item.label}</span>
               </button>
             ))}
+            <TrendingTags show={show} onNavigate={path => { navigate(path); onClose(); }} />
           </div>
           
           {/* Sign Out moved to bottom of sidebar */}
@@ -2,6 +2,7 @@
 import React, { useState, useEffect, useRef, useCallback, Fragment } from 'react';
 import { supabase, uploadStatusMedia, Profile, Status as StatusType } from '../lib/supabase';
 import { useAuth } from '../contexts/AuthContext';
+import { useMatch, useNavigate } from 'react-router-dom';
 import { 
   X, 
   Plus, 
@@ -16,8 +17,12 @@ import {
   Search,    // For GIF search
 } from 'lucide-react';
 import { ProfileWithStatus } from '../lib/types'; 
-
-const FOLLOW_ONLY_FEED = import.meta.env.VITE_FOLLOW_ONLY_FEED === 'true';
+import type { UploadControls } from '../lib/uploads';
+import { subscribeToChanges } from '../lib/realtime';
+import { UploadProgress } from './UploadProgress';
+import { OriginalQualityToggle } from './OriginalQualityToggle';
+import { isTypingTarget } from '../lib/shortcuts';
+import type { FeedKind } from '../lib/repository';
 
 const SVG_PATH = "M403.68 234.366c-3.681 5.618-30.224 30.851-40.724 38.713-25.347 18.983-38.394 24.776-77.79 34.544-23.062 5.718-26.126 6.76-29.666 10.087-7.857 7.384-13.863 11.247-21.384 13.752-9.789 3.259-12.116 5.672-12.116 12.558 0 3.825-.438 5.035-2.25 6.216-2.635 1.716-20.674 9.566-29.076 12.652l-5.825 2.141-2.971-2.116c-9.884-7.038-20.846.73-18.023 12.769 1.281 5.464 4.697 13.648 7.648 18.323 2.003 3.172 3.01 3.922 4.768 3.546 1.226-.263 4.254-.713 6.729-1.001 42.493-4.949 40.864-5.209 23.4 3.732-19.939 10.207-18.133 8.396-15.298 15.335 3.253 7.964 12.604 17.385 20.007 20.156l5.391 2.019.571-3.146c2.04-11.232 8.429-15.14 35.313-21.598l16.883-4.056 13.117 2.49c12.523 2.378 44.627 6.84 45.186 6.281.557-.557-2.339-3.496-10.071-10.22-12.342-10.734-11.967-10.234-8.194-10.934 3.07-.569 13.356.364 24.48 2.221 5.695.951 6.849 1.949 10.602 9.17 8.474 16.302 4.32 33.766-10.663 44.834-12.739 9.412-30.225 15.712-58.895 21.221-41.565 7.986-66.646 14.612-87.823 23.201-38.111 15.456-64.943 39.315-81.349 72.337-25.537 51.399-13.852 115.129 29.49 160.845 11.285 11.904 24.516 22.439 35.558 28.313 9.965 5.301 26.891 11.195 32.681 11.381l4.114.131-3.5.619-3.5.618 4.157 1.262c19.446 5.905 48.822 7.93 69.843 4.814 35.165-5.213 59.534-15.919 91.968-40.404 14.472-10.926 38.359-33.149 60.337-56.135 45.747-47.846 70.153-71.503 80.342-77.878C518.855 595.832 531.512 592 544 592c18.29 0 32.472 6.933 42.959 21 6.102 8.186 10.208 17.124 12.861 28 2.382 9.768 3.878 23.317 2.327 21.069-.752-1.088-1.147-.49-1.65 2.5-1.775 10.54-7.924 25.284-13.676 32.793-8.697 11.352-23.899 22.822-37.247 28.103-13.613 5.385-37.399 10.294-61.035 12.597-27.42 2.671-56.809 7.787-72.039 12.54-28.765 8.977-52.539 27.345-63.932 49.398-14.355 27.783-13.427 60.661 2.466 87.415 5.626 9.47 8.339 12.945 16.466 21.088 6.022 6.035 7.163 6.986 17.716 14.777 18.026 13.307 43.527 22.826 73.017 27.255 13.391 2.011 52.549 2.016 54.558.007.202-.202-2.256-.881-5.462-1.508-14.198-2.779-32.245-10.073-41.829-16.905-15.141-10.793-30.463-25.813-37.688-36.946-2.029-3.126-5.016-7.483-6.638-9.683C416.705 874.014 413 864.636 413 854.684c0-5.65 2.569-16.422 4.312-18.082 9.77-9.301 25.027-16.03 48.822-21.533 64.081-14.82 109.776-51.401 128.122-102.569 3.224-8.992 6.818-27.367 7.726-39.5l.71-9.5.154 9.583c.144 8.953-.301 12.954-2.993 26.917-1.404 7.286-7.125 23.019-11.09 30.5-1.749 3.3-3.649 7.009-4.222 8.242-.572 1.233-1.378 2.246-1.791 2.25s-.75.646-.75 1.425-.357 1.566-.793 1.75-1.887 2.133-3.226 4.333c-2.159 3.55-12.538 16.048-17.218 20.734-3.451 3.456-18.579 15.488-22.376 17.797-2.138 1.3-4.112 2.667-4.387 3.039-.275.371-5.9 3.4-12.5 6.731-16.549 8.351-30.523 13.68-47.732 18.205-2.602.684-4.477 1.656-4.166 2.16.312.503 1.316.689 2.232.412s8.641-1.213 17.166-2.081c40.585-4.13 69.071-9.765 92.5-18.298 15.33-5.583 37.661-18.554 50.945-29.591 10.296-8.554 25.124-24.582 33.34-36.037 3.374-4.704 13.526-23.941 16.397-31.071 2.83-7.028 5.649-16.706 8.011-27.5 1.966-8.988 2.293-13.308 2.27-30-.029-21.817-1.459-32.183-6.545-47.461-4.267-12.818-13.982-32.084-21.064-41.771-7.41-10.137-23.927-26.589-33.354-33.222-15.179-10.682-37.054-20.061-56.5-24.226-13.245-2.836-42.849-2.586-57.5.487-27.999 5.872-54.161 18.066-78.5 36.589-8.789 6.689-30.596 26.259-34.981 31.392-5.122 5.997-38.941 40.833-55.176 56.835-15.863 15.637-22.787 22.017-31.337 28.877-2.742 2.2-5.89 4.829-6.996 5.843-1.105 1.013-6.06 4.488-11.01 7.722s-9.45 6.242-10 6.686c-2.014 1.624-12.507 6.373-19.656 8.896-8.791 3.103-26.867 4.32-35.998 2.425-14.396-2.989-26.608-12.051-32.574-24.172-3.938-8-5.216-13.468-5.248-22.44-.05-14.406 4.83-25.419 16.415-37.046 8.018-8.047 15.344-13.02 27.453-18.636 13.664-6.337 24.699-9.76 68.608-21.281 23.61-6.195 53.403-16.746 65-23.02 37.251-20.151 62.371-49.521 70.969-82.977 3.164-12.312 4.368-32.296 2.62-43.5-2.675-17.153-11.273-37.276-22.004-51.5-10.94-14.501-29.977-30.241-43.244-35.755l-4.987-2.072 5.325-2.166c15.935-6.483 33.215-19.607 42.642-32.385 5.925-8.032 12.007-19.627 10.884-20.751-.359-.358-2.374.874-4.48 2.739-19.929 17.652-32.524 25.61-53.225 33.626-8.739 3.383-30.986 9.264-35.049 9.264-.617 0 2.629-2.521 7.214-5.602 21.853-14.688 39.424-33.648 49.197-53.085 2.254-4.483 7.638-17.828 7.638-18.932 0-1.228-1.997-.034-3.32 1.985m-9.601 249.217c.048 1.165.285 1.402.604.605.289-.722.253-1.585-.079-1.917s-.568.258-.525 1.312m-6.62 20.484c-.363.586-.445 1.281-.183 1.543s.743-.218 1.069-1.067c.676-1.762.1-2.072-.886-.476m207.291 56.656c1.788.222 4.712.222 6.5 0 1.788-.221.325-.403-3.25-.403s-5.038.182-3.25.403m13.333-.362c.23.199 3.117.626 6.417.949 3.811.374 5.27.268 4-.29-1.892-.832-11.303-1.427-10.417-.659M627 564.137c3.575 1.072 7.4 2.351 8.5 2.842 1.1.49 4.025 1.764 6.5 2.83 6.457 2.78 15.574 9.246 22.445 15.918 5.858 5.687 5.899 4.716.055-1.277-3.395-3.481-13.251-11.028-18.5-14.164-4.511-2.696-20.509-8.314-23.33-8.192-1.193.051.755.97 4.33 2.043M283.572 749.028c-2.161 1.635-3.511 2.96-3 2.945.945-.027 8.341-5.92 7.428-5.918-.275 0-2.268 1.338-4.428 2.973M264.5 760.049c-14.725 7.213-25.192 9.921-42 10.865-12.896.724-13.276.798-4.822.936 16.858.275 31.491-2.958 46.822-10.347 6.099-2.939 11.984-6.524 10.5-6.396-.275.023-5 2.247-10.5 4.942M435 897.859c0 1.77 20.812 21.955 28.752 27.887 10.355 7.736 27.863 16.301 40.248 19.691 11.885 3.254 27.788 4.339 38.679 2.641 15.915-2.483 42.821-11.687 56.321-19.268 4.671-2.624 21.633-13.314 22.917-14.443.229-.202.185-.599-.098-.882s-2.496.561-4.917 1.876c-8.642 4.692-29.216 11.343-44.402 14.354-7.013 1.391-13.746 1.775-30.5 1.738-19.299-.042-22.831-.32-34.5-2.724-25.415-5.234-48.507-14.972-66.207-27.92-5.432-3.973-6.293-4.377-6.293-2.95";
 const SVG_VIEWBOX = "0 0 784 1168";
@@ -27,7 +32,8 @@ const SVG_VIEWBOX = "0 0 784 1168";
 //  Updated with "Unseen" logic & Upload Progress Bar on own avatar.
 // =======================================================================
 
-export const StatusTray: React.FC = () => {
+// The Following feed only shows statuses from people you follow; the others show everyone's
+export const StatusTray: React.FC<{ feed: FeedKind }> = ({ feed }) => {
   const { user, profile } = useAuth();
   const [statusUsers, setStatusUsers] = useState<ProfileWithStatus[]>([]);
   const [ownStatus, setOwnStatus] = useState<ProfileWithStatus | null>(null);
@@ -66,7 +72,7 @@ export const StatusTray: React.FC = () => {
           .gt('expires_at', new Date().toISOString()) // <-- Expiration logic is here
           .order('created_at', { ascending: true });
 
-        if (FOLLOW_ONLY_FEED) {
+        if (feed === 'following') {
           const { data: follows } = await supabase
             .from('follows')
             .select('following_id')
@@ -133,16 +139,14 @@ export const StatusTray: React.FC = () => {
     };
 
     fetchActiveStatuses();
-    const sub = supabase.channel('status-tray-updates')
-      .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'statuses' }, fetchActiveStatuses)
-      .subscribe();
+    const unsubscribe = subscribeToChanges({ table: 'statuses', event: 'INSERT' }, fetchActiveStatuses, { onResync: fetchActiveStatuses });
     
     const interval = setInterval(fetchActiveStatuses, 60000); // Refresh every 60s
     return () => {
       clearInterval(interval);
-      supabase.removeChannel(sub);
+      unsubscribe();
     };
-  }, [user, profile]);
+  }, [user, profile, feed]);
 
   const openViewer = (initialUserId: string) => {
     if (!ownStatus) return;
@@ -279,6 +283,9 @@ const StatusCreator: React.FC<{ onClose: () => void }> = ({ onClose }) => {
   
   // UI State
   const [isPosting, setIsPosting] = useState(false);
+  const [uploadProgress, setUploadProgress] = useState(0);
+  const [uploadControls, setUploadControls] = useState<UploadControls | null>(null);
+  const [keepOriginal, setKeepOriginal] = useState(false);
   const [mode, setMode] = useState<CreatorMode>('camera'); 
   const [isRecording, setIsRecording] = useState(false);
 
@@ -460,36 +467,43 @@ const StatusCreator: React.FC<{ onClose: () => void }> = ({ onClose }) => {
     if (!user || (!mediaFile && !remoteMediaUrl)) return;
 
     setIsPosting(true);
-    // Dispatch start
-    window.dispatchEvent(new CustomEvent('statusUploadProgress', { detail: { progress: 1 } }));
-    let progress = 1;
-
-    // Simulate progress
-    const mockProgress = () => {
-        progress = Math.min(progress + 10, 95); 
-        window.dispatchEvent(new CustomEvent('statusUploadProgress', { detail: { progress: progress } }));
-        if (progress < 95) {
-            setTimeout(mockProgress, 300);
-        }
+    const reportProgress = (progress: number | null) => {
+      window.dispatchEvent(new CustomEvent('statusUploadProgress', { detail: { progress } }));
     };
-    const progressTimeout = setTimeout(mockProgress, 300);
+    reportProgress(1);
 
     try {
       let finalMediaUrl = remoteMediaUrl;
+      let thumbnailUrl: string | null = null;
+      let posterUrl: string | null = null;
 
       // Only upload if we have a file
       if (mediaFile) {
-          const uploadResult = await uploadStatusMedia(mediaFile);
-          if (!uploadResult) throw new Error('Upload failed.');
+          const { data: uploadResult, error: uploadError } = await uploadStatusMedia(
+            mediaFile,
+            (percent) => {
+              // Hold back 100 until the status row exists
+              const progress = Math.max(1, Math.min(percent, 99));
+              setUploadProgress(progress);
+              reportProgress(progress);
+            },
+            setUploadControls,
+            { keepOriginal }
+          );
+          if (uploadError) throw new Error(uploadError.message);
+          if (!uploadResult) {
+            // Cancelled by the user
+            reportProgress(null);
+            return;
+          }
           finalMediaUrl = uploadResult.url;
+          thumbnailUrl = uploadResult.thumbnailUrl;
+          posterUrl = uploadResult.posterUrl;
       }
       
       if (!finalMediaUrl) throw new Error('No media URL generated.');
 
-      // Stop mock progress
-      clearTimeout(progressTimeout); 
-      progress = 99;
-      window.dispatchEvent(new CustomEvent('statusUploadProgress', { detail: { progress: progress } }));
+      reportProgress(99);
 
       // Expiry: 24 hours
       const expires_at = new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString();
@@ -500,6 +514,8 @@ const StatusCreator: React.FC<{ onClose: () => void }> = ({ onClose }) => {
           user_id: user.id,
           media_url: finalMediaUrl,
           media_type: mediaType,
+          thumbnail_url: thumbnailUrl,
+          poster_url: posterUrl,
           text_overlay: textOverlay ? { 
             text: textOverlay, 
             // UPDATED: Default position to bottom (Caption style)
@@ -511,14 +527,15 @@ const StatusCreator: React.FC<{ onClose: () => void }> = ({ onClose }) => {
           expires_at: expires_at
         });
       
-      window.dispatchEvent(new CustomEvent('statusUploadProgress', { detail: { progress: 100 } }));
+      reportProgress(100);
       onClose();
     } catch (error) {
       console.error('Error posting status:', error);
-      alert('Failed to post status.');
-      window.dispatchEvent(new CustomEvent('statusUploadProgress', { detail: { progress: null } }));
+      alert(error instanceof Error ? error.message : 'Failed to post status.');
+      reportProgress(null);
     } finally {
       setIsPosting(false);
+      setUploadProgress(0);
     }
   };
 
@@ -527,6 +544,7 @@ const StatusCreator: React.FC<{ onClose: () => void }> = ({ onClose }) => {
     setRemoteMediaUrl(null);
     setMediaPreviewUrl('');
     setTextOverlay('');
+    setKeepOriginal(false);
     setGifQuery(''); // Reset query
     if (mode === 'gif') searchGifs(''); // Reset GIF grid
     startCamera();
@@ -591,6 +609,7 @@ const StatusCreator: React.FC<{ onClose: () => void }> = ({ onClose }) => {
                         className="w-full text-center bg-black/40 text-white text-xl font-medium p-3 outline-none border-none pointer-events-auto backdrop-blur-sm"
                         style={{ textShadow: '0px 1px 2px rgba(0,0,0,0.8)' }}
                     />
+                    <OriginalQualityToggle files={mediaFile ? [mediaFile] : []} checked={keepOriginal} onChange={setKeepOriginal} className="justify-center mt-2 pointer-events-auto" />
                 </div>
             </div>
             )}
@@ -715,6 +734,11 @@ const StatusCreator: React.FC<{ onClose: () => void }> = ({ onClose }) => {
             <div className="absolute inset-0 z-30 bg-black/80 flex flex-col items-center justify-center gap-3 backdrop-blur-sm">
                 <div className="w-10 h-10 border-4 border-[rgb(var(--color-primary))] border-t-transparent rounded-full animate-spin"></div>
                 <span className="text-white font-bold animate-pulse">Sharing Status...</span>
+                {uploadControls && (
+                    <div className="w-64">
+                        <UploadProgress progress={uploadProgress} controls={uploadControls} />
+                    </div>
+                )}
             </div>
         )}
       </div>
@@ -989,21 +1013,42 @@ const StatusViewer: React.FC<{
     }
   }, [currentStoryIndex, currentUser, goToNextUser]);
 
-  const goToPrevUser = () => {
+  const goToPrevUser = useCallback(() => {
     if (currentUserIndex > 0) {
       setCurrentUserIndex(prev => prev - 1);
       setCurrentStoryIndex(0); // Start at first story of prev user
       setIsLoading(true);
     }
-  };
+  }, [currentUserIndex]);
 
-  const goToPrevStory = () => {
+  const goToPrevStory = useCallback(() => {
     if (currentStoryIndex > 0) {
       setCurrentStoryIndex(prev => prev - 1);
     } else {
       goToPrevUser();
     }
-  };
+  }, [currentStoryIndex, goToPrevUser]);
+
+  // Keyboard: ←/→ stories, Shift+←/→ people, Space pause, Esc close (not while typing a reply)
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if (isTypingTarget(e.target) || showViewers) return;
+      if (e.key === 'ArrowRight') {
+        if (e.shiftKey) goToNextUser();
+        else goToNextStory();
+      } else if (e.key === 'ArrowLeft') {
+        if (e.shiftKey) goToPrevUser();
+        else goToPrevStory();
+      } else if (e.key === ' ') {
+        e.preventDefault();
+        setIsPaused(paused => !paused);
+      } else if (e.key === 'Escape') {
+        onClose();
+      }
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [goToNextUser, goToNextStory, goToPrevUser, goToPrevStory, onClose, showViewers]);
   
   // --- Media Loading and View Marking ---
   
@@ -1230,6 +1275,7 @@ const StatusViewer: React.FC<{
         
         <video
           ref={videoRef}
+          poster={currentStory.media_type === 'video' ? currentStory.poster_url || undefined : undefined}
           className={`w-full h-full object-contain mx-auto block transition-opacity ${currentStory.media_type === 'video' ? 'opacity-100' : 'opacity-0'}`}
           style={{ display: currentStory.media_type === 'video' ? 'block' : 'none' }} 
           playsInline
@@ -1350,8 +1396,8 @@ export const StatusArchive: React.FC = () => {
       <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
         {allStatuses.map((status) => (
           <div key={status.id} className="relative group cursor-pointer" onClick={() => openArchiveViewer(status)}>
-            {status.media_type === 'image' ? (
-              <img src={status.media_url} className="w-full aspect-square object-cover rounded" alt="Archive" />
+            {status.media_type === 'image' || status.thumbnail_url ? (
+              <img src={status.thumbnail_url || status.media_url} loading="lazy" className="w-full aspect-square object-cover rounded" alt="Archive" />
             ) : (
               <video src={status.media_url} className="w-full aspect-square object-cover rounded" muted />
             )}
@@ -1382,6 +1428,10 @@ export const StatusArchive: React.FC = () => {
 //  5. GLOBAL MODAL CONTAINER
 // =======================================================================
 export const Status: React.FC = () => {
+  const userId = useAuth().user?.id;
+  const navigate = useNavigate();
+  const statusMatch = useMatch('/status/:statusId');
+  const linkedStatusId = statusMatch?.params.statusId;
   const [showCreator, setShowCreator] = useState(false);
   
   const [viewerData, setViewerData] = useState<{
@@ -1411,6 +1461,28 @@ export const Status: React.FC = () => {
     };
   }, []);
 
+  // /status/:statusId opens that one status over the feed
+  useEffect(() => {
+    if (!linkedStatusId || !userId) return;
+    supabase
+      .from('statuses')
+      .select('*, profiles!user_id(*)')
+      .eq('id', linkedStatusId)
+      .maybeSingle()
+      .then(({ data }) => {
+        if (!data) return;
+        setViewerData({
+          users: [{ ...data.profiles, statuses: [data], hasUnseen: false }],
+          initialUserId: data.user_id,
+        });
+      });
+  }, [linkedStatusId, userId]);
+
+  const closeViewer = () => {
+    setViewerData(null);
+    if (linkedStatusId) navigate('/', { replace: true });
+  };
+
   return (
     <Fragment>
       {showCreator && <StatusCreator onClose={() => setShowCreator(false)} />}
@@ -1419,7 +1491,7 @@ export const Status: React.FC = () => {
         <StatusViewer
           allStatusUsers={viewerData.users}
           initialUserId={viewerData.initialUserId}
-          onClose={() => setViewerData(null)}
+          onClose={closeViewer}
         />
       )}
     </Fragment>
@@ -1,26 +1,7 @@
 // src/components/Themes.tsx
 import { CheckCircle } from 'lucide-react';
 import { Profile } from '../lib/supabase';
-
-interface ThemePreset {
-  value: string;
-  name: string;
-  desc: string;
-}
-
-const presets: ThemePreset[] = [
-  { value: 'lt-classic', name: 'LT Classic', desc: 'Default theme. Fiery orange and reds.' },
-  { value: 'lt-dark', name: 'LT Dark', desc: 'Dark mode. Fiery orange and reds.' },
-  { value: 'muxday', name: 'MuxDay', desc: 'Alternate theme in honor of the previous MuxDay platform. Analogous shades of blue.' },
-  { value: 'amrella', name: 'Amrella', desc: 'Alternate theme in honor of the previous Amrella platform. Analogous shades of green.' },
-  { value: 'cooper-black', name: 'Cooper Black', desc: 'Special theme for Cooper Black fans and enthusiasts. Futuristic cyberpunk vibes.' },
-  { value: 'knightspeak', name: 'Knightspeak', desc: 'Special theme for Knightspeak fans and enthusiasts. Medieval vibes.' },
-  { value: 'wildest-dimensions', name: 'Wildest Dimensions', desc: 'Special theme for Radiyana, in the Wildest Dimensions. Feel the high life.'},
-  { value: 'mahir-beats', name: 'Mahir Beats', desc: 'Special theme for Mahir. Deep dark blues. Enjoy the cruise.'},
-  { value: 'dewan-mukto', name: 'Dewan Mukto', desc: 'Low contrast within pure black and white. Timeless.'},
-  { value: 'marlizo', name: 'Marlizo', desc: 'Special theme for Marlizo. Dante from Devil May Cry will love this.'},
-  { value: 'invincible', name: 'Invincible', desc: 'Not invisible, yet invincible. This is a theme for people like A.A.A. who are the role models of IT. Pure OLED darkness.'}
-];
+import { THEME_PRESETS } from '../lib/themes';
 
 interface ThemesProps {
   currentTheme: string;
@@ -31,7 +12,7 @@ interface ThemesProps {
 export const Themes = ({ currentTheme, onChange, loading }: ThemesProps) => {
   return (
     <div className="space-y-2">
-      {presets.map((preset) => (
+      {THEME_PRESETS.map((preset) => (
         <div
           key={preset.value}
           className={`p-3 rounded-lg cursor-pointer transition-all border ${
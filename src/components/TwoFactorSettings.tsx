@@ -0,0 +1,220 @@
+// src/components/TwoFactorSettings.tsx
+import { useCallback, useEffect, useState } from 'react';
+import type { Factor } from '@supabase/supabase-js';
+import { Copy, Download, KeyRound, ShieldCheck, ShieldOff } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import {
+  TotpEnrollment,
+  countRecoveryCodes,
+  enrollTotp,
+  listTotpFactors,
+  regenerateRecoveryCodes,
+  removeFactor,
+  verifyTotp,
+} from '../lib/mfa';
+import { MfaStepUp } from './MfaStepUp';
+
+const buttonClassName = "px-4 py-2 bg-[rgb(var(--color-primary))] text-[rgb(var(--color-text-on-primary))] rounded-lg hover:bg-[rgb(var(--color-accent))] disabled:bg-[rgb(var(--color-border))] transition flex items-center gap-2";
+const secondaryButtonClassName = "px-4 py-2 bg-[rgb(var(--color-surface-hover))] text-[rgb(var(--color-text))] rounded-lg hover:bg-[rgb(var(--color-border))] disabled:opacity-50 transition flex items-center gap-2";
+
+// Settings panel: set up, replace or turn off TOTP, and manage recovery codes
+export const TwoFactorSettings = () => {
+  const { hasMfa, isMfaFresh, refreshAssurance } = useAuth();
+  const [factors, setFactors] = useState<Factor[]>([]);
+  const [remainingCodes, setRemainingCodes] = useState(0);
+  const [enrollment, setEnrollment] = useState<TotpEnrollment | null>(null);
+  const [code, setCode] = useState('');
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [stepUpAction, setStepUpAction] = useState<(() => void) | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const load = useCallback(async () => {
+    const { data } = await listTotpFactors();
+    const verified = data.filter(f => f.status === 'verified');
+    setFactors(verified);
+    setRemainingCodes(verified.length ? await countRecoveryCodes() : 0);
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  // Changing 2FA on an account that already has it needs a recent code
+  const withFreshMfa = (action: () => void) => {
+    if (!hasMfa || isMfaFresh()) action();
+    else setStepUpAction(() => action);
+  };
+
+  const startEnrollment = async () => {
+    setLoading(true);
+    setError('');
+    const { data, error } = await enrollTotp();
+    setLoading(false);
+    if (error || !data) {
+      setError(error?.message || 'Could not start set-up.');
+      return;
+    }
+    setEnrollment(data);
+    setCode('');
+  };
+
+  const cancelEnrollment = async () => {
+    if (enrollment) await removeFactor(enrollment.factorId);
+    setEnrollment(null);
+    setCode('');
+    setError('');
+  };
+
+  const confirmEnrollment = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!enrollment) return;
+    setLoading(true);
+    setError('');
+    const { error } = await verifyTotp(enrollment.factorId, code);
+    if (error) {
+      setError('Wrong code. Check the time on your device and try again.');
+      setLoading(false);
+      return;
+    }
+
+    // Setting up on a new device replaces the old one
+    for (const old of factors) {
+      if (old.id !== enrollment.factorId) await removeFactor(old.id);
+    }
+    const { data: codes, error: codesError } = await regenerateRecoveryCodes();
+    if (codesError) setError('Two-factor is on, but recovery codes could not be created. Try regenerating them.');
+    setRecoveryCodes(codes);
+    setEnrollment(null);
+    setCode('');
+    setLoading(false);
+    await refreshAssurance();
+    load();
+  };
+
+  const disable = async () => {
+    if (!confirm('Turn off two-factor authentication? Your recovery codes will stop working too.')) return;
+    setLoading(true);
+    for (const factor of factors) await removeFactor(factor.id);
+    setRecoveryCodes(null);
+    setLoading(false);
+    await refreshAssurance();
+    load();
+  };
+
+  const regenerate = async () => {
+    setLoading(true);
+    setError('');
+    const { data, error } = await regenerateRecoveryCodes();
+    setLoading(false);
+    if (error) {
+      setError(error.message || 'Could not regenerate recovery codes.');
+      return;
+    }
+    setRecoveryCodes(data);
+    load();
+  };
+
+  const downloadCodes = () => {
+    if (!recoveryCodes) return;
+    const blob = new Blob([`Liaoverse recovery codes\n\n${recoveryCodes.join('\n')}\n`], { type: 'text/plain' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'liaoverse-recovery-codes.txt';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="space-y-4">
+      {error && <p className="text-sm text-red-500">{error}</p>}
+
+      {recoveryCodes && (
+        <div className="p-4 rounded-lg border border-[rgb(var(--color-border))] bg-[rgb(var(--color-surface-hover))] space-y-3">
+          <p className="text-sm text-[rgb(var(--color-text))] font-semibold">Save these recovery codes</p>
+          <p className="text-xs text-[rgb(var(--color-text-secondary))]">
+            Each code works once if you lose your authenticator. They won't be shown again.
+          </p>
+          <div className="grid grid-cols-2 gap-2 font-mono text-sm text-[rgb(var(--color-text))]">
+            {recoveryCodes.map(c => <span key={c}>{c}</span>)}
+          </div>
+          <div className="flex gap-2">
+            <button onClick={() => navigator.clipboard.writeText(recoveryCodes.join('\n'))} className={secondaryButtonClassName}>
+              <Copy size={16} /> Copy
+            </button>
+            <button onClick={downloadCodes} className={secondaryButtonClassName}>
+              <Download size={16} /> Download
+            </button>
+            <button onClick={() => setRecoveryCodes(null)} className={buttonClassName}>Done</button>
+          </div>
+        </div>
+      )}
+
+      {enrollment ? (
+        <form onSubmit={confirmEnrollment} className="space-y-3">
+          <p className="text-sm text-[rgb(var(--color-text-secondary))]">
+            Scan this with an authenticator app (Google Authenticator, 1Password, Authy...), then enter the code it shows.
+          </p>
+          <img src={enrollment.qrCode} alt="Authenticator QR code" className="w-44 h-44 bg-white p-2 rounded-lg" />
+          <p className="text-xs text-[rgb(var(--color-text-secondary))]">
+            Can't scan? Enter this key: <span className="font-mono break-all text-[rgb(var(--color-text))]">{enrollment.secret}</span>
+          </p>
+          <div className="flex gap-2">
+            <input
+              type="text"
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              maxLength={6}
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              placeholder="123456"
+              className="flex-1 px-3 py-2 border border-[rgb(var(--color-border))] rounded-lg tracking-widest focus:outline-none focus:border-[rgb(var(--color-accent))]"
+            />
+            <button type="submit" disabled={loading || code.trim().length < 6} className={buttonClassName}>
+              {loading ? '...' : 'Verify'}
+            </button>
+            <button type="button" onClick={cancelEnrollment} disabled={loading} className={secondaryButtonClassName}>
+              Cancel
+            </button>
+          </div>
+        </form>
+      ) : factors.length ? (
+        <div className="space-y-3">
+          <div className="flex items-center gap-2 text-green-600">
+            <ShieldCheck size={20} />
+            <span>On · authenticator app added {new Date(factors[0].created_at).toLocaleDateString()}</span>
+          </div>
+          <p className="text-sm text-[rgb(var(--color-text-secondary))]">{remainingCodes} recovery codes left.</p>
+          <div className="flex flex-wrap gap-2">
+            <button onClick={() => withFreshMfa(regenerate)} disabled={loading} className={secondaryButtonClassName}>
+              <KeyRound size={16} /> New recovery codes
+            </button>
+            <button onClick={() => withFreshMfa(startEnrollment)} disabled={loading} className={secondaryButtonClassName}>
+              Move to a new device
+            </button>
+            <button onClick={() => withFreshMfa(disable)} disabled={loading} className="px-4 py-2 text-red-500 rounded-lg hover:bg-red-500/10 transition flex items-center gap-2">
+              <ShieldOff size={16} /> Turn off
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          <p className="text-[rgb(var(--color-text-secondary))]">
+            Protect your account with a code from an authenticator app each time you sign in.
+          </p>
+          <button onClick={startEnrollment} disabled={loading} className={buttonClassName}>
+            <ShieldCheck size={16} /> {loading ? '...' : 'Set up two-factor'}
+          </button>
+        </div>
+      )}
+
+      {stepUpAction && (
+        <MfaStepUp
+          onVerified={() => { const action = stepUpAction; setStepUpAction(null); action(); }}
+          onCancel={() => setStepUpAction(null)}
+        />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,59 @@
+// src/components/UploadProgress.tsx
+import { useState, useEffect } from 'react';
+import { Pause, Play, X } from 'lucide-react';
+import type { UploadControls } from '../lib/uploads';
+
+interface UploadProgressProps {
+  progress: number;
+  controls: UploadControls | null;
+}
+
+export const UploadProgress = ({ progress, controls }: UploadProgressProps) => {
+  const [paused, setPaused] = useState(false);
+
+  // A fresh upload always starts running
+  useEffect(() => {
+    setPaused(false);
+  }, [controls]);
+
+  const togglePause = () => {
+    if (!controls) return;
+    if (paused) controls.resume();
+    else controls.pause();
+    setPaused(!paused);
+  };
+
+  return (
+    <div className="flex items-center gap-2 w-full">
+      <div className="flex-1 bg-[rgb(var(--color-border))] rounded-full h-2 overflow-hidden">
+        <div
+          className={`h-full transition-all duration-300 ${paused ? 'bg-[rgb(var(--color-text-secondary))]' : 'bg-[rgba(var(--color-accent),1)]'}`}
+          style={{ width: `${progress}%` }}
+        />
+      </div>
+      <span className="text-xs tabular-nums text-[rgb(var(--color-text-secondary))] w-16 text-right">
+        {paused ? 'Paused' : `${progress}%`}
+      </span>
+      {controls && (
+        <>
+          <button
+            type="button"
+            onClick={togglePause}
+            className="p-1 rounded-full hover:bg-[rgb(var(--color-surface-hover))] text-[rgb(var(--color-text-secondary))]"
+            title={paused ? 'Resume upload' : 'Pause upload'}
+          >
+            {paused ? <Play size={14} /> : <Pause size={14} />}
+          </button>
+          <button
+            type="button"
+            onClick={() => controls.cancel()}
+            className="p-1 rounded-full hover:bg-[rgb(var(--color-surface-hover))] text-red-500"
+            title="Cancel upload"
+          >
+            <X size={14} />
+          </button>
+        </>
+      )}
+    </div>
+  );
+};
@@ -1,15 +1,66 @@
 import { createContext, useContext, useEffect, useState, ReactNode } from 'react';
 import { supabase, Profile } from '../lib/supabase';
-import { User } from '@supabase/supabase-js';
+import { User, AuthenticatorAssuranceLevels } from '@supabase/supabase-js';
+import { clearMessageCache } from '../lib/messageCache';
+import { MFA_FRESH_WINDOW_MS, lastMfaVerifiedAt, listTotpFactors, verifyTotp } from '../lib/mfa';
+import { isCurrentSessionActive } from '../lib/sessions';
+import { cancelAccountDeletion, fetchAccountDeletion } from '../lib/account';
+import {
+  StoredAccount,
+  addAccount as parkAndAddAccount,
+  forgetAccount,
+  listStoredAccounts,
+  onActiveAccountChangedElsewhere,
+  switchAccount as swapToAccount,
+} from '../lib/accounts';
+
+// How often a signed-in tab checks that its session hasn't been ended from another device
+const SESSION_CHECK_INTERVAL_MS = 60 * 1000;
+
+export type OAuthProvider = 'github' | 'google';
+
+type Assurance = {
+  userId: string;
+  currentLevel: AuthenticatorAssuranceLevels | null;
+  nextLevel: AuthenticatorAssuranceLevels | null;
+  // When this session last passed a second factor (ms), if ever
+  verifiedAt: number | null;
+};
 
 type AuthContextType = {
   user: User | null;
   profile: Profile | null;
   loading: boolean;
+  // Signed in, and the profiles lookup came back empty (not just still in flight)
+  needsProfile: boolean;
   signUp: (email: string, password: string, username: string, displayName: string) => Promise<void>;
   signIn: (email: string, password: string) => Promise<void>;
+  signInWithProvider: (provider: OAuthProvider) => Promise<void>;
+  signInWithMagicLink: (email: string) => Promise<void>;
+  // First login through OAuth or a magic link: the auth user exists but has no profiles row yet
+  completeProfile: (username: string, displayName: string) => Promise<void>;
   signOut: () => Promise<void>;
   updateProfile: (newProfile: Profile) => void;
+  // Assurance level of the current session: aal2 once a second factor has been verified
+  aal: AuthenticatorAssuranceLevels | null;
+  hasMfa: boolean;
+  // Signed in with a password/link but the account has 2FA and the code hasn't been entered yet
+  mfaRequired: boolean;
+  // Whether the second factor was checked recently enough for sensitive changes
+  isMfaFresh: () => boolean;
+  verifyMfa: (code: string) => Promise<void>;
+  refreshAssurance: () => Promise<void>;
+  // This device was signed out because its session was ended elsewhere
+  sessionRevoked: boolean;
+  // Set while the account is queued for deletion: when it will be removed
+  deletionScheduledFor: string | null;
+  cancelDeletion: () => Promise<void>;
+  // Other accounts signed in on this device (see lib/accounts.ts)
+  accounts: StoredAccount[];
+  // Both reload the app: into the sign-in screen, or as the chosen account
+  addAccount: () => void;
+  switchAccount: (userId: string) => void;
+  removeAccount: (userId: string) => Promise<void>;
 };
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -18,13 +69,33 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
   const [user, setUser] = useState<User | null>(null);
   const [profile, setProfile] = useState<Profile | null>(null);
   const [loading, setLoading] = useState(true);
+  const [checkedProfileFor, setCheckedProfileFor] = useState<string | null>(null);
+  const [assurance, setAssurance] = useState<Assurance | null>(null);
+  const [sessionRevoked, setSessionRevoked] = useState(false);
+  const [deletionScheduledFor, setDeletionScheduledFor] = useState<string | null>(null);
+  const [accounts, setAccounts] = useState<StoredAccount[]>(listStoredAccounts);
 
   const loadProfile = async (userId: string) => {
-    const { data } = await supabase.from('profiles').select('*').eq('id', userId).maybeSingle();
+    const [{ data }, deletion] = await Promise.all([
+      supabase.from('profiles').select('*').eq('id', userId).maybeSingle(),
+      fetchAccountDeletion(userId),
+    ]);
     setProfile(data);
+    setDeletionScheduledFor(deletion?.scheduled_for ?? null);
+    setCheckedProfileFor(userId);
     setLoading(false);
   };
   
+  const loadAssurance = async (userId: string) => {
+    const { data } = await supabase.auth.mfa.getAuthenticatorAssuranceLevel();
+    setAssurance({
+      userId,
+      currentLevel: data?.currentLevel ?? null,
+      nextLevel: data?.nextLevel ?? null,
+      verifiedAt: data ? lastMfaVerifiedAt(data.currentAuthenticationMethods) : null,
+    });
+  };
+
   const updateProfile = (newProfile: Profile) => {
     setProfile(newProfile);
   };
@@ -32,36 +103,77 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
   useEffect(() => {
     supabase.auth.getSession().then(({ data: { session } }) => {
       setUser(session?.user ?? null);
+      // RLS hides the profile until a set-up second factor is passed, so the assurance
+      // level has to be known before a missing profile can mean onboarding
       if (session?.user) {
-        loadProfile(session.user.id);
+        const userId = session.user.id;
+        loadAssurance(userId).then(() => loadProfile(userId));
       } else {
         setLoading(false);
       }
     });
 
-    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, session) => {
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((event, session) => {
+      // Also fires when a revoked session fails to refresh, not just on explicit sign-out
+      if (event === 'SIGNED_OUT') clearMessageCache();
       setUser(session?.user ?? null);
       if (session?.user) {
-        loadProfile(session.user.id);
+        const userId = session.user.id;
+        loadAssurance(userId).then(() => loadProfile(userId));
       } else {
         setProfile(null);
         setLoading(false);
       }
     });
 
-    return () => subscription.unsubscribe();
+    const stopWatchingAccounts = onActiveAccountChangedElsewhere(() => window.location.reload());
+
+    return () => {
+      subscription.unsubscribe();
+      stopWatchingAccounts();
+    };
   }, []);
 
+  const userId = user?.id;
+  useEffect(() => {
+    // Signed in again as an account that was already parked: keep just the new session
+    if (!userId || !listStoredAccounts().some(a => a.id === userId)) return;
+    forgetAccount(userId).then(() => setAccounts(listStoredAccounts()));
+  }, [userId]);
+
+  useEffect(() => {
+    if (!userId) return;
+    setSessionRevoked(false);
+
+    const checkSession = async () => {
+      if (!navigator.onLine) return;
+      if ((await isCurrentSessionActive()) !== false) return;
+      setSessionRevoked(true);
+      // The server already ended it; just drop the local copy
+      await supabase.auth.signOut({ scope: 'local' });
+    };
+
+    const interval = window.setInterval(checkSession, SESSION_CHECK_INTERVAL_MS);
+    window.addEventListener('focus', checkSession);
+    window.addEventListener('online', checkSession);
+    return () => {
+      window.clearInterval(interval);
+      window.removeEventListener('focus', checkSession);
+      window.removeEventListener('online', checkSession);
+    };
+  }, [userId]);
+
   const signUp = async (email: string, password: string, username: string, displayName: string) => {
-    const { data, error } = await supabase.auth.signUp({ email, password });
+    // A trigger on auth.users creates the profile from this metadata in the same transaction,
+    // so a bad or taken username fails the whole sign-up (see the username rules migration)
+    const { data, error } = await supabase.auth.signUp({
+      email,
+      password,
+      options: { data: { username, display_name: displayName } },
+    });
     if (error) throw error;
-    if (data.user) {
-      await supabase.from('profiles').insert({
-        id: data.user.id,
-        username,
-        display_name: displayName,
-      });
-    }
+    // Signed straight in (no email confirmation): the auth listener may have raced the trigger
+    if (data.user && data.session) await loadProfile(data.user.id);
   };
 
   const signIn = async (email: string, password: string) => {
@@ -69,12 +181,119 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
     if (error) throw error;
   };
 
+  // Both land back on the app; the session is picked up from the URL by the client
+  const signInWithProvider = async (provider: OAuthProvider) => {
+    const { error } = await supabase.auth.signInWithOAuth({
+      provider,
+      options: { redirectTo: window.location.origin },
+    });
+    if (error) throw error;
+  };
+
+  const signInWithMagicLink = async (email: string) => {
+    const { error } = await supabase.auth.signInWithOtp({
+      email,
+      options: { emailRedirectTo: window.location.origin },
+    });
+    if (error) throw error;
+  };
+
+  const completeProfile = async (username: string, displayName: string) => {
+    if (!user) return;
+    const { data, error } = await supabase
+      .from('profiles')
+      .insert({
+        id: user.id,
+        username,
+        display_name: displayName,
+        // Providers like GitHub and Google hand us a picture; use it until the user uploads one
+        avatar_url: user.user_metadata?.avatar_url ?? '',
+      })
+      .select()
+      .single();
+    if (error) throw error;
+    setProfile(data);
+  };
+
   const signOut = async () => {
     await supabase.auth.signOut();
+    await clearMessageCache();
+    // Fall back to another account on this device rather than the sign-in screen
+    if (accounts.length) swapToAccount(null, accounts[0].id);
+  };
+
+  const addAccount = () => {
+    if (profile) parkAndAddAccount(profile);
+  };
+
+  const switchAccount = (targetId: string) => {
+    swapToAccount(profile, targetId);
   };
 
+  const removeAccount = async (targetId: string) => {
+    await forgetAccount(targetId);
+    setAccounts(listStoredAccounts());
+  };
+
+  const verifyMfa = async (code: string) => {
+    if (!user) return;
+    const { data: factors } = await listTotpFactors();
+    const factor = factors.find(f => f.status === 'verified');
+    if (!factor) throw new Error('No authenticator app is set up for this account.');
+    const { error } = await verifyTotp(factor.id, code);
+    if (error) throw error;
+    await loadAssurance(user.id);
+    await loadProfile(user.id);
+  };
+
+  const refreshAssurance = async () => {
+    if (user) await loadAssurance(user.id);
+  };
+
+  const cancelDeletion = async () => {
+    const { error } = await cancelAccountDeletion();
+    if (error) throw error;
+    setDeletionScheduledFor(null);
+  };
+
+  const needsProfile = !!user && !profile && checkedProfileFor === user.id;
+  const currentAssurance = user && assurance?.userId === user.id ? assurance : null;
+  const aal = currentAssurance?.currentLevel ?? null;
+  const hasMfa = currentAssurance?.nextLevel === 'aal2';
+  const mfaRequired = hasMfa && aal !== 'aal2';
+  const isMfaFresh = () =>
+    aal === 'aal2' && !!currentAssurance?.verifiedAt && Date.now() - currentAssurance.verifiedAt < MFA_FRESH_WINDOW_MS;
+
   return (
-    <AuthContext.Provider value={{ user, profile, loading, signUp, signIn, signOut, updateProfile }}>
+    <AuthContext.Provider
+      value={{
+        user,
+        profile,
+        // Hold the app until we know whether this session still owes a second factor
+        loading: loading || (!!user && !currentAssurance),
+        needsProfile,
+        signUp,
+        signIn,
+        signInWithProvider,
+        signInWithMagicLink,
+        completeProfile,
+        signOut,
+        updateProfile,
+        aal,
+        hasMfa,
+        mfaRequired,
+        isMfaFresh,
+        verifyMfa,
+        refreshAssurance,
+        sessionRevoked,
+        deletionScheduledFor,
+        cancelDeletion,
+        accounts,
+        addAccount,
+        switchAccount,
+        removeAccount,
+      }}
+    >
       {children}
     </AuthContext.Provider>
   );
@@ -0,0 +1,174 @@
+// lib/account.ts
+import { supabase, MediaFolder } from './supabase';
+import { listMyFiles, StoredFile } from './storage';
+import { createZip, ZipEntry } from './zip';
+
+// PostgREST's default max rows per request
+const EXPORT_PAGE_SIZE = 1000;
+const EXPORT_FOLDERS: MediaFolder[] = ['posts', 'messages', 'gazebo-messages', 'statuses', 'profiles'];
+// Each archive is held in memory until it's saved, so uploads are split across
+// archives of about this size rather than packed into one
+const EXPORT_ARCHIVE_BYTES = 500 * 1024 * 1024;
+
+// What goes into data/*.json. Filters are PostgREST `or` expressions; statuses
+// include expired ones since the owner can read their whole archive.
+const EXPORT_TABLES: { file: string; table: string; filter: (userId: string) => string }[] = [
+  { file: 'profile', table: 'profiles', filter: id => `id.eq.${id}` },
+  { file: 'posts', table: 'posts', filter: id => `user_id.eq.${id}` },
+  { file: 'comments', table: 'comments', filter: id => `user_id.eq.${id}` },
+  { file: 'likes', table: 'likes', filter: id => `user_id.eq.${id}` },
+  { file: 'follows', table: 'follows', filter: id => `follower_id.eq.${id},following_id.eq.${id}` },
+  { file: 'direct_messages', table: 'messages', filter: id => `sender_id.eq.${id},recipient_id.eq.${id}` },
+  { file: 'message_reactions', table: 'message_reactions', filter: id => `user_id.eq.${id}` },
+  { file: 'gazebo_messages', table: 'gazebo_messages', filter: id => `user_id.eq.${id}` },
+  { file: 'gazebo_message_reactions', table: 'gazebo_message_reactions', filter: id => `user_id.eq.${id}` },
+  { file: 'statuses', table: 'statuses', filter: id => `user_id.eq.${id}` },
+  { file: 'forum_posts', table: 'forum_posts', filter: id => `user_id.eq.${id}` },
+  { file: 'forum_comments', table: 'forum_comments', filter: id => `user_id.eq.${id}` },
+];
+
+export type ExportProgress = {
+  stage: 'data' | 'media' | 'archive';
+  done: number;
+  total: number;
+};
+
+export type ExportArchive = {
+  data: Blob;
+  // 1-based; `last` is only known once the final archive is packed
+  part: number;
+  last: boolean;
+};
+
+export type AccountDeletion = {
+  requested_at: string;
+  scheduled_for: string;
+};
+
+const fetchAllRows = async (table: string, filter: string) => {
+  const rows: unknown[] = [];
+  for (let from = 0; ; from += EXPORT_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from(table)
+      .select('*')
+      .or(filter)
+      .order('created_at', { ascending: true })
+      .range(from, from + EXPORT_PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...(data ?? []));
+    if (!data || data.length < EXPORT_PAGE_SIZE) return rows;
+  }
+};
+
+const listAllFiles = async (userId: string) => {
+  const files: StoredFile[] = [];
+  for (const folder of EXPORT_FOLDERS) {
+    let offset: number | null = 0;
+    while (offset !== null) {
+      const { data, nextOffset, error } = await listMyFiles(userId, folder, offset);
+      if (error) throw error;
+      files.push(...data);
+      offset = nextOffset;
+    }
+  }
+  return files;
+};
+
+/**
+ * Everything the account owns, as ZIPs: one JSON file per table under data/ and
+ * the original uploads under media/ (same paths as in the bucket). Large accounts
+ * get several archives, handed to `onArchive` one at a time as each fills up (the
+ * export waits for what it returns, so the next part can wait on the user); the
+ * last one also holds data/ and manifest.json, which says which archive each file
+ * is in. Files that fail to download are listed in the manifest instead of failing
+ * the whole export. Returns the number of archives.
+ */
+export const exportAccountData = async (
+  userId: string,
+  onArchive: (archive: ExportArchive) => void | Promise<void>,
+  onProgress?: (progress: ExportProgress) => void
+): Promise<{ data: number | null; error: Error | null }> => {
+  try {
+    const data: ZipEntry[] = [];
+    const tables: Record<string, { file: string; count: number }> = {};
+
+    for (const [index, { file, table, filter }] of EXPORT_TABLES.entries()) {
+      onProgress?.({ stage: 'data', done: index, total: EXPORT_TABLES.length });
+      const rows = await fetchAllRows(table, filter(userId));
+      data.push({ path: `data/${file}.json`, data: JSON.stringify(rows, null, 2) });
+      tables[file] = { file: `data/${file}.json`, count: rows.length };
+    }
+
+    const files = await listAllFiles(userId);
+    const media = [];
+    const missing = [];
+    let entries: ZipEntry[] = [];
+    let entriesSize = 0;
+    let part = 1;
+    for (const [index, file] of files.entries()) {
+      onProgress?.({ stage: 'media', done: index, total: files.length });
+      try {
+        const response = await fetch(file.url);
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        const blob = await response.blob();
+        if (entries.length && entriesSize + blob.size > EXPORT_ARCHIVE_BYTES) {
+          await onArchive({ data: await createZip(entries), part, last: false });
+          entries = [];
+          entriesSize = 0;
+          part++;
+        }
+        entries.push({ path: `media/${file.path}`, data: blob });
+        entriesSize += blob.size;
+        media.push({ file: `media/${file.path}`, archive: part, url: file.url, size: file.size, mimetype: file.mimetype, created_at: file.created_at });
+      } catch (err) {
+        missing.push({ url: file.url, reason: (err as Error).message });
+      }
+    }
+
+    onProgress?.({ stage: 'archive', done: 0, total: 1 });
+    const { data: { user } } = await supabase.auth.getUser();
+    const manifest = {
+      format: 'liaotian-account-export',
+      version: 2,
+      generated_at: new Date().toISOString(),
+      account: { id: userId, email: user?.email ?? null },
+      archives: part,
+      tables,
+      media,
+      missing_media: missing,
+    };
+
+    await onArchive({
+      data: await createZip([{ path: 'manifest.json', data: JSON.stringify(manifest, null, 2) }, ...data, ...entries]),
+      part,
+      last: true,
+    });
+    return { data: part, error: null };
+  } catch (err) {
+    return { data: null, error: err as Error };
+  }
+};
+
+export const fetchAccountDeletion = async (userId: string): Promise<AccountDeletion | null> => {
+  const { data, error } = await supabase
+    .from('account_deletions')
+    .select('requested_at, scheduled_for')
+    .eq('user_id', userId)
+    .maybeSingle();
+  if (error) console.error('Account deletion lookup error:', error);
+  return data;
+};
+
+/**
+ * Queues the account for deletion after the grace period (see the account
+ * deletion migration) and returns when that will happen.
+ */
+export const requestAccountDeletion = async (): Promise<{ data: string | null; error: Error | null }> => {
+  const { data, error } = await supabase.rpc('request_account_deletion');
+  return { data: data as string | null, error };
+};
+
+export const cancelAccountDeletion = async () => {
+  const { error } = await supabase.rpc('cancel_account_deletion');
+  return { error };
+};
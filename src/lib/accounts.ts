@@ -0,0 +1,148 @@
+// lib/accounts.ts
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { SESSION_STORAGE_KEY, supabase, Profile } from './supabase';
+
+/**
+ * Several signed-in accounts on one device.
+ *
+ * The active account's session lives where supabase-js keeps it (SESSION_STORAGE_KEY)
+ * and the whole app talks to it through the shared `supabase` client. Every other
+ * account is "parked": its session is moved, untouched, to a key of its own, and a
+ * background client on that key keeps it refreshed and watches its unread counts.
+ * Switching swaps the stored sessions and reloads, so every component, cache and
+ * realtime channel starts over as the new account.
+ */
+
+const ACCOUNTS_KEY = 'liaotian-accounts';
+const parkedSessionKey = (userId: string) => `liaotian-account-${userId}`;
+
+// What the switcher shows for a parked account without signing in as it
+export type StoredAccount = Pick<Profile, 'id' | 'username' | 'display_name' | 'avatar_url' | 'theme'>;
+
+export type AccountUnread = {
+  messages: number;
+  notifications: number;
+};
+
+const clients = new Map<string, SupabaseClient>();
+
+const accountClient = (userId: string) => {
+  let client = clients.get(userId);
+  if (!client) {
+    client = createClient(import.meta.env.VITE_SUPABASE_URL, import.meta.env.VITE_SUPABASE_ANON_KEY, {
+      auth: { storageKey: parkedSessionKey(userId), detectSessionInUrl: false },
+    });
+    clients.set(userId, client);
+  }
+  return client;
+};
+
+// Stop a background client before its session is moved, so it can't refresh mid-swap
+const releaseClient = (userId: string) => {
+  const client = clients.get(userId);
+  if (!client) return;
+  client.auth.stopAutoRefresh();
+  client.removeAllChannels();
+  clients.delete(userId);
+};
+
+const sessionUserId = (raw: string | null): string | null => {
+  try {
+    return raw ? JSON.parse(raw)?.user?.id ?? null : null;
+  } catch {
+    return null;
+  }
+};
+
+export const listStoredAccounts = (): StoredAccount[] => {
+  try {
+    return JSON.parse(localStorage.getItem(ACCOUNTS_KEY) || '[]');
+  } catch {
+    return [];
+  }
+};
+
+const saveStoredAccounts = (accounts: StoredAccount[]) => {
+  localStorage.setItem(ACCOUNTS_KEY, JSON.stringify(accounts));
+};
+
+const parkActiveSession = (account: StoredAccount) => {
+  const session = localStorage.getItem(SESSION_STORAGE_KEY);
+  if (!session) return;
+  supabase.auth.stopAutoRefresh();
+  localStorage.setItem(parkedSessionKey(account.id), session);
+  localStorage.removeItem(SESSION_STORAGE_KEY);
+  saveStoredAccounts([
+    ...listStoredAccounts().filter(a => a.id !== account.id),
+    { id: account.id, username: account.username, display_name: account.display_name, avatar_url: account.avatar_url, theme: account.theme },
+  ]);
+};
+
+const activateParkedSession = (userId: string) => {
+  releaseClient(userId);
+  const session = localStorage.getItem(parkedSessionKey(userId));
+  localStorage.removeItem(parkedSessionKey(userId));
+  saveStoredAccounts(listStoredAccounts().filter(a => a.id !== userId));
+  if (session) localStorage.setItem(SESSION_STORAGE_KEY, session);
+};
+
+// Parks the active account and reloads to the sign-in screen for another one
+export const addAccount = (active: StoredAccount) => {
+  parkActiveSession(active);
+  window.location.assign('/');
+};
+
+// `active` is null when nobody is signed in (e.g. from the sign-in screen)
+export const switchAccount = (active: StoredAccount | null, targetId: string) => {
+  if (active) parkActiveSession(active);
+  else supabase.auth.stopAutoRefresh();
+  activateParkedSession(targetId);
+  window.location.assign('/');
+};
+
+// Signs a parked account out for good (its session only) and drops it from the list
+export const forgetAccount = async (userId: string) => {
+  await accountClient(userId).auth.signOut({ scope: 'local' });
+  releaseClient(userId);
+  localStorage.removeItem(parkedSessionKey(userId));
+  saveStoredAccounts(listStoredAccounts().filter(a => a.id !== userId));
+};
+
+/**
+ * Unread DMs and notifications for a parked account, kept live over that
+ * account's own realtime connection (the shared subscription manager in
+ * lib/realtime.ts only ever speaks for the active account).
+ */
+export const watchAccountUnread = (userId: string, onChange: (unread: AccountUnread) => void) => {
+  const client = accountClient(userId);
+  let stopped = false;
+
+  const refresh = async () => {
+    const [{ count: messages }, { count: notifications }] = await Promise.all([
+      client.from('messages').select('*', { count: 'exact', head: true }).eq('recipient_id', userId).eq('read', false),
+      client.from('notifications').select('*', { count: 'exact', head: true }).eq('recipient_id', userId).eq('is_read', false),
+    ]);
+    if (!stopped) onChange({ messages: messages ?? 0, notifications: notifications ?? 0 });
+  };
+
+  refresh();
+  const channel = client
+    .channel(`account-unread-${userId}`)
+    .on('postgres_changes', { event: '*', schema: 'public', table: 'messages', filter: `recipient_id=eq.${userId}` }, refresh)
+    .on('postgres_changes', { event: '*', schema: 'public', table: 'notifications', filter: `recipient_id=eq.${userId}` }, refresh)
+    .subscribe();
+
+  return () => {
+    stopped = true;
+    client.removeChannel(channel);
+  };
+};
+
+// Another tab switched or added an account: this one is still running as the old one
+export const onActiveAccountChangedElsewhere = (callback: () => void) => {
+  const handler = (e: StorageEvent) => {
+    if (e.key === SESSION_STORAGE_KEY && sessionUserId(e.oldValue) !== sessionUserId(e.newValue)) callback();
+  };
+  window.addEventListener('storage', handler);
+  return () => window.removeEventListener('storage', handler);
+};
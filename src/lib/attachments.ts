@@ -0,0 +1,124 @@
+// lib/attachments.ts
+import { uploadMedia, Attachment, MediaFolder, UploadError, UploadMediaOptions } from './supabase';
+import type { UploadControls } from './uploads';
+
+/**
+ * Albums: posts, DMs and gazebo messages carry an ordered `attachments` array.
+ * The first item is mirrored into the legacy media_url/media_type columns, and
+ * rows written before albums existed are read back through those columns.
+ */
+
+export const MAX_ATTACHMENTS = 10;
+
+// A file picked in a composer, with the alt text typed for it
+export type PendingAttachment = {
+  id: string;
+  file: File;
+  alt: string;
+};
+
+type MediaColumns = {
+  media_url?: string | null;
+  media_type?: string | null;
+  thumbnail_url?: string | null;
+  poster_url?: string | null;
+  attachments?: Attachment[] | null;
+};
+
+const ATTACHMENT_TYPES: Attachment['type'][] = ['image', 'video', 'audio', 'document'];
+
+export const isVisualAttachment = (item: Attachment) => item.type === 'image' || item.type === 'video';
+
+export const getAttachments = (row: MediaColumns): Attachment[] => {
+  if (row.attachments?.length) return row.attachments;
+  if (!row.media_url) return [];
+  const type = ATTACHMENT_TYPES.find(t => t === row.media_type) ?? 'document';
+  return [{
+    url: row.media_url,
+    type,
+    width: null,
+    height: null,
+    alt: null,
+    thumbnail_url: row.thumbnail_url ?? null,
+    poster_url: row.poster_url ?? null,
+  }];
+};
+
+export const guessRemoteType = (url: string): Attachment['type'] => {
+  if (/\.(jpeg|jpg|gif|png|webp)$/i.test(url)) return 'image';
+  if (/\.(mp4|webm|mov|avi)$/i.test(url)) return 'video';
+  if (/\.(mp3|wav|ogg|m4a|weba)$/i.test(url)) return 'audio';
+  return 'document';
+};
+
+export const remoteAttachment = (url: string): Attachment => ({
+  url,
+  type: guessRemoteType(url),
+  width: null,
+  height: null,
+  alt: null,
+  thumbnail_url: null,
+  poster_url: null,
+});
+
+// Row columns for an insert: the album plus the mirrored first item
+export const attachmentColumns = (items: Attachment[]) => {
+  const first = items[0];
+  return {
+    attachments: items,
+    media_url: first?.url ?? null,
+    media_type: first?.type ?? null,
+    thumbnail_url: first?.thumbnail_url ?? null,
+    poster_url: first?.poster_url ?? null,
+  };
+};
+
+export const toPendingAttachments = (files: Iterable<File>): PendingAttachment[] =>
+  Array.from(files).map(file => ({ id: crypto.randomUUID(), file, alt: '' }));
+
+export type AttachmentsResult = {
+  data: Attachment[] | null;
+  error: UploadError | null;
+};
+
+/**
+ * Uploads the files one after another, reporting progress across the whole
+ * album. Stops at the first failure; both null means the user cancelled.
+ */
+export const uploadAttachments = async (
+  pending: PendingAttachment[],
+  folder: MediaFolder,
+  onProgress?: (percent: number) => void,
+  onControls?: (controls: UploadControls | null) => void,
+  options?: UploadMediaOptions
+): Promise<AttachmentsResult> => {
+  const uploaded: Attachment[] = [];
+
+  for (const [index, item] of pending.entries()) {
+    const { data, error } = await uploadMedia(
+      item.file,
+      folder,
+      (percent) => onProgress?.(Math.round((index * 100 + percent) / pending.length)),
+      onControls,
+      options
+    );
+    if (error) {
+      const message = pending.length > 1 ? `${item.file.name}: ${error.message}` : error.message;
+      return { data: null, error: { ...error, message } };
+    }
+    if (!data) return { data: null, error: null };
+
+    uploaded.push({
+      url: data.url,
+      // Recorded voice notes are webm, which sniffs as video
+      type: item.file.type.startsWith('audio/') ? 'audio' : data.type,
+      width: data.width,
+      height: data.height,
+      alt: item.alt.trim() || null,
+      thumbnail_url: data.thumbnailUrl,
+      poster_url: data.posterUrl,
+    });
+  }
+
+  return { data: uploaded, error: null };
+};
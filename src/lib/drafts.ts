@@ -0,0 +1,57 @@
+// lib/drafts.ts
+// Unfinished posts, kept on this device in IndexedDB so they survive navigation,
+// reloads and closed tabs. Attachments are stored as the picked files themselves;
+// nothing is uploaded until the draft is posted or scheduled.
+import { idbDelete, idbGetAll, idbPut } from './idb';
+import type { PendingAttachment } from './attachments';
+import type { PollDraft } from './polls';
+
+export type PostDraft = {
+  id: string;
+  user_id: string;
+  content: string;
+  attachments: PendingAttachment[];
+  remote_url: string;
+  keep_original: boolean;
+  // Missing on drafts saved before polls
+  poll?: PollDraft | null;
+  updated_at: string;
+};
+
+// Newest first, only the given account's
+export const listDrafts = async (userId: string): Promise<PostDraft[]> => {
+  try {
+    const drafts = await idbGetAll<PostDraft>('drafts');
+    return drafts
+      .filter(draft => draft.user_id === userId)
+      .sort((a, b) => b.updated_at.localeCompare(a.updated_at));
+  } catch (error) {
+    console.error('Draft read failed:', error);
+    return [];
+  }
+};
+
+export const saveDraft = async (draft: PostDraft) => {
+  try {
+    await idbPut('drafts', draft);
+  } catch (error) {
+    console.error('Draft write failed:', error);
+  }
+};
+
+export const deleteDraft = async (id: string) => {
+  try {
+    await idbDelete('drafts', id);
+  } catch (error) {
+    console.error('Draft delete failed:', error);
+  }
+};
+
+export const isDraftEmpty = (draft: Pick<PostDraft, 'content' | 'attachments' | 'remote_url' | 'poll'>) =>
+  !draft.content.trim() && !draft.attachments.length && !draft.remote_url.trim() && !draft.poll;
+
+// <input type="datetime-local"> works in local time without a zone: 2026-10-19T14:30
+export const toLocalInputValue = (date: Date) => {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
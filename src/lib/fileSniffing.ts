@@ -0,0 +1,110 @@
+// lib/fileSniffing.ts
+
+export type MediaKind = 'image' | 'video' | 'audio' | 'document';
+
+export type SniffedFormat = {
+  format: string;
+  kind: MediaKind;
+  mime: string;
+  ext: string;
+  // Extensions a file of this format may legitimately carry
+  extensions: string[];
+};
+
+const HEADER_BYTES = 4096;
+
+const FORMATS: Record<string, SniffedFormat> = {
+  jpeg: { format: 'jpeg', kind: 'image', mime: 'image/jpeg', ext: 'jpg', extensions: ['jpg', 'jpeg', 'jfif'] },
+  png: { format: 'png', kind: 'image', mime: 'image/png', ext: 'png', extensions: ['png'] },
+  gif: { format: 'gif', kind: 'image', mime: 'image/gif', ext: 'gif', extensions: ['gif'] },
+  webp: { format: 'webp', kind: 'image', mime: 'image/webp', ext: 'webp', extensions: ['webp'] },
+  mp4: { format: 'mp4', kind: 'video', mime: 'video/mp4', ext: 'mp4', extensions: ['mp4', 'm4v'] },
+  mov: { format: 'mov', kind: 'video', mime: 'video/quicktime', ext: 'mov', extensions: ['mov', 'mp4'] },
+  webm: { format: 'webm', kind: 'video', mime: 'video/webm', ext: 'webm', extensions: ['webm'] },
+  webmAudio: { format: 'webmAudio', kind: 'audio', mime: 'audio/webm', ext: 'webm', extensions: ['webm', 'weba'] },
+  m4a: { format: 'm4a', kind: 'audio', mime: 'audio/mp4', ext: 'm4a', extensions: ['m4a', 'mp4'] },
+  mp3: { format: 'mp3', kind: 'audio', mime: 'audio/mpeg', ext: 'mp3', extensions: ['mp3'] },
+  ogg: { format: 'ogg', kind: 'audio', mime: 'audio/ogg', ext: 'ogg', extensions: ['ogg', 'oga', 'opus'] },
+  wav: { format: 'wav', kind: 'audio', mime: 'audio/wav', ext: 'wav', extensions: ['wav'] },
+  pdf: { format: 'pdf', kind: 'document', mime: 'application/pdf', ext: 'pdf', extensions: ['pdf'] },
+  doc: { format: 'doc', kind: 'document', mime: 'application/msword', ext: 'doc', extensions: ['doc'] },
+  docx: {
+    format: 'docx',
+    kind: 'document',
+    mime: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    ext: 'docx',
+    extensions: ['docx'],
+  },
+  rtf: { format: 'rtf', kind: 'document', mime: 'application/rtf', ext: 'rtf', extensions: ['rtf'] },
+  json: { format: 'json', kind: 'document', mime: 'application/json', ext: 'json', extensions: ['json', 'txt'] },
+  text: { format: 'text', kind: 'document', mime: 'text/plain', ext: 'txt', extensions: ['txt', 'md', 'csv', 'log'] },
+};
+
+const ascii = (bytes: Uint8Array, offset: number, length: number) =>
+  String.fromCharCode(...bytes.subarray(offset, offset + length));
+
+const startsWith = (bytes: Uint8Array, signature: number[], offset = 0) =>
+  signature.every((b, i) => bytes[offset + i] === b);
+
+const isUtf8Text = (bytes: Uint8Array) => {
+  if (bytes.includes(0)) return false;
+  try {
+    // A multi-byte character may be cut at the end of the header, so drop the tail
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes.subarray(0, Math.max(0, bytes.length - 4)));
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Identifies a file from its leading bytes rather than its name or the
+ * browser-reported MIME type, both of which are trivially spoofed.
+ * Returns null when the content matches nothing we accept.
+ */
+export const sniffFile = async (file: File): Promise<SniffedFormat | null> => {
+  const bytes = new Uint8Array(await file.slice(0, HEADER_BYTES).arrayBuffer());
+  const declaredAudio = file.type.startsWith('audio/');
+
+  if (startsWith(bytes, [0xff, 0xd8, 0xff])) return FORMATS.jpeg;
+  if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return FORMATS.png;
+  if (ascii(bytes, 0, 6) === 'GIF87a' || ascii(bytes, 0, 6) === 'GIF89a') return FORMATS.gif;
+
+  if (ascii(bytes, 0, 4) === 'RIFF') {
+    const riffType = ascii(bytes, 8, 4);
+    if (riffType === 'WEBP') return FORMATS.webp;
+    if (riffType === 'WAVE') return FORMATS.wav;
+    return null;
+  }
+
+  // ISO base media (MP4, MOV, M4A): size box then 'ftyp' and a major brand
+  if (ascii(bytes, 4, 4) === 'ftyp') {
+    const brand = ascii(bytes, 8, 4);
+    if (brand === 'M4A ' || brand === 'M4B ') return FORMATS.m4a;
+    if (brand === 'qt  ') return FORMATS.mov;
+    if (/^(hei|mif|msf|avi)/.test(brand)) return null; // HEIC/AVIF stills
+    return declaredAudio ? FORMATS.m4a : FORMATS.mp4;
+  }
+
+  if (startsWith(bytes, [0x1a, 0x45, 0xdf, 0xa3])) return declaredAudio ? FORMATS.webmAudio : FORMATS.webm;
+  if (ascii(bytes, 0, 4) === 'OggS') return FORMATS.ogg;
+  if (ascii(bytes, 0, 3) === 'ID3' || (bytes[0] === 0xff && (bytes[1] & 0xe0) === 0xe0)) return FORMATS.mp3;
+
+  if (ascii(bytes, 0, 5) === '%PDF-') return FORMATS.pdf;
+  if (startsWith(bytes, [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1])) return FORMATS.doc;
+  // DOCX is a ZIP whose first entry is the OOXML content-types manifest; any other ZIP is refused
+  if (startsWith(bytes, [0x50, 0x4b, 0x03, 0x04])) {
+    return ascii(bytes, 30, 19) === '[Content_Types].xml' ? FORMATS.docx : null;
+  }
+  if (ascii(bytes, 0, 5) === '{\\rtf') return FORMATS.rtf;
+
+  if (isUtf8Text(bytes)) {
+    const head = new TextDecoder().decode(bytes).trimStart().toLowerCase();
+    // Markup could run script when served from the bucket's public URL
+    if (head.startsWith('<')) return null;
+    if (head.startsWith('{') || head.startsWith('[')) return FORMATS.json;
+    return FORMATS.text;
+  }
+
+  return null;
+};
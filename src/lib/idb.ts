@@ -0,0 +1,85 @@
+// lib/idb.ts
+// Minimal promise wrapper around IndexedDB for the client-side stores.
+
+const DB_NAME = 'gazebo';
+const DB_VERSION = 3;
+
+export type StoreName = 'outbox' | 'inbox' | 'threads' | 'profiles' | 'drafts';
+
+const KEY_PATHS: Record<StoreName, string> = {
+  outbox: 'client_id',
+  inbox: 'user_id',
+  threads: 'key',
+  profiles: 'id',
+  drafts: 'id',
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        (Object.keys(KEY_PATHS) as StoreName[]).forEach(store => {
+          if (!db.objectStoreNames.contains(store)) {
+            db.createObjectStore(store, { keyPath: KEY_PATHS[store] });
+          }
+        });
+      };
+      request.onsuccess = () => {
+        const db = request.result;
+        // Let a newer tab upgrade the schema instead of blocking it
+        db.onversionchange = () => {
+          db.close();
+          dbPromise = null;
+        };
+        resolve(db);
+      };
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const run = async <T>(
+  store: StoreName,
+  mode: IDBTransactionMode,
+  action: (objectStore: IDBObjectStore) => IDBRequest
+): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(store, mode);
+    const request = action(tx.objectStore(store));
+    tx.oncomplete = () => resolve(request.result as T);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+export const idbGetAll = <T>(store: StoreName) => run<T[]>(store, 'readonly', (s) => s.getAll());
+
+export const idbGet = <T>(store: StoreName, key: IDBValidKey) =>
+  run<T | undefined>(store, 'readonly', (s) => s.get(key));
+
+export const idbPut = <T>(store: StoreName, value: T) => run<IDBValidKey>(store, 'readwrite', (s) => s.put(value));
+
+export const idbPutMany = async <T>(store: StoreName, values: T[]) => {
+  const db = await openDb();
+  return new Promise<void>((resolve, reject) => {
+    const tx = db.transaction(store, 'readwrite');
+    const objectStore = tx.objectStore(store);
+    values.forEach(value => objectStore.put(value));
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+export const idbDelete = (store: StoreName, key: IDBValidKey) => run<undefined>(store, 'readwrite', (s) => s.delete(key));
+
+export const idbClear = (store: StoreName) => run<undefined>(store, 'readwrite', (s) => s.clear());
@@ -0,0 +1,98 @@
+// lib/imageProcessing.ts
+import type { MediaFolder } from './supabase';
+
+export type ImageProcessingOptions = {
+  maxDimension: number;
+  quality: number;
+};
+
+// Longest edge (px) and encoder quality per upload destination
+export const IMAGE_PRESETS: Record<MediaFolder, ImageProcessingOptions> = {
+  posts: { maxDimension: 2048, quality: 0.85 },
+  messages: { maxDimension: 2048, quality: 0.82 },
+  'gazebo-messages': { maxDimension: 2048, quality: 0.82 },
+  statuses: { maxDimension: 1920, quality: 0.85 },
+  profiles: { maxDimension: 1500, quality: 0.9 },
+};
+
+// GIFs would lose their animation and SVGs are not raster images
+const SKIPPED_TYPES = ['image/gif', 'image/svg+xml'];
+
+let webpSupported: boolean | null = null;
+const canEncodeWebp = () => {
+  if (webpSupported === null) {
+    const canvas = document.createElement('canvas');
+    canvas.width = canvas.height = 1;
+    webpSupported = canvas.toDataURL('image/webp').startsWith('data:image/webp');
+  }
+  return webpSupported;
+};
+
+// WebP where the browser can encode it, JPEG otherwise
+export const preferredImageType = () => (canEncodeWebp() ? 'image/webp' : 'image/jpeg');
+
+const loadImage = async (file: File): Promise<ImageBitmap | HTMLImageElement> => {
+  if ('createImageBitmap' in window) {
+    try {
+      // Applies the EXIF orientation so the pixels come out upright
+      return await createImageBitmap(file, { imageOrientation: 'from-image' });
+    } catch {
+      // Fall through to <img>, which also honours orientation in current browsers
+    }
+  }
+  const url = URL.createObjectURL(file);
+  try {
+    const img = new Image();
+    img.src = url;
+    await img.decode();
+    return img;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+/**
+ * Downsizes an image to fit the preset, re-encodes it (WebP where the browser can,
+ * JPEG otherwise) and drops all metadata, EXIF/GPS included, by drawing it to a canvas.
+ * Non-images and formats we can't safely re-encode are returned untouched. Pass the
+ * type sniffed from the contents where there is one: `file.type` is only the browser's
+ * guess from the name, and can be empty.
+ */
+export const processImage = async (file: File, options: ImageProcessingOptions, mime = file.type): Promise<File> => {
+  if (!mime.startsWith('image/') || SKIPPED_TYPES.includes(mime)) return file;
+
+  let source: ImageBitmap | HTMLImageElement;
+  try {
+    source = await loadImage(file);
+  } catch (error) {
+    console.error('Image decode failed, uploading original:', error);
+    return file;
+  }
+
+  const width = 'naturalWidth' in source ? source.naturalWidth : source.width;
+  const height = 'naturalHeight' in source ? source.naturalHeight : source.height;
+  const scale = Math.min(1, options.maxDimension / Math.max(width, height));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(width * scale);
+  canvas.height = Math.round(height * scale);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return file;
+
+  // JPEG has no alpha channel, so transparent areas would otherwise turn black
+  const outputType = preferredImageType();
+  if (outputType === 'image/jpeg') {
+    ctx.fillStyle = '#fff';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+  }
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+  if ('close' in source) source.close();
+
+  const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, outputType, options.quality));
+  if (!blob) return file;
+
+  const ext = outputType === 'image/webp' ? 'webp' : 'jpg';
+  const baseName = file.name.replace(/\.[^.]+$/, '') || 'image';
+  return new File([blob], `${baseName}.${ext}`, { type: outputType, lastModified: file.lastModified });
+};
@@ -0,0 +1,170 @@
+// lib/messageCache.ts
+import type { Profile } from './supabase';
+import {
+  ConversationChange,
+  ConversationMessage,
+  fetchConversationPartners,
+  fetchMessageChanges,
+} from './repository';
+import { idbClear, idbGet, idbGetAll, idbPut, idbPutMany } from './idb';
+
+/**
+ * IndexedDB copy of the DM inbox so Messages can paint before the network answers.
+ *
+ * - inbox:    per signed-in user, the conversation order plus the sync cursor
+ * - threads:  the newest THREAD_LIMIT messages of each opened conversation
+ * - profiles: everyone who appears in the inbox
+ *
+ * After the first full load, syncInbox only asks the server for messages whose
+ * `updated_at` is past the cursor (give or take a short overlap, re-read so late
+ * commits aren't missed) and folds them into all three stores. Folding is by id,
+ * so seeing a change twice is harmless.
+ */
+
+const THREAD_LIMIT = 50;
+
+type InboxRecord = {
+  user_id: string;
+  partners: { id: string; latest: string }[];
+  cursor: string | null;
+  last_open_id: string | null;
+};
+
+type ThreadRecord = {
+  key: string;
+  messages: ConversationMessage[];
+};
+
+export type CachedInbox = {
+  partners: Profile[];
+  lastOpen: Profile | null;
+};
+
+const threadKey = (userId: string, otherId: string) => `${userId}:${otherId}`;
+
+const byCreatedAt = (a: ConversationMessage, b: ConversationMessage) => a.created_at.localeCompare(b.created_at);
+
+// Cache failures (private mode, quota) should never break Messages, only make it slower
+const safely = async <T>(action: () => Promise<T>, fallback: T): Promise<T> => {
+  try {
+    return await action();
+  } catch (error) {
+    console.error('Message cache error:', error);
+    return fallback;
+  }
+};
+
+const joinProfiles = async (record: InboxRecord | undefined) => {
+  if (!record) return null;
+  const profiles = await idbGetAll<Profile>('profiles');
+  const byId = new Map(profiles.map(p => [p.id, p]));
+  return {
+    record,
+    partners: record.partners.map(p => byId.get(p.id)).filter((p): p is Profile => !!p),
+    byId,
+  };
+};
+
+export const loadCachedInbox = (userId: string): Promise<CachedInbox | null> =>
+  safely(async () => {
+    const joined = await joinProfiles(await idbGet<InboxRecord>('inbox', userId));
+    if (!joined) return null;
+    const { record, partners, byId } = joined;
+    return { partners, lastOpen: record.last_open_id ? byId.get(record.last_open_id) ?? null : null };
+  }, null);
+
+export const loadCachedThread = (userId: string, otherId: string): Promise<ConversationMessage[] | null> =>
+  safely(async () => (await idbGet<ThreadRecord>('threads', threadKey(userId, otherId)))?.messages ?? null, null);
+
+export const saveCachedThread = (userId: string, otherId: string, messages: ConversationMessage[]) =>
+  safely(
+    () => idbPut<ThreadRecord>('threads', { key: threadKey(userId, otherId), messages: messages.slice(-THREAD_LIMIT) }),
+    undefined
+  );
+
+export const saveLastOpenConversation = (userId: string, otherId: string | null) =>
+  safely(async () => {
+    const record = await idbGet<InboxRecord>('inbox', userId);
+    if (record) await idbPut<InboxRecord>('inbox', { ...record, last_open_id: otherId });
+  }, undefined);
+
+// Merges changed messages into any cached threads they belong to
+const applyToThreads = async (userId: string, changes: ConversationChange[]) => {
+  const byThread = new Map<string, ConversationMessage[]>();
+  changes.forEach(change => {
+    const otherId = change.sender_id === userId ? change.recipient_id : change.sender_id;
+    // Drop the joined profiles; threads only store the message itself
+    const message: ConversationMessage = { ...change, sender: undefined, recipient: undefined };
+    const list = byThread.get(otherId) || [];
+    list.push(message);
+    byThread.set(otherId, list);
+  });
+
+  for (const [otherId, updates] of byThread) {
+    const key = threadKey(userId, otherId);
+    const thread = await idbGet<ThreadRecord>('threads', key);
+    // Threads we've never opened are fetched fresh when they are
+    if (!thread) continue;
+    const merged = new Map(thread.messages.map(m => [m.id, m]));
+    updates.forEach(m => merged.set(m.id, { ...merged.get(m.id), ...m }));
+    await idbPut<ThreadRecord>('threads', {
+      key,
+      messages: Array.from(merged.values()).sort(byCreatedAt).slice(-THREAD_LIMIT),
+    });
+  }
+};
+
+/**
+ * Brings the cached inbox up to date and returns the conversation list.
+ * Falls back to a full load when there is no cursor yet.
+ */
+export const syncInbox = async (userId: string): Promise<Profile[]> => {
+  const record = await safely(() => idbGet<InboxRecord>('inbox', userId), undefined);
+
+  if (!record?.cursor) {
+    const { partners, cursor } = await fetchConversationPartners(userId);
+    await safely(async () => {
+      await idbPutMany('profiles', partners.map(p => p.profile));
+      await idbPut<InboxRecord>('inbox', {
+        user_id: userId,
+        partners: partners.map(p => ({ id: p.profile.id, latest: p.latest })),
+        cursor,
+        last_open_id: record?.last_open_id ?? null,
+      });
+    }, undefined);
+    return partners.map(p => p.profile);
+  }
+
+  const { messages, cursor } = await fetchMessageChanges(userId, record.cursor);
+
+  return safely(async () => {
+    if (messages.length) {
+      const latest = new Map(record.partners.map(p => [p.id, p.latest]));
+      const profiles: Profile[] = [];
+      messages.forEach(m => {
+        const other = m.sender_id === userId ? m.recipient : m.sender;
+        if (!other) return;
+        profiles.push(other);
+        const current = latest.get(other.id);
+        if (!current || m.created_at > current) latest.set(other.id, m.created_at);
+      });
+
+      await idbPutMany('profiles', profiles);
+      await applyToThreads(userId, messages);
+      await idbPut<InboxRecord>('inbox', {
+        ...record,
+        cursor,
+        partners: Array.from(latest, ([id, l]) => ({ id, latest: l })).sort((a, b) => b.latest.localeCompare(a.latest)),
+      });
+    }
+
+    const joined = await joinProfiles(await idbGet<InboxRecord>('inbox', userId));
+    return joined?.partners ?? [];
+  }, []);
+};
+
+// Called on sign-out so the next person on this device doesn't see the inbox
+export const clearMessageCache = () =>
+  safely(async () => {
+    await Promise.all([idbClear('inbox'), idbClear('threads'), idbClear('profiles')]);
+  }, undefined);
@@ -0,0 +1,72 @@
+// lib/mfa.ts
+import type { AMREntry, Factor } from '@supabase/supabase-js';
+import { supabase } from './supabase';
+
+// How long a second-factor check counts for sensitive settings (email, password, 2FA itself)
+export const MFA_FRESH_WINDOW_MS = 10 * 60 * 1000;
+
+export type TotpEnrollment = {
+  factorId: string;
+  // SVG data URI, ready for an <img>
+  qrCode: string;
+  secret: string;
+};
+
+// Most recent time (ms) this session passed a second factor, or null if it never did
+export const lastMfaVerifiedAt = (methods: AMREntry[]) => {
+  const times = methods.filter(m => m.method.startsWith('mfa/')).map(m => m.timestamp * 1000);
+  return times.length ? Math.max(...times) : null;
+};
+
+export const listTotpFactors = async (): Promise<{ data: Factor[]; error: Error | null }> => {
+  const { data, error } = await supabase.auth.mfa.listFactors();
+  return { data: data?.all.filter(f => f.factor_type === 'totp') ?? [], error };
+};
+
+export const enrollTotp = async (): Promise<{ data: TotpEnrollment | null; error: Error | null }> => {
+  // Abandoned set-ups stay around as unverified factors and block a new one with the same name
+  const { data: factors } = await listTotpFactors();
+  await Promise.all(
+    factors.filter(f => f.status === 'unverified').map(f => supabase.auth.mfa.unenroll({ factorId: f.id }))
+  );
+
+  const { data, error } = await supabase.auth.mfa.enroll({
+    factorType: 'totp',
+    friendlyName: `Authenticator ${new Date().toLocaleDateString()}`,
+  });
+  if (error || !data) return { data: null, error };
+  return { data: { factorId: data.id, qrCode: data.totp.qr_code, secret: data.totp.secret }, error: null };
+};
+
+export const verifyTotp = async (factorId: string, code: string) => {
+  const { error } = await supabase.auth.mfa.challengeAndVerify({ factorId, code: code.replace(/\s/g, '') });
+  return { error };
+};
+
+export const removeFactor = async (factorId: string) => {
+  const { error } = await supabase.auth.mfa.unenroll({ factorId });
+  // The session still claims aal2 until the token is reissued
+  if (!error) await supabase.auth.refreshSession();
+  return { error };
+};
+
+export const regenerateRecoveryCodes = async (): Promise<{ data: string[] | null; error: Error | null }> => {
+  const { data, error } = await supabase.rpc('regenerate_mfa_recovery_codes');
+  return { data, error };
+};
+
+export const countRecoveryCodes = async () => {
+  const { data } = await supabase.rpc('count_mfa_recovery_codes');
+  return (data as number | null) ?? 0;
+};
+
+/**
+ * Signs in past the second factor with a recovery code. The server removes the
+ * user's factors, so the refreshed session no longer asks for one.
+ */
+export const redeemRecoveryCode = async (code: string): Promise<{ data: boolean; error: Error | null }> => {
+  const { data, error } = await supabase.rpc('redeem_mfa_recovery_code', { code });
+  if (error || !data) return { data: false, error };
+  await supabase.auth.refreshSession();
+  return { data: true, error: null };
+};
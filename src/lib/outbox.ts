@@ -0,0 +1,221 @@
+// lib/outbox.ts
+import { useEffect, useState } from 'react';
+import { supabase } from './supabase';
+import { idbDelete, idbGetAll, idbPut } from './idb';
+
+/**
+ * Persistent queue for outgoing posts, DMs and gazebo messages.
+ *
+ * Rows are written to IndexedDB with a client-generated `client_id` before we
+ * try to insert them, so nothing typed is lost if the network or the tab dies.
+ * Inserts are idempotent on `client_id`, which lets us retry blindly and lets
+ * the UI match the realtime echo against the pending copy.
+ *
+ * Components listen for two window events:
+ *  - `outboxChanged`: the queue changed (re-read with getOutboxItems/useOutboxItems)
+ *  - `outboxSent`: an item landed; detail is { kind, clientId, row }
+ */
+
+export type OutboxKind = 'post' | 'message' | 'gazebo_message';
+export type OutboxStatus = 'pending' | 'sending' | 'failed';
+
+export type OutboxItem = {
+  client_id: string;
+  kind: OutboxKind;
+  user_id: string;
+  payload: Record<string, unknown>;
+  status: OutboxStatus;
+  attempts: number;
+  next_attempt_at: number;
+  error: string | null;
+  created_at: string;
+};
+
+export type OutboxSentDetail = {
+  kind: OutboxKind;
+  clientId: string;
+  row: Record<string, unknown> & { id: string };
+};
+
+const TABLES: Record<OutboxKind, string> = {
+  post: 'posts',
+  message: 'messages',
+  gazebo_message: 'gazebo_messages',
+};
+
+const MAX_ATTEMPTS = 8;
+const MAX_BACKOFF = 60 * 1000;
+
+let items: OutboxItem[] = [];
+let currentUserId: string | null = null;
+let flushing = false;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+let listening = false;
+
+const notify = () => window.dispatchEvent(new CustomEvent('outboxChanged'));
+
+// Only updates queued items: one discarded mid-send must not be written back
+const save = async (item: OutboxItem) => {
+  if (!items.some(i => i.client_id === item.client_id)) return;
+  items = items.map(i => (i.client_id === item.client_id ? item : i));
+  notify();
+  try {
+    await idbPut('outbox', item);
+  } catch (error) {
+    console.error('Outbox write failed:', error);
+  }
+};
+
+const remove = async (clientId: string) => {
+  items = items.filter(i => i.client_id !== clientId);
+  notify();
+  try {
+    await idbDelete('outbox', clientId);
+  } catch (error) {
+    console.error('Outbox delete failed:', error);
+  }
+};
+
+const backoff = (attempts: number) =>
+  Math.min(1000 * 2 ** attempts, MAX_BACKOFF) + Math.random() * 500;
+
+// Offline, fetch failures (no PostgREST code) and connection/resource errors are worth retrying;
+// anything else (RLS, constraint violations) will fail the same way every time
+const isTransient = (error: { code?: string }) =>
+  !navigator.onLine || !error.code || /^(08|53|57)/.test(error.code);
+
+const scheduleRetry = () => {
+  if (retryTimer) clearTimeout(retryTimer);
+  retryTimer = null;
+  const due = items.filter(i => i.user_id === currentUserId && i.status === 'pending');
+  if (!due.length) return;
+  const next = Math.min(...due.map(i => i.next_attempt_at));
+  retryTimer = setTimeout(flushOutbox, Math.max(0, next - Date.now()));
+};
+
+const send = async (item: OutboxItem) => {
+  await save({ ...item, status: 'sending' });
+
+  const table = TABLES[item.kind];
+  const { error } = await supabase
+    .from(table)
+    .upsert({ ...item.payload, client_id: item.client_id }, { onConflict: 'client_id', ignoreDuplicates: true });
+
+  // A previous attempt may have landed without us hearing back, so always read the row back
+  const { data: row } = error
+    ? { data: null }
+    : await supabase.from(table).select('*').eq('client_id', item.client_id).maybeSingle();
+
+  if (!error && row) {
+    window.dispatchEvent(new CustomEvent<OutboxSentDetail>('outboxSent', {
+      detail: { kind: item.kind, clientId: item.client_id, row },
+    }));
+    await remove(item.client_id);
+    return;
+  }
+
+  const attempts = item.attempts + 1;
+  const giveUp = (error && !isTransient(error)) || attempts >= MAX_ATTEMPTS;
+  await save({
+    ...item,
+    attempts,
+    status: giveUp ? 'failed' : 'pending',
+    next_attempt_at: Date.now() + backoff(attempts),
+    error: error?.message || 'Could not confirm delivery',
+  });
+};
+
+export const flushOutbox = async () => {
+  if (flushing || !currentUserId || !navigator.onLine) return;
+  flushing = true;
+  try {
+    const due = items
+      .filter(i => i.user_id === currentUserId && i.status === 'pending' && i.next_attempt_at <= Date.now())
+      .sort((a, b) => a.created_at.localeCompare(b.created_at));
+    // Sequential so messages keep the order they were written in
+    for (const item of due) await send(item);
+  } finally {
+    flushing = false;
+    scheduleRetry();
+  }
+};
+
+/**
+ * Loads the persisted queue for the signed-in user and starts delivering it.
+ * Safe to call again when the user changes.
+ */
+export const startOutbox = async (userId: string | null) => {
+  currentUserId = userId;
+  if (!listening) {
+    listening = true;
+    window.addEventListener('online', flushOutbox);
+  }
+  if (!userId) {
+    notify();
+    return;
+  }
+
+  try {
+    const stored = await idbGetAll<OutboxItem>('outbox');
+    // Items enqueued while the list was loading are newer than their stored copy
+    const inMemory = new Set(items.map(i => i.client_id));
+    items = [
+      // Anything mid-send when the last session ended goes back in line
+      ...stored
+        .filter(i => !inMemory.has(i.client_id))
+        .map(i => (i.status === 'sending' ? { ...i, status: 'pending' as const } : i)),
+      ...items,
+    ];
+  } catch (error) {
+    console.error('Outbox load failed:', error);
+  }
+  notify();
+  flushOutbox();
+};
+
+export const enqueueOutbox = async (
+  kind: OutboxKind,
+  userId: string,
+  payload: Record<string, unknown>
+): Promise<OutboxItem> => {
+  const item: OutboxItem = {
+    client_id: crypto.randomUUID(),
+    kind,
+    user_id: userId,
+    payload,
+    status: 'pending',
+    attempts: 0,
+    next_attempt_at: Date.now(),
+    error: null,
+    created_at: new Date().toISOString(),
+  };
+  items = [...items, item];
+  await save(item);
+  flushOutbox();
+  return item;
+};
+
+export const retryOutboxItem = async (clientId: string) => {
+  const item = items.find(i => i.client_id === clientId);
+  if (!item) return;
+  await save({ ...item, status: 'pending', attempts: 0, next_attempt_at: Date.now(), error: null });
+  flushOutbox();
+};
+
+export const discardOutboxItem = (clientId: string) => remove(clientId);
+
+export const getOutboxItems = (kind?: OutboxKind) =>
+  items.filter(i => i.user_id === currentUserId && (!kind || i.kind === kind));
+
+export const useOutboxItems = (kind: OutboxKind) => {
+  const [list, setList] = useState(() => getOutboxItems(kind));
+
+  useEffect(() => {
+    const handleChange = () => setList(getOutboxItems(kind));
+    handleChange();
+    window.addEventListener('outboxChanged', handleChange);
+    return () => window.removeEventListener('outboxChanged', handleChange);
+  }, [kind]);
+
+  return list;
+};
@@ -0,0 +1,91 @@
+// lib/polls.ts
+// Polls attach to posts, forum posts and gazebo messages through their poll_id. The
+// database owns the rules (see the polls migration): who can see and vote, one vote
+// per person, closing time, anonymity. Tallies live on the polls row and its options,
+// and every vote touches the polls row, so that's what the live view listens to.
+import { useCallback, useEffect, useState } from 'react';
+import { supabase, Poll } from './supabase';
+import { fetchPoll, fetchPollVote } from './repository';
+import { subscribeToChanges } from './realtime';
+
+export const MIN_POLL_OPTIONS = 2;
+export const MAX_POLL_OPTIONS = 10;
+export const MAX_POLL_OPTION_LENGTH = 100;
+
+// A poll being written in a composer
+export type PollDraft = {
+  options: string[];
+  multiple: boolean;
+  anonymous: boolean;
+  // datetime-local value, '' for never
+  closes_at: string;
+};
+
+export const emptyPollDraft = (): PollDraft => ({
+  options: ['', ''],
+  multiple: false,
+  anonymous: false,
+  closes_at: '',
+});
+
+export const pollDraftError = (draft: PollDraft): string | null => {
+  const filled = draft.options.filter(o => o.trim());
+  if (filled.length < MIN_POLL_OPTIONS) return `A poll needs at least ${MIN_POLL_OPTIONS} options.`;
+  if (draft.closes_at && new Date(draft.closes_at).getTime() <= Date.now()) return 'Pick a closing time in the future.';
+  return null;
+};
+
+export type PollResult = {
+  data: string | null;
+  error: { message: string } | null;
+};
+
+// Creates the poll to attach; the caller puts the id in its row's poll_id
+export const createPoll = async (draft: PollDraft): Promise<PollResult> => {
+  const problem = pollDraftError(draft);
+  if (problem) return { data: null, error: { message: problem } };
+  const { data, error } = await supabase.rpc('create_poll', {
+    options: draft.options.map(o => o.trim()).filter(Boolean),
+    multiple: draft.multiple,
+    anonymous: draft.anonymous,
+    closes_at: draft.closes_at ? new Date(draft.closes_at).toISOString() : null,
+  });
+  return { data: (data as string | null) ?? null, error };
+};
+
+// An empty choice withdraws the vote
+export const voteInPoll = async (pollId: string, optionIds: string[]) => {
+  const { error } = await supabase.rpc('vote_in_poll', { poll: pollId, choices: optionIds });
+  return { error };
+};
+
+export const isPollClosed = (poll: Pick<Poll, 'closes_at'>) =>
+  !!poll.closes_at && new Date(poll.closes_at).getTime() <= Date.now();
+
+/** A poll with its live tallies and the user's own vote. */
+export const usePoll = (pollId: string, userId: string | undefined) => {
+  const [poll, setPoll] = useState<Poll | null>(null);
+  const [myVote, setMyVote] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const reload = useCallback(async () => {
+    const [fresh, vote] = await Promise.all([
+      fetchPoll(pollId),
+      userId ? fetchPollVote(pollId, userId) : Promise.resolve([]),
+    ]);
+    setPoll(fresh);
+    setMyVote(vote);
+    setLoading(false);
+  }, [pollId, userId]);
+
+  useEffect(() => {
+    reload();
+    return subscribeToChanges(
+      { table: 'polls', event: 'UPDATE', filter: `id=eq.${pollId}` },
+      () => { reload(); },
+      { onResync: reload }
+    );
+  }, [pollId, reload]);
+
+  return { poll, myVote, setMyVote, loading, reload };
+};
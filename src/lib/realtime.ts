@@ -0,0 +1,344 @@
+// lib/realtime.ts
+import { useEffect, useState } from 'react';
+import type { RealtimeChannel, RealtimeChannelOptions } from '@supabase/supabase-js';
+import { supabase } from './supabase';
+
+/**
+ * One place for every realtime channel the app opens.
+ *
+ * - subscribeToChanges: postgres_changes listeners. Identical table/event/filter
+ *   specs share a single channel and it's closed when the last listener leaves.
+ * - joinChannel: presence/broadcast channels (typing indicators, voice chat).
+ *
+ * Dropped channels are rejoined with backoff (and immediately when the browser
+ * comes back online). Once a change channel is back, rows written while it was
+ * down are fetched and replayed to listeners (`backfill`), and `onResync` lets
+ * a listener reload whatever can't be replayed, such as deletes.
+ *
+ * The overall state is broadcast as the `realtimeStatusChanged` window event;
+ * components read it with useRealtimeStatus.
+ */
+
+export type RealtimeStatus = 'connected' | 'connecting' | 'reconnecting' | 'offline';
+
+export type ChangeEvent = '*' | 'INSERT' | 'UPDATE' | 'DELETE';
+
+export type ChangeSpec = {
+  table: string;
+  event?: ChangeEvent;
+  // PostgREST-style filter, e.g. `recipient_id=eq.${id}`
+  filter?: string;
+  // Timestamp column used to replay rows missed while disconnected
+  backfill?: 'created_at' | 'updated_at';
+};
+
+export type ChangePayload = {
+  eventType: Exclude<ChangeEvent, '*'>;
+  table: string;
+  new: Record<string, unknown>;
+  old: Record<string, unknown>;
+  // True for rows replayed after a reconnect rather than pushed by the server
+  backfilled?: boolean;
+};
+
+export type ChangeOptions = {
+  onResync?: () => void;
+};
+
+export type ChannelMember = {
+  // Bind presence/broadcast handlers; runs for every (re)built channel
+  setup?: (channel: RealtimeChannel) => void;
+  // Runs after every successful join, so presence can be tracked again
+  onJoined?: (channel: RealtimeChannel) => void;
+};
+
+export type ChannelHandle = {
+  readonly channel: RealtimeChannel | null;
+  leave: () => void;
+};
+
+type Entry = {
+  topic: string;
+  options?: RealtimeChannelOptions;
+  channel: RealtimeChannel | null;
+  joined: boolean;
+  droppedAt: number | null;
+  attempts: number;
+  retryTimer: ReturnType<typeof setTimeout> | null;
+  active: boolean;
+  bind: (channel: RealtimeChannel) => void;
+  onJoined: (channel: RealtimeChannel) => void;
+  onRecovered: (since: string) => void;
+};
+
+type ChangeListener = {
+  onChange: (payload: ChangePayload) => void;
+  onResync?: () => void;
+};
+
+type ChangeEntry = Entry & { spec: ChangeSpec; listeners: Set<ChangeListener> };
+type PresenceEntry = Entry & { members: Set<ChannelMember> };
+
+// Replay from a little before we noticed the drop: heartbeats take a while to
+// notice a dead socket and the server clock may not match ours
+const BACKFILL_MARGIN = 2 * 60 * 1000;
+const BACKFILL_LIMIT = 200;
+const RETRY_BASE = 5000;
+const MAX_RETRY = 60 * 1000;
+
+const changeEntries = new Map<string, ChangeEntry>();
+const channelEntries = new Map<string, PresenceEntry>();
+// Topics still leaving; supabase.channel() would hand back the dying instance
+const closing = new Map<string, Promise<unknown>>();
+
+let status: RealtimeStatus = 'connected';
+let listening = false;
+
+const allEntries = (): Entry[] => [...changeEntries.values(), ...channelEntries.values()];
+
+const updateStatus = () => {
+  const entries = allEntries();
+  const next: RealtimeStatus = !navigator.onLine
+    ? 'offline'
+    : entries.some(e => e.droppedAt)
+      ? 'reconnecting'
+      : entries.some(e => !e.joined)
+        ? 'connecting'
+        : 'connected';
+  if (next === status) return;
+  status = next;
+  window.dispatchEvent(new CustomEvent<RealtimeStatus>('realtimeStatusChanged', { detail: status }));
+};
+
+const clearRetry = (entry: Entry) => {
+  if (entry.retryTimer) clearTimeout(entry.retryTimer);
+  entry.retryTimer = null;
+};
+
+const closeChannel = (entry: Entry) => {
+  const channel = entry.channel;
+  entry.channel = null;
+  entry.joined = false;
+  if (!channel) return;
+  const removal = supabase.removeChannel(channel).catch(() => undefined);
+  closing.set(entry.topic, removal);
+  removal.then(() => {
+    if (closing.get(entry.topic) === removal) closing.delete(entry.topic);
+  });
+};
+
+const handleStatus = (entry: Entry, channel: RealtimeChannel, state: string) => {
+  // Ignore the CLOSED that follows our own teardown
+  if (entry.channel !== channel) return;
+
+  if (state === 'SUBSCRIBED') {
+    const droppedAt = entry.droppedAt;
+    entry.joined = true;
+    entry.droppedAt = null;
+    entry.attempts = 0;
+    clearRetry(entry);
+    entry.onJoined(channel);
+    if (droppedAt) entry.onRecovered(new Date(droppedAt - BACKFILL_MARGIN).toISOString());
+  } else {
+    // realtime-js retries errors and timeouts itself; the timer is a fallback for when it gives up
+    entry.joined = false;
+    entry.droppedAt ??= Date.now();
+    scheduleRetry(entry);
+  }
+  updateStatus();
+};
+
+const connect = async (entry: Entry) => {
+  await closing.get(entry.topic);
+  if (!entry.active || entry.channel) return;
+
+  const channel = supabase.channel(entry.topic, entry.options);
+  entry.channel = channel;
+  entry.bind(channel);
+  channel.subscribe((state) => handleStatus(entry, channel, state));
+  updateStatus();
+};
+
+const reconnect = (entry: Entry) => {
+  clearRetry(entry);
+  closeChannel(entry);
+  connect(entry);
+};
+
+const scheduleRetry = (entry: Entry) => {
+  if (entry.retryTimer || !entry.active) return;
+  const delay = Math.min(RETRY_BASE * 2 ** entry.attempts, MAX_RETRY);
+  entry.attempts += 1;
+  entry.retryTimer = setTimeout(() => {
+    entry.retryTimer = null;
+    if (entry.active && !entry.joined) reconnect(entry);
+  }, delay);
+};
+
+const retire = (entry: Entry, registry: Map<string, Entry>) => {
+  entry.active = false;
+  clearRetry(entry);
+  registry.delete(entry.topic);
+  closeChannel(entry);
+  updateStatus();
+};
+
+const handleOnline = () => {
+  allEntries().forEach(entry => {
+    if (!entry.joined) {
+      entry.droppedAt ??= Date.now();
+      reconnect(entry);
+    }
+  });
+  updateStatus();
+};
+
+const listen = () => {
+  if (listening) return;
+  listening = true;
+  window.addEventListener('online', handleOnline);
+  window.addEventListener('offline', updateStatus);
+};
+
+const createEntry = (topic: string, options?: RealtimeChannelOptions): Entry => ({
+  topic,
+  options,
+  channel: null,
+  joined: false,
+  droppedAt: null,
+  attempts: 0,
+  retryTimer: null,
+  active: true,
+  bind: () => {},
+  onJoined: () => {},
+  onRecovered: () => {},
+});
+
+const dispatch = (entry: ChangeEntry, payload: ChangePayload) =>
+  entry.listeners.forEach(listener => listener.onChange(payload));
+
+// Replays rows written after `since`, then lets listeners reload anything else
+const backfill = async (entry: ChangeEntry, since: string) => {
+  const { table, event = '*', filter, backfill: column } = entry.spec;
+  const match = filter?.match(/^(\w+)=eq\.(.+)$/);
+
+  // Deletes leave nothing to query, and only simple eq filters can be replayed faithfully
+  if (column && event !== 'DELETE' && (!filter || match)) {
+    let query = supabase.from(table).select('*').gt(column, since);
+    if (match) query = query.eq(match[1], match[2]);
+    const { data, error } = await query.order(column).limit(BACKFILL_LIMIT);
+
+    if (error) {
+      console.error(`Realtime backfill for ${table} failed:`, error);
+    } else if (entry.active) {
+      const sinceTime = Date.parse(since);
+      (data as Record<string, unknown>[]).forEach(row => {
+        const created = typeof row.created_at === 'string' ? Date.parse(row.created_at) : NaN;
+        const eventType = event !== '*' ? event : created > sinceTime ? 'INSERT' : 'UPDATE';
+        dispatch(entry, { eventType, table, new: row, old: {}, backfilled: true });
+      });
+    }
+  }
+
+  if (entry.active) entry.listeners.forEach(listener => listener.onResync?.());
+};
+
+/**
+ * Listens for postgres changes. Returns the unsubscribe function, so it can be
+ * returned straight from a useEffect.
+ */
+export const subscribeToChanges = (
+  spec: ChangeSpec,
+  onChange: (payload: ChangePayload) => void,
+  options: ChangeOptions = {}
+): (() => void) => {
+  listen();
+  const event = spec.event ?? '*';
+  const topic = `changes:${spec.table}:${event}:${spec.filter ?? 'all'}`;
+
+  let entry = changeEntries.get(topic);
+  if (!entry) {
+    const created: ChangeEntry = { ...createEntry(topic), spec: { ...spec, event }, listeners: new Set() };
+    created.bind = (channel) => {
+      channel.on(
+        'postgres_changes',
+        // The overloads only accept literal events; the spec is checked by ChangeEvent above
+        { event: event as '*', schema: 'public', table: spec.table, filter: spec.filter },
+        (payload) => dispatch(created, {
+          eventType: payload.eventType,
+          table: payload.table,
+          new: payload.new as Record<string, unknown>,
+          old: payload.old as Record<string, unknown>,
+        })
+      );
+    };
+    created.onRecovered = (since) => backfill(created, since);
+    changeEntries.set(topic, created);
+    connect(created);
+    entry = created;
+  } else if (spec.backfill && !entry.spec.backfill) {
+    entry.spec = { ...entry.spec, backfill: spec.backfill };
+  }
+
+  const current = entry;
+  const listener: ChangeListener = { onChange, onResync: options.onResync };
+  current.listeners.add(listener);
+
+  return () => {
+    current.listeners.delete(listener);
+    if (!current.listeners.size && current.active) retire(current, changeEntries);
+  };
+};
+
+/**
+ * Joins a presence/broadcast channel by name. A second member joining the same
+ * name shares it; the channel is rebuilt so its handlers get bound too.
+ */
+export const joinChannel = (
+  name: string,
+  member: ChannelMember,
+  options?: RealtimeChannelOptions
+): ChannelHandle => {
+  listen();
+  let entry = channelEntries.get(name);
+
+  if (!entry) {
+    const created: PresenceEntry = { ...createEntry(name, options), members: new Set([member]) };
+    created.bind = (channel) => created.members.forEach(m => m.setup?.(channel));
+    created.onJoined = (channel) => created.members.forEach(m => m.onJoined?.(channel));
+    channelEntries.set(name, created);
+    connect(created);
+    entry = created;
+  } else {
+    entry.members.add(member);
+    // Handlers can't be added to a channel that has already joined
+    reconnect(entry);
+  }
+
+  const current = entry;
+  return {
+    get channel() {
+      return current.channel;
+    },
+    leave: () => {
+      if (!current.members.delete(member) || !current.active) return;
+      if (!current.members.size) retire(current, channelEntries);
+      else reconnect(current);
+    },
+  };
+};
+
+export const getRealtimeStatus = () => status;
+
+export const useRealtimeStatus = () => {
+  const [current, setCurrent] = useState<RealtimeStatus>(getRealtimeStatus);
+
+  useEffect(() => {
+    const handleChange = () => setCurrent(getRealtimeStatus());
+    handleChange();
+    window.addEventListener('realtimeStatusChanged', handleChange);
+    return () => window.removeEventListener('realtimeStatusChanged', handleChange);
+  }, []);
+
+  return current;
+};
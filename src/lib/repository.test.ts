@@ -0,0 +1,171 @@
+// src/lib/repository.test.ts
+// Query shaping for the paged fetchers, against a stub client that records every
+// builder call instead of talking to Supabase.
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+type Call = [method: string, ...args: unknown[]];
+type Result = { data: unknown; count?: number | null; error?: unknown };
+
+const stub = vi.hoisted(() => ({
+  queries: [] as { table: string; calls: Call[] }[],
+  results: {} as Record<string, Result[]>,
+  rpc: vi.fn(),
+}));
+
+// A chainable builder per from(): every method is recorded and returns the builder,
+// and awaiting it resolves to the next queued result for that table
+vi.mock('./supabase', () => {
+  const from = (table: string) => {
+    const query = { table, calls: [] as Call[] };
+    stub.queries.push(query);
+    const builder: Record<string, unknown> = new Proxy({}, {
+      get: (_target, method: string) => {
+        if (method === 'then') {
+          const result = stub.results[table]?.shift() ?? { data: [], count: 0 };
+          return (resolve: (value: Result) => void) => resolve({ error: null, ...result });
+        }
+        return (...args: unknown[]) => {
+          query.calls.push([method, ...args]);
+          return builder;
+        };
+      },
+    });
+    return builder;
+  };
+  return { supabase: { from, rpc: stub.rpc } };
+});
+
+import { fetchConversation, fetchFeedPage, fetchGazeboMessages } from './repository';
+
+const callsTo = (table: string) => stub.queries.find(q => q.table === table)?.calls ?? [];
+const argsOf = (calls: Call[], method: string) => calls.filter(([m]) => m === method).map(([, ...args]) => args);
+
+const cursor = { created_at: '2026-10-01T12:00:00.5+00:00', id: 'm-5' };
+
+beforeEach(() => {
+  stub.queries = [];
+  stub.results = {};
+  stub.rpc.mockReset();
+});
+
+describe('fetchFeedPage', () => {
+  it('continues a chronological feed after the (created_at, id) cursor', async () => {
+    stub.results.posts = [{ data: [
+      { id: 'p-2', created_at: '2026-10-01T11:00:00+00:00' },
+      { id: 'p-1', created_at: '2026-10-01T10:00:00+00:00' },
+    ] }];
+
+    const page = await fetchFeedPage({
+      feed: 'latest',
+      pageSize: 2,
+      userId: 'u-1',
+      cursor: { kind: 'chronological', ...cursor },
+    });
+
+    const calls = callsTo('posts');
+    expect(argsOf(calls, 'or')).toEqual([
+      ['created_at.lt."2026-10-01T12:00:00.5+00:00",and(created_at.eq."2026-10-01T12:00:00.5+00:00",id.lt.m-5)'],
+    ]);
+    expect(argsOf(calls, 'order')).toEqual([['created_at', { ascending: false }], ['id', { ascending: false }]]);
+    expect(argsOf(calls, 'limit')).toEqual([[2]]);
+    expect(page.cursor).toEqual({ kind: 'chronological', created_at: '2026-10-01T10:00:00+00:00', id: 'p-1' });
+  });
+
+  it('has no cursor after a short page and no keyset filter on the first one', async () => {
+    stub.results.posts = [{ data: [{ id: 'p-1', created_at: '2026-10-01T10:00:00+00:00' }] }];
+
+    const page = await fetchFeedPage({ feed: 'latest', pageSize: 2, userId: 'u-1' });
+
+    expect(argsOf(callsTo('posts'), 'or')).toEqual([]);
+    expect(page.cursor).toBeNull();
+  });
+
+  it('pages For You through the ranking it started with', async () => {
+    stub.rpc.mockResolvedValue({
+      data: [
+        { id: 'p-9', score: 3.5, ranked_as_of: '2026-10-01T09:00:00+00:00' },
+        { id: 'p-4', score: 1.25, ranked_as_of: '2026-10-01T09:00:00+00:00' },
+      ],
+      error: null,
+    });
+    stub.results.posts = [{ data: [{ id: 'p-4' }, { id: 'p-9' }] }];
+
+    const page = await fetchFeedPage({
+      feed: 'for_you',
+      pageSize: 2,
+      userId: 'u-1',
+      cursor: { kind: 'ranked', as_of: '2026-10-01T09:00:00+00:00', score: 4, id: 'p-12' },
+      mediaType: 'video',
+    });
+
+    expect(stub.rpc).toHaveBeenCalledWith('for_you_feed', {
+      page_size: 2,
+      as_of: '2026-10-01T09:00:00+00:00',
+      after_score: 4,
+      after_id: 'p-12',
+      only_media_type: 'video',
+    });
+    expect(page.posts.map(p => p.id)).toEqual(['p-9', 'p-4']);
+    expect(page.cursor).toEqual({ kind: 'ranked', as_of: '2026-10-01T09:00:00+00:00', score: 1.25, id: 'p-4' });
+  });
+});
+
+describe('fetchConversation', () => {
+  const conversation = 'and(sender_id.eq.u-1,recipient_id.eq.u-2),and(sender_id.eq.u-2,recipient_id.eq.u-1)';
+
+  it('loads older messages newest first and returns them in order', async () => {
+    stub.results.messages = [{ data: [{ id: 'm-4' }, { id: 'm-3' }], count: 7 }];
+
+    const { messages, count } = await fetchConversation({ userId: 'u-1', otherId: 'u-2', pageSize: 2, before: cursor });
+
+    const calls = callsTo('messages');
+    expect(argsOf(calls, 'or')).toEqual([
+      [conversation],
+      ['created_at.lt."2026-10-01T12:00:00.5+00:00",and(created_at.eq."2026-10-01T12:00:00.5+00:00",id.lt.m-5)'],
+    ]);
+    expect(argsOf(calls, 'order')).toEqual([['created_at', { ascending: false }], ['id', { ascending: false }]]);
+    expect(argsOf(calls, 'limit')).toEqual([[2]]);
+    expect(messages.map(m => m.id)).toEqual(['m-3', 'm-4']);
+    expect(count).toBe(7);
+  });
+
+  it('loads newer messages oldest first', async () => {
+    stub.results.messages = [{ data: [{ id: 'm-6' }, { id: 'm-7' }], count: 2 }];
+
+    const { messages } = await fetchConversation({ userId: 'u-1', otherId: 'u-2', pageSize: 2, after: cursor });
+
+    const calls = callsTo('messages');
+    expect(argsOf(calls, 'or')).toEqual([
+      [conversation],
+      ['created_at.gt."2026-10-01T12:00:00.5+00:00",and(created_at.eq."2026-10-01T12:00:00.5+00:00",id.gt.m-5)'],
+    ]);
+    expect(argsOf(calls, 'order')).toEqual([['created_at', { ascending: true }], ['id', { ascending: true }]]);
+    expect(messages.map(m => m.id)).toEqual(['m-6', 'm-7']);
+  });
+});
+
+describe('fetchGazeboMessages', () => {
+  it('asks for one extra row to tell whether there is another page', async () => {
+    stub.results.gazebo_messages = [{ data: [{ id: 'g-4' }, { id: 'g-3' }, { id: 'g-2' }] }];
+
+    const { messages, hasMore } = await fetchGazeboMessages({ channelId: 'c-1', pageSize: 2, before: cursor });
+
+    const calls = callsTo('gazebo_messages');
+    expect(argsOf(calls, 'eq')).toEqual([['channel_id', 'c-1']]);
+    expect(argsOf(calls, 'or')).toEqual([
+      ['created_at.lt."2026-10-01T12:00:00.5+00:00",and(created_at.eq."2026-10-01T12:00:00.5+00:00",id.lt.m-5)'],
+    ]);
+    expect(argsOf(calls, 'limit')).toEqual([[3]]);
+    expect(messages.map(m => m.id)).toEqual(['g-3', 'g-4']);
+    expect(hasMore).toBe(true);
+  });
+
+  it('says there is nothing more after the last page', async () => {
+    stub.results.gazebo_messages = [{ data: [{ id: 'g-6' }] }];
+
+    const { hasMore } = await fetchGazeboMessages({ channelId: 'c-1', pageSize: 2, after: cursor });
+
+    expect(argsOf(callsTo('gazebo_messages'), 'order')).toEqual([['created_at', { ascending: true }], ['id', { ascending: true }]]);
+    expect(hasMore).toBe(false);
+  });
+});
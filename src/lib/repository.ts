@@ -0,0 +1,723 @@
+// src/lib/repository.ts
+// Typed data-access layer. Components call these instead of building their own
+// select strings and join aliases, so a schema change is a single edit here.
+import { supabase, Post, Profile, Message, GazeboMessage, MessageReaction, ForumPost, ScheduledPost, Poll } from './supabase';
+
+// === SELECT SHAPES ===
+export const POST_SELECT = '*, profiles(*), original_post:posts!repost_of(*, profiles(*))';
+
+const CONVERSATION_PARTNER_FIELDS = 'id, username, display_name, avatar_url, verified, last_seen';
+
+const CONVERSATION_MESSAGE_SELECT = `
+  id, sender_id, recipient_id, content, created_at, updated_at, media_url, media_type, thumbnail_url, poster_url, attachments,
+  read, reply_to_id, is_edited, is_deleted, client_id,
+  reactions:message_reactions(
+    id, emoji, user_id,
+    profiles(id, username, display_name, avatar_url)
+  )
+`;
+
+const GAZEBO_MESSAGE_SELECT = `
+  *,
+  sender:profiles(*),
+  reactions:gazebo_message_reactions(
+    id, emoji, user_id,
+    profiles(id, display_name, username, avatar_url)
+  )
+`;
+
+export type LikeEntityType = 'post' | 'forum_post';
+
+export type MessageReplyPreview = {
+  id: string;
+  content: string;
+  sender_id: string;
+  media_type?: string | null;
+};
+
+export type ConversationMessage = Message & {
+  reply_to_id?: string | null;
+  reply_to?: MessageReplyPreview | null;
+};
+
+export type ConversationSummary = {
+  profile: Profile;
+  // created_at of the newest message exchanged with this person
+  latest: string;
+};
+
+// A changed DM plus both parties, as returned by the delta sync
+export type ConversationChange = ConversationMessage & {
+  sender: Profile | null;
+  recipient: Profile | null;
+};
+
+export type GazeboReplyPreview = {
+  id: string;
+  content: string;
+  user_id: string;
+  media_type?: string;
+  sender?: { display_name: string } | null;
+};
+
+export type ChannelMessage = Omit<GazeboMessage, 'reply_to'> & {
+  reply_to_id?: string | null;
+  reply_to?: GazeboReplyPreview | null;
+  reactions?: MessageReaction[];
+};
+
+// === MAPPERS ===
+
+type PostRow = Omit<Post, 'original_post'> & { original_post?: Post | Post[] | null };
+
+type ConversationPartnerRow = {
+  sender_id: string;
+  created_at: string;
+  updated_at: string | null;
+  sender: Profile | null;
+  recipient: Profile | null;
+};
+
+type GazeboReplyRow = Omit<GazeboReplyPreview, 'sender'> & {
+  sender: { display_name: string } | { display_name: string }[] | null;
+};
+
+// Supabase returns an array for the self-referencing repost join; flatten it.
+export const normalizePost = (row: PostRow): Post => ({
+  ...row,
+  original_post: (Array.isArray(row.original_post) ? row.original_post[0] : row.original_post) ?? undefined,
+});
+
+const conversationFilter = (userId: string, otherId: string) =>
+  `and(sender_id.eq.${userId},recipient_id.eq.${otherId}),and(sender_id.eq.${otherId},recipient_id.eq.${userId})`;
+
+/**
+ * Where a page of DM or channel history starts: any message, usually the oldest or
+ * newest one held. Pages are keyed on (created_at, id) so messages sharing a
+ * timestamp aren't dropped at the edges.
+ */
+export type MessageCursor = { created_at: string; id: string };
+
+const messagesBefore = (cursor: MessageCursor) =>
+  `created_at.lt."${cursor.created_at}",and(created_at.eq."${cursor.created_at}",id.lt.${cursor.id})`;
+
+const messagesAfter = (cursor: MessageCursor) =>
+  `created_at.gt."${cursor.created_at}",and(created_at.eq."${cursor.created_at}",id.gt.${cursor.id})`;
+
+// === POSTS ===
+
+export const fetchPostCounts = async (postIds: string[]) => {
+  const likeCounts: Record<string, number> = {};
+  const commentCounts: Record<string, number> = {};
+  if (!postIds.length) return { likeCounts, commentCounts };
+
+  for (const postId of postIds) {
+    const [{ count: likeCount }, { count: commentCount }] = await Promise.all([
+      supabase.from('likes').select('*', { count: 'exact', head: true }).eq('entity_type', 'post').eq('entity_id', postId),
+      supabase.from('comments').select('*', { count: 'exact', head: true }).eq('post_id', postId),
+    ]);
+    likeCounts[postId] = likeCount || 0;
+    commentCounts[postId] = commentCount || 0;
+  }
+  return { likeCounts, commentCounts };
+};
+
+export const withPostCounts = async (posts: Post[]): Promise<Post[]> => {
+  const { likeCounts, commentCounts } = await fetchPostCounts(posts.map(p => p.id));
+  return posts.map(post => ({
+    ...post,
+    like_count: likeCounts[post.id] || 0,
+    comment_count: commentCounts[post.id] || 0,
+  }));
+};
+
+export const fetchFollowingIds = async (userId: string): Promise<string[]> => {
+  const { data } = await supabase.from('follows').select('following_id').eq('follower_id', userId);
+  return data?.map(f => f.following_id) || [];
+};
+
+export const fetchLikedEntityIds = async (userId: string, entityType: LikeEntityType, entityIds: string[]): Promise<string[]> => {
+  if (!entityIds.length) return [];
+  const { data } = await supabase
+    .from('likes')
+    .select('entity_id')
+    .eq('user_id', userId)
+    .eq('entity_type', entityType)
+    .in('entity_id', entityIds);
+  return data?.map(d => d.entity_id) || [];
+};
+
+export type FeedKind = 'following' | 'latest' | 'for_you';
+
+/**
+ * Where the next feed page starts. Following and Latest continue after the last
+ * (created_at, id) seen; For You after the last (score, id), ranked as of the first page.
+ */
+export type FeedCursor =
+  | { kind: 'chronological'; created_at: string; id: string }
+  | { kind: 'ranked'; as_of: string; score: number; id: string };
+
+/**
+ * A page of posts for one of the feed tabs. `cursor` is null on the last page.
+ * `mediaType` narrows any feed to one kind of post (Shots asks for videos).
+ */
+export const fetchFeedPage = async ({ feed, pageSize, userId, cursor, mediaType }: {
+  feed: FeedKind;
+  pageSize: number;
+  userId: string;
+  cursor?: FeedCursor | null;
+  mediaType?: string;
+}): Promise<{ posts: Post[]; cursor: FeedCursor | null }> => {
+  if (feed === 'for_you') {
+    const after = cursor?.kind === 'ranked' ? cursor : null;
+    const { data: ranked, error } = await supabase.rpc('for_you_feed', {
+      page_size: pageSize,
+      as_of: after?.as_of ?? null,
+      after_score: after?.score ?? null,
+      after_id: after?.id ?? null,
+      only_media_type: mediaType ?? null,
+    });
+    if (error) console.error('For You feed error:', error.message);
+    const rows = (ranked || []) as { id: string; score: number; ranked_as_of: string }[];
+    if (!rows.length) return { posts: [], cursor: null };
+
+    const { data } = await supabase.from('posts').select(POST_SELECT).in('id', rows.map(r => r.id));
+    const byId = new Map((data || []).map(normalizePost).map(p => [p.id, p]));
+    const posts = rows.map(r => byId.get(r.id)).filter((p): p is Post => !!p);
+    const last = rows[rows.length - 1];
+    return {
+      posts: await withPostCounts(posts),
+      cursor: rows.length < pageSize ? null : { kind: 'ranked', as_of: last.ranked_as_of, score: last.score, id: last.id },
+    };
+  }
+
+  let query = supabase
+    .from('posts')
+    .select(POST_SELECT)
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: false })
+    .limit(pageSize);
+  if (feed === 'following') {
+    const followingIds = await fetchFollowingIds(userId);
+    query = query.in('user_id', [...followingIds, userId]);
+  }
+  if (mediaType) query = query.eq('media_type', mediaType);
+  if (cursor?.kind === 'chronological') {
+    query = query.or(`created_at.lt."${cursor.created_at}",and(created_at.eq."${cursor.created_at}",id.lt.${cursor.id})`);
+  }
+  const { data } = await query;
+  const posts = (data || []).map(normalizePost);
+  const last = posts[posts.length - 1];
+  return {
+    posts: await withPostCounts(posts),
+    cursor: posts.length < pageSize ? null : { kind: 'chronological', created_at: last.created_at, id: last.id },
+  };
+};
+
+export const fetchPost = async (postId: string, { withCounts = true } = {}): Promise<Post | null> => {
+  const { data } = await supabase.from('posts').select(POST_SELECT).eq('id', postId).maybeSingle();
+  if (!data) return null;
+  const post = normalizePost(data);
+  if (!withCounts) return post;
+  const [counted] = await withPostCounts([post]);
+  return counted;
+};
+
+// A repost with its own text or attachments, shown above the original. Same rule as
+// is_quote_post() in the database, which keeps quote_count.
+export const isQuotePost = (post: Pick<Post, 'is_repost' | 'content' | 'attachments'>) =>
+  !!post.is_repost && (!!post.content?.trim() || (post.attachments?.length ?? 0) > 0);
+
+// Quotes of a post, newest first
+export const fetchQuotes = async (postId: string): Promise<Post[]> => {
+  const { data } = await supabase
+    .from('posts')
+    .select(POST_SELECT)
+    .eq('repost_of', postId)
+    .eq('is_repost', true)
+    .order('created_at', { ascending: false })
+    .limit(100);
+  return (data || []).map(normalizePost).filter(isQuotePost);
+};
+
+export const fetchUserPosts = async (userId: string): Promise<Post[]> => {
+  const { data } = await supabase
+    .from('posts')
+    .select(POST_SELECT)
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false });
+  return withPostCounts((data || []).map(normalizePost));
+};
+
+export const fetchPostsLikedBy = async (userId: string): Promise<Post[]> => {
+  const { data: likeData } = await supabase
+    .from('likes')
+    .select('entity_id')
+    .eq('user_id', userId)
+    .eq('entity_type', 'post');
+  if (!likeData || likeData.length === 0) return [];
+
+  const { data } = await supabase
+    .from('posts')
+    .select(POST_SELECT)
+    .in('id', likeData.map(l => l.entity_id))
+    .order('created_at', { ascending: false });
+  return withPostCounts((data || []).map(normalizePost));
+};
+
+export const fetchGroupPosts = async (groupId: string): Promise<Post[]> => {
+  const { data } = await supabase
+    .from('posts')
+    .select('*, profiles(*)')
+    .eq('group_id', groupId)
+    .order('created_at', { ascending: false });
+  return withPostCounts((data || []) as Post[]);
+};
+
+// Upcoming posts, soonest first. Only the owner can read them (RLS)
+export const fetchScheduledPosts = async (userId: string): Promise<ScheduledPost[]> => {
+  const { data } = await supabase
+    .from('scheduled_posts')
+    .select('*')
+    .eq('user_id', userId)
+    .order('publish_at', { ascending: true });
+  return (data || []) as ScheduledPost[];
+};
+
+// === FORUMS ===
+
+/** All forum posts, or only those in `forumId` when given. */
+export const fetchForumPosts = async (forumId?: string): Promise<ForumPost[]> => {
+  let query = supabase
+    .from('forum_posts')
+    .select('*, profiles(*)')
+    .order('created_at', { ascending: false });
+  if (forumId) query = query.eq('forum_id', forumId);
+  const { data } = await query;
+  return (data || []) as ForumPost[];
+};
+
+/** A single forum post, for links straight to it. */
+export const fetchForumPost = async (postId: string): Promise<ForumPost | null> => {
+  const { data } = await supabase
+    .from('forum_posts')
+    .select('*, profiles(*)')
+    .eq('id', postId)
+    .maybeSingle();
+  return data as ForumPost | null;
+};
+
+// === DIRECT MESSAGES ===
+
+const SYNC_BATCH_SIZE = 500;
+// updated_at is the writer's now(), taken when its transaction started, so a change can
+// commit after a sync with a stamp behind that sync's cursor. Each sync re-reads this far
+// back and drops what it has already seen by id.
+const SYNC_OVERLAP_MS = 60 * 1000;
+
+const latestTimestamp = (rows: { updated_at?: string | null }[], fallback: string | null) =>
+  rows.reduce<string | null>((max, r) => (r.updated_at && (!max || r.updated_at > max) ? r.updated_at : max), fallback);
+
+/**
+ * Full inbox load: everyone the user has exchanged DMs with, newest first.
+ * Also returns the sync cursor (newest `updated_at` seen) for fetchMessageChanges.
+ */
+export const fetchConversationPartners = async (
+  userId: string
+): Promise<{ partners: ConversationSummary[]; cursor: string | null }> => {
+  const { data } = await supabase
+    .from('messages')
+    .select(`
+      id,
+      sender_id,
+      recipient_id,
+      created_at,
+      updated_at,
+      sender:profiles!sender_id(${CONVERSATION_PARTNER_FIELDS}),
+      recipient:profiles!recipient_id(${CONVERSATION_PARTNER_FIELDS})
+    `)
+    .or(`sender_id.eq.${userId},recipient_id.eq.${userId}`)
+    .order('created_at', { ascending: false });
+
+  const rows = (data as ConversationPartnerRow[] | null) || [];
+  const convMap = new Map<string, ConversationSummary>();
+  rows.forEach(msg => {
+    const other = msg.sender_id === userId ? msg.recipient : msg.sender;
+    if (other) {
+      const existing = convMap.get(other.id);
+      if (!existing || msg.created_at > existing.latest) {
+        convMap.set(other.id, { profile: other, latest: msg.created_at });
+      }
+    }
+  });
+
+  return {
+    partners: Array.from(convMap.values()).sort((a, b) => b.latest.localeCompare(a.latest)),
+    cursor: latestTimestamp(rows, null),
+  };
+};
+
+/**
+ * Delta sync: every DM involving the user that was created, edited, read or
+ * reacted to after `since` (less the overlap window), oldest change first,
+ * with both parties attached.
+ */
+export const fetchMessageChanges = async (
+  userId: string,
+  since: string
+): Promise<{ messages: ConversationChange[]; cursor: string }> => {
+  const byId = new Map<string, ConversationChange>();
+  // Keyset on (updated_at, id): a bulk update such as marking a thread read stamps
+  // many rows with the same updated_at, which can straddle a batch boundary
+  let after: { updated_at: string; id: string } | null = null;
+  const from = new Date(new Date(since).getTime() - SYNC_OVERLAP_MS).toISOString();
+
+  // Walk forward in batches so a long absence doesn't become one huge response
+  for (;;) {
+    let query = supabase
+      .from('messages')
+      .select(`
+        ${CONVERSATION_MESSAGE_SELECT},
+        sender:profiles!sender_id(${CONVERSATION_PARTNER_FIELDS}),
+        recipient:profiles!recipient_id(${CONVERSATION_PARTNER_FIELDS})
+      `)
+      .or(`sender_id.eq.${userId},recipient_id.eq.${userId}`)
+      .order('updated_at', { ascending: true })
+      .order('id', { ascending: true })
+      .limit(SYNC_BATCH_SIZE);
+    query = after
+      ? query.or(`updated_at.gt."${after.updated_at}",and(updated_at.eq."${after.updated_at}",id.gt.${after.id})`)
+      : query.gte('updated_at', from);
+
+    const { data, error } = await query;
+    if (error || !data || data.length === 0) break;
+    const batch = data as unknown as ConversationChange[];
+    batch.forEach(m => byId.set(m.id, m));
+    const last = batch[batch.length - 1];
+    after = { updated_at: last.updated_at as string, id: last.id };
+    if (batch.length < SYNC_BATCH_SIZE) break;
+  }
+
+  const changes = Array.from(byId.values());
+  const cursor = latestTimestamp(changes, since) ?? since;
+
+  const replyIds = changes
+    .map(m => m.reply_to_id)
+    .filter((id): id is string => id !== null && id !== undefined);
+  const replies = await fetchMessageReplies(replyIds);
+
+  return {
+    messages: changes.map(m => ({ ...m, reply_to: m.reply_to_id ? replies.get(m.reply_to_id) || null : null })),
+    cursor,
+  };
+};
+
+export const fetchMessageReplies = async (replyIds: string[]): Promise<Map<string, MessageReplyPreview>> => {
+  const replies = new Map<string, MessageReplyPreview>();
+  if (!replyIds.length) return replies;
+  const { data } = await supabase
+    .from('messages')
+    .select('id, content, sender_id, media_type')
+    .in('id', replyIds);
+  data?.forEach(r => replies.set(r.id, r));
+  return replies;
+};
+
+const withMessageReplies = async (rows: { reply_to_id?: string | null }[]) => {
+  const replyIds = rows
+    .map(m => m.reply_to_id)
+    .filter((id): id is string => id !== null && id !== undefined);
+  const replies = await fetchMessageReplies(replyIds);
+  return rows.map(msg => ({
+    ...msg,
+    reply_to: msg.reply_to_id ? replies.get(msg.reply_to_id) || null : null,
+  })) as unknown as ConversationMessage[];
+};
+
+/**
+ * Loads one page of a DM thread: the newest messages, or the ones just before `before`
+ * or just after `after`. Returned in chronological order with reply previews attached;
+ * `count` is everything on that side of the cursor.
+ */
+export const fetchConversation = async ({ userId, otherId, pageSize, before, after }: {
+  userId: string;
+  otherId: string;
+  pageSize: number;
+  before?: MessageCursor;
+  after?: MessageCursor;
+}): Promise<{ messages: ConversationMessage[]; count: number | null }> => {
+  let query = supabase
+    .from('messages')
+    .select(CONVERSATION_MESSAGE_SELECT, { count: 'exact' })
+    .or(conversationFilter(userId, otherId));
+  if (before) query = query.or(messagesBefore(before));
+  if (after) query = query.or(messagesAfter(after));
+  const { data, count } = await query
+    .order('created_at', { ascending: !!after })
+    .order('id', { ascending: !!after })
+    .limit(pageSize);
+
+  if (!data || data.length === 0) return { messages: [], count };
+
+  const messages = await withMessageReplies(data);
+  return { messages: after ? messages : messages.reverse(), count };
+};
+
+/**
+ * The page of a DM thread around one message, for message links: up to `pageSize`
+ * messages either side of it. Null when the message isn't in this conversation.
+ */
+export const fetchConversationAround = async ({ userId, otherId, messageId, pageSize }: {
+  userId: string;
+  otherId: string;
+  messageId: string;
+  pageSize: number;
+}): Promise<{ messages: ConversationMessage[]; hasOlder: boolean; hasNewer: boolean } | null> => {
+  const { data: target } = await supabase
+    .from('messages')
+    .select(CONVERSATION_MESSAGE_SELECT)
+    .eq('id', messageId)
+    .or(conversationFilter(userId, otherId))
+    .maybeSingle();
+  if (!target) return null;
+
+  const [older, newer, [message]] = await Promise.all([
+    fetchConversation({ userId, otherId, pageSize, before: target }),
+    fetchConversation({ userId, otherId, pageSize, after: target }),
+    withMessageReplies([target]),
+  ]);
+
+  return {
+    messages: [...older.messages, message, ...newer.messages],
+    hasOlder: (older.count ?? 0) > older.messages.length,
+    hasNewer: (newer.count ?? 0) > newer.messages.length,
+  };
+};
+
+export const fetchConversationMedia = async (userId: string, otherId: string): Promise<ConversationMessage[]> => {
+  const { data } = await supabase
+    .from('messages')
+    .select('*')
+    .or(conversationFilter(userId, otherId))
+    .not('media_url', 'is', null)
+    .neq('media_url', '')
+    .order('created_at', { ascending: false });
+  return (data || []) as ConversationMessage[];
+};
+
+// === GAZEBOS ===
+
+const fetchGazeboReplies = async (replyIds: string[]): Promise<Map<string, GazeboReplyPreview>> => {
+  const replies = new Map<string, GazeboReplyPreview>();
+  if (!replyIds.length) return replies;
+  const { data } = await supabase
+    .from('gazebo_messages')
+    .select('id, content, user_id, media_type, sender:profiles(display_name)')
+    .in('id', replyIds);
+  (data as GazeboReplyRow[] | null)?.forEach(r => replies.set(r.id, { ...r, sender: Array.isArray(r.sender) ? r.sender[0] : r.sender }));
+  return replies;
+};
+
+const withGazeboReplies = async (rows: { reply_to_id?: string | null }[]) => {
+  const replies = await fetchGazeboReplies(rows.map(m => m.reply_to_id).filter((id): id is string => !!id));
+  return rows.map(m => ({ ...m, reply_to: m.reply_to_id ? replies.get(m.reply_to_id) || null : null })) as unknown as ChannelMessage[];
+};
+
+/**
+ * Loads a page of channel history: the newest messages, or the ones just before `before`
+ * or just after `after`. Returned in chronological order with replies and reactions
+ * attached; `hasMore` says whether there's more beyond the page in that direction.
+ */
+export const fetchGazeboMessages = async ({ channelId, pageSize, before, after }: {
+  channelId: string;
+  pageSize: number;
+  before?: MessageCursor;
+  after?: MessageCursor;
+}): Promise<{ messages: ChannelMessage[]; hasMore: boolean }> => {
+  let query = supabase
+    .from('gazebo_messages')
+    .select(GAZEBO_MESSAGE_SELECT)
+    .eq('channel_id', channelId);
+  if (before) query = query.or(messagesBefore(before));
+  if (after) query = query.or(messagesAfter(after));
+  // One extra row tells us whether another page exists
+  const { data } = await query
+    .order('created_at', { ascending: !!after })
+    .order('id', { ascending: !!after })
+    .limit(pageSize + 1);
+
+  if (!data) return { messages: [], hasMore: false };
+
+  const messages = await withGazeboReplies(data.slice(0, pageSize));
+  return { messages: after ? messages : messages.reverse(), hasMore: data.length > pageSize };
+};
+
+/**
+ * The page of channel history around one message, for message links. Null when the
+ * message isn't in this channel (deleted, or a link to another channel).
+ */
+export const fetchGazeboMessagesAround = async ({ channelId, messageId, pageSize }: {
+  channelId: string;
+  messageId: string;
+  pageSize: number;
+}): Promise<{ messages: ChannelMessage[]; hasOlder: boolean; hasNewer: boolean } | null> => {
+  const target = await fetchGazeboMessage(messageId);
+  if (!target || target.channel_id !== channelId) return null;
+
+  const [older, newer] = await Promise.all([
+    fetchGazeboMessages({ channelId, pageSize, before: target }),
+    fetchGazeboMessages({ channelId, pageSize, after: target }),
+  ]);
+
+  return {
+    messages: [...older.messages, target, ...newer.messages],
+    hasOlder: older.hasMore,
+    hasNewer: newer.hasMore,
+  };
+};
+
+/** Hydrates a bare realtime row into a full channel message. */
+export const fetchGazeboMessage = async (messageId: string): Promise<ChannelMessage | null> => {
+  const { data } = await supabase
+    .from('gazebo_messages')
+    .select(GAZEBO_MESSAGE_SELECT)
+    .eq('id', messageId)
+    .maybeSingle();
+  if (!data) return null;
+  const [message] = await withGazeboReplies([data]);
+  return message;
+};
+
+// === HASHTAGS & MENTIONS ===
+
+/** Posts tagged `tag` (lowercase, no #), newest first; pages like the chronological feeds. */
+export const fetchHashtagPosts = async ({ tag, pageSize, cursor }: {
+  tag: string;
+  pageSize: number;
+  cursor?: FeedCursor | null;
+}): Promise<{ posts: Post[]; cursor: FeedCursor | null }> => {
+  let query = supabase
+    .from('hashtag_uses')
+    .select('source_id, created_at')
+    .eq('tag', tag)
+    .eq('source_type', 'post')
+    .order('created_at', { ascending: false })
+    .order('source_id', { ascending: false })
+    .limit(pageSize);
+  if (cursor?.kind === 'chronological') {
+    query = query.or(`created_at.lt."${cursor.created_at}",and(created_at.eq."${cursor.created_at}",source_id.lt.${cursor.id})`);
+  }
+  const { data: uses } = await query;
+  if (!uses?.length) return { posts: [], cursor: null };
+
+  const { data } = await supabase.from('posts').select(POST_SELECT).in('id', uses.map(u => u.source_id));
+  const byId = new Map((data || []).map(normalizePost).map(p => [p.id, p]));
+  const posts = uses.map(u => byId.get(u.source_id)).filter((p): p is Post => !!p);
+  const last = uses[uses.length - 1];
+  return {
+    posts: await withPostCounts(posts),
+    cursor: uses.length < pageSize ? null : { kind: 'chronological', created_at: last.created_at, id: last.source_id },
+  };
+};
+
+export type TrendingHashtag = {
+  tag: string;
+  authors: number;
+  uses: number;
+};
+
+export const fetchTrendingHashtags = async (): Promise<TrendingHashtag[]> => {
+  const { data, error } = await supabase.rpc('trending_hashtags');
+  if (error) console.error('Trending hashtags error:', error.message);
+  return (data || []) as TrendingHashtag[];
+};
+
+/**
+ * Where a mention notification leads: the post, the comment (opened in its post),
+ * the forum post or the gazebo message. Null once the mention has been edited out
+ * or its source deleted.
+ */
+export const fetchMentionPath = async (sourceId: string, userId: string): Promise<string | null> => {
+  const { data: mention } = await supabase
+    .from('mentions')
+    .select('source_type')
+    .eq('source_id', sourceId)
+    .eq('mentioned_id', userId)
+    .maybeSingle();
+
+  switch (mention?.source_type) {
+    case 'post':
+      return `/post/${sourceId}`;
+    case 'comment': {
+      const { data } = await supabase.from('comments').select('post_id').eq('id', sourceId).maybeSingle();
+      return data ? `/post/${data.post_id}?comment=${sourceId}` : null;
+    }
+    case 'forum_post': {
+      const { data } = await supabase.from('forum_posts').select('forum_id').eq('id', sourceId).maybeSingle();
+      return data ? `/forums/${data.forum_id}/posts/${sourceId}` : null;
+    }
+    case 'gazebo_message': {
+      const { data } = await supabase
+        .from('gazebo_messages')
+        .select('channel_id, gazebo_channels(gazebo_id)')
+        .eq('id', sourceId)
+        .maybeSingle();
+      const channel = data && (Array.isArray(data.gazebo_channels) ? data.gazebo_channels[0] : data.gazebo_channels);
+      return channel ? `/gazebo/${channel.gazebo_id}/${data.channel_id}/${sourceId}` : null;
+    }
+    default:
+      return null;
+  }
+};
+
+// === POLLS ===
+
+export const fetchPoll = async (pollId: string): Promise<Poll | null> => {
+  const { data } = await supabase
+    .from('polls')
+    .select('*, options:poll_options(*)')
+    .eq('id', pollId)
+    .maybeSingle();
+  if (!data) return null;
+  const poll = data as Poll;
+  return { ...poll, options: [...poll.options].sort((a, b) => a.position - b.position) };
+};
+
+// The options the user picked, empty if they haven't voted
+export const fetchPollVote = async (pollId: string, userId: string): Promise<string[]> => {
+  const { data } = await supabase
+    .from('poll_votes')
+    .select('option_ids')
+    .eq('poll_id', pollId)
+    .eq('user_id', userId)
+    .maybeSingle();
+  return data?.option_ids || [];
+};
+
+// Voters per option; nothing for anonymous polls
+export const fetchPollVoters = async (pollId: string): Promise<Map<string, Profile[]>> => {
+  const voters = new Map<string, Profile[]>();
+  const { data: votes } = await supabase.rpc('poll_voters', { poll: pollId });
+  if (!votes?.length) return voters;
+
+  const userIds = [...new Set((votes as { user_id: string }[]).map(v => v.user_id))];
+  const { data: profiles } = await supabase.from('profiles').select('*').in('id', userIds);
+  const byId = new Map((profiles || []).map((p: Profile) => [p.id, p]));
+  (votes as { option_id: string; user_id: string }[]).forEach(({ option_id, user_id }) => {
+    const profile = byId.get(user_id);
+    if (profile) voters.set(option_id, [...(voters.get(option_id) || []), profile]);
+  });
+  return voters;
+};
+
+// === PROFILES ===
+
+export const fetchProfile = async (userId: string): Promise<Profile | null> => {
+  const { data } = await supabase.from('profiles').select('*').eq('id', userId).maybeSingle();
+  return data;
+};
+
+export const fetchProfileByUsername = async (username: string): Promise<Profile | null> => {
+  const { data } = await supabase.from('profiles').select('*').ilike('username', username).maybeSingle();
+  return data;
+};
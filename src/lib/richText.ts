@@ -0,0 +1,36 @@
+// lib/richText.ts
+// #hashtags, @mentions and links in posts, comments, forum posts and gazebo messages.
+// The rules match extract_hashtags() / extract_mentions() in the database, which index
+// them (see the hashtags and mentions migration), so what renders as a link is what
+// the hashtag page and mention notifications know about.
+
+export type RichTextToken =
+  | { type: 'text'; text: string }
+  | { type: 'url'; text: string }
+  | { type: 'hashtag'; text: string; tag: string }
+  | { type: 'mention'; text: string; username: string };
+
+// A tag can't start inside a word, a URL or an HTML entity; a mention can't start inside
+// a word or an email address. Tags made only of digits (#1) aren't tags.
+const TOKEN_PATTERN = /(https?:\/\/[^\s]+)|(?<![\p{L}\p{N}_&/#])#([\p{L}\p{N}_]{1,64})|(?<![\p{L}\p{N}_@./])@([A-Za-z0-9_]{3,20})/gu;
+const NOT_ONLY_DIGITS = /[^\p{Nd}_]/u;
+
+export const tokenizeRichText = (text: string): RichTextToken[] => {
+  const tokens: RichTextToken[] = [];
+  let last = 0;
+  for (const match of text.matchAll(TOKEN_PATTERN)) {
+    const [whole, url, tag, username] = match;
+    if (tag && !NOT_ONLY_DIGITS.test(tag)) continue;
+    const index = match.index ?? 0;
+    if (index > last) tokens.push({ type: 'text', text: text.slice(last, index) });
+    if (url) tokens.push({ type: 'url', text: whole });
+    else if (tag) tokens.push({ type: 'hashtag', text: whole, tag: tag.toLowerCase() });
+    else tokens.push({ type: 'mention', text: whole, username: username.toLowerCase() });
+    last = index + whole.length;
+  }
+  if (last < text.length) tokens.push({ type: 'text', text: text.slice(last) });
+  return tokens;
+};
+
+/** A tag as typed or linked (#Cats, cats, %23cats) in the form it's indexed under. */
+export const normalizeHashtag = (input: string) => input.trim().replace(/^#+/, '').toLowerCase();
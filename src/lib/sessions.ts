@@ -0,0 +1,84 @@
+// lib/sessions.ts
+import { supabase } from './supabase';
+
+// Optional IP geolocation endpoint with an {ip} placeholder, e.g. https://ipapi.co/{ip}/json/
+const GEOIP_URL = import.meta.env.VITE_GEOIP_URL as string | undefined;
+
+export type UserSession = {
+  id: string;
+  created_at: string;
+  last_active_at: string;
+  user_agent: string | null;
+  ip: string | null;
+  aal: string | null;
+  is_current: boolean;
+};
+
+export const listSessions = async (): Promise<{ data: UserSession[]; error: Error | null }> => {
+  const { data, error } = await supabase.rpc('list_my_sessions');
+  return { data: (data as UserSession[] | null) ?? [], error };
+};
+
+export const revokeSession = async (sessionId: string) => {
+  const { error } = await supabase.rpc('revoke_my_session', { target_session_id: sessionId });
+  return { error };
+};
+
+export const signOutOtherSessions = async () => {
+  const { error } = await supabase.auth.signOut({ scope: 'others' });
+  return { error };
+};
+
+// null when the check itself failed (offline etc.), so callers don't sign out on a blip
+export const isCurrentSessionActive = async (): Promise<boolean | null> => {
+  const { data, error } = await supabase.rpc('current_session_active');
+  if (error) return null;
+  return data as boolean;
+};
+
+export const describeUserAgent = (ua: string | null) => {
+  if (!ua) return { device: 'Unknown device', browser: 'Unknown browser' };
+
+  const device =
+    /iPad/.test(ua) ? 'iPad'
+    : /iPhone/.test(ua) ? 'iPhone'
+    : /Android/.test(ua) ? (/Mobile/.test(ua) ? 'Android phone' : 'Android tablet')
+    : /Windows/.test(ua) ? 'Windows PC'
+    : /Macintosh|Mac OS X/.test(ua) ? 'Mac'
+    : /CrOS/.test(ua) ? 'Chromebook'
+    : /Linux/.test(ua) ? 'Linux PC'
+    : 'Unknown device';
+
+  // Order matters: Edge and Opera also claim to be Chrome, and Chrome claims to be Safari
+  const browser =
+    /Edg\//.test(ua) ? 'Edge'
+    : /OPR\/|Opera/.test(ua) ? 'Opera'
+    : /SamsungBrowser/.test(ua) ? 'Samsung Internet'
+    : /Firefox|FxiOS/.test(ua) ? 'Firefox'
+    : /Chrome|CriOS/.test(ua) ? 'Chrome'
+    : /Safari/.test(ua) ? 'Safari'
+    : 'Unknown browser';
+
+  return { device, browser };
+};
+
+const locationCache = new Map<string, Promise<string | null>>();
+
+// "City, Country" for an IP, or null when no lookup service is configured or it fails
+export const lookupLocation = (ip: string | null): Promise<string | null> => {
+  if (!ip || !GEOIP_URL) return Promise.resolve(null);
+  if (!locationCache.has(ip)) {
+    locationCache.set(
+      ip,
+      fetch(GEOIP_URL.replace('{ip}', encodeURIComponent(ip)))
+        .then(res => (res.ok ? res.json() : null))
+        .then(body => {
+          if (!body) return null;
+          const parts = [body.city, body.region ?? body.region_name, body.country_name ?? body.country].filter(Boolean);
+          return parts.length ? parts.join(', ') : null;
+        })
+        .catch(() => null)
+    );
+  }
+  return locationCache.get(ip)!;
+};
@@ -0,0 +1,14 @@
+// lib/settings.ts
+// Sections of the Settings page, in order. Each is reachable as /settings/:section
+export const SETTINGS_SECTIONS = [
+  { id: 'theme', label: 'Theme' },
+  { id: 'username', label: 'Username' },
+  { id: 'email', label: 'Email' },
+  { id: 'password', label: 'Password' },
+  { id: 'two-factor', label: 'Two-factor' },
+  { id: 'sessions', label: 'Sessions' },
+  { id: 'files', label: 'My files' },
+  { id: 'verification', label: 'Verification' },
+  { id: 'data', label: 'Your data' },
+  { id: 'delete-account', label: 'Delete account' },
+];
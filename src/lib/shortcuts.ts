@@ -0,0 +1,38 @@
+// lib/shortcuts.ts
+// Keyboard shortcuts. Each view handles its own keys; this is the list the command
+// palette documents, plus the helpers they share.
+
+export const MOD_KEY = /Mac|iPhone|iPad/.test(navigator.platform) ? '⌘' : 'Ctrl';
+
+export type Shortcut = {
+  keys: string[];
+  label: string;
+  where: string;
+};
+
+export const SHORTCUTS: Shortcut[] = [
+  { keys: [MOD_KEY, 'K'], label: 'Open the command palette', where: 'Anywhere' },
+  { keys: ['?'], label: 'Show keyboard shortcuts', where: 'Anywhere' },
+  { keys: ['/'], label: 'Focus the composer (new post on the feed)', where: 'Feed, chats, channels' },
+  { keys: ['Shift', 'Esc'], label: 'Mark all messages and notifications read', where: 'Anywhere' },
+  { keys: ['Alt', '↑'], label: 'Previous conversation or channel', where: 'Chats, gazebos' },
+  { keys: ['Alt', '↓'], label: 'Next conversation or channel', where: 'Chats, gazebos' },
+  { keys: ['←'], label: 'Previous story', where: 'Status viewer' },
+  { keys: ['→'], label: 'Next story', where: 'Status viewer' },
+  { keys: ['Shift', '←'], label: "Previous person's stories", where: 'Status viewer' },
+  { keys: ['Shift', '→'], label: "Next person's stories", where: 'Status viewer' },
+  { keys: ['Space'], label: 'Pause or resume', where: 'Status viewer' },
+  { keys: ['Esc'], label: 'Close', where: 'Status viewer, dialogs' },
+];
+
+// Single-key shortcuts stay out of the way while the user is typing
+export const isTypingTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+/** Focuses the message or post box on screen (marked with data-composer). */
+export const focusComposer = () => {
+  const composer = document.querySelector<HTMLElement>('[data-composer]');
+  composer?.focus();
+  return !!composer;
+};
@@ -0,0 +1,119 @@
+// lib/storage.ts
+import { supabase, MediaFolder, StorageUsage } from './supabase';
+
+export type StoredFile = {
+  // Full object path inside the media bucket, e.g. posts/{user_id}/123_abc.jpg
+  path: string;
+  name: string;
+  folder: MediaFolder;
+  // Includes the generated _thumb/_poster previews stored beside it
+  size: number;
+  mimetype: string | null;
+  created_at: string;
+  url: string;
+  thumbnailUrl: string | null;
+};
+
+export type StoredFilesResult = {
+  data: StoredFile[];
+  // Pass back to fetch the next page; null when there isn't one
+  nextOffset: number | null;
+  error: Error | null;
+};
+
+const PAGE_SIZE = 100;
+const PREVIEW_PATTERN = /^(.*)_(thumb|poster)\.(webp|jpg)$/;
+
+const publicUrl = (path: string) => supabase.storage.from('media').getPublicUrl(path).data.publicUrl;
+
+export const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  const units = ['KB', 'MB', 'GB', 'TB'];
+  let value = bytes / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(value < 10 ? 1 : 0)} ${units[unit]}`;
+};
+
+export const fetchStorageUsage = async (userId: string): Promise<StorageUsage | null> => {
+  const { data, error } = await supabase.from('storage_usage').select('*').eq('user_id', userId).maybeSingle();
+  if (error) console.error('Storage usage error:', error);
+  return data;
+};
+
+/**
+ * One page of a user's uploads in a folder, newest first. Preview images are
+ * folded into the file they belong to rather than listed on their own.
+ */
+export const listMyFiles = async (userId: string, folder: MediaFolder, offset = 0): Promise<StoredFilesResult> => {
+  const prefix = `${folder}/${userId}`;
+  const { data, error } = await supabase.storage.from('media').list(prefix, {
+    limit: PAGE_SIZE,
+    offset,
+    sortBy: { column: 'created_at', order: 'desc' },
+  });
+  if (error || !data) return { data: [], nextOffset: null, error };
+
+  const previews = new Map<string, { size: number; thumb: string | null }>();
+  for (const object of data) {
+    const match = object.name.match(PREVIEW_PATTERN);
+    if (!match) continue;
+    const entry = previews.get(match[1]) ?? { size: 0, thumb: null };
+    entry.size += object.metadata?.size ?? 0;
+    if (match[2] === 'thumb') entry.thumb = object.name;
+    previews.set(match[1], entry);
+  }
+
+  const files = data
+    // Storage keeps a placeholder object in otherwise empty folders
+    .filter(object => !object.name.startsWith('.') && !PREVIEW_PATTERN.test(object.name))
+    .map(object => {
+      const preview = previews.get(object.name.replace(/\.[^./]+$/, ''));
+      return {
+        path: `${prefix}/${object.name}`,
+        name: object.name,
+        folder,
+        size: (object.metadata?.size ?? 0) + (preview?.size ?? 0),
+        mimetype: object.metadata?.mimetype ?? null,
+        created_at: object.created_at,
+        url: publicUrl(`${prefix}/${object.name}`),
+        thumbnailUrl: preview?.thumb ? publicUrl(`${prefix}/${preview.thumb}`) : null,
+      };
+    });
+
+  return { data: files, nextOffset: data.length === PAGE_SIZE ? offset + PAGE_SIZE : null, error: null };
+};
+
+// Removes the files along with any previews generated for them
+export const deleteMyFiles = async (paths: string[]) => {
+  const names = paths.flatMap(path => {
+    const base = path.replace(/\.[^./]+$/, '');
+    return [path, ...['thumb', 'poster'].flatMap(kind => [`${base}_${kind}.webp`, `${base}_${kind}.jpg`])];
+  });
+  return supabase.storage.from('media').remove(names);
+};
+
+/**
+ * Deleting a post, message or status queues its files in storage_orphans
+ * (see the storage accounting migration). Only the Storage API can actually
+ * remove them, so the owner's client drains the queue.
+ */
+export const purgeOrphanedMedia = async (userId: string) => {
+  const { data: orphans, error } = await supabase
+    .from('storage_orphans')
+    .select('name')
+    .eq('user_id', userId)
+    .limit(PAGE_SIZE);
+  if (error || !orphans?.length) return;
+
+  const names = orphans.map(orphan => orphan.name);
+  const { error: removeError } = await supabase.storage.from('media').remove(names);
+  if (removeError) {
+    console.error('Orphaned media cleanup error:', removeError);
+    return;
+  }
+  await supabase.from('storage_orphans').delete().in('name', names);
+};
@@ -1,10 +1,19 @@
 // lib/supabase.ts
 import { createClient } from '@supabase/supabase-js';
+import { resumableUpload, type UploadControls } from './uploads';
+import { IMAGE_PRESETS, processImage } from './imageProcessing';
+import { sniffFile, type MediaKind } from './fileSniffing';
+import { generatePreviews, measureMedia } from './thumbnails';
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
 
-export const supabase = createClient(supabaseUrl, supabaseAnonKey);
+// supabase-js's default key, spelled out so lib/accounts.ts can move sessions in and out of it
+export const SESSION_STORAGE_KEY = `sb-${new URL(supabaseUrl).hostname.split('.')[0]}-auth-token`;
+
+export const supabase = createClient(supabaseUrl, supabaseAnonKey, {
+  auth: { storageKey: SESSION_STORAGE_KEY },
+});
 
 export type Profile = {
   id: string;
@@ -17,6 +26,19 @@ export type Profile = {
   created_at: string;
   theme: string;
   verification_request: string;
+  last_seen?: string | null;
+  bio_link?: string;
+};
+
+// One item of an album; the first one is also mirrored into media_url/media_type
+export type Attachment = {
+  url: string;
+  type: 'image' | 'video' | 'document' | 'audio';
+  width: number | null;
+  height: number | null;
+  alt: string | null;
+  thumbnail_url: string | null;
+  poster_url: string | null;
 };
 
 export type Post = {
@@ -25,14 +47,55 @@ export type Post = {
   content: string;
   media_url: string;
   media_type: 'image' | 'video' | 'document' | 'audio';
+  thumbnail_url?: string | null;
+  poster_url?: string | null;
+  attachments?: Attachment[] | null;
+  client_id?: string | null;
   created_at: string;
   profiles?: Profile;
   comment_count: number;
   like_count: number;
   repost_of?: string | null;
   repost_count?: number;
+  quote_count?: number;
   is_repost?: boolean;
   original_post?: Post;
+  poll_id?: string | null;
+};
+
+// A post waiting for its publish_at; the publisher turns it into a Post
+export type ScheduledPost = {
+  id: string;
+  user_id: string;
+  content: string;
+  media_url: string | null;
+  media_type: Attachment['type'] | null;
+  thumbnail_url: string | null;
+  poster_url: string | null;
+  attachments: Attachment[];
+  publish_at: string;
+  created_at: string;
+  poll_id?: string | null;
+};
+
+export type PollOption = {
+  id: string;
+  poll_id: string;
+  position: number;
+  label: string;
+  vote_count: number;
+};
+
+// Attached to a post, forum post or gazebo message through their poll_id
+export type Poll = {
+  id: string;
+  author_id: string;
+  multiple: boolean;
+  anonymous: boolean;
+  closes_at: string | null;
+  voter_count: number;
+  created_at: string;
+  options: PollOption[];
 };
 
 export type MessageReaction = {
@@ -51,8 +114,13 @@ export type Message = {
   content: string;
   media_url: string;
   media_type: 'image' | 'video' | 'document' | 'audio';
+  thumbnail_url?: string | null;
+  poster_url?: string | null;
+  attachments?: Attachment[] | null;
+  client_id?: string | null;
   read: boolean;
   created_at: string;
+  updated_at?: string | null;
   is_edited?: boolean;
   is_deleted?: boolean;
   sender?: Profile;
@@ -65,6 +133,8 @@ export type Status = {
   user_id: string;
   media_url: string;
   media_type: 'image' | 'video';
+  thumbnail_url?: string | null;
+  poster_url?: string | null;
   text_overlay: any;  // JSONB object
   created_at: string;
   expires_at: string;
@@ -108,77 +178,213 @@ export type GazeboMessage = {
   content: string;
   media_url: string;
   media_type: 'image' | 'video' | 'document' | 'audio';
+  thumbnail_url?: string | null;
+  poster_url?: string | null;
+  attachments?: Attachment[] | null;
+  client_id?: string | null;
   created_at: string;
   sender?: Profile; // We will join this manually or via view
   reply_to?: GazeboMessage | null;
   reactions?: MessageReaction[];
+  poll_id?: string | null;
+};
+
+export type ForumPost = {
+  id: string;
+  forum_id: string;
+  title: string;
+  content: string;
+  media_url: string;
+  created_at: string;
+  user_id: string;
+  comment_count: number;
+  like_count: number;
+  poll_id?: string | null;
+  profiles: {
+    username: string;
+    display_name: string;
+    avatar_url: string;
+    verified: boolean;
+  };
 };
 
 // === STORAGE HELPERS ===
 const MAX_FILE_SIZE = 100 * 1024 * 1024; // 100 MB
 
+export type MediaFolder = 'posts' | 'messages' | 'profiles' | 'statuses' | 'gazebo-messages';
+
+// Running totals for media/{folder}/{user_id}/, kept by a trigger on storage.objects
+export type StorageUsage = {
+  user_id: string;
+  bytes: number;
+  object_count: number;
+  // null means no limit
+  quota_bytes: number | null;
+  updated_at: string;
+};
+
+const CHAT_FORMATS = [
+  'jpeg', 'png', 'gif', 'webp',
+  'mp4', 'mov', 'webm',
+  'mp3', 'ogg', 'wav', 'm4a', 'webmAudio',
+  'pdf', 'doc', 'docx', 'rtf', 'json', 'text',
+];
+
+// Sniffed formats (see fileSniffing.ts) each folder accepts
+const FOLDER_FORMATS: Record<MediaFolder, string[]> = {
+  posts: ['jpeg', 'png', 'gif', 'webp', 'mp4', 'mov', 'webm', 'mp3', 'ogg', 'wav', 'm4a', 'webmAudio', 'pdf', 'text'],
+  messages: CHAT_FORMATS,
+  'gazebo-messages': CHAT_FORMATS,
+  profiles: ['jpeg', 'png', 'gif', 'webp'],
+  statuses: ['jpeg', 'png', 'gif', 'webp', 'mp4', 'mov', 'webm'],
+};
+
+export type UploadErrorCode =
+  | 'not_signed_in'
+  | 'too_large'
+  | 'unrecognized'
+  | 'type_mismatch'
+  | 'not_allowed'
+  | 'quota_exceeded'
+  | 'upload_failed';
+
+export type UploadError = { code: UploadErrorCode; message: string };
+
+// Both null means the user cancelled the upload
+export type UploadResult = {
+  data: UploadedMedia | null;
+  error: UploadError | null;
+};
+
+export type UploadedMedia = {
+  url: string;
+  type: MediaKind;
+  // Poster frame for videos and a small grid thumbnail for videos and images
+  posterUrl: string | null;
+  thumbnailUrl: string | null;
+  // Display size for images and videos, null when it couldn't be read
+  width: number | null;
+  height: number | null;
+};
+
+export type UploadMediaOptions = {
+  // Skip downsizing/re-encoding and upload the image exactly as picked
+  keepOriginal?: boolean;
+};
+
+const uploadError = (code: UploadErrorCode, message: string): UploadResult => ({
+  data: null,
+  error: { code, message },
+});
+
 export const uploadStatusMedia = async (
   file: File,
-  onProgress?: (percent: number) => void
-): Promise<{ url: string; type: string } | null> => {
-  return uploadMedia(file, 'statuses', onProgress);
+  onProgress?: (percent: number) => void,
+  onControls?: (controls: UploadControls | null) => void,
+  options?: UploadMediaOptions
+): Promise<UploadResult> => {
+  return uploadMedia(file, 'statuses', onProgress, onControls, options);
 };
 
 export const uploadMedia = async (
   file: File,
-  folder: 'posts' | 'messages' | 'profiles',
-  onProgress?: (percent: number) => void
-): Promise<{ url: string; type: string } | null> => {
-  const user = (await supabase.auth.getUser())?.data.user;
-  if (!user) return null;
+  folder: MediaFolder,
+  onProgress?: (percent: number) => void,
+  onControls?: (controls: UploadControls | null) => void,
+  options: UploadMediaOptions = {}
+): Promise<UploadResult> => {
+  const { data: { session } } = await supabase.auth.getSession();
+  const user = session?.user;
+  if (!session || !user) return uploadError('not_signed_in', 'You need to be signed in to upload files.');
 
   if (file.size > MAX_FILE_SIZE) {
-    alert(`File too large. Max 100 MB.`);
-    return null;
+    return uploadError('too_large', 'File too large. Max 100 MB.');
   }
 
-  const ext = file.name.split('.').pop()?.toLowerCase() || '';
-  const validImage = ['jpg', 'jpeg', 'png', 'gif', 'webp', 'svg','bmp'];
-  const validVideo = ['mp4', 'webm', 'mov', 'avi'];
-  const validAudio = ['mp3', 'weba', 'ogg', 'wav', 'm4a'];
-  const validDoc = ['pdf', 'doc', 'docx', 'txt', 'json','rtf','exe','zip'];
-
-  let type: string;
-  if (validImage.includes(ext)) type = 'image';
-  else if (validVideo.includes(ext)) {
-    // Handle webm, which can be audio or video
-    if (ext === 'webm' && file.type.startsWith('audio/')) {
-      type = 'audio';
-    } else {
-      type = 'video';
-    }
+  let sniffed = await sniffFile(file);
+  if (!sniffed) {
+    return uploadError('unrecognized', 'Unsupported file type.');
   }
-  else if (validAudio.includes(ext)) type = 'audio';
-  else if (validDoc.includes(ext)) type = 'document';
-  else {
-    alert('Unsupported file type');
-    return null;
+
+  const ext = file.name.includes('.') ? file.name.split('.').pop()!.toLowerCase() : '';
+  if (ext && !sniffed.extensions.includes(ext)) {
+    return uploadError('type_mismatch', `This file says it is .${ext} but its contents are ${sniffed.ext.toUpperCase()}.`);
   }
 
-  if (folder === 'profiles' && type !== 'image') {
-    alert('Images only for profiles');
-    return null;
+  if (!FOLDER_FORMATS[folder].includes(sniffed.format)) {
+    return uploadError(
+      'not_allowed',
+      folder === 'profiles' ? 'Only images can be used here.' : `${sniffed.ext.toUpperCase()} files can't be uploaded here.`
+    );
   }
 
-  const fileName = `${folder}/${user.id}/${Date.now()}_${Math.random().toString(36).slice(2)}.${ext}`;
+  if (sniffed.kind === 'image' && !options.keepOriginal) {
+    const processed = await processImage(file, IMAGE_PRESETS[folder], sniffed.mime);
+    if (processed !== file) {
+      file = processed;
+      sniffed = (await sniffFile(file)) ?? sniffed;
+    }
+  }
 
-  const { data, error } = await supabase.storage
-    .from('media')
-    .upload(fileName, file, {
-      upsert: true,
-      contentType: file.type,
-    });
+  const { data: usage } = await supabase
+    .from('storage_usage')
+    .select('bytes, quota_bytes')
+    .eq('user_id', user.id)
+    .maybeSingle();
+  if (usage && usage.quota_bytes !== null && usage.bytes + file.size > usage.quota_bytes) {
+    return uploadError('quota_exceeded', 'Not enough storage left. Free up space under Settings → My files.');
+  }
 
-  if (error && error.message !== 'The resource already exists') {
+  const fileName = `${folder}/${user.id}/${Date.now()}_${Math.random().toString(36).slice(2)}.${sniffed.ext}`;
+
+  let storedName: string | null;
+  try {
+    storedName = await resumableUpload({
+      file,
+      bucket: 'media',
+      objectName: fileName,
+      // Serve the sniffed type, never what the browser guessed from the name
+      contentType: sniffed.mime,
+      accessToken: session.access_token,
+      onProgress,
+      onControls,
+    });
+  } catch (error) {
     console.error('Upload error:', error);
-    return null;
+    return uploadError('upload_failed', 'Upload failed. Please try again.');
   }
+  if (!storedName) return { data: null, error: null };
+
+  const { data: { publicUrl } } = supabase.storage.from('media').getPublicUrl(storedName);
+  const [previews, dimensions] = await Promise.all([
+    uploadPreviews(file, sniffed.kind, storedName),
+    measureMedia(file, sniffed.kind),
+  ]);
+  return { data: { url: publicUrl, type: sniffed.kind, ...previews, ...dimensions }, error: null };
+};
+
+// Previews live beside the original as `<name>_poster.<ext>` / `<name>_thumb.<ext>`.
+// They're a nicety, so failures only cost the grids a fallback to the full file.
+const uploadPreviews = async (file: File, kind: MediaKind, storedName: string) => {
+  const result = { posterUrl: null as string | null, thumbnailUrl: null as string | null };
+  if (kind !== 'image' && kind !== 'video') return result;
 
-  const { data: { publicUrl } } = supabase.storage.from('media').getPublicUrl(fileName);
-  return { url: publicUrl, type };
+  try {
+    const { poster, thumbnail } = await generatePreviews(file, kind);
+    const base = storedName.replace(/\.[^./]+$/, '');
+    const put = async (blob: Blob | null, suffix: string) => {
+      if (!blob) return null;
+      const path = `${base}_${suffix}.${blob.type === 'image/webp' ? 'webp' : 'jpg'}`;
+      const { error } = await supabase.storage.from('media').upload(path, blob, { contentType: blob.type, upsert: true });
+      if (error) {
+        console.error('Preview upload error:', error);
+        return null;
+      }
+      return supabase.storage.from('media').getPublicUrl(path).data.publicUrl;
+    };
+    [result.posterUrl, result.thumbnailUrl] = await Promise.all([put(poster, 'poster'), put(thumbnail, 'thumb')]);
+  } catch (error) {
+    console.error('Preview generation error:', error);
+  }
+  return result;
 };
@@ -0,0 +1,127 @@
+// lib/thumbnails.ts
+import { preferredImageType, processImage } from './imageProcessing';
+import type { MediaKind } from './fileSniffing';
+
+const POSTER_MAX = 1280;
+const THUMBNAIL_MAX = 480;
+const FRAME_TIMEOUT = 10000;
+
+export type MediaPreviews = {
+  poster: Blob | null;
+  thumbnail: Blob | null;
+};
+
+const scaleCanvas = (source: HTMLCanvasElement | HTMLVideoElement, width: number, height: number, maxDimension: number) => {
+  const scale = Math.min(1, maxDimension / Math.max(width, height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width * scale));
+  canvas.height = Math.max(1, Math.round(height * scale));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+  return canvas;
+};
+
+const canvasToBlob = (canvas: HTMLCanvasElement | null, quality: number) =>
+  canvas
+    ? new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, preferredImageType(), quality))
+    : Promise.resolve(null);
+
+// Seeks a detached <video> a little way in (skipping black intro frames) and copies that frame
+const captureVideoFrame = (file: File): Promise<HTMLCanvasElement | null> =>
+  new Promise((resolve) => {
+    const url = URL.createObjectURL(file);
+    const video = document.createElement('video');
+    video.muted = true;
+    video.playsInline = true;
+    video.preload = 'auto';
+
+    const done = (canvas: HTMLCanvasElement | null) => {
+      clearTimeout(timer);
+      video.onloadedmetadata = video.onseeked = video.onerror = null;
+      video.removeAttribute('src');
+      video.load();
+      URL.revokeObjectURL(url);
+      resolve(canvas);
+    };
+    const timer = setTimeout(() => done(null), FRAME_TIMEOUT);
+
+    video.onloadedmetadata = () => {
+      const duration = Number.isFinite(video.duration) ? video.duration : 0;
+      video.currentTime = Math.min(1, duration / 2);
+    };
+    video.onseeked = () => {
+      if (!video.videoWidth || !video.videoHeight) return done(null);
+      done(scaleCanvas(video, video.videoWidth, video.videoHeight, POSTER_MAX));
+    };
+    video.onerror = () => done(null);
+    video.src = url;
+  });
+
+/**
+ * Builds the preview images stored next to an upload: a poster frame plus a
+ * small grid thumbnail for videos, and just the thumbnail for still images.
+ * Anything that can't be decoded simply gets no previews.
+ */
+export const generatePreviews = async (file: File, kind: MediaKind): Promise<MediaPreviews> => {
+  if (kind === 'video') {
+    const frame = await captureVideoFrame(file);
+    if (!frame) return { poster: null, thumbnail: null };
+    const [poster, thumbnail] = await Promise.all([
+      canvasToBlob(frame, 0.82),
+      canvasToBlob(scaleCanvas(frame, frame.width, frame.height, THUMBNAIL_MAX), 0.72),
+    ]);
+    return { poster, thumbnail };
+  }
+
+  if (kind === 'image') {
+    const thumbnail = await processImage(file, { maxDimension: THUMBNAIL_MAX, quality: 0.72 });
+    // processImage hands back the input untouched for formats it can't re-encode (e.g. animated GIFs)
+    return { poster: null, thumbnail: thumbnail === file ? null : thumbnail };
+  }
+
+  return { poster: null, thumbnail: null };
+};
+
+export type MediaDimensions = {
+  width: number | null;
+  height: number | null;
+};
+
+const readVideoSize = (file: File): Promise<MediaDimensions> =>
+  new Promise((resolve) => {
+    const url = URL.createObjectURL(file);
+    const video = document.createElement('video');
+    video.preload = 'metadata';
+
+    const done = (size: MediaDimensions) => {
+      clearTimeout(timer);
+      video.onloadedmetadata = video.onerror = null;
+      video.removeAttribute('src');
+      video.load();
+      URL.revokeObjectURL(url);
+      resolve(size);
+    };
+    const timer = setTimeout(() => done({ width: null, height: null }), FRAME_TIMEOUT);
+
+    video.onloadedmetadata = () => done({ width: video.videoWidth || null, height: video.videoHeight || null });
+    video.onerror = () => done({ width: null, height: null });
+    video.src = url;
+  });
+
+// Display size (EXIF rotation applied) so albums can lay out before anything loads
+export const measureMedia = async (file: File, kind: MediaKind): Promise<MediaDimensions> => {
+  try {
+    if (kind === 'video') return await readVideoSize(file);
+    if (kind === 'image') {
+      const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+      const size = { width: bitmap.width, height: bitmap.height };
+      bitmap.close();
+      return size;
+    }
+  } catch (error) {
+    console.error('Could not read media size:', error);
+  }
+  return { width: null, height: null };
+};
@@ -0,0 +1,123 @@
+// lib/uploads.ts
+import * as tus from 'tus-js-client';
+
+const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
+
+// Supabase's resumable endpoint only accepts 6 MB chunks
+const CHUNK_SIZE = 6 * 1024 * 1024;
+const RETRY_DELAYS = [0, 1000, 3000, 5000, 10000, 20000];
+
+export type UploadControls = {
+  pause: () => void;
+  resume: () => void;
+  cancel: () => void;
+};
+
+type ResumableUploadOptions = {
+  file: File | Blob;
+  bucket: string;
+  objectName: string;
+  contentType: string;
+  accessToken: string;
+  onProgress?: (percent: number) => void;
+  onControls?: (controls: UploadControls | null) => void;
+};
+
+/**
+ * Uploads a file to Supabase Storage over TUS so it can be paused, resumed and
+ * picked up again after a dropped connection or a page reload.
+ * Resolves with the object name actually stored (a resumed upload keeps the
+ * name it was started with), or null if the user cancelled.
+ */
+export const resumableUpload = ({
+  file,
+  bucket,
+  objectName,
+  contentType,
+  accessToken,
+  onProgress,
+  onControls,
+}: ResumableUploadOptions): Promise<string | null> =>
+  new Promise((resolve, reject) => {
+    let storedName = objectName;
+    let paused = false;
+    let settled = false;
+
+    const finish = (result: string | null, error?: Error) => {
+      if (settled) return;
+      settled = true;
+      window.removeEventListener('online', handleOnline);
+      onControls?.(null);
+      if (error) reject(error);
+      else resolve(result);
+    };
+
+    const upload = new tus.Upload(file, {
+      endpoint: `${supabaseUrl}/storage/v1/upload/resumable`,
+      retryDelays: RETRY_DELAYS,
+      chunkSize: CHUNK_SIZE,
+      uploadDataDuringCreation: true,
+      removeFingerprintOnSuccess: true,
+      headers: {
+        authorization: `Bearer ${accessToken}`,
+        'x-upsert': 'true',
+      },
+      metadata: {
+        bucketName: bucket,
+        objectName,
+        contentType,
+        cacheControl: '3600',
+      },
+      onProgress: (bytesUploaded, bytesTotal) => {
+        if (bytesTotal > 0) onProgress?.(Math.round((bytesUploaded / bytesTotal) * 100));
+      },
+      onSuccess: () => finish(storedName),
+      onError: (error) => {
+        // Out of retries while offline: wait for the network instead of failing
+        if (!navigator.onLine) {
+          paused = true;
+          return;
+        }
+        finish(null, error);
+      },
+    });
+
+    const handleOnline = () => {
+      if (!paused || settled) return;
+      paused = false;
+      upload.start();
+    };
+    window.addEventListener('online', handleOnline);
+
+    onControls?.({
+      pause: () => {
+        if (paused || settled) return;
+        paused = true;
+        upload.abort();
+      },
+      resume: () => {
+        if (!paused || settled) return;
+        paused = false;
+        upload.start();
+      },
+      cancel: () => {
+        if (settled) return;
+        // Terminating asks the server to drop the partial upload as well
+        upload.abort(true).catch(() => {});
+        finish(null);
+      },
+    });
+
+    upload.findPreviousUploads().catch(() => []).then((previous) => {
+      // Only resume into the same folder, the same file may be re-sent elsewhere
+      const folder = objectName.slice(0, objectName.lastIndexOf('/') + 1);
+      const match = previous.find(
+        (p) => p.metadata.bucketName === bucket && p.metadata.objectName?.startsWith(folder)
+      );
+      if (match) {
+        storedName = match.metadata.objectName || objectName;
+        upload.resumeFromPreviousUpload(match);
+      }
+      if (!paused && !settled) upload.start();
+    });
+  });
@@ -0,0 +1,33 @@
+// lib/usernames.ts
+import { supabase } from './supabase';
+
+// Same rule the database enforces (see the username rules migration)
+export const USERNAME_PATTERN = /^[a-z0-9_]{3,20}$/;
+
+export type UsernameStatus = 'available' | 'invalid' | 'reserved' | 'taken';
+
+// Usernames are stored lowercase; spaces are the most common slip, so drop them as you type
+export const normalizeUsername = (input: string) => input.toLowerCase().replace(/\s+/g, '');
+
+export const describeUsernameStatus = (status: UsernameStatus) => {
+  switch (status) {
+    case 'available':
+      return 'Username is available';
+    case 'invalid':
+      return 'Use 3-20 letters, numbers or underscores';
+    case 'reserved':
+      return "That username can't be used";
+    case 'taken':
+      return 'Username already taken';
+  }
+};
+
+/**
+ * Checks a username against the server's rules, reserved list and existing
+ * profiles (case-insensitive). The caller's own current username counts as available.
+ */
+export const checkUsername = async (username: string): Promise<{ data: UsernameStatus | null; error: Error | null }> => {
+  if (!USERNAME_PATTERN.test(username)) return { data: 'invalid', error: null };
+  const { data, error } = await supabase.rpc('username_status', { candidate: username });
+  return { data: data as UsernameStatus | null, error };
+};
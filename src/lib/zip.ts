@@ -0,0 +1,96 @@
+// lib/zip.ts
+// Minimal ZIP writer. Entries are stored uncompressed: most of what goes in (photos,
+// video) is compressed already, and it saves pulling in a compression library.
+// File contents are never copied: the archive is a Blob made of the entries' own Blobs,
+// and checksums are computed a chunk at a time.
+
+export type ZipEntry = {
+  // Path inside the archive, forward slashes
+  path: string;
+  data: Blob | string;
+};
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const CRC_CHUNK_SIZE = 4 * 1024 * 1024;
+
+const crc32 = async (data: Blob) => {
+  let crc = 0xffffffff;
+  for (let start = 0; start < data.size; start += CRC_CHUNK_SIZE) {
+    const bytes = new Uint8Array(await data.slice(start, start + CRC_CHUNK_SIZE).arrayBuffer());
+    for (let i = 0; i < bytes.length; i++) crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const toDosTime = (date: Date) => ({
+  time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+  date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+});
+
+// No ZIP64, so the classic limits apply: 65535 entries and 4 GB in total
+export const createZip = async (entries: ZipEntry[]): Promise<Blob> => {
+  const encoder = new TextEncoder();
+  const { time, date } = toDosTime(new Date());
+  const files: BlobPart[] = [];
+  const directory: BlobPart[] = [];
+  let offset = 0;
+  let directorySize = 0;
+
+  if (entries.length > 0xffff) throw new Error('Too many files for one archive');
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.path);
+    const data = typeof entry.data === 'string' ? new Blob([entry.data]) : entry.data;
+    const crc = await crc32(data);
+
+    const local = new DataView(new ArrayBuffer(30 + name.length));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(4, 20, true);
+    local.setUint16(6, 0x0800, true); // names are UTF-8
+    local.setUint16(10, time, true);
+    local.setUint16(12, date, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, data.size, true);
+    local.setUint32(22, data.size, true);
+    local.setUint16(26, name.length, true);
+    new Uint8Array(local.buffer).set(name, 30);
+
+    const central = new DataView(new ArrayBuffer(46 + name.length));
+    central.setUint32(0, 0x02014b50, true);
+    central.setUint16(4, 20, true);
+    central.setUint16(6, 20, true);
+    central.setUint16(8, 0x0800, true);
+    central.setUint16(12, time, true);
+    central.setUint16(14, date, true);
+    central.setUint32(16, crc, true);
+    central.setUint32(20, data.size, true);
+    central.setUint32(24, data.size, true);
+    central.setUint16(28, name.length, true);
+    central.setUint32(42, offset, true);
+    new Uint8Array(central.buffer).set(name, 46);
+
+    files.push(local.buffer, data);
+    directory.push(central.buffer);
+    offset += local.byteLength + data.size;
+    directorySize += central.byteLength;
+    if (offset > 0xffffffff) throw new Error('Archive is larger than 4 GB');
+  }
+
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, entries.length, true);
+  end.setUint16(10, entries.length, true);
+  end.setUint32(12, directorySize, true);
+  end.setUint32(16, offset, true);
+
+  return new Blob([...files, ...directory, end.buffer], { type: 'application/zip' });
+};
@@ -0,0 +1,17 @@
+-- 1. Poster frame (videos) and grid thumbnail (videos & images) generated at upload time.
+--    Both are stored in the media bucket next to the original file.
+ALTER TABLE public.posts
+ADD COLUMN thumbnail_url text,
+ADD COLUMN poster_url text;
+
+ALTER TABLE public.messages
+ADD COLUMN thumbnail_url text,
+ADD COLUMN poster_url text;
+
+ALTER TABLE public.gazebo_messages
+ADD COLUMN thumbnail_url text,
+ADD COLUMN poster_url text;
+
+ALTER TABLE public.statuses
+ADD COLUMN thumbnail_url text,
+ADD COLUMN poster_url text;
@@ -0,0 +1,10 @@
+-- 1. Client-generated ids let the offline outbox retry inserts without creating duplicates
+--    (INSERT ... ON CONFLICT (client_id) DO NOTHING) and match realtime echoes to pending items.
+ALTER TABLE public.posts
+ADD COLUMN client_id uuid UNIQUE;
+
+ALTER TABLE public.messages
+ADD COLUMN client_id uuid UNIQUE;
+
+ALTER TABLE public.gazebo_messages
+ADD COLUMN client_id uuid UNIQUE;
@@ -0,0 +1,44 @@
+-- 1. Track when a DM last changed so clients can sync only what moved since their cached cursor
+ALTER TABLE public.messages
+ADD COLUMN updated_at timestamp with time zone DEFAULT now();
+
+UPDATE public.messages SET updated_at = created_at;
+
+CREATE INDEX IF NOT EXISTS messages_sender_updated_at_idx ON public.messages (sender_id, updated_at);
+CREATE INDEX IF NOT EXISTS messages_recipient_updated_at_idx ON public.messages (recipient_id, updated_at);
+
+-- 2. Bump updated_at on edits, deletes and read receipts
+CREATE OR REPLACE FUNCTION public.touch_message_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_touch_message_updated_at
+BEFORE UPDATE ON public.messages
+FOR EACH ROW EXECUTE FUNCTION public.touch_message_updated_at();
+
+-- 3. Reactions live in their own table; touch the parent DM so they sync too
+CREATE OR REPLACE FUNCTION public.touch_message_on_reaction()
+RETURNS TRIGGER AS $$
+DECLARE
+  target record;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    target := OLD;
+  ELSE
+    target := NEW;
+  END IF;
+
+  IF target.message_type = 'dm' THEN
+    UPDATE public.messages SET updated_at = now() WHERE id = target.message_id;
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER trigger_touch_message_on_reaction
+AFTER INSERT OR UPDATE OR DELETE ON public.message_reactions
+FOR EACH ROW EXECUTE FUNCTION public.touch_message_on_reaction();
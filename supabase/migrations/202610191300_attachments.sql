@@ -0,0 +1,34 @@
+-- 1. Ordered attachments (albums) on posts, DMs and gazebo messages.
+--    Each element: { url, type, width, height, alt, thumbnail_url, poster_url }.
+--    The first attachment is still mirrored into media_url/media_type/thumbnail_url/poster_url
+--    so media grids and older clients keep working. Existing rows are not backfilled
+--    (that would touch every message's updated_at); clients fall back to media_url.
+CREATE OR REPLACE FUNCTION public.attachments_are_valid(items jsonb)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT jsonb_typeof(items) = 'array'
+    AND jsonb_array_length(items) <= 10
+    AND NOT EXISTS (
+      SELECT 1
+      FROM jsonb_array_elements(items) AS item
+      WHERE jsonb_typeof(item) <> 'object'
+         OR jsonb_typeof(item->'url') IS DISTINCT FROM 'string'
+         OR NOT (item->>'type' = ANY (ARRAY['image', 'video', 'audio', 'document']))
+         OR length(coalesce(item->>'alt', '')) > 1000
+    );
+$$;
+
+-- 2. Columns
+ALTER TABLE public.posts
+ADD COLUMN attachments jsonb NOT NULL DEFAULT '[]'::jsonb
+  CONSTRAINT posts_attachments_valid CHECK (public.attachments_are_valid(attachments));
+
+ALTER TABLE public.messages
+ADD COLUMN attachments jsonb NOT NULL DEFAULT '[]'::jsonb
+  CONSTRAINT messages_attachments_valid CHECK (public.attachments_are_valid(attachments));
+
+ALTER TABLE public.gazebo_messages
+ADD COLUMN attachments jsonb NOT NULL DEFAULT '[]'::jsonb
+  CONSTRAINT gazebo_messages_attachments_valid CHECK (public.attachments_are_valid(attachments));
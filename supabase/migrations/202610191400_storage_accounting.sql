@@ -0,0 +1,194 @@
+-- 1. Per-user storage usage. Objects live at media/{folder}/{user_id}/..., so the
+--    second path segment is the owner. quota_bytes is NULL for "no limit" and is
+--    only ever set from the dashboard / service role (users can read, not write).
+CREATE TABLE public.storage_usage (
+  user_id uuid NOT NULL,
+  bytes bigint NOT NULL DEFAULT 0,
+  object_count integer NOT NULL DEFAULT 0,
+  quota_bytes bigint CHECK (quota_bytes IS NULL OR quota_bytes >= 0),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+
+  CONSTRAINT storage_usage_pkey PRIMARY KEY (user_id),
+  CONSTRAINT storage_usage_user_id_fkey FOREIGN KEY (user_id) REFERENCES public.profiles(id) ON DELETE CASCADE
+);
+
+ALTER TABLE public.storage_usage ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own storage usage" ON public.storage_usage
+  FOR SELECT TO authenticated USING (user_id = auth.uid());
+
+CREATE OR REPLACE FUNCTION public.media_object_owner(object_name text)
+RETURNS uuid AS $$
+  SELECT CASE
+    WHEN split_part(object_name, '/', 2) ~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+    THEN split_part(object_name, '/', 2)::uuid
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- 2. Keep usage in step with the media bucket
+CREATE OR REPLACE FUNCTION public.track_media_usage()
+RETURNS TRIGGER AS $$
+DECLARE
+  old_owner uuid;
+  new_owner uuid;
+BEGIN
+  IF TG_OP <> 'INSERT' THEN
+    IF OLD.bucket_id = 'media' THEN
+      old_owner := public.media_object_owner(OLD.name);
+    END IF;
+  END IF;
+  IF TG_OP <> 'DELETE' THEN
+    IF NEW.bucket_id = 'media' THEN
+      new_owner := public.media_object_owner(NEW.name);
+    END IF;
+  END IF;
+
+  IF old_owner IS NOT NULL THEN
+    UPDATE public.storage_usage
+    SET bytes = greatest(bytes - coalesce((OLD.metadata->>'size')::bigint, 0), 0),
+        object_count = greatest(object_count - 1, 0),
+        updated_at = now()
+    WHERE user_id = old_owner;
+  END IF;
+
+  -- Never fail an upload over bookkeeping: owners without a profile just aren't tracked
+  IF new_owner IS NOT NULL THEN
+    INSERT INTO public.storage_usage (user_id, bytes, object_count)
+    SELECT new_owner, coalesce((NEW.metadata->>'size')::bigint, 0), 1
+    WHERE EXISTS (SELECT 1 FROM public.profiles WHERE id = new_owner)
+    ON CONFLICT (user_id) DO UPDATE
+    SET bytes = public.storage_usage.bytes + EXCLUDED.bytes,
+        object_count = public.storage_usage.object_count + 1,
+        updated_at = now();
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER on_media_object_change
+  AFTER INSERT OR UPDATE OR DELETE ON storage.objects
+  FOR EACH ROW EXECUTE FUNCTION public.track_media_usage();
+
+INSERT INTO public.storage_usage (user_id, bytes, object_count)
+SELECT owner, sum(size), count(*)
+FROM (
+  SELECT public.media_object_owner(name) AS owner, coalesce((metadata->>'size')::bigint, 0) AS size
+  FROM storage.objects
+  WHERE bucket_id = 'media'
+) AS objects
+WHERE owner IN (SELECT id FROM public.profiles)
+GROUP BY owner
+ON CONFLICT (user_id) DO NOTHING;
+
+-- 3. Quotas and ownership on upload/delete. The old delete policy compared the
+--    first path segment (the folder) to the user id, so nobody could delete anything.
+--    The quota is a soft cap: the upload that crosses it still lands.
+CREATE OR REPLACE FUNCTION public.storage_quota_exceeded(uid uuid)
+RETURNS boolean AS $$
+  SELECT coalesce(
+    (SELECT quota_bytes IS NOT NULL AND bytes >= quota_bytes FROM public.storage_usage WHERE user_id = uid),
+    false
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+DROP POLICY IF EXISTS "Users can upload" ON storage.objects;
+DROP POLICY IF EXISTS "Users can delete own" ON storage.objects;
+
+CREATE POLICY "Users can upload" ON storage.objects FOR INSERT TO authenticated WITH CHECK (
+  bucket_id = 'media'
+  AND (storage.foldername(name))[2] = auth.uid()::text
+  AND NOT public.storage_quota_exceeded(auth.uid())
+);
+CREATE POLICY "Users can delete own" ON storage.objects FOR DELETE TO authenticated USING (
+  bucket_id = 'media' AND (storage.foldername(name))[2] = auth.uid()::text
+);
+
+-- 4. Orphaned media. Deleting a post/message/status queues its files here; the owner's
+--    client removes them through the Storage API (deleting storage.objects rows from SQL
+--    would leave the underlying files behind). No FK so account deletion can still queue.
+CREATE TABLE public.storage_orphans (
+  name text NOT NULL,
+  user_id uuid NOT NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+
+  CONSTRAINT storage_orphans_pkey PRIMARY KEY (name)
+);
+
+CREATE INDEX storage_orphans_user_id_idx ON public.storage_orphans (user_id);
+
+ALTER TABLE public.storage_orphans ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own orphans" ON public.storage_orphans
+  FOR SELECT TO authenticated USING (user_id = auth.uid());
+CREATE POLICY "Users can clear own orphans" ON public.storage_orphans
+  FOR DELETE TO authenticated USING (user_id = auth.uid());
+
+-- Every file a row points at: the legacy columns plus each album item and its previews
+CREATE OR REPLACE FUNCTION public.row_media_urls(row_data jsonb)
+RETURNS text[] AS $$
+  SELECT coalesce(array_agg(DISTINCT url), ARRAY[]::text[])
+  FROM (
+    SELECT unnest(ARRAY[row_data->>'media_url', row_data->>'thumbnail_url', row_data->>'poster_url']) AS url
+    UNION ALL
+    SELECT unnest(ARRAY[item->>'url', item->>'thumbnail_url', item->>'poster_url'])
+    FROM jsonb_array_elements(coalesce(row_data->'attachments', '[]'::jsonb)) AS item
+  ) AS urls
+  WHERE url IS NOT NULL AND url <> '';
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Only the owner's own uploads in content folders; remote URLs and avatars are left alone
+CREATE OR REPLACE FUNCTION public.queue_media_orphans(owner uuid, urls text[])
+RETURNS void AS $$
+  INSERT INTO public.storage_orphans (name, user_id)
+  SELECT DISTINCT substring(url FROM '/storage/v1/object/public/media/(.+)$'), owner
+  FROM unnest(urls) AS url
+  WHERE url ~ ('/storage/v1/object/public/media/(posts|messages|gazebo-messages|statuses)/' || owner::text || '/')
+  ON CONFLICT (name) DO NOTHING;
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+-- TG_ARGV[0] names the owner column (posts.user_id, messages.sender_id, ...)
+CREATE OR REPLACE FUNCTION public.queue_deleted_row_media()
+RETURNS TRIGGER AS $$
+DECLARE
+  row_data jsonb := to_jsonb(OLD);
+BEGIN
+  PERFORM public.queue_media_orphans((row_data->>TG_ARGV[0])::uuid, public.row_media_urls(row_data));
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER on_post_deleted_queue_media
+  AFTER DELETE ON public.posts
+  FOR EACH ROW EXECUTE FUNCTION public.queue_deleted_row_media('user_id');
+
+CREATE TRIGGER on_message_deleted_queue_media
+  AFTER DELETE ON public.messages
+  FOR EACH ROW EXECUTE FUNCTION public.queue_deleted_row_media('sender_id');
+
+CREATE TRIGGER on_gazebo_message_deleted_queue_media
+  AFTER DELETE ON public.gazebo_messages
+  FOR EACH ROW EXECUTE FUNCTION public.queue_deleted_row_media('user_id');
+
+CREATE TRIGGER on_status_deleted_queue_media
+  AFTER DELETE ON public.statuses
+  FOR EACH ROW EXECUTE FUNCTION public.queue_deleted_row_media('user_id');
+
+-- 5. DMs are soft-deleted (is_deleted), so release their media at that point instead
+CREATE OR REPLACE FUNCTION public.release_soft_deleted_message_media()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.is_deleted AND NOT coalesce(OLD.is_deleted, false) THEN
+    PERFORM public.queue_media_orphans(OLD.sender_id, public.row_media_urls(to_jsonb(OLD)));
+    NEW.media_url := NULL;
+    NEW.thumbnail_url := NULL;
+    NEW.poster_url := NULL;
+    NEW.attachments := '[]'::jsonb;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER on_message_soft_deleted_release_media
+  BEFORE UPDATE ON public.messages
+  FOR EACH ROW EXECUTE FUNCTION public.release_soft_deleted_message_media();
@@ -0,0 +1,119 @@
+-- 1. One-time recovery codes for TOTP two-factor. Only bcrypt hashes are stored and
+--    the table has no policies: everything goes through the functions below.
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+CREATE TABLE public.mfa_recovery_codes (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL,
+  code_hash text NOT NULL,
+  used_at timestamp with time zone,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+
+  CONSTRAINT mfa_recovery_codes_pkey PRIMARY KEY (id),
+  CONSTRAINT mfa_recovery_codes_user_id_fkey FOREIGN KEY (user_id) REFERENCES auth.users(id) ON DELETE CASCADE
+);
+
+CREATE INDEX mfa_recovery_codes_user_id_idx ON public.mfa_recovery_codes (user_id);
+
+ALTER TABLE public.mfa_recovery_codes ENABLE ROW LEVEL SECURITY;
+
+-- Failed redemptions per user, for the lockout in redeem_mfa_recovery_code. No policies either.
+CREATE TABLE public.mfa_recovery_attempts (
+  user_id uuid NOT NULL,
+  failed_count integer NOT NULL DEFAULT 0,
+  locked_until timestamp with time zone,
+
+  CONSTRAINT mfa_recovery_attempts_pkey PRIMARY KEY (user_id),
+  CONSTRAINT mfa_recovery_attempts_user_id_fkey FOREIGN KEY (user_id) REFERENCES auth.users(id) ON DELETE CASCADE
+);
+
+ALTER TABLE public.mfa_recovery_attempts ENABLE ROW LEVEL SECURITY;
+
+-- 2. Replace the user's codes with a fresh set of ten. Needs an aal2 session, so
+--    a stolen password alone can't mint codes that bypass the second factor.
+CREATE OR REPLACE FUNCTION public.regenerate_mfa_recovery_codes()
+RETURNS text[] AS $$
+DECLARE
+  codes text[] := ARRAY[]::text[];
+  code text;
+BEGIN
+  IF coalesce(auth.jwt()->>'aal', 'aal1') <> 'aal2' THEN
+    RAISE EXCEPTION 'Verify your second factor first' USING ERRCODE = '42501';
+  END IF;
+
+  DELETE FROM public.mfa_recovery_codes WHERE user_id = auth.uid();
+
+  FOR i IN 1..10 LOOP
+    code := encode(extensions.gen_random_bytes(3), 'hex') || '-' || encode(extensions.gen_random_bytes(3), 'hex');
+    INSERT INTO public.mfa_recovery_codes (user_id, code_hash)
+    VALUES (auth.uid(), extensions.crypt(code, extensions.gen_salt('bf')));
+    codes := codes || code;
+  END LOOP;
+
+  RETURN codes;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.count_mfa_recovery_codes()
+RETURNS integer AS $$
+  SELECT count(*)::integer FROM public.mfa_recovery_codes WHERE user_id = auth.uid() AND used_at IS NULL;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- 3. Lost the authenticator: a valid code removes the user's factors (and, through the
+--    trigger below, every code), dropping the account back to password-only until they
+--    enroll again. This runs at aal1, with just the password, so five wrong codes lock
+--    redemption for 15 minutes.
+CREATE OR REPLACE FUNCTION public.redeem_mfa_recovery_code(code text)
+RETURNS boolean AS $$
+DECLARE
+  matched uuid;
+  attempts public.mfa_recovery_attempts;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not signed in' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO attempts FROM public.mfa_recovery_attempts WHERE user_id = auth.uid() FOR UPDATE;
+  IF attempts.locked_until > now() THEN
+    RAISE EXCEPTION 'Too many wrong recovery codes. Try again in 15 minutes.' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT id INTO matched
+  FROM public.mfa_recovery_codes
+  WHERE user_id = auth.uid()
+    AND used_at IS NULL
+    AND code_hash = extensions.crypt(lower(trim(code)), code_hash)
+  LIMIT 1;
+
+  IF matched IS NULL THEN
+    -- Returned rather than raised, so the count survives
+    INSERT INTO public.mfa_recovery_attempts AS a (user_id, failed_count)
+    VALUES (auth.uid(), 1)
+    ON CONFLICT (user_id) DO UPDATE SET
+      failed_count = CASE WHEN a.failed_count + 1 >= 5 THEN 0 ELSE a.failed_count + 1 END,
+      locked_until = CASE WHEN a.failed_count + 1 >= 5 THEN now() + interval '15 minutes' ELSE a.locked_until END;
+    RETURN false;
+  END IF;
+
+  DELETE FROM public.mfa_recovery_attempts WHERE user_id = auth.uid();
+  DELETE FROM auth.mfa_factors WHERE user_id = auth.uid();
+  RETURN true;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- 4. Codes belong to the factor they were issued with. Removing a verified factor, by
+--    turning 2FA off, replacing the device or redeeming a code, drops them; enrolling
+--    again issues a new set. Abandoned set-ups (unverified factors) leave them alone.
+CREATE OR REPLACE FUNCTION public.clear_mfa_recovery_codes()
+RETURNS TRIGGER AS $$
+BEGIN
+  DELETE FROM public.mfa_recovery_codes WHERE user_id = OLD.user_id;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER on_mfa_factor_removed_clear_recovery_codes
+AFTER DELETE ON auth.mfa_factors
+FOR EACH ROW WHEN (OLD.status = 'verified')
+EXECUTE FUNCTION public.clear_mfa_recovery_codes();
+
@@ -0,0 +1,41 @@
+-- 1. Let users see their own sign-ins. auth.sessions isn't exposed over the API,
+--    so these wrappers return only the caller's rows and only the useful columns.
+CREATE OR REPLACE FUNCTION public.list_my_sessions()
+RETURNS TABLE (
+  id uuid,
+  created_at timestamp with time zone,
+  last_active_at timestamp with time zone,
+  user_agent text,
+  ip text,
+  aal text,
+  is_current boolean
+) AS $$
+  SELECT
+    s.id,
+    s.created_at,
+    coalesce(s.refreshed_at::timestamptz, s.updated_at, s.created_at) AS last_active_at,
+    s.user_agent,
+    host(s.ip) AS ip,
+    s.aal::text,
+    s.id::text = auth.jwt()->>'session_id' AS is_current
+  FROM auth.sessions s
+  WHERE s.user_id = auth.uid()
+    AND (s.not_after IS NULL OR s.not_after > now())
+  ORDER BY is_current DESC, last_active_at DESC;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- 2. Ending a session drops its refresh tokens (ON DELETE CASCADE), so that device
+--    is signed out the next time it refreshes or checks current_session_active().
+CREATE OR REPLACE FUNCTION public.revoke_my_session(target_session_id uuid)
+RETURNS void AS $$
+  DELETE FROM auth.sessions WHERE id = target_session_id AND user_id = auth.uid();
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+-- 3. Access tokens outlive their session by up to an hour; clients poll this to notice sooner
+CREATE OR REPLACE FUNCTION public.current_session_active()
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM auth.sessions
+    WHERE id::text = auth.jwt()->>'session_id' AND user_id = auth.uid()
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,148 @@
+-- 1. Self-service account deletion with a grace period. A row here means the account
+--    is queued; signing back in and keeping the account removes it. The daily job in
+--    api/purge-deleted-accounts.ts calls purge_due_account_deletions() once it's due.
+CREATE TABLE public.account_deletions (
+  user_id uuid NOT NULL,
+  requested_at timestamp with time zone NOT NULL DEFAULT now(),
+  scheduled_for timestamp with time zone NOT NULL,
+
+  CONSTRAINT account_deletions_pkey PRIMARY KEY (user_id),
+  CONSTRAINT account_deletions_user_id_fkey FOREIGN KEY (user_id) REFERENCES auth.users(id) ON DELETE CASCADE
+);
+
+CREATE INDEX account_deletions_scheduled_for_idx ON public.account_deletions (scheduled_for);
+
+ALTER TABLE public.account_deletions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own deletion request" ON public.account_deletions
+  FOR SELECT TO authenticated USING (user_id = auth.uid());
+
+-- 2. Queue / cancel. Accounts with 2FA need an aal2 session to queue, same as recovery codes.
+CREATE OR REPLACE FUNCTION public.request_account_deletion()
+RETURNS timestamp with time zone AS $$
+DECLARE
+  due timestamp with time zone := now() + interval '30 days';
+BEGIN
+  IF EXISTS (SELECT 1 FROM auth.mfa_factors WHERE user_id = auth.uid() AND status = 'verified')
+     AND coalesce(auth.jwt()->>'aal', 'aal1') <> 'aal2' THEN
+    RAISE EXCEPTION 'Verify your second factor first' USING ERRCODE = '42501';
+  END IF;
+
+  INSERT INTO public.account_deletions (user_id, scheduled_for)
+  VALUES (auth.uid(), due)
+  ON CONFLICT (user_id) DO UPDATE SET scheduled_for = public.account_deletions.scheduled_for
+  RETURNING scheduled_for INTO due;
+
+  RETURN due;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.cancel_account_deletion()
+RETURNS void AS $$
+  DELETE FROM public.account_deletions WHERE user_id = auth.uid();
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+-- 3. Remove one account everywhere. Most tables cascade from profiles/auth.users; this
+--    handles the ones that don't, and hands shared spaces (gazebos, groups, forums) to
+--    someone else instead of deleting other people's conversations with them.
+CREATE OR REPLACE FUNCTION public.purge_account(target uuid)
+RETURNS void AS $$
+DECLARE
+  space record;
+  heir uuid;
+BEGIN
+  FOR space IN SELECT id FROM public.gazebos WHERE owner_id = target LOOP
+    SELECT user_id INTO heir
+    FROM public.gazebo_members
+    WHERE gazebo_id = space.id AND user_id <> target
+    ORDER BY (role = 'admin') DESC, joined_at
+    LIMIT 1;
+
+    IF heir IS NULL THEN
+      DELETE FROM public.gazebos WHERE id = space.id;
+    ELSE
+      UPDATE public.gazebos SET owner_id = heir WHERE id = space.id;
+      UPDATE public.gazebo_members SET role = 'owner' WHERE gazebo_id = space.id AND user_id = heir;
+    END IF;
+  END LOOP;
+
+  FOR space IN SELECT id FROM public.groups WHERE owner_id = target LOOP
+    SELECT user_id INTO heir
+    FROM public.group_members
+    WHERE group_id = space.id AND user_id <> target
+    ORDER BY (role = 'admin') DESC, joined_at
+    LIMIT 1;
+
+    IF heir IS NULL THEN
+      DELETE FROM public.groups WHERE id = space.id;
+    ELSE
+      UPDATE public.groups SET owner_id = heir WHERE id = space.id;
+      UPDATE public.group_members SET role = 'owner' WHERE group_id = space.id AND user_id = heir;
+    END IF;
+  END LOOP;
+
+  -- Forums have no members; the most active other poster takes over
+  FOR space IN SELECT id FROM public.forums WHERE owner_id = target LOOP
+    SELECT user_id INTO heir
+    FROM public.forum_posts
+    WHERE forum_id = space.id AND user_id <> target
+    GROUP BY user_id
+    ORDER BY count(*) DESC, min(created_at)
+    LIMIT 1;
+
+    IF heir IS NULL THEN
+      DELETE FROM public.forums WHERE id = space.id;
+    ELSE
+      UPDATE public.forums SET owner_id = heir WHERE id = space.id;
+    END IF;
+  END LOOP;
+
+  UPDATE public.gazebo_invites SET created_by_user_id = NULL WHERE created_by_user_id = target;
+  DELETE FROM public.active_voice_sessions WHERE user_id = target;
+
+  -- Replies to their messages stay, just without the quoted original
+  UPDATE public.gazebo_messages SET reply_to_id = NULL
+  WHERE reply_to_id IN (SELECT id FROM public.gazebo_messages WHERE user_id = target);
+  DELETE FROM public.gazebo_messages WHERE user_id = target;
+
+  DELETE FROM public.forum_comments WHERE user_id = target;
+  DELETE FROM public.forum_posts WHERE user_id = target;
+  DELETE FROM public.message_reactions WHERE user_id = target;
+
+  -- likes.entity_id has no FK, so other people's likes on their posts/comments would linger
+  DELETE FROM public.likes
+  WHERE (entity_type = 'post' AND entity_id IN (SELECT id FROM public.posts WHERE user_id = target))
+     OR (entity_type = 'comment' AND entity_id IN (SELECT id FROM public.comments WHERE user_id = target));
+
+  -- Everything else in the media bucket (avatars, banners, files no row points at any more)
+  INSERT INTO public.storage_orphans (name, user_id)
+  SELECT name, target
+  FROM storage.objects
+  WHERE bucket_id = 'media' AND public.media_object_owner(name) = target
+  ON CONFLICT (name) DO NOTHING;
+
+  -- Cascades to the profile and from there to posts, comments, likes, follows, DMs,
+  -- reactions, statuses, notifications, memberships and storage usage
+  DELETE FROM auth.users WHERE id = target;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.purge_due_account_deletions()
+RETURNS SETOF uuid AS $$
+DECLARE
+  due uuid;
+BEGIN
+  FOR due IN
+    SELECT user_id FROM public.account_deletions WHERE scheduled_for <= now() ORDER BY scheduled_for LIMIT 50
+  LOOP
+    PERFORM public.purge_account(due);
+    RETURN NEXT due;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Only the scheduled job (service role) may purge
+REVOKE EXECUTE ON FUNCTION public.purge_account(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.purge_due_account_deletions() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.purge_account(uuid) TO service_role;
+GRANT EXECUTE ON FUNCTION public.purge_due_account_deletions() TO service_role;
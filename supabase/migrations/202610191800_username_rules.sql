@@ -0,0 +1,89 @@
+-- 1. Usernames that would shadow a route (/stats, /groups, ...) or impersonate staff.
+--    No policies: read through username_status() below.
+CREATE TABLE public.reserved_usernames (
+  username text NOT NULL,
+
+  CONSTRAINT reserved_usernames_pkey PRIMARY KEY (username)
+);
+
+ALTER TABLE public.reserved_usernames ENABLE ROW LEVEL SECURITY;
+
+INSERT INTO public.reserved_usernames (username) VALUES
+  -- Paths App.tsx handles itself instead of looking up a profile
+  ('user'), ('invite'), ('gazebo'), ('message'), ('stats'), ('groups'), ('forums'), ('archive'), ('settings'),
+  ('messages'), ('feed'), ('profile'), ('page'), ('search'), ('notifications'), ('hashtag'), ('api'),
+  ('terms-of-service'), ('privacy-policy'),
+  ('admin'), ('administrator'), ('moderator'), ('mod'), ('staff'), ('support'), ('help'), ('system'),
+  ('root'), ('liaotian'), ('liaoverse'), ('official'), ('null'), ('undefined'), ('me')
+ON CONFLICT (username) DO NOTHING;
+
+-- 2. Rules: 3-20 characters, lowercase letters, digits and underscores. Returns why a
+--    name can't be used, or 'available'. Callable before sign-up for the live check.
+CREATE OR REPLACE FUNCTION public.username_status(candidate text, for_user uuid DEFAULT auth.uid())
+RETURNS text AS $$
+  SELECT CASE
+    WHEN candidate IS NULL OR candidate !~ '^[a-z0-9_]{3,20}$' THEN 'invalid'
+    WHEN EXISTS (SELECT 1 FROM public.reserved_usernames WHERE username = lower(candidate)) THEN 'reserved'
+    WHEN EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE lower(username) = lower(candidate) AND id IS DISTINCT FROM for_user
+    ) THEN 'taken'
+    ELSE 'available'
+  END;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.username_status(text, uuid) TO anon, authenticated;
+
+-- 3. Enforce the same rules on every write, whichever client does it. Only checked when
+--    the username changes, so existing accounts with older-style names keep working.
+CREATE OR REPLACE FUNCTION public.validate_username()
+RETURNS TRIGGER AS $$
+DECLARE
+  status text;
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.username IS NOT DISTINCT FROM OLD.username THEN
+    RETURN NEW;
+  END IF;
+
+  status := public.username_status(NEW.username, NEW.id);
+  IF status <> 'available' THEN
+    RAISE EXCEPTION 'Username is %', status USING ERRCODE = CASE WHEN status = 'taken' THEN '23505' ELSE '23514' END;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER on_profile_username_change
+  BEFORE INSERT OR UPDATE OF username ON public.profiles
+  FOR EACH ROW EXECUTE FUNCTION public.validate_username();
+
+-- Backs the case-insensitive check above (and App.tsx's ilike lookups). Fails if two
+-- existing names differ only by case; rename one of them first.
+CREATE UNIQUE INDEX profiles_username_lower_idx ON public.profiles (lower(username));
+
+-- 4. Create the profile with the auth user, in the same transaction, from the sign-up
+--    metadata. A bad or taken username now fails the whole sign-up instead of leaving
+--    an auth user without a profile. OAuth and magic-link users have no username in
+--    their metadata and still pick one on first login.
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER AS $$
+DECLARE
+  requested text := NEW.raw_user_meta_data->>'username';
+BEGIN
+  IF requested IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.profiles (id, username, display_name)
+  VALUES (
+    NEW.id,
+    lower(requested),
+    coalesce(nullif(trim(NEW.raw_user_meta_data->>'display_name'), ''), lower(requested))
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER on_auth_user_created
+  AFTER INSERT ON auth.users
+  FOR EACH ROW EXECUTE FUNCTION public.handle_new_user();
@@ -0,0 +1,4 @@
+-- 1. Paths App.tsx now routes itself (/post/:postId, /status/:statusId) can't be usernames either
+INSERT INTO public.reserved_usernames (username) VALUES
+  ('post'), ('status')
+ON CONFLICT (username) DO NOTHING;
@@ -0,0 +1,92 @@
+-- 1. What a shared link shows in other apps' previews (api/og.ts). Callable without
+--    signing in, so it decides here what's public rather than leaning on RLS:
+--      - posts only outside groups or in public groups (reposts: the original, same rule)
+--      - statuses only until they expire
+--      - invites only while usable, and only the gazebo's name, icon and size
+--    Returns NULL for anything missing or not public; the caller then serves the
+--    generic preview.
+CREATE OR REPLACE FUNCTION public.link_preview(kind text, key text)
+RETURNS jsonb AS $$
+DECLARE
+  preview jsonb;
+BEGIN
+  IF kind IN ('post', 'status', 'forum_post')
+     AND key !~* '^[0-9a-f]{8}-([0-9a-f]{4}-){3}[0-9a-f]{12}$' THEN
+    RETURN NULL;
+  END IF;
+
+  IF kind = 'profile' THEN
+    SELECT jsonb_build_object(
+      'title', p.display_name || ' (@' || p.username || ')',
+      'description', nullif(p.bio, ''),
+      'image', nullif(p.avatar_url, '')
+    ) INTO preview
+    FROM public.profiles p
+    WHERE lower(p.username) = lower(key);
+
+  ELSIF kind = 'post' THEN
+    SELECT jsonb_build_object(
+      'title', a.display_name || ' (@' || a.username || ')',
+      'description', nullif(o.content, ''),
+      'image', coalesce(
+        nullif(o.poster_url, ''),
+        nullif(o.thumbnail_url, ''),
+        CASE WHEN o.media_type = 'image' THEN nullif(o.media_url, '') END,
+        nullif(a.avatar_url, '')
+      ),
+      'published_at', o.created_at
+    ) INTO preview
+    FROM public.posts p
+    JOIN public.posts o ON o.id = CASE WHEN p.is_repost AND p.repost_of IS NOT NULL THEN p.repost_of ELSE p.id END
+    JOIN public.profiles a ON a.id = o.user_id
+    WHERE p.id = key::uuid
+      AND NOT EXISTS (
+        SELECT 1 FROM public.groups g
+        WHERE g.id IN (p.group_id, o.group_id) AND g.type <> 'public'
+      );
+
+  ELSIF kind = 'status' THEN
+    SELECT jsonb_build_object(
+      'title', 'Status from ' || a.display_name || ' (@' || a.username || ')',
+      'description', nullif(s.text_overlay->>'text', ''),
+      'image', coalesce(
+        nullif(s.poster_url, ''),
+        nullif(s.thumbnail_url, ''),
+        CASE WHEN s.media_type = 'image' THEN s.media_url END
+      ),
+      'published_at', s.created_at
+    ) INTO preview
+    FROM public.statuses s
+    JOIN public.profiles a ON a.id = s.user_id
+    WHERE s.id = key::uuid AND s.expires_at > now();
+
+  ELSIF kind = 'forum_post' THEN
+    SELECT jsonb_build_object(
+      'title', fp.title || coalesce(' · f/' || f.name, ''),
+      'description', nullif(fp.content, ''),
+      'image', CASE WHEN fp.media_type = 'image' THEN nullif(fp.media_url, '') END,
+      'published_at', fp.created_at
+    ) INTO preview
+    FROM public.forum_posts fp
+    LEFT JOIN public.forums f ON f.id = fp.forum_id
+    WHERE fp.id = key::uuid;
+
+  ELSIF kind = 'invite' THEN
+    SELECT jsonb_build_object(
+      'title', 'Join ' || g.name,
+      'description', 'You''re invited to the ' || g.name || ' gazebo ('
+        || (SELECT count(*) FROM public.gazebo_members m WHERE m.gazebo_id = g.id) || ' members).',
+      'image', nullif(g.icon_url, '')
+    ) INTO preview
+    FROM public.gazebo_invites i
+    JOIN public.gazebos g ON g.id = i.gazebo_id
+    WHERE i.invite_code = key
+      AND (i.expires_at IS NULL OR i.expires_at > now())
+      AND (i.max_uses IS NULL OR i.uses_count < i.max_uses);
+  END IF;
+
+  RETURN preview;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.link_preview(text, text) TO anon, authenticated;
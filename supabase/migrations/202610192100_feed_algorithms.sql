@@ -0,0 +1,142 @@
+-- 1. posts.like_count and posts.comment_count have been there since the start but nothing
+--    kept them current (the app counts per post). The For You ranking reads them, so
+--    maintain them the way repost_count already is, and backfill all three once.
+CREATE OR REPLACE FUNCTION public.update_post_like_count()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF (TG_OP = 'INSERT' AND NEW.entity_type = 'post') THEN
+    UPDATE public.posts SET like_count = like_count + 1 WHERE id = NEW.entity_id;
+  ELSIF (TG_OP = 'DELETE' AND OLD.entity_type = 'post') THEN
+    UPDATE public.posts SET like_count = GREATEST(0, like_count - 1) WHERE id = OLD.entity_id;
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_update_post_like_count ON public.likes;
+CREATE TRIGGER trigger_update_post_like_count
+AFTER INSERT OR DELETE ON public.likes
+FOR EACH ROW EXECUTE FUNCTION public.update_post_like_count();
+
+CREATE OR REPLACE FUNCTION public.update_post_comment_count()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF (TG_OP = 'INSERT') THEN
+    UPDATE public.posts SET comment_count = comment_count + 1 WHERE id = NEW.post_id;
+  ELSIF (TG_OP = 'DELETE') THEN
+    UPDATE public.posts SET comment_count = GREATEST(0, comment_count - 1) WHERE id = OLD.post_id;
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_update_post_comment_count ON public.comments;
+CREATE TRIGGER trigger_update_post_comment_count
+AFTER INSERT OR DELETE ON public.comments
+FOR EACH ROW EXECUTE FUNCTION public.update_post_comment_count();
+
+UPDATE public.posts p SET
+  like_count = (SELECT count(*) FROM public.likes l WHERE l.entity_type = 'post' AND l.entity_id = p.id),
+  comment_count = (SELECT count(*) FROM public.comments c WHERE c.post_id = p.id),
+  repost_count = (SELECT count(*) FROM public.posts r WHERE r.repost_of = p.id);
+
+-- 2. Keyset pagination for the chronological feeds (Following, Latest): pages continue
+--    after the last (created_at, id) seen, so new posts never shift or repeat a page.
+CREATE INDEX IF NOT EXISTS posts_created_at_id_idx ON public.posts (created_at DESC, id DESC);
+
+-- 3. The For You feed: posts from the last 14 days ranked by
+--      proximity * (1 + ln(1 + likes + 2*comments + 3*reposts)) / (age in hours + 2)^1.5
+--    where proximity starts at 1 and adds 1 if you follow the author, 0.5 if they follow
+--    you and 0.25 per like from someone you follow (up to 4). Engagement comes from the
+--    counters maintained in section 1.
+--    The first page (as_of NULL) ranks the feed once and keeps the result here, keyed by
+--    ranked_as_of; later pages pass that back and read the same ranking, continuing after
+--    the last (score, id) seen. Likes arriving between pages can't move a post across the
+--    cursor, so nothing is skipped or repeated.
+CREATE TABLE public.for_you_snapshots (
+  user_id uuid NOT NULL,
+  ranked_as_of timestamp with time zone NOT NULL,
+  post_id uuid NOT NULL,
+  score double precision NOT NULL,
+
+  CONSTRAINT for_you_snapshots_pkey PRIMARY KEY (user_id, ranked_as_of, post_id),
+  CONSTRAINT for_you_snapshots_user_id_fkey FOREIGN KEY (user_id) REFERENCES auth.users(id) ON DELETE CASCADE,
+  CONSTRAINT for_you_snapshots_post_id_fkey FOREIGN KEY (post_id) REFERENCES public.posts(id) ON DELETE CASCADE
+);
+
+ALTER TABLE public.for_you_snapshots ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users manage their own feed rankings" ON public.for_you_snapshots
+FOR ALL USING (user_id = auth.uid()) WITH CHECK (user_id = auth.uid());
+
+-- Runs as the caller, so RLS decides which posts get ranked. Only the best 1000 by
+-- everything but the likes-from-people-you-follow term are candidates; that term needs
+-- a count per post, so it's only worked out for them. Rankings are dropped an hour
+-- after they're made, when the same user loads a new first page; a feed scrolled past
+-- that just ends.
+CREATE OR REPLACE FUNCTION public.for_you_feed(
+  page_size integer DEFAULT 10,
+  as_of timestamptz DEFAULT NULL,
+  after_score double precision DEFAULT NULL,
+  after_id uuid DEFAULT NULL,
+  only_media_type text DEFAULT NULL
+)
+RETURNS TABLE (id uuid, score double precision, ranked_as_of timestamptz) AS $$
+#variable_conflict use_column
+DECLARE
+  ranked_at timestamptz := for_you_feed.as_of;
+BEGIN
+  IF ranked_at IS NULL THEN
+    -- clock_timestamp, not now(): two first pages (Feed and Shots) mustn't share a key
+    ranked_at := clock_timestamp();
+
+    DELETE FROM public.for_you_snapshots s
+    WHERE s.user_id = auth.uid() AND s.ranked_as_of < ranked_at - interval '1 hour';
+
+    INSERT INTO public.for_you_snapshots (user_id, ranked_as_of, post_id, score)
+    WITH my_following AS (
+      SELECT f.following_id FROM public.follows f WHERE f.follower_id = auth.uid()
+    ),
+    my_followers AS (
+      SELECT f.follower_id FROM public.follows f WHERE f.following_id = auth.uid()
+    ),
+    scored AS (
+      SELECT
+        p.id,
+        1
+        + CASE WHEN p.user_id IN (SELECT following_id FROM my_following) THEN 1.0 ELSE 0 END
+        + CASE WHEN p.user_id IN (SELECT follower_id FROM my_followers) THEN 0.5 ELSE 0 END AS proximity,
+        (1 + ln(1 + coalesce(p.like_count, 0) + 2 * coalesce(p.comment_count, 0) + 3 * coalesce(p.repost_count, 0)))
+        / power(extract(epoch FROM (ranked_at - p.created_at)) / 3600 + 2, 1.5) AS weight
+      FROM public.posts p
+      WHERE p.created_at <= ranked_at
+        AND p.created_at > ranked_at - interval '14 days'
+        AND (only_media_type IS NULL OR p.media_type = only_media_type)
+    ),
+    candidates AS (
+      SELECT * FROM scored ORDER BY proximity * weight DESC LIMIT 1000
+    )
+    SELECT
+      auth.uid(),
+      ranked_at,
+      c.id,
+      (c.proximity + 0.25 * least(4, (
+        SELECT count(*) FROM public.likes l
+        WHERE l.entity_type = 'post' AND l.entity_id = c.id
+          AND l.user_id IN (SELECT following_id FROM my_following)
+      ))) * c.weight
+    FROM candidates c;
+  END IF;
+
+  RETURN QUERY
+  SELECT s.post_id, s.score, s.ranked_as_of
+  FROM public.for_you_snapshots s
+  WHERE s.user_id = auth.uid()
+    AND s.ranked_as_of = ranked_at
+    AND (after_score IS NULL OR (s.score, s.post_id) < (after_score, after_id))
+  ORDER BY s.score DESC, s.post_id DESC
+  LIMIT page_size;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.for_you_feed(integer, timestamptz, double precision, uuid, text) TO authenticated;
@@ -0,0 +1,212 @@
+-- 1. Where #hashtags and @mentions appear: one row per tag (or mentioned profile) per
+--    post, comment, forum post or gazebo message, kept in step by the triggers in 3.
+--    Tags are stored lowercase without the #. Rows are only readable by those who can
+--    see what they point at (policies after can_see_mention in 2), so gazebo messages
+--    and private or secret group posts don't leak their tags, authors or mentions.
+CREATE TABLE public.hashtag_uses (
+  tag text NOT NULL,
+  source_type text NOT NULL CHECK (source_type IN ('post', 'comment', 'forum_post', 'gazebo_message')),
+  source_id uuid NOT NULL,
+  author_id uuid NOT NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+
+  CONSTRAINT hashtag_uses_pkey PRIMARY KEY (source_type, source_id, tag),
+  CONSTRAINT hashtag_uses_author_id_fkey FOREIGN KEY (author_id) REFERENCES public.profiles(id) ON DELETE CASCADE
+);
+
+CREATE INDEX hashtag_uses_tag_idx ON public.hashtag_uses (tag, created_at DESC);
+
+CREATE TABLE public.mentions (
+  mentioned_id uuid NOT NULL,
+  source_type text NOT NULL CHECK (source_type IN ('post', 'comment', 'forum_post', 'gazebo_message')),
+  source_id uuid NOT NULL,
+  author_id uuid NOT NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+
+  CONSTRAINT mentions_pkey PRIMARY KEY (source_type, source_id, mentioned_id),
+  CONSTRAINT mentions_mentioned_id_fkey FOREIGN KEY (mentioned_id) REFERENCES public.profiles(id) ON DELETE CASCADE,
+  CONSTRAINT mentions_author_id_fkey FOREIGN KEY (author_id) REFERENCES public.profiles(id) ON DELETE CASCADE
+);
+
+CREATE INDEX mentions_mentioned_id_idx ON public.mentions (mentioned_id, created_at DESC);
+
+ALTER TABLE public.hashtag_uses ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.mentions ENABLE ROW LEVEL SECURITY;
+
+-- 2. Parsing. The client renders links with the same rules (lib/richText.ts):
+--      #tag       letters, digits, underscores, not all digits, not inside a word or URL
+--      @username  3-20 letters, digits, underscores, not inside a word or an email address
+ALTER TYPE public.notification_type ADD VALUE IF NOT EXISTS 'mention';
+
+CREATE OR REPLACE FUNCTION public.extract_hashtags(body text)
+RETURNS text[] AS $$
+  SELECT coalesce(array_agg(DISTINCT lower(m[1])), ARRAY[]::text[])
+  FROM regexp_matches(coalesce(body, ''), '(?:^|[^[:alnum:]_&/#])#([[:alnum:]_]{1,64})', 'g') AS m
+  WHERE m[1] ~ '[^[:digit:]_]';
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION public.extract_mentions(body text)
+RETURNS text[] AS $$
+  SELECT coalesce(array_agg(DISTINCT lower(m[1])), ARRAY[]::text[])
+  FROM regexp_matches(coalesce(body, ''), '(?:^|[^[:alnum:]_@./])@([A-Za-z0-9_]{3,20})', 'g') AS m;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Whether someone can open a source (a mentioned user what they were mentioned in, any
+-- reader a tag's post): gazebo messages need membership, posts and comments in private
+-- or secret groups need group membership
+CREATE OR REPLACE FUNCTION public.can_see_mention(kind text, source uuid, viewer uuid)
+RETURNS boolean AS $$
+  SELECT CASE kind
+    WHEN 'gazebo_message' THEN EXISTS (
+      SELECT 1 FROM public.gazebo_messages gm
+      JOIN public.gazebo_channels c ON c.id = gm.channel_id
+      JOIN public.gazebo_members m ON m.gazebo_id = c.gazebo_id AND m.user_id = viewer
+      WHERE gm.id = source
+    )
+    WHEN 'post' THEN NOT EXISTS (
+      SELECT 1 FROM public.posts p JOIN public.groups g ON g.id = p.group_id
+      WHERE p.id = source AND g.type <> 'public'
+        AND NOT EXISTS (SELECT 1 FROM public.group_members gm WHERE gm.group_id = g.id AND gm.user_id = viewer)
+    )
+    WHEN 'comment' THEN NOT EXISTS (
+      SELECT 1 FROM public.comments cm
+      JOIN public.posts p ON p.id = cm.post_id
+      JOIN public.groups g ON g.id = p.group_id
+      WHERE cm.id = source AND g.type <> 'public'
+        AND NOT EXISTS (SELECT 1 FROM public.group_members gm WHERE gm.group_id = g.id AND gm.user_id = viewer)
+    )
+    ELSE true
+  END;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- The author always sees their own rows, and a mention is visible to the person mentioned
+CREATE POLICY "Hashtags are viewable with their source" ON public.hashtag_uses
+  FOR SELECT TO authenticated USING (
+    author_id = auth.uid() OR public.can_see_mention(source_type, source_id, auth.uid())
+  );
+CREATE POLICY "Mentions are viewable with their source or by those involved" ON public.mentions
+  FOR SELECT TO authenticated USING (
+    mentioned_id = auth.uid() OR author_id = auth.uid()
+    OR public.can_see_mention(source_type, source_id, auth.uid())
+  );
+
+-- Brings one source's rows in line with its text. Only people mentioned for the first
+-- time are notified, so an edit doesn't notify twice; a mention edited out takes its
+-- notification with it.
+CREATE OR REPLACE FUNCTION public.index_hashtags_and_mentions(
+  kind text, source uuid, author uuid, body text, written_at timestamptz, notify boolean
+)
+RETURNS void AS $$
+DECLARE
+  tags text[] := public.extract_hashtags(body);
+  mentioned_ids uuid[];
+  removed_ids uuid[];
+  new_id uuid;
+BEGIN
+  DELETE FROM public.hashtag_uses
+  WHERE source_type = kind AND source_id = source AND tag <> ALL (tags);
+
+  INSERT INTO public.hashtag_uses (tag, source_type, source_id, author_id, created_at)
+  SELECT t, kind, source, author, written_at FROM unnest(tags) AS t
+  ON CONFLICT DO NOTHING;
+
+  SELECT coalesce(array_agg(p.id), ARRAY[]::uuid[]) INTO mentioned_ids
+  FROM public.profiles p
+  WHERE lower(p.username) = ANY (public.extract_mentions(body)) AND p.id <> author;
+
+  WITH removed AS (
+    DELETE FROM public.mentions
+    WHERE source_type = kind AND source_id = source AND mentioned_id <> ALL (mentioned_ids)
+    RETURNING mentioned_id
+  )
+  SELECT coalesce(array_agg(mentioned_id), ARRAY[]::uuid[]) INTO removed_ids FROM removed;
+
+  -- notify is off for the backfill below, which also runs before 'mention' is committed
+  IF notify THEN
+    DELETE FROM public.notifications
+    WHERE type = 'mention' AND entity_id = source AND recipient_id = ANY (removed_ids);
+  END IF;
+
+  FOR new_id IN
+    INSERT INTO public.mentions (mentioned_id, source_type, source_id, author_id, created_at)
+    SELECT m, kind, source, author, written_at FROM unnest(mentioned_ids) AS m
+    ON CONFLICT DO NOTHING
+    RETURNING mentioned_id
+  LOOP
+    IF notify AND public.can_see_mention(kind, source, new_id) THEN
+      INSERT INTO public.notifications (recipient_id, actor_id, type, entity_id)
+      VALUES (new_id, author, 'mention', source);
+    END IF;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- 3. One trigger function for all four tables; the kind comes in as the trigger argument.
+--    Forum posts are indexed on their title and body together.
+CREATE OR REPLACE FUNCTION public.sync_hashtags_and_mentions()
+RETURNS TRIGGER AS $$
+DECLARE
+  kind text := TG_ARGV[0];
+  row_data jsonb;
+BEGIN
+  IF (TG_OP = 'DELETE') THEN
+    DELETE FROM public.hashtag_uses WHERE source_type = kind AND source_id = OLD.id;
+    DELETE FROM public.mentions WHERE source_type = kind AND source_id = OLD.id;
+    DELETE FROM public.notifications WHERE type = 'mention' AND entity_id = OLD.id;
+    RETURN NULL;
+  END IF;
+
+  row_data := to_jsonb(NEW);
+  PERFORM public.index_hashtags_and_mentions(
+    kind,
+    NEW.id,
+    (row_data->>'user_id')::uuid,
+    concat_ws(E'\n', row_data->>'title', row_data->>'content'),
+    coalesce((row_data->>'created_at')::timestamptz, now()),
+    true
+  );
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER sync_post_hashtags_and_mentions
+AFTER INSERT OR UPDATE OF content OR DELETE ON public.posts
+FOR EACH ROW EXECUTE FUNCTION public.sync_hashtags_and_mentions('post');
+
+CREATE TRIGGER sync_comment_hashtags_and_mentions
+AFTER INSERT OR UPDATE OF content OR DELETE ON public.comments
+FOR EACH ROW EXECUTE FUNCTION public.sync_hashtags_and_mentions('comment');
+
+CREATE TRIGGER sync_forum_post_hashtags_and_mentions
+AFTER INSERT OR UPDATE OF title, content OR DELETE ON public.forum_posts
+FOR EACH ROW EXECUTE FUNCTION public.sync_hashtags_and_mentions('forum_post');
+
+CREATE TRIGGER sync_gazebo_message_hashtags_and_mentions
+AFTER INSERT OR UPDATE OF content OR DELETE ON public.gazebo_messages
+FOR EACH ROW EXECUTE FUNCTION public.sync_hashtags_and_mentions('gazebo_message');
+
+-- 4. Index what's already there, without notifying anyone about old mentions
+SELECT public.index_hashtags_and_mentions('post', id, user_id, content, created_at, false) FROM public.posts;
+SELECT public.index_hashtags_and_mentions('comment', id, user_id, content, created_at, false) FROM public.comments;
+SELECT public.index_hashtags_and_mentions('forum_post', id, user_id, concat_ws(E'\n', title, content), created_at, false) FROM public.forum_posts;
+SELECT public.index_hashtags_and_mentions('gazebo_message', id, user_id, content, created_at, false) FROM public.gazebo_messages;
+
+-- 5. Tags used most in the last `window_hours`, counting each author once per tag so
+--    one person can't trend a tag alone. Only public places count: posts and comments
+--    outside private or secret groups, and forum posts.
+CREATE OR REPLACE FUNCTION public.trending_hashtags(window_hours integer DEFAULT 72, max_tags integer DEFAULT 8)
+RETURNS TABLE (tag text, authors bigint, uses bigint) AS $$
+  SELECT h.tag, count(DISTINCT h.author_id), count(*)
+  FROM public.hashtag_uses h
+  LEFT JOIN public.comments cm ON h.source_type = 'comment' AND cm.id = h.source_id
+  LEFT JOIN public.posts p ON p.id = CASE h.source_type WHEN 'post' THEN h.source_id WHEN 'comment' THEN cm.post_id END
+  LEFT JOIN public.groups g ON g.id = p.group_id
+  WHERE h.created_at > now() - make_interval(hours => window_hours)
+    AND h.source_type <> 'gazebo_message'
+    AND (g.id IS NULL OR g.type = 'public')
+  GROUP BY h.tag
+  ORDER BY count(DISTINCT h.author_id) DESC, count(*) DESC, max(h.created_at) DESC
+  LIMIT max_tags;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.trending_hashtags(integer, integer) TO authenticated;
@@ -0,0 +1,86 @@
+-- 1. Posts written now and published later. The media is uploaded when the post is
+--    scheduled, so a row carries the same columns a post insert would.
+CREATE TABLE public.scheduled_posts (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL,
+  content text NOT NULL DEFAULT '',
+  media_url text,
+  media_type text,
+  thumbnail_url text,
+  poster_url text,
+  attachments jsonb NOT NULL DEFAULT '[]'::jsonb,
+  publish_at timestamp with time zone NOT NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+
+  CONSTRAINT scheduled_posts_pkey PRIMARY KEY (id),
+  CONSTRAINT scheduled_posts_user_id_fkey FOREIGN KEY (user_id) REFERENCES public.profiles(id) ON DELETE CASCADE,
+  CONSTRAINT scheduled_posts_attachments_valid CHECK (public.attachments_are_valid(attachments))
+);
+
+CREATE INDEX scheduled_posts_publish_at_idx ON public.scheduled_posts (publish_at);
+CREATE INDEX scheduled_posts_user_id_idx ON public.scheduled_posts (user_id, publish_at);
+
+ALTER TABLE public.scheduled_posts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own scheduled posts" ON public.scheduled_posts
+  FOR SELECT TO authenticated USING (user_id = auth.uid());
+CREATE POLICY "Users can schedule own posts" ON public.scheduled_posts
+  FOR INSERT TO authenticated WITH CHECK (user_id = auth.uid() AND publish_at > now());
+CREATE POLICY "Users can reschedule own posts" ON public.scheduled_posts
+  FOR UPDATE TO authenticated USING (user_id = auth.uid()) WITH CHECK (user_id = auth.uid() AND publish_at > now());
+CREATE POLICY "Users can cancel own scheduled posts" ON public.scheduled_posts
+  FOR DELETE TO authenticated USING (user_id = auth.uid());
+
+-- 2. A cancelled scheduled post gives its uploads back (see the storage accounting
+--    migration). A published one hands them to the post, which has the schedule's id
+--    as its client_id, so those are kept.
+CREATE OR REPLACE FUNCTION public.release_unpublished_scheduled_media()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.posts WHERE client_id = OLD.id) THEN
+    PERFORM public.queue_media_orphans(OLD.user_id, public.row_media_urls(to_jsonb(OLD)));
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER on_scheduled_post_deleted_queue_media
+  AFTER DELETE ON public.scheduled_posts
+  FOR EACH ROW EXECUTE FUNCTION public.release_unpublished_scheduled_media();
+
+-- 3. The publisher. A pg_cron job (section 4) runs it every minute: each due row
+--    becomes an ordinary post dated now, so it lands at the top of the feeds and the
+--    posts INSERT reaches realtime subscribers like any other new post. Retrying is
+--    safe: the insert is idempotent on client_id.
+CREATE OR REPLACE FUNCTION public.publish_due_scheduled_posts()
+RETURNS SETOF uuid AS $$
+DECLARE
+  due public.scheduled_posts;
+BEGIN
+  FOR due IN
+    SELECT * FROM public.scheduled_posts
+    WHERE publish_at <= now()
+    ORDER BY publish_at
+    LIMIT 200
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    INSERT INTO public.posts (user_id, content, media_url, media_type, thumbnail_url, poster_url, attachments, client_id)
+    VALUES (due.user_id, due.content, due.media_url, due.media_type, due.thumbnail_url, due.poster_url, due.attachments, due.id)
+    ON CONFLICT (client_id) DO NOTHING;
+
+    DELETE FROM public.scheduled_posts WHERE id = due.id;
+    RETURN NEXT due.id;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Only the scheduled job (service role) may publish
+REVOKE EXECUTE ON FUNCTION public.publish_due_scheduled_posts() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.publish_due_scheduled_posts() TO service_role;
+
+-- 4. Run it every minute inside the database, which works on any Supabase plan. Vercel
+--    only allows daily crons on Hobby, so api/publish-scheduled-posts.ts is there for
+--    setups that would rather trigger it from outside (then unschedule this job).
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule('publish-scheduled-posts', '* * * * *', 'SELECT public.publish_due_scheduled_posts()');
@@ -0,0 +1,259 @@
+-- 1. Polls. A poll belongs to whatever points at it through poll_id (a post, a forum
+--    post, a gazebo message, or a scheduled post until it's published); the text of
+--    that row is the question. Options are fixed once created.
+CREATE TABLE public.polls (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  author_id uuid NOT NULL,
+  multiple boolean NOT NULL DEFAULT false,
+  anonymous boolean NOT NULL DEFAULT false,
+  closes_at timestamp with time zone,
+  voter_count integer NOT NULL DEFAULT 0,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+
+  CONSTRAINT polls_pkey PRIMARY KEY (id),
+  CONSTRAINT polls_author_id_fkey FOREIGN KEY (author_id) REFERENCES public.profiles(id) ON DELETE CASCADE
+);
+
+CREATE TABLE public.poll_options (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  poll_id uuid NOT NULL,
+  position smallint NOT NULL,
+  label text NOT NULL CHECK (char_length(label) BETWEEN 1 AND 100),
+  vote_count integer NOT NULL DEFAULT 0,
+
+  CONSTRAINT poll_options_pkey PRIMARY KEY (id),
+  CONSTRAINT poll_options_poll_id_fkey FOREIGN KEY (poll_id) REFERENCES public.polls(id) ON DELETE CASCADE,
+  CONSTRAINT poll_options_position_key UNIQUE (poll_id, position)
+);
+
+-- One row per voter per poll: the primary key is the one-vote rule. A multiple-choice
+-- vote lists every option picked; changing a vote rewrites the row.
+CREATE TABLE public.poll_votes (
+  poll_id uuid NOT NULL,
+  user_id uuid NOT NULL,
+  option_ids uuid[] NOT NULL CHECK (cardinality(option_ids) > 0),
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+
+  CONSTRAINT poll_votes_pkey PRIMARY KEY (poll_id, user_id),
+  CONSTRAINT poll_votes_poll_id_fkey FOREIGN KEY (poll_id) REFERENCES public.polls(id) ON DELETE CASCADE,
+  CONSTRAINT poll_votes_user_id_fkey FOREIGN KEY (user_id) REFERENCES public.profiles(id) ON DELETE CASCADE
+);
+
+ALTER TABLE public.posts ADD COLUMN poll_id uuid REFERENCES public.polls(id) ON DELETE SET NULL;
+ALTER TABLE public.forum_posts ADD COLUMN poll_id uuid REFERENCES public.polls(id) ON DELETE SET NULL;
+ALTER TABLE public.gazebo_messages ADD COLUMN poll_id uuid REFERENCES public.polls(id) ON DELETE SET NULL;
+ALTER TABLE public.scheduled_posts ADD COLUMN poll_id uuid REFERENCES public.polls(id) ON DELETE SET NULL;
+
+CREATE INDEX posts_poll_id_idx ON public.posts (poll_id) WHERE poll_id IS NOT NULL;
+CREATE INDEX forum_posts_poll_id_idx ON public.forum_posts (poll_id) WHERE poll_id IS NOT NULL;
+CREATE INDEX gazebo_messages_poll_id_idx ON public.gazebo_messages (poll_id) WHERE poll_id IS NOT NULL;
+
+-- 2. Who can see (and so vote in) a poll: its author, and anyone who can see a row it's
+--    attached to. Gazebo messages need membership, posts in private or secret groups
+--    need group membership.
+CREATE OR REPLACE FUNCTION public.can_view_poll(poll uuid, viewer uuid)
+RETURNS boolean AS $$
+  SELECT EXISTS (SELECT 1 FROM public.polls WHERE id = poll AND author_id = viewer)
+    OR EXISTS (
+      SELECT 1 FROM public.posts p
+      LEFT JOIN public.groups g ON g.id = p.group_id
+      WHERE p.poll_id = poll
+        AND (g.id IS NULL OR g.type = 'public'
+          OR EXISTS (SELECT 1 FROM public.group_members gm WHERE gm.group_id = g.id AND gm.user_id = viewer))
+    )
+    OR EXISTS (SELECT 1 FROM public.forum_posts WHERE poll_id = poll)
+    OR EXISTS (
+      SELECT 1 FROM public.gazebo_messages gm
+      JOIN public.gazebo_channels c ON c.id = gm.channel_id
+      JOIN public.gazebo_members m ON m.gazebo_id = c.gazebo_id AND m.user_id = viewer
+      WHERE gm.poll_id = poll
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+ALTER TABLE public.polls ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.poll_options ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.poll_votes ENABLE ROW LEVEL SECURITY;
+
+-- Writes go through create_poll() and vote_in_poll() below
+CREATE POLICY "Polls are viewable where they're posted" ON public.polls
+  FOR SELECT TO authenticated USING (public.can_view_poll(id, auth.uid()));
+CREATE POLICY "Poll options are viewable where they're posted" ON public.poll_options
+  FOR SELECT TO authenticated USING (public.can_view_poll(poll_id, auth.uid()));
+CREATE POLICY "Users can view own votes" ON public.poll_votes
+  FOR SELECT TO authenticated USING (user_id = auth.uid());
+
+-- 3. Only the poll's author can attach it, to their own rows
+CREATE OR REPLACE FUNCTION public.check_poll_attachment()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.poll_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.polls WHERE id = NEW.poll_id AND author_id = NEW.user_id
+  ) THEN
+    RAISE EXCEPTION 'Poll not found' USING ERRCODE = 'foreign_key_violation';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- A poll goes with the last row it's attached to
+CREATE OR REPLACE FUNCTION public.delete_detached_poll()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.poll_id IS NOT NULL
+    AND NOT EXISTS (SELECT 1 FROM public.posts WHERE poll_id = OLD.poll_id)
+    AND NOT EXISTS (SELECT 1 FROM public.forum_posts WHERE poll_id = OLD.poll_id)
+    AND NOT EXISTS (SELECT 1 FROM public.gazebo_messages WHERE poll_id = OLD.poll_id)
+    AND NOT EXISTS (SELECT 1 FROM public.scheduled_posts WHERE poll_id = OLD.poll_id)
+  THEN
+    DELETE FROM public.polls WHERE id = OLD.poll_id;
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER check_post_poll BEFORE INSERT OR UPDATE OF poll_id ON public.posts
+  FOR EACH ROW EXECUTE FUNCTION public.check_poll_attachment();
+CREATE TRIGGER check_forum_post_poll BEFORE INSERT OR UPDATE OF poll_id ON public.forum_posts
+  FOR EACH ROW EXECUTE FUNCTION public.check_poll_attachment();
+CREATE TRIGGER check_gazebo_message_poll BEFORE INSERT OR UPDATE OF poll_id ON public.gazebo_messages
+  FOR EACH ROW EXECUTE FUNCTION public.check_poll_attachment();
+CREATE TRIGGER check_scheduled_post_poll BEFORE INSERT OR UPDATE OF poll_id ON public.scheduled_posts
+  FOR EACH ROW EXECUTE FUNCTION public.check_poll_attachment();
+
+CREATE TRIGGER on_post_deleted_delete_poll AFTER DELETE ON public.posts
+  FOR EACH ROW EXECUTE FUNCTION public.delete_detached_poll();
+CREATE TRIGGER on_forum_post_deleted_delete_poll AFTER DELETE ON public.forum_posts
+  FOR EACH ROW EXECUTE FUNCTION public.delete_detached_poll();
+CREATE TRIGGER on_gazebo_message_deleted_delete_poll AFTER DELETE ON public.gazebo_messages
+  FOR EACH ROW EXECUTE FUNCTION public.delete_detached_poll();
+CREATE TRIGGER on_scheduled_post_deleted_delete_poll AFTER DELETE ON public.scheduled_posts
+  FOR EACH ROW EXECUTE FUNCTION public.delete_detached_poll();
+
+-- 4. Creating and voting
+CREATE OR REPLACE FUNCTION public.create_poll(
+  options text[], multiple boolean DEFAULT false, anonymous boolean DEFAULT false, closes_at timestamptz DEFAULT NULL
+)
+RETURNS uuid AS $$
+DECLARE
+  labels text[];
+  new_poll uuid;
+BEGIN
+  SELECT coalesce(array_agg(btrim(o) ORDER BY n), ARRAY[]::text[]) INTO labels
+  FROM unnest(options) WITH ORDINALITY AS t(o, n)
+  WHERE btrim(o) <> '';
+
+  IF cardinality(labels) NOT BETWEEN 2 AND 10 THEN
+    RAISE EXCEPTION 'A poll needs between 2 and 10 options' USING ERRCODE = 'check_violation';
+  END IF;
+  IF create_poll.closes_at IS NOT NULL AND create_poll.closes_at <= now() THEN
+    RAISE EXCEPTION 'A poll has to close in the future' USING ERRCODE = 'check_violation';
+  END IF;
+
+  INSERT INTO public.polls (author_id, multiple, anonymous, closes_at)
+  VALUES (auth.uid(), create_poll.multiple, create_poll.anonymous, create_poll.closes_at)
+  RETURNING id INTO new_poll;
+
+  INSERT INTO public.poll_options (poll_id, position, label)
+  SELECT new_poll, n - 1, label FROM unnest(labels) WITH ORDINALITY AS t(label, n);
+
+  RETURN new_poll;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Casts, changes or (with no choices) withdraws the caller's vote
+CREATE OR REPLACE FUNCTION public.vote_in_poll(poll uuid, choices uuid[])
+RETURNS void AS $$
+DECLARE
+  target public.polls;
+BEGIN
+  -- Votes on one poll queue up here, so the recount below never misses one
+  SELECT * INTO target FROM public.polls WHERE id = poll FOR UPDATE;
+
+  IF target.id IS NULL OR NOT public.can_view_poll(poll, auth.uid()) THEN
+    RAISE EXCEPTION 'Poll not found' USING ERRCODE = 'no_data_found';
+  END IF;
+  IF target.closes_at IS NOT NULL AND target.closes_at <= now() THEN
+    RAISE EXCEPTION 'This poll is closed' USING ERRCODE = 'check_violation';
+  END IF;
+
+  choices := ARRAY(SELECT DISTINCT unnest(coalesce(choices, ARRAY[]::uuid[])));
+  IF NOT target.multiple AND cardinality(choices) > 1 THEN
+    RAISE EXCEPTION 'Pick one option' USING ERRCODE = 'check_violation';
+  END IF;
+  IF EXISTS (
+    SELECT 1 FROM unnest(choices) AS c
+    WHERE NOT EXISTS (SELECT 1 FROM public.poll_options o WHERE o.id = c AND o.poll_id = poll)
+  ) THEN
+    RAISE EXCEPTION 'Not an option of this poll' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF cardinality(choices) = 0 THEN
+    DELETE FROM public.poll_votes WHERE poll_id = poll AND user_id = auth.uid();
+  ELSE
+    INSERT INTO public.poll_votes (poll_id, user_id, option_ids)
+    VALUES (poll, auth.uid(), choices)
+    ON CONFLICT (poll_id, user_id) DO UPDATE SET option_ids = EXCLUDED.option_ids, updated_at = now();
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Who picked what, for polls that aren't anonymous
+CREATE OR REPLACE FUNCTION public.poll_voters(poll uuid)
+RETURNS TABLE (option_id uuid, user_id uuid) AS $$
+  SELECT unnest(v.option_ids), v.user_id
+  FROM public.poll_votes v
+  JOIN public.polls p ON p.id = v.poll_id
+  WHERE v.poll_id = poll AND NOT p.anonymous AND public.can_view_poll(poll, auth.uid());
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.create_poll(text[], boolean, boolean, timestamptz) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.vote_in_poll(uuid, uuid[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.poll_voters(uuid) TO authenticated;
+
+-- 5. Tallies. Every vote change (including a voter's account going away) recounts the
+--    poll, and the polls row update is what clients listen to for live results.
+CREATE OR REPLACE FUNCTION public.recount_poll_votes()
+RETURNS TRIGGER AS $$
+DECLARE
+  poll uuid := coalesce(NEW.poll_id, OLD.poll_id);
+BEGIN
+  UPDATE public.poll_options o SET vote_count = (
+    SELECT count(*) FROM public.poll_votes v WHERE v.poll_id = poll AND o.id = ANY (v.option_ids)
+  )
+  WHERE o.poll_id = poll;
+
+  UPDATE public.polls SET voter_count = (SELECT count(*) FROM public.poll_votes v WHERE v.poll_id = poll)
+  WHERE id = poll;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER on_poll_vote_recount
+  AFTER INSERT OR UPDATE OR DELETE ON public.poll_votes
+  FOR EACH ROW EXECUTE FUNCTION public.recount_poll_votes();
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.polls;
+
+-- 6. Scheduled posts carry their poll over when they're published
+CREATE OR REPLACE FUNCTION public.publish_due_scheduled_posts()
+RETURNS SETOF uuid AS $$
+DECLARE
+  due public.scheduled_posts;
+BEGIN
+  FOR due IN
+    SELECT * FROM public.scheduled_posts
+    WHERE publish_at <= now()
+    ORDER BY publish_at
+    LIMIT 200
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    INSERT INTO public.posts (user_id, content, media_url, media_type, thumbnail_url, poster_url, attachments, client_id, poll_id)
+    VALUES (due.user_id, due.content, due.media_url, due.media_type, due.thumbnail_url, due.poster_url, due.attachments, due.id, due.poll_id)
+    ON CONFLICT (client_id) DO NOTHING;
+
+    DELETE FROM public.scheduled_posts WHERE id = due.id;
+    RETURN NEXT due.id;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
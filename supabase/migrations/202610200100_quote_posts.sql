@@ -0,0 +1,168 @@
+-- 1. Quote posts are reposts with something of their own: text or attachments above the
+--    embedded original. They're ordinary posts, so likes and comments on a quote stay on
+--    the quote. repost_count keeps counting every repost; quote_count counts just these.
+ALTER TABLE public.posts ADD COLUMN quote_count integer NOT NULL DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS posts_repost_of_idx ON public.posts (repost_of, created_at DESC) WHERE repost_of IS NOT NULL;
+
+-- Same rule as isQuotePost() in lib/repository.ts
+CREATE OR REPLACE FUNCTION public.is_quote_post(is_repost boolean, content text, attachments jsonb)
+RETURNS boolean AS $$
+  SELECT coalesce(is_repost, false)
+    AND (btrim(coalesce(content, '')) <> '' OR coalesce(jsonb_array_length(attachments), 0) > 0);
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Editing a bare repost's text turns it into a quote (and back), so updates count too
+CREATE OR REPLACE FUNCTION public.update_quote_count()
+RETURNS TRIGGER AS $$
+DECLARE
+  was_quote boolean := TG_OP <> 'INSERT' AND public.is_quote_post(OLD.is_repost, OLD.content, OLD.attachments);
+  is_quote boolean := TG_OP <> 'DELETE' AND public.is_quote_post(NEW.is_repost, NEW.content, NEW.attachments);
+BEGIN
+  IF was_quote AND NOT is_quote AND OLD.repost_of IS NOT NULL THEN
+    UPDATE public.posts SET quote_count = GREATEST(0, quote_count - 1) WHERE id = OLD.repost_of;
+  ELSIF is_quote AND NOT was_quote AND NEW.repost_of IS NOT NULL THEN
+    UPDATE public.posts SET quote_count = quote_count + 1 WHERE id = NEW.repost_of;
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER trigger_update_quote_count
+AFTER INSERT OR DELETE OR UPDATE OF content, attachments ON public.posts
+FOR EACH ROW EXECUTE FUNCTION public.update_quote_count();
+
+UPDATE public.posts p SET quote_count = (
+  SELECT count(*) FROM public.posts q
+  WHERE q.repost_of = p.id AND public.is_quote_post(q.is_repost, q.content, q.attachments)
+);
+
+-- 2. The original's author hears about reposts and quotes. The notification points at
+--    the repost itself, and goes away with it.
+ALTER TYPE public.notification_type ADD VALUE IF NOT EXISTS 'repost';
+ALTER TYPE public.notification_type ADD VALUE IF NOT EXISTS 'quote';
+
+CREATE OR REPLACE FUNCTION public.handle_repost_notification()
+RETURNS TRIGGER AS $$
+DECLARE
+  original_author uuid;
+BEGIN
+  IF (TG_OP = 'DELETE') THEN
+    DELETE FROM public.notifications WHERE type IN ('repost', 'quote') AND entity_id = OLD.id;
+    RETURN NULL;
+  END IF;
+
+  SELECT user_id INTO original_author FROM public.posts WHERE id = NEW.repost_of;
+
+  IF original_author IS NOT NULL AND original_author <> NEW.user_id THEN
+    INSERT INTO public.notifications (recipient_id, actor_id, type, entity_id)
+    VALUES (
+      original_author,
+      NEW.user_id,
+      (CASE WHEN public.is_quote_post(NEW.is_repost, NEW.content, NEW.attachments) THEN 'quote' ELSE 'repost' END)::public.notification_type,
+      NEW.id
+    );
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER on_repost_notify
+AFTER INSERT ON public.posts
+FOR EACH ROW WHEN (NEW.repost_of IS NOT NULL)
+EXECUTE FUNCTION public.handle_repost_notification();
+
+CREATE TRIGGER on_repost_deleted_clear_notification
+AFTER DELETE ON public.posts
+FOR EACH ROW WHEN (OLD.repost_of IS NOT NULL OR OLD.is_repost)
+EXECUTE FUNCTION public.handle_repost_notification();
+
+-- 3. Link previews (see the link previews migration) show a bare repost as its original,
+--    but a quote is the quoter's own post: it previews as itself. The original still has
+--    to be public for either to get a preview.
+CREATE OR REPLACE FUNCTION public.link_preview(kind text, key text)
+RETURNS jsonb AS $$
+DECLARE
+  preview jsonb;
+BEGIN
+  IF kind IN ('post', 'status', 'forum_post')
+     AND key !~* '^[0-9a-f]{8}-([0-9a-f]{4}-){3}[0-9a-f]{12}$' THEN
+    RETURN NULL;
+  END IF;
+
+  IF kind = 'profile' THEN
+    SELECT jsonb_build_object(
+      'title', p.display_name || ' (@' || p.username || ')',
+      'description', nullif(p.bio, ''),
+      'image', nullif(p.avatar_url, '')
+    ) INTO preview
+    FROM public.profiles p
+    WHERE lower(p.username) = lower(key);
+
+  ELSIF kind = 'post' THEN
+    SELECT jsonb_build_object(
+      'title', a.display_name || ' (@' || a.username || ')',
+      'description', nullif(o.content, ''),
+      'image', coalesce(
+        nullif(o.poster_url, ''),
+        nullif(o.thumbnail_url, ''),
+        CASE WHEN o.media_type = 'image' THEN nullif(o.media_url, '') END,
+        nullif(a.avatar_url, '')
+      ),
+      'published_at', o.created_at
+    ) INTO preview
+    FROM public.posts p
+    LEFT JOIN public.posts r ON r.id = p.repost_of
+    JOIN public.posts o ON o.id = CASE
+      WHEN p.is_repost AND p.repost_of IS NOT NULL AND NOT public.is_quote_post(p.is_repost, p.content, p.attachments)
+      THEN p.repost_of ELSE p.id END
+    JOIN public.profiles a ON a.id = o.user_id
+    WHERE p.id = key::uuid
+      AND NOT EXISTS (
+        SELECT 1 FROM public.groups g
+        WHERE g.id IN (p.group_id, r.group_id) AND g.type <> 'public'
+      );
+
+  ELSIF kind = 'status' THEN
+    SELECT jsonb_build_object(
+      'title', 'Status from ' || a.display_name || ' (@' || a.username || ')',
+      'description', nullif(s.text_overlay->>'text', ''),
+      'image', coalesce(
+        nullif(s.poster_url, ''),
+        nullif(s.thumbnail_url, ''),
+        CASE WHEN s.media_type = 'image' THEN s.media_url END
+      ),
+      'published_at', s.created_at
+    ) INTO preview
+    FROM public.statuses s
+    JOIN public.profiles a ON a.id = s.user_id
+    WHERE s.id = key::uuid AND s.expires_at > now();
+
+  ELSIF kind = 'forum_post' THEN
+    SELECT jsonb_build_object(
+      'title', fp.title || coalesce(' · f/' || f.name, ''),
+      'description', nullif(fp.content, ''),
+      'image', CASE WHEN fp.media_type = 'image' THEN nullif(fp.media_url, '') END,
+      'published_at', fp.created_at
+    ) INTO preview
+    FROM public.forum_posts fp
+    LEFT JOIN public.forums f ON f.id = fp.forum_id
+    WHERE fp.id = key::uuid;
+
+  ELSIF kind = 'invite' THEN
+    SELECT jsonb_build_object(
+      'title', 'Join ' || g.name,
+      'description', 'You''re invited to the ' || g.name || ' gazebo ('
+        || (SELECT count(*) FROM public.gazebo_members m WHERE m.gazebo_id = g.id) || ' members).',
+      'image', nullif(g.icon_url, '')
+    ) INTO preview
+    FROM public.gazebo_invites i
+    JOIN public.gazebos g ON g.id = i.gazebo_id
+    WHERE i.invite_code = key
+      AND (i.expires_at IS NULL OR i.expires_at > now())
+      AND (i.max_uses IS NULL OR i.uses_count < i.max_uses);
+  END IF;
+
+  RETURN preview;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
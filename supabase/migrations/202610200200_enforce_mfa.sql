@@ -0,0 +1,34 @@
+-- 1. Two-factor on the server, not just in the app. Once someone has a verified factor,
+--    a password-only (aal1) session can't read or write anything behind RLS until the
+--    challenge is passed; without a factor nothing changes. Email and password changes
+--    go through Supabase Auth, which already refuses them from an aal1 session when a
+--    factor is set up (insufficient_aal).
+CREATE OR REPLACE FUNCTION public.mfa_satisfied()
+RETURNS boolean AS $$
+  SELECT coalesce(auth.jwt()->>'aal', 'aal1') = 'aal2'
+    OR NOT EXISTS (
+      SELECT 1 FROM auth.mfa_factors f WHERE f.user_id = auth.uid() AND f.status = 'verified'
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- 2. A restrictive policy on every table with RLS, ANDed with the existing ones. The
+--    sub-select makes Postgres check once per statement instead of once per row. Tables
+--    added after this need the same policy; SECURITY DEFINER functions skip RLS and so
+--    skip this too.
+DO $$
+DECLARE
+  t record;
+BEGIN
+  FOR t IN
+    SELECT c.relname
+    FROM pg_class c
+    JOIN pg_namespace n ON n.oid = c.relnamespace
+    WHERE n.nspname = 'public' AND c.relkind = 'r' AND c.relrowsecurity
+  LOOP
+    EXECUTE format(
+      'CREATE POLICY "Second factor required once set up" ON public.%I AS RESTRICTIVE FOR ALL TO authenticated '
+      'USING ((SELECT public.mfa_satisfied())) WITH CHECK ((SELECT public.mfa_satisfied()))',
+      t.relname
+    );
+  END LOOP;
+END $$;
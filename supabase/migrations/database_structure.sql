@@ -1,6 +1,13 @@
 -- WARNING: This schema is for context only and is not meant to be run.
 -- Table order and constraints may not be valid for execution.
 
+CREATE TABLE public.account_deletions (
+  user_id uuid NOT NULL,
+  requested_at timestamp with time zone NOT NULL DEFAULT now(),
+  scheduled_for timestamp with time zone NOT NULL,
+  CONSTRAINT account_deletions_pkey PRIMARY KEY (user_id),
+  CONSTRAINT account_deletions_user_id_fkey FOREIGN KEY (user_id) REFERENCES auth.users(id)
+);
 CREATE TABLE public.active_voice_sessions (
   id uuid NOT NULL DEFAULT gen_random_uuid(),
   channel_id uuid NOT NULL,
@@ -32,6 +39,15 @@ CREATE TABLE public.follows (
   CONSTRAINT follows_follower_id_fkey FOREIGN KEY (follower_id) REFERENCES public.profiles(id),
   CONSTRAINT follows_following_id_fkey FOREIGN KEY (following_id) REFERENCES public.profiles(id)
 );
+CREATE TABLE public.for_you_snapshots (
+  user_id uuid NOT NULL,
+  ranked_as_of timestamp with time zone NOT NULL,
+  post_id uuid NOT NULL,
+  score double precision NOT NULL,
+  CONSTRAINT for_you_snapshots_pkey PRIMARY KEY (user_id, ranked_as_of, post_id),
+  CONSTRAINT for_you_snapshots_user_id_fkey FOREIGN KEY (user_id) REFERENCES auth.users(id),
+  CONSTRAINT for_you_snapshots_post_id_fkey FOREIGN KEY (post_id) REFERENCES public.posts(id)
+);
 CREATE TABLE public.forum_comments (
   id uuid NOT NULL DEFAULT gen_random_uuid(),
   post_id uuid,
@@ -52,9 +68,11 @@ CREATE TABLE public.forum_posts (
   media_type text DEFAULT 'image'::text,
   created_at timestamp with time zone DEFAULT now(),
   comment_count integer DEFAULT 0,
+  poll_id uuid,
   CONSTRAINT forum_posts_pkey PRIMARY KEY (id),
   CONSTRAINT forum_posts_forum_id_fkey FOREIGN KEY (forum_id) REFERENCES public.forums(id),
-  CONSTRAINT forum_posts_user_id_fkey FOREIGN KEY (user_id) REFERENCES public.profiles(id)
+  CONSTRAINT forum_posts_user_id_fkey FOREIGN KEY (user_id) REFERENCES public.profiles(id),
+  CONSTRAINT forum_posts_poll_id_fkey FOREIGN KEY (poll_id) REFERENCES public.polls(id)
 );
 CREATE TABLE public.forums (
   id uuid NOT NULL DEFAULT gen_random_uuid(),
@@ -119,12 +137,18 @@ CREATE TABLE public.gazebo_messages (
   content text NOT NULL,
   media_url text DEFAULT ''::text,
   media_type text DEFAULT 'text'::text,
+  thumbnail_url text,
+  poster_url text,
+  attachments jsonb NOT NULL DEFAULT '[]'::jsonb CHECK (attachments_are_valid(attachments)),
+  client_id uuid UNIQUE,
   created_at timestamp with time zone DEFAULT now(),
   reply_to_id uuid,
+  poll_id uuid,
   CONSTRAINT gazebo_messages_pkey PRIMARY KEY (id),
   CONSTRAINT gazebo_messages_channel_id_fkey FOREIGN KEY (channel_id) REFERENCES public.gazebo_channels(id),
   CONSTRAINT gazebo_messages_user_id_fkey FOREIGN KEY (user_id) REFERENCES public.profiles(id),
-  CONSTRAINT gazebo_messages_reply_to_id_fkey FOREIGN KEY (reply_to_id) REFERENCES public.gazebo_messages(id)
+  CONSTRAINT gazebo_messages_reply_to_id_fkey FOREIGN KEY (reply_to_id) REFERENCES public.gazebo_messages(id),
+  CONSTRAINT gazebo_messages_poll_id_fkey FOREIGN KEY (poll_id) REFERENCES public.polls(id)
 );
 CREATE TABLE public.gazebos (
   id uuid NOT NULL DEFAULT gen_random_uuid(),
@@ -162,6 +186,15 @@ CREATE TABLE public.groups (
   CONSTRAINT groups_pkey PRIMARY KEY (id),
   CONSTRAINT groups_owner_id_fkey FOREIGN KEY (owner_id) REFERENCES public.profiles(id)
 );
+CREATE TABLE public.hashtag_uses (
+  tag text NOT NULL,
+  source_type text NOT NULL CHECK (source_type = ANY (ARRAY['post'::text, 'comment'::text, 'forum_post'::text, 'gazebo_message'::text])),
+  source_id uuid NOT NULL,
+  author_id uuid NOT NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT hashtag_uses_pkey PRIMARY KEY (source_type, source_id, tag),
+  CONSTRAINT hashtag_uses_author_id_fkey FOREIGN KEY (author_id) REFERENCES public.profiles(id)
+);
 CREATE TABLE public.likes (
   user_id uuid NOT NULL,
   entity_id uuid NOT NULL,
@@ -170,6 +203,16 @@ CREATE TABLE public.likes (
   CONSTRAINT likes_pkey PRIMARY KEY (user_id, entity_id, entity_type),
   CONSTRAINT likes_user_id_fkey FOREIGN KEY (user_id) REFERENCES public.profiles(id)
 );
+CREATE TABLE public.mentions (
+  mentioned_id uuid NOT NULL,
+  source_type text NOT NULL CHECK (source_type = ANY (ARRAY['post'::text, 'comment'::text, 'forum_post'::text, 'gazebo_message'::text])),
+  source_id uuid NOT NULL,
+  author_id uuid NOT NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT mentions_pkey PRIMARY KEY (source_type, source_id, mentioned_id),
+  CONSTRAINT mentions_mentioned_id_fkey FOREIGN KEY (mentioned_id) REFERENCES public.profiles(id),
+  CONSTRAINT mentions_author_id_fkey FOREIGN KEY (author_id) REFERENCES public.profiles(id)
+);
 CREATE TABLE public.message_reactions (
   id uuid NOT NULL DEFAULT gen_random_uuid(),
   message_id uuid NOT NULL,
@@ -190,6 +233,11 @@ CREATE TABLE public.messages (
   read boolean DEFAULT false,
   created_at timestamp with time zone DEFAULT now(),
   media_type text DEFAULT 'image'::text,
+  thumbnail_url text,
+  poster_url text,
+  attachments jsonb NOT NULL DEFAULT '[]'::jsonb CHECK (attachments_are_valid(attachments)),
+  client_id uuid UNIQUE,
+  updated_at timestamp with time zone DEFAULT now(),
   reply_to_id uuid,
   group_id uuid,
   is_edited boolean DEFAULT false,
@@ -199,6 +247,22 @@ CREATE TABLE public.messages (
   CONSTRAINT messages_recipient_id_fkey FOREIGN KEY (recipient_id) REFERENCES public.profiles(id),
   CONSTRAINT messages_reply_to_id_fkey FOREIGN KEY (reply_to_id) REFERENCES public.messages(id)
 );
+CREATE TABLE public.mfa_recovery_attempts (
+  user_id uuid NOT NULL,
+  failed_count integer NOT NULL DEFAULT 0,
+  locked_until timestamp with time zone,
+  CONSTRAINT mfa_recovery_attempts_pkey PRIMARY KEY (user_id),
+  CONSTRAINT mfa_recovery_attempts_user_id_fkey FOREIGN KEY (user_id) REFERENCES auth.users(id)
+);
+CREATE TABLE public.mfa_recovery_codes (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL,
+  code_hash text NOT NULL,
+  used_at timestamp with time zone,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT mfa_recovery_codes_pkey PRIMARY KEY (id),
+  CONSTRAINT mfa_recovery_codes_user_id_fkey FOREIGN KEY (user_id) REFERENCES auth.users(id)
+);
 CREATE TABLE public.notifications (
   id uuid NOT NULL DEFAULT gen_random_uuid(),
   recipient_id uuid NOT NULL,
@@ -211,6 +275,36 @@ CREATE TABLE public.notifications (
   CONSTRAINT notifications_recipient_id_fkey FOREIGN KEY (recipient_id) REFERENCES public.profiles(id),
   CONSTRAINT notifications_actor_id_fkey FOREIGN KEY (actor_id) REFERENCES public.profiles(id)
 );
+CREATE TABLE public.poll_options (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  poll_id uuid NOT NULL,
+  position smallint NOT NULL,
+  label text NOT NULL CHECK (char_length(label) >= 1 AND char_length(label) <= 100),
+  vote_count integer NOT NULL DEFAULT 0,
+  CONSTRAINT poll_options_pkey PRIMARY KEY (id),
+  CONSTRAINT poll_options_poll_id_fkey FOREIGN KEY (poll_id) REFERENCES public.polls(id)
+);
+CREATE TABLE public.poll_votes (
+  poll_id uuid NOT NULL,
+  user_id uuid NOT NULL,
+  option_ids ARRAY NOT NULL CHECK (cardinality(option_ids) > 0),
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT poll_votes_pkey PRIMARY KEY (poll_id, user_id),
+  CONSTRAINT poll_votes_poll_id_fkey FOREIGN KEY (poll_id) REFERENCES public.polls(id),
+  CONSTRAINT poll_votes_user_id_fkey FOREIGN KEY (user_id) REFERENCES public.profiles(id)
+);
+CREATE TABLE public.polls (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  author_id uuid NOT NULL,
+  multiple boolean NOT NULL DEFAULT false,
+  anonymous boolean NOT NULL DEFAULT false,
+  closes_at timestamp with time zone,
+  voter_count integer NOT NULL DEFAULT 0,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT polls_pkey PRIMARY KEY (id),
+  CONSTRAINT polls_author_id_fkey FOREIGN KEY (author_id) REFERENCES public.profiles(id)
+);
 CREATE TABLE public.posts (
   id uuid NOT NULL DEFAULT gen_random_uuid(),
   user_id uuid NOT NULL,
@@ -218,16 +312,23 @@ CREATE TABLE public.posts (
   media_url text DEFAULT ''::text,
   created_at timestamp with time zone DEFAULT now(),
   media_type text DEFAULT 'image'::text,
+  thumbnail_url text,
+  poster_url text,
+  attachments jsonb NOT NULL DEFAULT '[]'::jsonb CHECK (attachments_are_valid(attachments)),
+  client_id uuid UNIQUE,
   comment_count integer DEFAULT 0,
   like_count integer DEFAULT 0,
   group_id uuid,
   repost_of uuid,
   repost_count integer DEFAULT 0,
   is_repost boolean DEFAULT false,
+  poll_id uuid,
+  quote_count integer NOT NULL DEFAULT 0,
   CONSTRAINT posts_pkey PRIMARY KEY (id),
   CONSTRAINT posts_user_id_fkey FOREIGN KEY (user_id) REFERENCES public.profiles(id),
   CONSTRAINT posts_group_id_fkey FOREIGN KEY (group_id) REFERENCES public.groups(id),
-  CONSTRAINT posts_repost_of_fkey FOREIGN KEY (repost_of) REFERENCES public.posts(id)
+  CONSTRAINT posts_repost_of_fkey FOREIGN KEY (repost_of) REFERENCES public.posts(id),
+  CONSTRAINT posts_poll_id_fkey FOREIGN KEY (poll_id) REFERENCES public.polls(id)
 );
 CREATE TABLE public.profiles (
   id uuid NOT NULL,
@@ -245,11 +346,33 @@ CREATE TABLE public.profiles (
   CONSTRAINT profiles_pkey PRIMARY KEY (id),
   CONSTRAINT profiles_id_fkey FOREIGN KEY (id) REFERENCES auth.users(id)
 );
+CREATE TABLE public.reserved_usernames (
+  username text NOT NULL,
+  CONSTRAINT reserved_usernames_pkey PRIMARY KEY (username)
+);
+CREATE TABLE public.scheduled_posts (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL,
+  content text NOT NULL DEFAULT ''::text,
+  media_url text,
+  media_type text,
+  thumbnail_url text,
+  poster_url text,
+  attachments jsonb NOT NULL DEFAULT '[]'::jsonb CHECK (attachments_are_valid(attachments)),
+  publish_at timestamp with time zone NOT NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  poll_id uuid,
+  CONSTRAINT scheduled_posts_pkey PRIMARY KEY (id),
+  CONSTRAINT scheduled_posts_user_id_fkey FOREIGN KEY (user_id) REFERENCES public.profiles(id),
+  CONSTRAINT scheduled_posts_poll_id_fkey FOREIGN KEY (poll_id) REFERENCES public.polls(id)
+);
 CREATE TABLE public.statuses (
   id uuid NOT NULL DEFAULT uuid_generate_v4(),
   user_id uuid NOT NULL,
   media_url text NOT NULL,
   media_type text NOT NULL CHECK (media_type = ANY (ARRAY['image'::text, 'video'::text])),
+  thumbnail_url text,
+  poster_url text,
   text_overlay jsonb DEFAULT '{}'::jsonb,
   created_at timestamp with time zone NOT NULL DEFAULT now(),
   expires_at timestamp with time zone NOT NULL,
@@ -257,3 +380,18 @@ CREATE TABLE public.statuses (
   CONSTRAINT statuses_pkey PRIMARY KEY (id),
   CONSTRAINT statuses_user_id_fkey FOREIGN KEY (user_id) REFERENCES public.profiles(id)
 );
+CREATE TABLE public.storage_orphans (
+  name text NOT NULL,
+  user_id uuid NOT NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT storage_orphans_pkey PRIMARY KEY (name)
+);
+CREATE TABLE public.storage_usage (
+  user_id uuid NOT NULL,
+  bytes bigint NOT NULL DEFAULT 0,
+  object_count integer NOT NULL DEFAULT 0,
+  quota_bytes bigint CHECK (quota_bytes IS NULL OR quota_bytes >= 0),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT storage_usage_pkey PRIMARY KEY (user_id),
+  CONSTRAINT storage_usage_user_id_fkey FOREIGN KEY (user_id) REFERENCES public.profiles(id)
+);